@@ -3,6 +3,7 @@ import 'reflect-metadata';
 import { container } from '@platform/di/container';
 import { PlatformTokens } from '@platform/di/tokens';
 import type { AppConfig } from '@platform/config/app-config';
+import { JobScheduler } from '@platform/jobs/job-scheduler';
 import { initializeTelemetry, TelemetryController } from '@platform/observability/opentelemetry';
 import { createRoutes } from '@platform/http/routes';
 import type { LoggerPort } from '@shared/logging/logger.port';
@@ -32,8 +33,12 @@ const bootstrap = async () => {
 
   logger.info('🦊 Elysia is running', messageContext);
 
+  const scheduler = container.resolve(JobScheduler);
+  scheduler.start();
+
   const shutdown = async (signal: string) => {
     logger.warn('Received shutdown signal, closing server', { signal });
+    scheduler.stop();
 
     try {
       await app.stop();
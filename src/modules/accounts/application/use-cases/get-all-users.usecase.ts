@@ -0,0 +1,22 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import {
+  type GetAllUsersQuery,
+  type GetAllUsersReturnType,
+  UserRepository,
+} from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+
+@injectable()
+export class GetAllUsersUseCase implements IUseCase<GetAllUsersQuery, GetAllUsersReturnType> {
+  constructor(@inject(AccountsModuleTokens.UserRepository) private readonly userRepository: UserRepository) {}
+
+  async execute(query: GetAllUsersQuery): Promise<GetAllUsersReturnType> {
+    const users = await this.userRepository.getAll(query);
+    users.result.forEach(user => user.hiddenPassword());
+
+    return users;
+  }
+}
@@ -0,0 +1,23 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { IUser, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { NotFoundError } from '@shared/errors/error-mapper';
+
+@injectable()
+export class GetUserByIdUseCase implements IUseCase<UserId, IUser> {
+  constructor(@inject(AccountsModuleTokens.UserRepository) private readonly userRepository: UserRepository) {}
+
+  async execute(id: UserId): Promise<IUser> {
+    const user = await this.userRepository.getByIdAnyStatus(id);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    user.hiddenPassword();
+    return user;
+  }
+}
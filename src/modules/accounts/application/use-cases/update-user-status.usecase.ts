@@ -0,0 +1,56 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
+import type { IUser, UserId, UserStatus } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
+import type { RefreshTokenRevokedAt } from '@modules/auth/domain/entities/refresh-token.entity';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { ForbiddenError, NotFoundError } from '@shared/errors/error-mapper';
+
+export interface UpdateUserStatusInput {
+  id: UserId;
+  status: UserStatus;
+  /** The administrator making the change. */
+  actorId: UserId;
+}
+
+/**
+ * Activates, deactivates or suspends a user. Leaving `active` signs the user out everywhere: refresh tokens are
+ * revoked and access tokens still in flight are denylisted, so the change takes effect on the next request.
+ */
+@injectable()
+export class UpdateUserStatusUseCase implements IUseCase<UpdateUserStatusInput, IUser> {
+  constructor(
+    @inject(AccountsModuleTokens.UserRepository) private readonly userRepository: UserRepository,
+    @inject(AuthModuleTokens.RefreshTokenRepository)
+    private readonly refreshTokenRepository: RefreshTokenRepository,
+    @inject(AccessTokenDenylistService)
+    private readonly accessTokenDenylist: AccessTokenDenylistService
+  ) {}
+
+  async execute({ id, status, actorId }: UpdateUserStatusInput): Promise<IUser> {
+    // Otherwise the last administrator could lock everyone out of user management.
+    if (id === actorId) {
+      throw new ForbiddenError('Administrators cannot change their own status');
+    }
+
+    const user = await this.userRepository.updateStatus(id, status);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    if (status !== EUserStatus.active) {
+      const revokedAt = new Date() as RefreshTokenRevokedAt;
+      await this.refreshTokenRepository.revokeAllByUserId(id, revokedAt);
+      await this.accessTokenDenylist.revokeAllForUser(id, revokedAt);
+    }
+
+    user.hiddenPassword();
+    return user;
+  }
+}
@@ -0,0 +1,47 @@
+export enum ERole {
+  user = 'user',
+  moderator = 'moderator',
+  admin = 'admin',
+}
+
+export const Permissions = {
+  PostsCreate: 'posts:create',
+  PostsRead: 'posts:read',
+  PostsUpdate: 'posts:update',
+  PostsDelete: 'posts:delete',
+  PostsManageAny: 'posts:manage-any',
+  PostsPublish: 'posts:publish',
+  UsersManage: 'users:manage',
+} as const;
+
+export type Permission = (typeof Permissions)[keyof typeof Permissions];
+
+const userPermissions: readonly Permission[] = [
+  Permissions.PostsCreate,
+  Permissions.PostsRead,
+  Permissions.PostsUpdate,
+  Permissions.PostsDelete,
+];
+
+const moderatorPermissions: readonly Permission[] = [
+  ...userPermissions,
+  Permissions.PostsManageAny,
+  Permissions.PostsPublish,
+];
+
+const rolePermissions: Record<ERole, readonly Permission[]> = {
+  [ERole.user]: userPermissions,
+  [ERole.moderator]: moderatorPermissions,
+  [ERole.admin]: Object.values(Permissions),
+};
+
+export const isRole = (value: unknown): value is ERole => Object.values(ERole).includes(value as ERole);
+
+export const getRolePermissions = (role: ERole): readonly Permission[] => rolePermissions[role] ?? [];
+
+export const roleHasPermission = (role: ERole, permission: Permission): boolean =>
+  getRolePermissions(role).includes(permission);
+
+/** What a caller may do: the permissions of its role, narrowed to the scopes of the API key it used, if any. */
+export const getEffectivePermissions = (role: ERole, scopes?: readonly Permission[]): readonly Permission[] =>
+  scopes ? getRolePermissions(role).filter(permission => scopes.includes(permission)) : getRolePermissions(role);
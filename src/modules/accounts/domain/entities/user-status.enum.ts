@@ -0,0 +1,7 @@
+/** Lifecycle of an account; only `active` users can sign in. */
+export enum EUserStatus {
+  active = 'active',
+  inactive = 'inactive',
+  suspended = 'suspended',
+  deleted = 'deleted',
+}
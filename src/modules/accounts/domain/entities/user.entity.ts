@@ -1,17 +1,21 @@
 import * as argon2 from 'argon2';
 import { StrictBuilder } from 'builder-pattern';
 
+import { ERole, type Permission, roleHasPermission } from '@modules/accounts/domain/entities/role.entity';
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
 import { argon2Config } from '@modules/auth/infrastructure/config/auth.config';
+import { AccountStatusError } from '@shared/errors/error-mapper';
 import { Brand } from '@shared/kernel/brand.type';
-import { EStatus } from '@shared/kernel/status.enum';
 
 export type UserId = Brand<string, 'UserId'>;
 export type BUserName = Brand<string, 'BUserName'>;
 export type UserPassword = Brand<string, 'PasswordUser'>;
 export type UserEmail = Brand<string, 'EmailUser'>;
 export type UserCreatedAt = Brand<Date, 'UserCreatedAt'>;
-export type UserStatus = Brand<EStatus, 'UserStatus'>;
+export type UserStatus = Brand<EUserStatus, 'UserStatus'>;
+export type UserRole = Brand<ERole, 'UserRole'>;
 export type UserUpdatedAt = Brand<Date, 'UserUpdatedAt'>;
+export type UserEmailVerifiedAt = Brand<Date, 'UserEmailVerifiedAt'>;
 
 export interface IUser {
   id: UserId;
@@ -19,12 +23,18 @@ export interface IUser {
   password: UserPassword;
   email: UserEmail;
   status: UserStatus;
+  role: UserRole;
   createdAt?: UserCreatedAt;
   updatedAt?: UserUpdatedAt;
+  emailVerifiedAt?: UserEmailVerifiedAt;
 
   comparePassword(password: UserPassword): Promise<boolean>;
   hiddenPassword(): void;
   setHashPassword(password: UserPassword): Promise<void>;
+  hasPermission(permission: Permission): boolean;
+  isEmailVerified(): boolean;
+  isActive(): boolean;
+  assertActive(): void;
 }
 
 export class User implements IUser {
@@ -33,13 +43,34 @@ export class User implements IUser {
   password: UserPassword = '' as UserPassword;
   email: UserEmail = '' as UserEmail;
   status: UserStatus = '' as UserStatus;
+  role: UserRole = ERole.user as UserRole;
   createdAt?: UserCreatedAt;
   updatedAt?: UserUpdatedAt;
+  emailVerifiedAt?: UserEmailVerifiedAt;
 
   public async comparePassword(password: UserPassword): Promise<boolean> {
     return argon2.verify(this.password, password);
   }
 
+  public hasPermission(permission: Permission): boolean {
+    return roleHasPermission(this.role, permission);
+  }
+
+  public isEmailVerified(): boolean {
+    return Boolean(this.emailVerifiedAt);
+  }
+
+  public isActive(): boolean {
+    return this.status === EUserStatus.active;
+  }
+
+  /** Throws an `AccountStatusError` naming the status unless the account is active. */
+  public assertActive(): void {
+    if (!this.isActive()) {
+      throw new AccountStatusError(this.status);
+    }
+  }
+
   public hiddenPassword(): void {
     this.password = '' as UserPassword;
   }
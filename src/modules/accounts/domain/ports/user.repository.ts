@@ -1,8 +1,18 @@
 import type { GetAllMetaType, GetAllParamsType } from '@shared/kernel/types';
-import type { BUserName, IUser, UserEmail, UserId } from '@modules/accounts/domain/entities/user.entity';
+import type {
+  BUserName,
+  IUser,
+  UserEmail,
+  UserEmailVerifiedAt,
+  UserId,
+  UserPassword,
+  UserStatus,
+} from '@modules/accounts/domain/entities/user.entity';
 
 export interface GetAllUsersQuery extends GetAllParamsType {
+  /** Case-insensitive substring of the name. */
   name?: BUserName;
+  /** Case-insensitive substring of the email address. */
   email?: UserEmail;
 }
 
@@ -13,6 +23,23 @@ export interface GetAllUsersReturnType {
 
 export abstract class UserRepository {
   abstract create(user: IUser): Promise<IUser>;
+  /** Only finds active users; use `getByEmailAnyStatus` where the status matters. */
   abstract getByEmail(email: UserEmail): Promise<IUser | undefined>;
+  abstract getByEmailAnyStatus(email: UserEmail): Promise<IUser | undefined>;
+  /** Only finds active users; use `getByIdAnyStatus` where the status matters. */
   abstract getById(id: UserId): Promise<IUser | undefined>;
+  /** Lists users in every status, for administration. */
+  abstract getAll(query: GetAllUsersQuery): Promise<GetAllUsersReturnType>;
+  /** Like `getById`, but also finds inactive, suspended and deleted users. */
+  abstract getByIdAnyStatus(id: UserId): Promise<IUser | undefined>;
+  abstract markEmailVerified(id: UserId, verifiedAt: UserEmailVerifiedAt): Promise<void>;
+  /** Stores an already hashed password. */
+  abstract updatePassword(id: UserId, password: UserPassword): Promise<void>;
+  /** Returns the updated user, or `undefined` when it does not exist. */
+  abstract updateStatus(id: UserId, status: UserStatus): Promise<IUser | undefined>;
+  abstract updateName(id: UserId, name: BUserName): Promise<void>;
+  /** Replaces the address with one the user has just confirmed. */
+  abstract updateEmail(id: UserId, email: UserEmail, verifiedAt: UserEmailVerifiedAt): Promise<void>;
+  /** Removes the user; sessions, tokens and authored posts go with it through foreign key cascades. */
+  abstract delete(id: UserId): Promise<void>;
 }
@@ -1,25 +1,56 @@
 import { Builder } from 'builder-pattern';
-import { and, eq } from 'drizzle-orm';
+import { and, desc, eq, ilike, or, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
 import { injectable } from 'tsyringe';
 
+import { ERole } from '@modules/accounts/domain/entities/role.entity';
+
 import {
   type BUserName,
   type IUser,
   User,
   type UserCreatedAt,
   type UserEmail,
+  type UserEmailVerifiedAt,
   type UserId,
   type UserPassword,
+  type UserRole,
   type UserStatus,
   type UserUpdatedAt,
 } from '@modules/accounts/domain/entities/user.entity';
-import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
+import {
+  type GetAllUsersQuery,
+  type GetAllUsersReturnType,
+  UserRepository,
+} from '@modules/accounts/domain/ports/user.repository';
 import { db } from '@platform/database/connection';
-import { EStatus } from '@shared/kernel/status.enum';
+import { ValidationError } from '@shared/errors/error-mapper';
+import {
+  buildFilterClause,
+  escapeLikePattern,
+  type FilterWhitelist,
+  parseSortParam,
+  resolveSortTerms,
+  toOrderBy,
+} from '@shared/utils/query-filter.util';
+
 import { type User as DrizzleUser, users } from './user.schema';
 
 @injectable()
 export class UserDrizzleRepository extends UserRepository {
+  // The password hash is never filterable or sortable.
+  private readonly fieldWhitelist: FilterWhitelist = {
+    id: { column: users.id, type: 'uuid' },
+    name: { column: users.name, type: 'string' },
+    email: { column: users.email, type: 'string' },
+    status: { column: users.status, type: 'enum', values: Object.values(EUserStatus) },
+    role: { column: users.role, type: 'enum', values: Object.values(ERole) },
+    createdAt: { column: users.created_at, type: 'date' },
+    updatedAt: { column: users.updated_at, type: 'date' },
+    emailVerifiedAt: { column: users.email_verified_at, type: 'date' },
+  };
+
   async create(user: IUser): Promise<IUser> {
     const result = await db
       .insert(users)
@@ -27,6 +58,8 @@ export class UserDrizzleRepository extends UserRepository {
         name: user.name as string,
         email: user.email as string,
         password: user.password as string,
+        role: user.role,
+        email_verified_at: user.emailVerifiedAt ?? null,
       })
       .returning();
 
@@ -37,24 +70,145 @@ export class UserDrizzleRepository extends UserRepository {
     const result = await db
       .select()
       .from(users)
-      .where(and(eq(users.email, email), eq(users.status, EStatus.active)))
+      .where(and(eq(users.email, email), eq(users.status, EUserStatus.active)))
       .limit(1);
 
     return result[0] ? this.toDomain(result[0]) : undefined;
   }
 
+  async getByEmailAnyStatus(email: UserEmail): Promise<IUser | undefined> {
+    const result = await db.select().from(users).where(eq(users.email, email)).limit(1);
+
+    return result[0] ? this.toDomain(result[0]) : undefined;
+  }
+
   async getById(id: UserId): Promise<IUser | undefined> {
     const result = await db
       .select()
       .from(users)
-      .where(and(eq(users.id, id), eq(users.status, EStatus.active)))
+      .where(and(eq(users.id, id), eq(users.status, EUserStatus.active)))
       .limit(1);
 
     return result[0] ? this.toDomain(result[0]) : undefined;
   }
 
+  async getAll(query: GetAllUsersQuery): Promise<GetAllUsersReturnType> {
+    const { sort, order, page = 1, limit = 10, pagination, cursor, includeTotal = true } = query;
+
+    if (pagination === 'cursor' || cursor) {
+      throw new ValidationError('Cursor pagination is not supported for users');
+    }
+
+    const safeLimit = Number.isInteger(limit) && limit > 0 ? limit : 10;
+    const safePage = Number.isInteger(page) && page > 0 ? page : 1;
+    const whereClause = this.buildWhereClause(query);
+    const requestedSort = parseSortParam(sort, order);
+    const sortTerms = resolveSortTerms(
+      requestedSort.length ? requestedSort : parseSortParam('createdAt', order),
+      this.fieldWhitelist
+    );
+
+    const rows = await db
+      .select()
+      .from(users)
+      .where(whereClause)
+      // The id keeps pages stable when several users share the sort value.
+      .orderBy(...toOrderBy(sortTerms), desc(users.id))
+      .limit(safeLimit)
+      .offset((safePage - 1) * safeLimit);
+    const result = rows.map(row => this.toDomain(row));
+
+    if (!includeTotal) {
+      return { result, meta: { limit: safeLimit, page: safePage } };
+    }
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(users).where(whereClause);
+    const total = Number(count);
+
+    return {
+      result,
+      meta: {
+        limit: safeLimit,
+        page: safePage,
+        total,
+        totalPages: Math.ceil(total / safeLimit),
+      },
+    };
+  }
+
+  async getByIdAnyStatus(id: UserId): Promise<IUser | undefined> {
+    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+
+    return result[0] ? this.toDomain(result[0]) : undefined;
+  }
+
+  async markEmailVerified(id: UserId, verifiedAt: UserEmailVerifiedAt): Promise<void> {
+    await db
+      .update(users)
+      .set({ email_verified_at: verifiedAt as Date, updated_at: new Date() })
+      .where(eq(users.id, id));
+  }
+
+  async updatePassword(id: UserId, password: UserPassword): Promise<void> {
+    await db
+      .update(users)
+      .set({ password: password as string, updated_at: new Date() })
+      .where(eq(users.id, id));
+  }
+
+  async updateStatus(id: UserId, status: UserStatus): Promise<IUser | undefined> {
+    const result = await db
+      .update(users)
+      .set({ status, updated_at: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+
+    return result[0] ? this.toDomain(result[0]) : undefined;
+  }
+
+  async updateName(id: UserId, name: BUserName): Promise<void> {
+    await db
+      .update(users)
+      .set({ name: name as string, updated_at: new Date() })
+      .where(eq(users.id, id));
+  }
+
+  async updateEmail(id: UserId, email: UserEmail, verifiedAt: UserEmailVerifiedAt): Promise<void> {
+    await db
+      .update(users)
+      .set({ email: email as string, email_verified_at: verifiedAt as Date, updated_at: new Date() })
+      .where(eq(users.id, id));
+  }
+
+  async delete(id: UserId): Promise<void> {
+    await db.delete(users).where(eq(users.id, id));
+  }
+
+  private buildWhereClause({ search, name, email, filters = [] }: GetAllUsersQuery): SQL | undefined {
+    const contains = (value: string) => `%${escapeLikePattern(value)}%`;
+    const conditions: SQL[] = [];
+
+    const searchTerm = search?.trim();
+    if (searchTerm) {
+      conditions.push(or(ilike(users.name, contains(searchTerm)), ilike(users.email, contains(searchTerm)))!);
+    }
+    if (name) {
+      conditions.push(ilike(users.name, contains(name)));
+    }
+    if (email) {
+      conditions.push(ilike(users.email, contains(email)));
+    }
+
+    const filterClause = buildFilterClause(filters, this.fieldWhitelist);
+    if (filterClause) {
+      conditions.push(filterClause);
+    }
+
+    return conditions.length ? and(...conditions) : undefined;
+  }
+
   private toDomain(drizzleUser: DrizzleUser): IUser {
-    return Builder(User)
+    const builder = Builder(User)
       .id(drizzleUser.id as UserId)
       .email(drizzleUser.email as UserEmail)
       .name(drizzleUser.name as BUserName)
@@ -62,6 +216,12 @@ export class UserDrizzleRepository extends UserRepository {
       .createdAt(drizzleUser.created_at as UserCreatedAt)
       .updatedAt(drizzleUser.updated_at as UserUpdatedAt)
       .status(drizzleUser.status as UserStatus)
-      .build();
+      .role(drizzleUser.role as UserRole);
+
+    if (drizzleUser.email_verified_at) {
+      builder.emailVerifiedAt(drizzleUser.email_verified_at as UserEmailVerifiedAt);
+    }
+
+    return builder.build();
   }
 }
@@ -1,6 +1,7 @@
 import { index, pgTable, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
 
-import { EStatus } from '@shared/kernel/status.enum';
+import { ERole } from '@modules/accounts/domain/entities/role.entity';
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
 
 export const users = pgTable(
   'users',
@@ -11,13 +12,16 @@ export const users = pgTable(
     password: varchar('password', { length: 255 }).notNull(),
     created_at: timestamp('created_at').defaultNow().notNull(),
     updated_at: timestamp('updated_at').defaultNow().notNull(),
-    status: varchar('status', { length: 30 }).default(EStatus.active).notNull(),
+    status: varchar('status', { length: 30 }).default(EUserStatus.active).notNull(),
+    role: varchar('role', { length: 30 }).default(ERole.user).notNull(),
+    email_verified_at: timestamp('email_verified_at'),
   },
   table => ({
     nameIdx: index('users_name_idx').on(table.name),
     emailIdx: index('users_email_idx').on(table.email),
     statusIdx: index('users_status_idx').on(table.status),
     nameStatusIdx: index('users_name_status_idx').on(table.name, table.status),
+    roleIdx: index('users_role_idx').on(table.role),
   })
 );
 
@@ -0,0 +1,75 @@
+import { Builder } from 'builder-pattern';
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { GetAllUsersUseCase } from '@modules/accounts/application/use-cases/get-all-users.usecase';
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import type { BUserName, UserEmail } from '@modules/accounts/domain/entities/user.entity';
+import type { GetAllUsersQuery } from '@modules/accounts/domain/ports/user.repository';
+import {
+  ErrorResponseDto,
+  GetAllUsersQueryDto,
+  GetAllUsersReturnTypeDto,
+} from '@modules/accounts/interface/http/dtos/user.dto';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { toUserResponse } from '@modules/auth/interface/http/transformers/auth.transformers';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+import { parseFilterParams } from '@shared/utils/query-filter.util';
+
+@injectable()
+export class GetAllUsersController {
+  constructor(
+    @inject(GetAllUsersUseCase) private readonly useCase: GetAllUsersUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.get(
+      '/admin/users',
+      async ({ query, request }) => {
+        try {
+          this.logger.info('Fetching users', { query });
+
+          const filters = parseFilterParams(new URL(request.url).searchParams);
+          const queryParams: GetAllUsersQuery = Builder<GetAllUsersQuery>()
+            .search(query.search)
+            .name(query.name as BUserName | undefined)
+            .email(query.email as UserEmail | undefined)
+            .sort(query.sort)
+            .order(query.order)
+            .page(query.page)
+            .limit(query.limit)
+            .includeTotal(query.includeTotal)
+            .filters(filters)
+            .build();
+
+          const data = await this.useCase.execute(queryParams);
+          this.logger.debug('Fetched users successfully', { count: data.result.length, total: data.meta.total });
+
+          return { result: data.result.map(toUserResponse), meta: data.meta };
+        } catch (error) {
+          const normalizedError = error instanceof Error ? error : new Error('Unknown error');
+          this.logger.error('Failed to fetch users', { error: normalizedError });
+          throw error;
+        }
+      },
+      {
+        beforeHandle: withPermission(Permissions.UsersManage),
+        query: GetAllUsersQueryDto,
+        response: {
+          200: GetAllUsersReturnTypeDto,
+          400: ErrorResponseDto,
+          403: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'List users',
+          description:
+            'Lists users in every status, newest first. `search` matches name or email, `name` and `email` match substrings, and `filter[field][op]=value` works on `id`, `name`, `email`, `status`, `role`, `createdAt`, `updatedAt` and `emailVerifiedAt` (e.g. `filter[status][eq]=suspended`). Admins only',
+          tags: ['Users'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { GetUserByIdUseCase } from '@modules/accounts/application/use-cases/get-user-by-id.usecase';
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { ErrorResponseDto, GetUserResponseDto, UserIdParamsDto } from '@modules/accounts/interface/http/dtos/user.dto';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { toUserResponse } from '@modules/auth/interface/http/transformers/auth.transformers';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+@injectable()
+export class GetUserByIdController {
+  constructor(
+    @inject(GetUserByIdUseCase) private readonly useCase: GetUserByIdUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.get(
+      '/admin/users/:id',
+      async ({ params }) => {
+        const { id } = params as { id: UserId };
+        try {
+          this.logger.info('Fetching user by id', { id });
+          const user = await this.useCase.execute(id);
+
+          this.logger.debug('User fetched successfully', { id });
+          return toUserResponse(user);
+        } catch (error) {
+          const normalizedError = error instanceof Error ? error : new Error('Unknown error');
+          this.logger.error('Failed to fetch user by id', { id, error: normalizedError });
+          throw error;
+        }
+      },
+      {
+        beforeHandle: withPermission(Permissions.UsersManage),
+        params: UserIdParamsDto,
+        response: {
+          200: GetUserResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Get user by ID',
+          description: 'Retrieves a user in any status. Admins only',
+          tags: ['Users'],
+        },
+      }
+    );
+  }
+}
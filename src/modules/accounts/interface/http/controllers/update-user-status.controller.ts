@@ -0,0 +1,63 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { UpdateUserStatusUseCase } from '@modules/accounts/application/use-cases/update-user-status.usecase';
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId, UserStatus } from '@modules/accounts/domain/entities/user.entity';
+import {
+  ErrorResponseDto,
+  UpdateUserStatusRequestDto,
+  UpdateUserStatusResponseDto,
+  UserIdParamsDto,
+} from '@modules/accounts/interface/http/dtos/user.dto';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { toUserResponse } from '@modules/auth/interface/http/transformers/auth.transformers';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+@injectable()
+export class UpdateUserStatusController {
+  constructor(
+    @inject(UpdateUserStatusUseCase) private readonly useCase: UpdateUserStatusUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.patch(
+      '/admin/users/:id/status',
+      async ({ params, body, ...context }) => {
+        const { id } = params as { id: UserId };
+        const { userId } = getAuth(context);
+        try {
+          this.logger.info('Updating user status', { id, status: body.status, actorId: userId });
+          const user = await this.useCase.execute({ id, status: body.status as UserStatus, actorId: userId });
+
+          this.logger.info('User status updated successfully', { id, status: user.status });
+          return toUserResponse(user);
+        } catch (error) {
+          const normalizedError = error instanceof Error ? error : new Error('Unknown error');
+          this.logger.error('Failed to update user status', { id, error: normalizedError });
+          throw error;
+        }
+      },
+      {
+        beforeHandle: withPermission(Permissions.UsersManage),
+        params: UserIdParamsDto,
+        body: UpdateUserStatusRequestDto,
+        response: {
+          200: UpdateUserStatusResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Change user status',
+          description:
+            'Activates, deactivates or suspends a user. Any status other than `active` signs the user out of every session at once. Administrators cannot change their own status. Admins only',
+          tags: ['Users'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { t } from 'elysia';
+
+import { ERole } from '@modules/accounts/domain/entities/role.entity';
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
+import { GetAllMetaDto } from '@shared/dtos/common.dto';
+
+export const UserStatusDto = t.Enum(EUserStatus);
+
+export const UserDto = t.Object({
+  id: t.String(),
+  name: t.String(),
+  email: t.String({ format: 'email' }),
+  status: UserStatusDto,
+  role: t.Enum(ERole),
+  createdAt: t.Optional(t.Date()),
+  updatedAt: t.Optional(t.Date()),
+  emailVerifiedAt: t.Optional(t.Date()),
+});
+
+// Offset pagination only; `filter[field][op]` keys are read from the raw URL like on `GET /posts`.
+export const GetAllUsersQueryDto = t.Object({
+  search: t.Optional(t.String()),
+  name: t.Optional(t.String({ minLength: 1 })),
+  email: t.Optional(t.String({ minLength: 1 })),
+  sort: t.Optional(t.String()),
+  order: t.Optional(t.String()),
+  page: t.Optional(t.Number()),
+  limit: t.Optional(t.Number()),
+  includeTotal: t.Optional(t.Boolean()),
+});
+
+export const GetAllUsersReturnTypeDto = t.Object({
+  result: t.Array(UserDto),
+  meta: GetAllMetaDto,
+});
+
+export const GetUserResponseDto = UserDto;
+
+export const UserIdParamsDto = t.Object({
+  id: t.String({ format: 'uuid' }),
+});
+
+// `deleted` is not offered here: accounts are removed by their owners through `DELETE /me`.
+export const UpdateUserStatusRequestDto = t.Object({
+  status: t.Union([t.Literal(EUserStatus.active), t.Literal(EUserStatus.inactive), t.Literal(EUserStatus.suspended)]),
+});
+
+export const UpdateUserStatusResponseDto = UserDto;
+
+export const ErrorResponseDto = t.Object({
+  name: t.String(),
+  message: t.String(),
+});
+
+export type UserStatusDtoType = typeof UserStatusDto;
+export type UserDtoType = typeof UserDto;
+export type GetAllUsersQueryDtoType = typeof GetAllUsersQueryDto;
+export type GetAllUsersReturnTypeDtoType = typeof GetAllUsersReturnTypeDto;
+export type GetUserResponseDtoType = typeof GetUserResponseDto;
+export type UserIdParamsDtoType = typeof UserIdParamsDto;
+export type UpdateUserStatusRequestDtoType = typeof UpdateUserStatusRequestDto;
+export type UpdateUserStatusResponseDtoType = typeof UpdateUserStatusResponseDto;
+export type ErrorResponseDtoType = typeof ErrorResponseDto;
@@ -1,8 +1,13 @@
+import type { Elysia } from 'elysia';
 import type { DependencyContainer } from 'tsyringe';
 
 import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
 import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
 import { UserDrizzleRepository } from '@modules/accounts/infrastructure/persistence/user.drizzle.repository';
+import { GetAllUsersController } from '@modules/accounts/interface/http/controllers/get-all-users.controller';
+import { GetUserByIdController } from '@modules/accounts/interface/http/controllers/get-user-by-id.controller';
+import { UpdateUserStatusController } from '@modules/accounts/interface/http/controllers/update-user-status.controller';
+import { withAuth } from '@modules/auth/interface/http/guards/auth.guard';
 import type { ModuleDefinition } from '@platform/di/module-definition';
 
 export const accountsModule: ModuleDefinition = {
@@ -10,6 +15,18 @@ export const accountsModule: ModuleDefinition = {
   register(container: DependencyContainer) {
     container.registerSingleton<UserRepository>(AccountsModuleTokens.UserRepository, UserDrizzleRepository);
   },
+  routes(app: Elysia, container: DependencyContainer) {
+    // Grouped so the auth guard only applies to the admin routes, not to everything registered later.
+    app.group('', scoped => {
+      const protectedApp = withAuth(scoped as unknown as Elysia) as unknown as Elysia;
+
+      container.resolve(GetAllUsersController).register(protectedApp);
+      container.resolve(GetUserByIdController).register(protectedApp);
+      container.resolve(UpdateUserStatusController).register(protectedApp);
+
+      return scoped;
+    });
+  },
 };
 
 export default accountsModule;
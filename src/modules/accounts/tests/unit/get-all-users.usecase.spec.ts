@@ -0,0 +1,44 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { GetAllUsersUseCase } from '@modules/accounts/application/use-cases/get-all-users.usecase';
+import type { BUserName, IUser } from '@modules/accounts/domain/entities/user.entity';
+import { type GetAllUsersQuery, UserRepository } from '@modules/accounts/domain/ports/user.repository';
+
+describe('GetAllUsersUseCase', () => {
+  const userRepository = mock<UserRepository>();
+
+  let useCase: GetAllUsersUseCase;
+
+  beforeEach(() => {
+    useCase = new GetAllUsersUseCase(userRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should be return the page of users without password hashes', async () => {
+    //Arrange
+    const query: GetAllUsersQuery = {
+      name: 'ali' as BUserName,
+      page: 2,
+      limit: 10,
+      filters: [{ field: 'status', operator: 'eq', value: 'suspended' }],
+    };
+    const users = [mock<IUser>(), mock<IUser>()];
+    const page = { result: users, meta: { page: 2, limit: 10, total: 12, totalPages: 2 } };
+    userRepository.getAll.mockResolvedValue(page);
+
+    //Act
+    const actual = await useCase.execute(query);
+
+    //Assert
+    expect(actual).toBe(page);
+    expect(userRepository.getAll).toHaveBeenCalledWith(query);
+    for (const user of users) {
+      expect(user.hiddenPassword).toHaveBeenCalled();
+    }
+  });
+});
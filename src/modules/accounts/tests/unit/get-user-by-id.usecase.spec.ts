@@ -0,0 +1,50 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { GetUserByIdUseCase } from '@modules/accounts/application/use-cases/get-user-by-id.usecase';
+import type { IUser, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { NotFoundError } from '@shared/errors/error-mapper';
+
+describe('GetUserByIdUseCase', () => {
+  const userRepository = mock<UserRepository>();
+
+  let useCase: GetUserByIdUseCase;
+
+  beforeEach(() => {
+    useCase = new GetUserByIdUseCase(userRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = 'user-id' as UserId;
+
+  it('should be throw error when the user does not exist', async () => {
+    //Arrange
+    userRepository.getByIdAnyStatus.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute(userId);
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new NotFoundError('User not found'));
+  });
+
+  it('should be return the user in any status without the password hash', async () => {
+    //Arrange
+    const user = mock<IUser>();
+    userRepository.getByIdAnyStatus.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute(userId);
+
+    //Assert
+    expect(actual).toBe(user);
+    expect(userRepository.getByIdAnyStatus).toHaveBeenCalledWith(userId);
+    expect(userRepository.getById).not.toHaveBeenCalled();
+    expect(user.hiddenPassword).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import { UpdateUserStatusUseCase } from '@modules/accounts/application/use-cases/update-user-status.usecase';
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
+import type { IUser, UserId, UserStatus } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { ForbiddenError, NotFoundError } from '@shared/errors/error-mapper';
+
+describe('UpdateUserStatusUseCase', () => {
+  const userRepository = mock<UserRepository>();
+  const refreshTokenRepository = mock<RefreshTokenRepository>();
+  const accessTokenDenylist = mock<AccessTokenDenylistService>();
+
+  let useCase: UpdateUserStatusUseCase;
+
+  beforeEach(() => {
+    useCase = new UpdateUserStatusUseCase(userRepository, refreshTokenRepository, accessTokenDenylist);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const id = faker.string.uuid() as UserId;
+  const actorId = faker.string.uuid() as UserId;
+
+  it('should be throw error when an administrator changes their own status', async () => {
+    //Arrange
+    const input = { id: actorId, status: EUserStatus.suspended as UserStatus, actorId };
+
+    //Act
+    const promise = useCase.execute(input);
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ForbiddenError('Administrators cannot change their own status'));
+    expect(userRepository.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the user does not exist', async () => {
+    //Arrange
+    userRepository.updateStatus.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({ id, status: EUserStatus.suspended as UserStatus, actorId });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new NotFoundError('User not found'));
+    expect(refreshTokenRepository.revokeAllByUserId).not.toHaveBeenCalled();
+    expect(accessTokenDenylist.revokeAllForUser).not.toHaveBeenCalled();
+  });
+
+  it.each([EUserStatus.suspended, EUserStatus.inactive])(
+    'should be revoke every session when the status becomes %s',
+    async status => {
+      //Arrange
+      const user = mock<IUser>();
+      userRepository.updateStatus.mockResolvedValue(user);
+
+      //Act
+      const actual = await useCase.execute({ id, status: status as UserStatus, actorId });
+
+      //Assert
+      expect(actual).toBe(user);
+      expect(userRepository.updateStatus).toHaveBeenCalledWith(id, status);
+      expect(refreshTokenRepository.revokeAllByUserId).toHaveBeenCalledWith(id, expect.any(Date));
+      expect(accessTokenDenylist.revokeAllForUser).toHaveBeenCalledWith(id, expect.any(Date));
+      expect(user.hiddenPassword).toHaveBeenCalled();
+    }
+  );
+
+  it('should be keep sessions when the user is activated', async () => {
+    //Arrange
+    const user = mock<IUser>();
+    userRepository.updateStatus.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute({ id, status: EUserStatus.active as UserStatus, actorId });
+
+    //Assert
+    expect(actual).toBe(user);
+    expect(refreshTokenRepository.revokeAllByUserId).not.toHaveBeenCalled();
+    expect(accessTokenDenylist.revokeAllForUser).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,9 @@
 import { Builder } from 'builder-pattern';
 import { vi } from 'vitest';
 
-import { User, UserPassword } from '@modules/accounts/domain/entities/user.entity';
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
+import { User, UserEmailVerifiedAt, UserPassword, UserStatus } from '@modules/accounts/domain/entities/user.entity';
+import { AccountStatusError } from '@shared/errors/error-mapper';
 
 describe('User', () => {
   afterEach(() => {
@@ -51,4 +53,50 @@ describe('User', () => {
       expect(user.password).not.toBe(password);
     });
   });
+
+  describe('isEmailVerified', () => {
+    it('should be verified once the email has a verification date', () => {
+      // Arrange
+      const unverified = Builder(User).build();
+      const verified = Builder(User)
+        .emailVerifiedAt(new Date() as UserEmailVerifiedAt)
+        .build();
+
+      // Act & Assert
+      expect(unverified.isEmailVerified()).toBe(false);
+      expect(verified.isEmailVerified()).toBe(true);
+    });
+  });
+
+  describe('assertActive', () => {
+    it('should be pass for an active account', () => {
+      // Arrange
+      const user = Builder(User)
+        .status(EUserStatus.active as UserStatus)
+        .build();
+
+      // Act & Assert
+      expect(user.isActive()).toBe(true);
+      expect(() => user.assertActive()).not.toThrow();
+    });
+
+    it.each([
+      [EUserStatus.inactive, 'ACCOUNT_INACTIVE'],
+      [EUserStatus.suspended, 'ACCOUNT_SUSPENDED'],
+      [EUserStatus.deleted, 'ACCOUNT_DELETED'],
+    ])('should be throw an account status error for a %s account', (status, code) => {
+      // Arrange
+      const user = Builder(User)
+        .status(status as UserStatus)
+        .build();
+
+      // Act
+      const act = () => user.assertActive();
+
+      // Assert
+      expect(user.isActive()).toBe(false);
+      expect(act).toThrowError(AccountStatusError);
+      expect(act).toThrowError(expect.objectContaining({ code, status: 403, accountStatus: status }));
+    });
+  });
 });
@@ -11,7 +11,9 @@ import {
   type IRefreshToken,
   type RefreshTokenJti,
   type RefreshTokenPlain,
+  type RefreshTokenLastUsedAt,
   type RefreshTokenRevokedAt,
+  type SessionDevice,
 } from '@modules/auth/domain/entities/refresh-token.entity';
 import { AuthTokenService, type GeneratedAuthTokens } from '@modules/auth/domain/ports/auth-token.service';
 import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
@@ -39,28 +41,30 @@ export abstract class BaseAuthUseCase<Input, Output> implements IUseCase<Input,
     user.hiddenPassword();
   }
 
-  private async createAndStoreRefreshToken(user: IUser, tokens: GeneratedAuthTokens): Promise<void> {
+  private async createAndStoreRefreshToken(
+    user: IUser,
+    tokens: GeneratedAuthTokens,
+    device: SessionDevice,
+    previous?: IRefreshToken
+  ): Promise<void> {
     const refreshToken = Builder(RefreshToken)
       .userId(user.id)
       .jti(tokens.jti)
       .tokenHash(tokens.refreshTokenHash)
       .expiresAt(tokens.refreshTokenExpiresAt)
+      .sessionId(previous?.sessionId)
+      .parentJti(previous?.jti)
+      .userAgent(device.userAgent)
+      .ipAddress(device.ipAddress)
+      .lastUsedAt(new Date() as RefreshTokenLastUsedAt)
       .build();
 
     await this.refreshTokenRepository.create(refreshToken);
   }
 
-  private async generateTokensAndCreateRefreshToken(user: IUser): Promise<GeneratedAuthTokens> {
+  private async issueTokens(user: IUser, device: SessionDevice, previous?: IRefreshToken): Promise<AuthenticatedUser> {
     const tokens = await this.authTokenService.generateTokens(user);
-    await this.createAndStoreRefreshToken(user, tokens);
-    return tokens;
-  }
-
-  protected async generateTokensForUser(user: IUser): Promise<AuthenticatedUser> {
-    const revokedAt = new Date() as RefreshTokenRevokedAt;
-    await this.refreshTokenRepository.revokeAllByUserId(user.id, revokedAt);
-
-    const tokens = await this.generateTokensAndCreateRefreshToken(user);
+    await this.createAndStoreRefreshToken(user, tokens, device, previous);
 
     this.prepareUserForResponse(user);
 
@@ -70,15 +74,18 @@ export abstract class BaseAuthUseCase<Input, Output> implements IUseCase<Input,
     };
   }
 
-  public async generateTokensForUserWithoutRevoke(user: IUser): Promise<AuthenticatedUser> {
-    const tokens = await this.generateTokensAndCreateRefreshToken(user);
-
-    this.prepareUserForResponse(user);
+  /** Opens a new session next to the user's existing ones. */
+  protected async generateTokensForUser(user: IUser, device: SessionDevice = {}): Promise<AuthenticatedUser> {
+    return this.issueTokens(user, device);
+  }
 
-    return {
-      user,
-      tokens,
-    };
+  /** Issues the next token of `previous`'s session, so the session keeps its id across refreshes. */
+  protected async rotateSession(
+    user: IUser,
+    previous: IRefreshToken,
+    device: SessionDevice = {}
+  ): Promise<AuthenticatedUser> {
+    return this.issueTokens(user, device, previous);
   }
 
   protected async revokeRefreshTokenByJti(jti: RefreshTokenJti): Promise<void> {
@@ -97,8 +104,18 @@ export abstract class BaseAuthUseCase<Input, Output> implements IUseCase<Input,
     return jti as RefreshTokenJti;
   }
 
+  /**
+   * Called when the holder of a revoked refresh token presents it again, before the request is rejected.
+   * Only reached for a genuine token, so a guessed or leaked jti alone cannot trigger it.
+   */
+  protected async onRevokedTokenReplayed(_storedToken: IRefreshToken): Promise<void> {}
+
   private async validateTokenStatus(storedToken: IRefreshToken, refreshToken: RefreshTokenPlain): Promise<void> {
     if (storedToken.isRevoked()) {
+      if (await storedToken.compareToken(refreshToken)) {
+        await this.onRevokedTokenReplayed(storedToken);
+      }
+
       throw new UnauthorizedError('Refresh token has been revoked');
     }
 
@@ -3,6 +3,7 @@ import { inject } from 'tsyringe';
 
 import { AuthModuleTokens } from '@modules/auth/module.tokens';
 import {
+  type IRefreshToken,
   type RefreshTokenJti,
   type RefreshTokenPlain,
   type RefreshTokenRevokedAt,
@@ -33,6 +34,21 @@ export abstract class BaseLogoutUseCase<Input, Output> implements IUseCase<Input
     return jti as RefreshTokenJti;
   }
 
+  /**
+   * Loads the stored token and checks its secret. The jti alone is not proof of possession: access tokens of the
+   * same issuance carry it in the clear.
+   */
+  protected async retrieveRefreshToken(refreshToken: RefreshTokenPlain): Promise<IRefreshToken> {
+    const jti = await this.validateRefreshToken(refreshToken);
+    const storedToken = await this.refreshTokenRepository.findByJti(jti);
+
+    if (!storedToken || !(await storedToken.compareToken(refreshToken))) {
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+
+    return storedToken;
+  }
+
   protected async revokeRefreshTokenByJti(jti: RefreshTokenJti): Promise<void> {
     const revokedAt = new Date() as RefreshTokenRevokedAt;
     await this.refreshTokenRepository.revokeByJti(jti, revokedAt);
@@ -0,0 +1,37 @@
+import 'reflect-metadata';
+import { inject } from 'tsyringe';
+
+import type { IUser, UserEmail } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+
+export interface MailLinkInput {
+  email: UserEmail;
+}
+
+export interface MailLinkOutput {
+  success: boolean;
+}
+
+/**
+ * Mails a link to the active account registered with an address. Always reports success, so the endpoints built
+ * on it cannot be used to find out which addresses are registered.
+ */
+export abstract class BaseMailLinkUseCase implements IUseCase<MailLinkInput, MailLinkOutput> {
+  constructor(
+    @inject(AccountsModuleTokens.UserRepository)
+    protected readonly userRepository: UserRepository
+  ) {}
+
+  async execute({ email }: MailLinkInput): Promise<MailLinkOutput> {
+    const user = await this.userRepository.getByEmail(email);
+    if (user) {
+      await this.mailLink(user);
+    }
+
+    return { success: true };
+  }
+
+  protected abstract mailLink(user: IUser): Promise<void>;
+}
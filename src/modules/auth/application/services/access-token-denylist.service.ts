@@ -0,0 +1,77 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type { RefreshTokenJti, RefreshTokenSessionId } from '@modules/auth/domain/entities/refresh-token.entity';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { RevokedAccessTokenRepository } from '@modules/auth/domain/ports/revoked-access-token.repository';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { DEFAULT_ACCESS_TOKEN_EXPIRES_IN } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import { LruCache } from '@shared/cache/lru-cache';
+import { durationToSeconds } from '@shared/utils/duration';
+
+/**
+ * Refuses access tokens before they expire. Revoking a session or a user lists the jti of every token issued
+ * within the last access token lifetime, since any of them may still be in use. Lookups go through an LRU cache:
+ * revoked jtis stay cached until the tokens expire, while "not revoked" answers are reused only for
+ * `accessTokenDenylist.cacheTtlSeconds` so revocations made by other instances are picked up quickly.
+ */
+@injectable()
+export class AccessTokenDenylistService {
+  private readonly cache: LruCache<RefreshTokenJti, boolean>;
+
+  constructor(
+    @inject(AuthModuleTokens.RevokedAccessTokenRepository)
+    private readonly revokedAccessTokenRepository: RevokedAccessTokenRepository,
+    @inject(AuthModuleTokens.RefreshTokenRepository)
+    private readonly refreshTokenRepository: RefreshTokenRepository,
+    @inject(AuthModuleTokens.AuthConfig) private readonly authConfig: AuthConfig
+  ) {
+    this.cache = new LruCache(authConfig.accessTokenDenylist.cacheSize);
+  }
+
+  async revokeSession(userId: UserId, sessionId: RefreshTokenSessionId, now: Date = new Date()): Promise<void> {
+    const jtis = await this.refreshTokenRepository.findJtisIssuedSince(userId, this.issuedSince(now), sessionId);
+    await this.revoke(jtis, now);
+  }
+
+  async revokeAllForUser(userId: UserId, now: Date = new Date()): Promise<void> {
+    const jtis = await this.refreshTokenRepository.findJtisIssuedSince(userId, this.issuedSince(now));
+    await this.revoke(jtis, now);
+  }
+
+  async isRevoked(jti: RefreshTokenJti, now: Date = new Date()): Promise<boolean> {
+    const cached = this.cache.get(jti, now.getTime());
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const revoked = await this.revokedAccessTokenRepository.isRevoked(jti, now);
+    const ttlSeconds = revoked ? this.accessTokenTtlSeconds() : this.authConfig.accessTokenDenylist.cacheTtlSeconds;
+    this.cache.set(jti, revoked, ttlSeconds * 1000, now.getTime());
+
+    return revoked;
+  }
+
+  private async revoke(jtis: RefreshTokenJti[], now: Date): Promise<void> {
+    const ttlSeconds = this.accessTokenTtlSeconds();
+    const expiresAt = new Date(now.getTime() + ttlSeconds * 1000);
+
+    await this.revokedAccessTokenRepository.addMany(jtis, expiresAt);
+    for (const jti of jtis) {
+      this.cache.set(jti, true, ttlSeconds * 1000, now.getTime());
+    }
+
+    // Revocations are rare, so they also clear out entries whose tokens have expired by now.
+    await this.revokedAccessTokenRepository.deleteExpired(now);
+  }
+
+  private issuedSince(now: Date): Date {
+    return new Date(now.getTime() - this.accessTokenTtlSeconds() * 1000);
+  }
+
+  private accessTokenTtlSeconds(): number {
+    return durationToSeconds(this.authConfig.jwt.accessTokenExpiresIn, DEFAULT_ACCESS_TOKEN_EXPIRES_IN);
+  }
+}
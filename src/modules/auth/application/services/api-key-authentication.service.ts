@@ -0,0 +1,82 @@
+import { createHash } from 'crypto';
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { ERole, Permission } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import {
+  type ApiKeyHash,
+  type ApiKeyId,
+  type ApiKeyLastUsedAt,
+  type ApiKeyPlain,
+  type IApiKey,
+  parseApiKeyPrefix,
+} from '@modules/auth/domain/entities/api-key.entity';
+import { ApiKeyRepository } from '@modules/auth/domain/ports/api-key.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import { LruCache } from '@shared/cache/lru-cache';
+import { UnauthorizedError } from '@shared/errors/error-mapper';
+
+export interface ApiKeyPrincipal {
+  apiKeyId: ApiKeyId;
+  userId: UserId;
+  role: ERole;
+  /** Unset when the key may use every permission of the role. */
+  scopes?: Permission[];
+}
+
+const VERIFIED_KEY_CACHE_SIZE = 1_000;
+const VERIFIED_KEY_CACHE_TTL_MS = 10 * 60 * 1000;
+/** `lastUsedAt` is only written when it is older than this, so a busy key does not update its row on every call. */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Resolves an `X-API-Key` header to its owner. Argon2 is too slow to run on every request, so a key that
+ * verified once is remembered by its SHA-256 for a while; the row and the owner are still read each time, so
+ * revoking the key or deactivating the account takes effect immediately on every instance.
+ */
+@injectable()
+export class ApiKeyAuthenticationService {
+  private readonly verifiedKeys = new LruCache<string, ApiKeyHash>(VERIFIED_KEY_CACHE_SIZE);
+
+  constructor(
+    @inject(AuthModuleTokens.ApiKeyRepository) private readonly apiKeyRepository: ApiKeyRepository,
+    @inject(AccountsModuleTokens.UserRepository) private readonly userRepository: UserRepository
+  ) {}
+
+  async authenticate(key: string, now: Date = new Date()): Promise<ApiKeyPrincipal> {
+    const prefix = parseApiKeyPrefix(key);
+    const apiKey = prefix && (await this.apiKeyRepository.findByPrefix(prefix));
+    if (!apiKey || apiKey.isRevoked() || apiKey.isExpired(now) || !(await this.matches(apiKey, key, now))) {
+      throw new UnauthorizedError('Invalid API key');
+    }
+
+    const user = await this.userRepository.getByIdAnyStatus(apiKey.userId);
+    if (!user) {
+      throw new UnauthorizedError('Invalid API key');
+    }
+    user.assertActive();
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      await this.apiKeyRepository.markUsed(apiKey.id, now as ApiKeyLastUsedAt);
+    }
+
+    return { apiKeyId: apiKey.id, userId: user.id, role: user.role as ERole, scopes: apiKey.scopes };
+  }
+
+  private async matches(apiKey: IApiKey, key: string, now: Date): Promise<boolean> {
+    const fingerprint = createHash('sha256').update(key).digest('base64url');
+    if (this.verifiedKeys.get(fingerprint, now.getTime()) === apiKey.keyHash) {
+      return true;
+    }
+
+    const isValid = await apiKey.compareKey(key as ApiKeyPlain);
+    if (isValid) {
+      this.verifiedKeys.set(fingerprint, apiKey.keyHash, VERIFIED_KEY_CACHE_TTL_MS, now.getTime());
+    }
+
+    return isValid;
+  }
+}
@@ -0,0 +1,20 @@
+import type { IdentityProvider } from '@modules/auth/domain/ports/identity-provider';
+import { NotFoundError } from '@shared/errors/error-mapper';
+
+/** The identity providers configured in `oidc.providers`, looked up by the name used in the sign-in URLs. */
+export class IdentityProviderRegistry {
+  private readonly providers: Map<string, IdentityProvider>;
+
+  constructor(providers: IdentityProvider[]) {
+    this.providers = new Map(providers.map(provider => [provider.name as string, provider]));
+  }
+
+  get(name: string): IdentityProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new NotFoundError('Unknown identity provider');
+    }
+
+    return provider;
+  }
+}
@@ -0,0 +1,143 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserEmail, UserId } from '@modules/accounts/domain/entities/user.entity';
+import {
+  ELoginAttemptScope,
+  type ILoginAttempt,
+  type LoginAttemptKey,
+  type LoginAttemptLastFailedAt,
+  type LoginAttemptLockedUntil,
+} from '@modules/auth/domain/entities/login-attempt.entity';
+import { LoginAttemptRepository } from '@modules/auth/domain/ports/login-attempt.repository';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import { PlatformTokens } from '@platform/di/tokens';
+import { TooManyRequestsError } from '@shared/errors/error-mapper';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+interface ThrottleTarget {
+  scope: ELoginAttemptScope;
+  key: LoginAttemptKey;
+  maxAttempts: number;
+}
+
+/**
+ * Tracks failed sign-ins per email address and per client IP, and wrong two-factor codes per user. Once a target
+ * reaches its limit it is locked for `baseLockoutSeconds`, and every further failure after a lockout doubles the
+ * next one.
+ */
+@injectable()
+export class LoginThrottleService {
+  constructor(
+    @inject(AuthModuleTokens.LoginAttemptRepository)
+    private readonly loginAttemptRepository: LoginAttemptRepository,
+    @inject(AuthModuleTokens.AuthConfig) private readonly authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  /** Throws before any password check, so a locked target does not cost an argon2 verify. */
+  async assertNotLocked(email: UserEmail, ipAddress?: string, now: Date = new Date()): Promise<void> {
+    await this.assertTargetsNotLocked(
+      this.toTargets(email, ipAddress),
+      'Too many failed sign-in attempts, try again later',
+      now
+    );
+  }
+
+  async recordFailure(email: UserEmail, ipAddress?: string, now: Date = new Date()): Promise<void> {
+    await this.recordTargetsFailure(this.toTargets(email, ipAddress), now);
+  }
+
+  /** Only the email address is cleared; a successful sign-in must not reset the counter of a shared IP. */
+  async recordSuccess(email: UserEmail): Promise<void> {
+    await this.loginAttemptRepository.clear(ELoginAttemptScope.email, this.toEmailKey(email));
+  }
+
+  /** Counted per user rather than per challenge, since a correct password yields a new challenge every time. */
+  async assertTwoFactorNotLocked(userId: UserId, now: Date = new Date()): Promise<void> {
+    await this.assertTargetsNotLocked(
+      [this.toTwoFactorTarget(userId)],
+      'Too many failed two-factor attempts, try again later',
+      now
+    );
+  }
+
+  async recordTwoFactorFailure(userId: UserId, now: Date = new Date()): Promise<void> {
+    await this.recordTargetsFailure([this.toTwoFactorTarget(userId)], now);
+  }
+
+  async recordTwoFactorSuccess(userId: UserId): Promise<void> {
+    await this.loginAttemptRepository.clear(ELoginAttemptScope.twoFactor, userId as string as LoginAttemptKey);
+  }
+
+  private async assertTargetsNotLocked(targets: ThrottleTarget[], message: string, now: Date): Promise<void> {
+    for (const target of targets) {
+      const attempt = await this.loginAttemptRepository.findByKey(target.scope, target.key);
+      if (attempt?.isLocked(now)) {
+        throw new TooManyRequestsError(message, attempt.retryAfterSeconds(now));
+      }
+    }
+  }
+
+  private async recordTargetsFailure(targets: ThrottleTarget[], now: Date): Promise<void> {
+    const windowStart = new Date(now.getTime() - this.authConfig.loginThrottle.windowSeconds * 1000);
+
+    for (const target of targets) {
+      const attempt = await this.loginAttemptRepository.recordFailure(
+        target.scope,
+        target.key,
+        now as LoginAttemptLastFailedAt,
+        windowStart
+      );
+
+      if (attempt.failedCount >= target.maxAttempts) {
+        await this.lock(target, attempt, now);
+      }
+    }
+  }
+
+  private async lock(target: ThrottleTarget, attempt: ILoginAttempt, now: Date): Promise<void> {
+    const { baseLockoutSeconds, maxLockoutSeconds } = this.authConfig.loginThrottle;
+    const lockoutSeconds = Math.min(
+      baseLockoutSeconds * 2 ** (attempt.failedCount - target.maxAttempts),
+      maxLockoutSeconds
+    );
+    const lockedUntil = new Date(now.getTime() + lockoutSeconds * 1000) as LoginAttemptLockedUntil;
+
+    await this.loginAttemptRepository.lock(target.scope, target.key, lockedUntil);
+
+    this.logger.warn('Sign-in locked after repeated failures', {
+      event: 'auth.login_lockout',
+      scope: target.scope,
+      key: target.key,
+      failedCount: attempt.failedCount,
+      lockedUntil,
+    });
+  }
+
+  private toTargets(email: UserEmail, ipAddress?: string): ThrottleTarget[] {
+    const { maxAttemptsPerEmail, maxAttemptsPerIp } = this.authConfig.loginThrottle;
+    const targets: ThrottleTarget[] = [
+      { scope: ELoginAttemptScope.email, key: this.toEmailKey(email), maxAttempts: maxAttemptsPerEmail },
+    ];
+
+    if (ipAddress) {
+      targets.push({ scope: ELoginAttemptScope.ip, key: ipAddress as LoginAttemptKey, maxAttempts: maxAttemptsPerIp });
+    }
+
+    return targets;
+  }
+
+  private toTwoFactorTarget(userId: UserId): ThrottleTarget {
+    return {
+      scope: ELoginAttemptScope.twoFactor,
+      key: userId as string as LoginAttemptKey,
+      maxAttempts: this.authConfig.loginThrottle.maxTwoFactorAttempts,
+    };
+  }
+
+  private toEmailKey(email: UserEmail): LoginAttemptKey {
+    return (email as string).trim().toLowerCase() as LoginAttemptKey;
+  }
+}
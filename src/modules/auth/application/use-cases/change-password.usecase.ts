@@ -0,0 +1,57 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserId, UserPassword } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import type { RefreshTokenRevokedAt } from '@modules/auth/domain/entities/refresh-token.entity';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { ForbiddenError, UnauthorizedError } from '@shared/errors/error-mapper';
+
+import { AccessTokenDenylistService } from '../services/access-token-denylist.service';
+
+export interface ChangePasswordInput {
+  userId: UserId;
+  currentPassword: UserPassword;
+  newPassword: UserPassword;
+}
+
+export interface ChangePasswordOutput {
+  success: boolean;
+}
+
+/**
+ * Replaces the signed-in user's password and revokes every session, including the current one.
+ */
+@injectable()
+export class ChangePasswordUseCase implements IUseCase<ChangePasswordInput, ChangePasswordOutput> {
+  constructor(
+    @inject(AccountsModuleTokens.UserRepository) private readonly userRepository: UserRepository,
+    @inject(AuthModuleTokens.RefreshTokenRepository)
+    private readonly refreshTokenRepository: RefreshTokenRepository,
+    @inject(AccessTokenDenylistService)
+    private readonly accessTokenDenylist: AccessTokenDenylistService
+  ) {}
+
+  async execute({ userId, currentPassword, newPassword }: ChangePasswordInput): Promise<ChangePasswordOutput> {
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      throw new UnauthorizedError('Associated user not found');
+    }
+
+    const isValidPassword = await user.comparePassword(currentPassword);
+    if (!isValidPassword) {
+      throw new ForbiddenError('Current password is incorrect');
+    }
+
+    await user.setHashPassword(newPassword);
+    await this.userRepository.updatePassword(user.id, user.password);
+    const revokedAt = new Date() as RefreshTokenRevokedAt;
+    await this.refreshTokenRepository.revokeAllByUserId(user.id, revokedAt);
+    await this.accessTokenDenylist.revokeAllForUser(user.id, revokedAt);
+
+    return { success: true };
+  }
+}
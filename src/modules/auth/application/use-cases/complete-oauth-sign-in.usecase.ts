@@ -0,0 +1,168 @@
+import { Builder } from 'builder-pattern';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import { ERole } from '@modules/accounts/domain/entities/role.entity';
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
+import {
+  type BUserName,
+  type IUser,
+  User,
+  type UserEmailVerifiedAt,
+  type UserPassword,
+  type UserRole,
+  type UserStatus,
+} from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import type { SessionDevice } from '@modules/auth/domain/entities/refresh-token.entity';
+import {
+  type IdentityProviderName,
+  UserIdentity,
+  type UserIdentityLastUsedAt,
+} from '@modules/auth/domain/entities/user-identity.entity';
+import { AuthTokenService, type OAuthStateToken } from '@modules/auth/domain/ports/auth-token.service';
+import type {
+  ExternalIdentity,
+  OAuthAuthorizationCode,
+  OAuthState,
+} from '@modules/auth/domain/ports/identity-provider';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import { UserIdentityRepository } from '@modules/auth/domain/ports/user-identity.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import { ConflictError, ForbiddenError, UnauthorizedError } from '@shared/errors/error-mapper';
+
+import { BaseAuthUseCase } from '../base/base-auth.usecase';
+import { IdentityProviderRegistry } from '../services/identity-provider.registry';
+import type { SignInOutput } from './sign-in.usecase';
+
+export interface CompleteOAuthSignInInput {
+  provider: string;
+  code: OAuthAuthorizationCode;
+  /** The `state` query parameter the provider redirected back with. */
+  state: OAuthState;
+  /** The state token `StartOAuthSignInUseCase` issued, read back from the browser's cookie. */
+  stateToken?: OAuthStateToken;
+  device?: SessionDevice;
+}
+
+export type CompleteOAuthSignInOutput = SignInOutput;
+
+const sameState = (expected: string, actual: string) => {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+};
+
+/**
+ * Handles the provider's redirect back: checks the state against the one issued to this browser, redeems the
+ * code, and signs in the user linked to the external identity. An identity seen for the first time is linked
+ * to the account with the same verified address, or to a new account when there is none. An existing account
+ * whose address was never verified is not linked, since whoever registered it may not own the address.
+ */
+@injectable()
+export class CompleteOAuthSignInUseCase extends BaseAuthUseCase<CompleteOAuthSignInInput, CompleteOAuthSignInOutput> {
+  constructor(
+    @inject(AccountsModuleTokens.UserRepository)
+    protected readonly userRepository: UserRepository,
+    @inject(AuthModuleTokens.RefreshTokenRepository)
+    protected readonly refreshTokenRepository: RefreshTokenRepository,
+    @inject(AuthModuleTokens.AuthTokenService)
+    protected readonly authTokenService: AuthTokenService,
+    @inject(AuthModuleTokens.IdentityProviderRegistry)
+    private readonly identityProviders: IdentityProviderRegistry,
+    @inject(AuthModuleTokens.UserIdentityRepository)
+    private readonly userIdentityRepository: UserIdentityRepository,
+    @inject(AuthModuleTokens.TwoFactorRepository)
+    private readonly twoFactorRepository: TwoFactorRepository
+  ) {
+    super(userRepository, refreshTokenRepository, authTokenService);
+  }
+
+  async execute(input: CompleteOAuthSignInInput): Promise<CompleteOAuthSignInOutput> {
+    const identityProvider = this.identityProviders.get(input.provider);
+
+    const signInState = input.stateToken && (await this.authTokenService.verifyOAuthState(input.stateToken));
+    if (!signInState || signInState.provider !== identityProvider.name || !sameState(signInState.state, input.state)) {
+      throw new UnauthorizedError('Invalid or expired sign-in state');
+    }
+
+    const identity = await identityProvider.exchangeCode({
+      code: input.code,
+      codeVerifier: signInState.codeVerifier,
+      nonce: signInState.nonce,
+    });
+
+    const user = await this.resolveUser(identityProvider.name, identity);
+    user.assertActive();
+
+    const twoFactor = await this.twoFactorRepository.findByUserId(user.id);
+    if (twoFactor?.isEnabled()) {
+      const { challengeToken, expiresAt } = await this.authTokenService.generateTwoFactorChallenge(user);
+      return { twoFactorRequired: true, challengeToken, challengeExpiresAt: expiresAt };
+    }
+
+    return await this.generateTokensForUser(user, input.device);
+  }
+
+  private async resolveUser(provider: IdentityProviderName, identity: ExternalIdentity): Promise<IUser> {
+    const now = new Date();
+    const linked = await this.userIdentityRepository.findByProviderSubject(provider, identity.subject);
+
+    if (linked) {
+      const user = await this.userRepository.getByIdAnyStatus(linked.userId);
+      if (!user) {
+        throw new UnauthorizedError('Invalid credentials');
+      }
+
+      await this.userIdentityRepository.markUsed(linked.id, now as UserIdentityLastUsedAt);
+      return user;
+    }
+
+    if (!identity.email || !identity.emailVerified) {
+      throw new ForbiddenError('The identity provider did not confirm an email address for this account');
+    }
+
+    const existing = await this.userRepository.getByEmailAnyStatus(identity.email);
+    if (existing) {
+      existing.assertActive();
+      if (!existing.isEmailVerified()) {
+        throw new ConflictError(
+          'Verify the email address of the existing account before signing in with this provider'
+        );
+      }
+    }
+
+    const user = existing ?? (await this.createUser(identity, now));
+
+    await this.userIdentityRepository.create(
+      Builder(UserIdentity)
+        .userId(user.id)
+        .provider(provider)
+        .subject(identity.subject)
+        .email(identity.email)
+        .lastUsedAt(now as UserIdentityLastUsedAt)
+        .build()
+    );
+
+    return user;
+  }
+
+  private async createUser(identity: ExternalIdentity, now: Date): Promise<IUser> {
+    const email = identity.email!;
+    const user = Builder(User)
+      .email(email)
+      .name((identity.name?.trim() || email.split('@')[0]) as BUserName)
+      .status(EUserStatus.active as UserStatus)
+      .role(ERole.user as UserRole)
+      .emailVerifiedAt(now as UserEmailVerifiedAt)
+      .build();
+
+    // The account has no usable password until the user sets one through the password reset flow.
+    await user.setHashPassword(randomBytes(32).toString('base64url') as UserPassword);
+
+    return this.userRepository.create(user);
+  }
+}
@@ -0,0 +1,90 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserEmailVerifiedAt } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import type { SessionDevice } from '@modules/auth/domain/entities/refresh-token.entity';
+import {
+  ESingleUseTokenPurpose,
+  type SingleUseTokenConsumedAt,
+  type SingleUseTokenHash,
+  type SingleUseTokenPlain,
+} from '@modules/auth/domain/entities/single-use-token.entity';
+import { AuthTokenService } from '@modules/auth/domain/ports/auth-token.service';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { SingleUseTokenRepository } from '@modules/auth/domain/ports/single-use-token.repository';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import { UnauthorizedError } from '@shared/errors/error-mapper';
+import { hashOpaqueToken } from '@shared/utils/opaque-token.util';
+
+import { BaseAuthUseCase } from '../base/base-auth.usecase';
+import type { SignInOutput } from './sign-in.usecase';
+
+export interface ConsumeMagicLinkInput {
+  token: SingleUseTokenPlain;
+  device?: SessionDevice;
+}
+
+export type ConsumeMagicLinkOutput = SignInOutput;
+
+/**
+ * Signs the user in with the token from a sign-in email. Opening the link proves the user controls the address,
+ * so an unverified address counts as verified from then on. Users with two-factor enabled still get a challenge.
+ */
+@injectable()
+export class ConsumeMagicLinkUseCase extends BaseAuthUseCase<ConsumeMagicLinkInput, ConsumeMagicLinkOutput> {
+  constructor(
+    @inject(AccountsModuleTokens.UserRepository)
+    protected readonly userRepository: UserRepository,
+    @inject(AuthModuleTokens.RefreshTokenRepository)
+    protected readonly refreshTokenRepository: RefreshTokenRepository,
+    @inject(AuthModuleTokens.AuthTokenService)
+    protected readonly authTokenService: AuthTokenService,
+    @inject(AuthModuleTokens.SingleUseTokenRepository)
+    private readonly singleUseTokenRepository: SingleUseTokenRepository,
+    @inject(AuthModuleTokens.TwoFactorRepository)
+    private readonly twoFactorRepository: TwoFactorRepository
+  ) {
+    super(userRepository, refreshTokenRepository, authTokenService);
+  }
+
+  async execute(input: ConsumeMagicLinkInput): Promise<ConsumeMagicLinkOutput> {
+    const now = new Date();
+    const storedToken = await this.singleUseTokenRepository.findByTokenHash(
+      ESingleUseTokenPurpose.magicLink,
+      hashOpaqueToken(input.token) as SingleUseTokenHash
+    );
+
+    if (!storedToken || storedToken.isConsumed() || storedToken.isExpired(now)) {
+      throw new UnauthorizedError('Invalid or expired sign-in link');
+    }
+
+    const user = await this.userRepository.getByIdAnyStatus(storedToken.userId);
+    if (!user) {
+      throw new UnauthorizedError('Invalid or expired sign-in link');
+    }
+
+    // Consumed before the status check as well, so a link cannot be kept for when a suspension is lifted.
+    const consumed = await this.singleUseTokenRepository.markConsumed(storedToken.id, now as SingleUseTokenConsumedAt);
+    if (!consumed) {
+      throw new UnauthorizedError('Invalid or expired sign-in link');
+    }
+
+    user.assertActive();
+
+    if (!user.isEmailVerified()) {
+      await this.userRepository.markEmailVerified(user.id, now as UserEmailVerifiedAt);
+      user.emailVerifiedAt = now as UserEmailVerifiedAt;
+    }
+
+    const twoFactor = await this.twoFactorRepository.findByUserId(user.id);
+    if (twoFactor?.isEnabled()) {
+      const { challengeToken, expiresAt } = await this.authTokenService.generateTwoFactorChallenge(user);
+      return { twoFactorRequired: true, challengeToken, challengeExpiresAt: expiresAt };
+    }
+
+    return await this.generateTokensForUser(user, input.device);
+  }
+}
@@ -0,0 +1,77 @@
+import { Builder } from 'builder-pattern';
+import { nanoid } from 'nanoid';
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import { getRolePermissions, type Permission } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import {
+  API_KEY_MARKER,
+  ApiKey,
+  type ApiKeyExpiresAt,
+  type ApiKeyName,
+  type ApiKeyPlain,
+  type ApiKeyPrefix,
+  type IApiKey,
+} from '@modules/auth/domain/entities/api-key.entity';
+import { ApiKeyRepository } from '@modules/auth/domain/ports/api-key.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { ForbiddenError, UnauthorizedError, ValidationError } from '@shared/errors/error-mapper';
+
+export interface CreateApiKeyInput {
+  userId: UserId;
+  name: ApiKeyName;
+  scopes?: Permission[];
+  expiresAt?: ApiKeyExpiresAt;
+}
+
+export interface CreateApiKeyOutput {
+  apiKey: IApiKey;
+  /** The only time the full key is available; just its hash is stored. */
+  key: ApiKeyPlain;
+}
+
+/**
+ * Issues a personal API key for the user. Scopes can only narrow what the user's role allows, and they are
+ * intersected with the role again on every request, so a later demotion also applies to existing keys.
+ */
+@injectable()
+export class CreateApiKeyUseCase implements IUseCase<CreateApiKeyInput, CreateApiKeyOutput> {
+  constructor(
+    @inject(AccountsModuleTokens.UserRepository) private readonly userRepository: UserRepository,
+    @inject(AuthModuleTokens.ApiKeyRepository) private readonly apiKeyRepository: ApiKeyRepository
+  ) {}
+
+  async execute(input: CreateApiKeyInput): Promise<CreateApiKeyOutput> {
+    const user = await this.userRepository.getById(input.userId);
+    if (!user) {
+      throw new UnauthorizedError('Associated user not found');
+    }
+
+    if (input.expiresAt && input.expiresAt.getTime() <= Date.now()) {
+      throw new ValidationError('expiresAt must be in the future');
+    }
+
+    const rolePermissions = getRolePermissions(user.role);
+    if (input.scopes?.some(scope => !rolePermissions.includes(scope))) {
+      throw new ForbiddenError('API key scopes must be permissions of your role');
+    }
+
+    const prefix = nanoid(12) as ApiKeyPrefix;
+    const key = `${API_KEY_MARKER}${prefix}.${nanoid(48)}` as ApiKeyPlain;
+
+    const apiKey = Builder(ApiKey)
+      .userId(user.id)
+      .name(input.name)
+      .prefix(prefix)
+      .scopes(input.scopes ? [...new Set(input.scopes)] : undefined)
+      .expiresAt(input.expiresAt)
+      .build();
+    await apiKey.setHashKey(key);
+
+    return { apiKey: await this.apiKeyRepository.create(apiKey), key };
+  }
+}
@@ -0,0 +1,43 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { UnauthorizedError } from '@shared/errors/error-mapper';
+
+import { AccessTokenDenylistService } from '../services/access-token-denylist.service';
+
+export interface DeleteAccountInput {
+  userId: UserId;
+}
+
+export interface DeleteAccountOutput {
+  success: boolean;
+}
+
+/**
+ * Deletes the signed-in user's account. Refresh tokens go with the user row, which ends every session; the
+ * access tokens are denylisted first, while the refresh tokens needed to find them still exist.
+ */
+@injectable()
+export class DeleteAccountUseCase implements IUseCase<DeleteAccountInput, DeleteAccountOutput> {
+  constructor(
+    @inject(AccountsModuleTokens.UserRepository) private readonly userRepository: UserRepository,
+    @inject(AccessTokenDenylistService)
+    private readonly accessTokenDenylist: AccessTokenDenylistService
+  ) {}
+
+  async execute({ userId }: DeleteAccountInput): Promise<DeleteAccountOutput> {
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      throw new UnauthorizedError('Associated user not found');
+    }
+
+    await this.accessTokenDenylist.revokeAllForUser(user.id);
+    await this.userRepository.delete(user.id);
+
+    return { success: true };
+  }
+}
@@ -0,0 +1,69 @@
+import { randomBytes } from 'node:crypto';
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import {
+  hashRecoveryCode,
+  type TwoFactorCode,
+  type TwoFactorEnabledAt,
+  type TwoFactorTimeStep,
+} from '@modules/auth/domain/entities/two-factor.entity';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { ConflictError, ValidationError } from '@shared/errors/error-mapper';
+import { encodeBase32, verifyTotp } from '@shared/utils/totp.util';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export interface EnableTwoFactorInput {
+  userId: UserId;
+  code: TwoFactorCode;
+}
+
+export interface EnableTwoFactorOutput {
+  /** Shown once; only their hashes are stored. */
+  recoveryCodes: string[];
+}
+
+// 80 random bits, written as 16 base32 characters in groups of four.
+const generateRecoveryCode = (): string => {
+  const raw = encodeBase32(randomBytes(10));
+  return [0, 4, 8, 12].map(start => raw.slice(start, start + 4)).join('-');
+};
+
+/**
+ * Confirms a pending enrollment with a code from the authenticator app and hands out a fresh set of recovery codes.
+ */
+@injectable()
+export class EnableTwoFactorUseCase implements IUseCase<EnableTwoFactorInput, EnableTwoFactorOutput> {
+  constructor(
+    @inject(AuthModuleTokens.TwoFactorRepository) private readonly twoFactorRepository: TwoFactorRepository
+  ) {}
+
+  async execute({ userId, code }: EnableTwoFactorInput): Promise<EnableTwoFactorOutput> {
+    const twoFactor = await this.twoFactorRepository.findByUserId(userId);
+    if (!twoFactor) {
+      throw new ValidationError('Two-factor setup has not been started');
+    }
+
+    if (twoFactor.isEnabled()) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const now = new Date();
+    const step = verifyTotp(twoFactor.secret, code, now);
+    if (step === undefined) {
+      throw new ValidationError('Invalid two-factor code');
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    const codeHashes = await Promise.all(recoveryCodes.map(hashRecoveryCode));
+
+    await this.twoFactorRepository.enable(userId, now as TwoFactorEnabledAt, step as TwoFactorTimeStep);
+    await this.twoFactorRepository.replaceRecoveryCodes(userId, codeHashes);
+
+    return { recoveryCodes };
+  }
+}
@@ -0,0 +1,70 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { IUser } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import {
+  ESingleUseTokenPurpose,
+  SingleUseToken,
+  type SingleUseTokenExpiresAt,
+  type SingleUseTokenHash,
+} from '@modules/auth/domain/entities/single-use-token.entity';
+import { SingleUseTokenRepository } from '@modules/auth/domain/ports/single-use-token.repository';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { EmailSender } from '@shared/mail/email-sender.port';
+import { generateOpaqueToken, hashOpaqueToken } from '@shared/utils/opaque-token.util';
+
+import { BaseMailLinkUseCase, type MailLinkInput, type MailLinkOutput } from '../base/base-mail-link.usecase';
+
+export type ForgotPasswordInput = MailLinkInput;
+
+export type ForgotPasswordOutput = MailLinkOutput;
+
+/**
+ * Mails a single-use reset link.
+ */
+@injectable()
+export class ForgotPasswordUseCase extends BaseMailLinkUseCase {
+  constructor(
+    @inject(AccountsModuleTokens.UserRepository) protected readonly userRepository: UserRepository,
+    @inject(AuthModuleTokens.SingleUseTokenRepository)
+    private readonly singleUseTokenRepository: SingleUseTokenRepository,
+    @inject(AuthModuleTokens.AuthConfig) private readonly authConfig: AuthConfig,
+    @inject(PlatformTokens.EmailSender) private readonly emailSender: EmailSender
+  ) {
+    super(userRepository);
+  }
+
+  protected async mailLink(user: IUser): Promise<void> {
+    const { tokenTtlSeconds, resetUrl } = this.authConfig.passwordReset;
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + tokenTtlSeconds * 1000) as SingleUseTokenExpiresAt;
+
+    await this.singleUseTokenRepository.deleteUnconsumedByUserId(user.id, ESingleUseTokenPurpose.passwordReset);
+    await this.singleUseTokenRepository.create(
+      Builder(SingleUseToken)
+        .userId(user.id)
+        .purpose(ESingleUseTokenPurpose.passwordReset)
+        .tokenHash(hashOpaqueToken(token) as SingleUseTokenHash)
+        .expiresAt(expiresAt)
+        .build()
+    );
+
+    const link = `${resetUrl}?token=${encodeURIComponent(token)}`;
+    await this.emailSender.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        `Choose a new password by opening ${link}`,
+        '',
+        `The link expires at ${expiresAt.toISOString()}. If you did not ask for a reset, you can ignore this email.`,
+      ].join('\n'),
+    });
+  }
+}
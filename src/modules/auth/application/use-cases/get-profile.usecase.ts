@@ -0,0 +1,27 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { IUser, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { UnauthorizedError } from '@shared/errors/error-mapper';
+
+export interface GetProfileInput {
+  userId: UserId;
+}
+
+@injectable()
+export class GetProfileUseCase implements IUseCase<GetProfileInput, IUser> {
+  constructor(@inject(AccountsModuleTokens.UserRepository) private readonly userRepository: UserRepository) {}
+
+  async execute({ userId }: GetProfileInput): Promise<IUser> {
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      throw new UnauthorizedError('Associated user not found');
+    }
+
+    user.hiddenPassword();
+    return user;
+  }
+}
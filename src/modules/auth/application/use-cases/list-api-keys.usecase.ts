@@ -0,0 +1,21 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type { IApiKey } from '@modules/auth/domain/entities/api-key.entity';
+import { ApiKeyRepository } from '@modules/auth/domain/ports/api-key.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+
+export interface ListApiKeysInput {
+  userId: UserId;
+}
+
+@injectable()
+export class ListApiKeysUseCase implements IUseCase<ListApiKeysInput, IApiKey[]> {
+  constructor(@inject(AuthModuleTokens.ApiKeyRepository) private readonly apiKeyRepository: ApiKeyRepository) {}
+
+  async execute(input: ListApiKeysInput): Promise<IApiKey[]> {
+    return this.apiKeyRepository.findUnrevokedByUserId(input.userId);
+  }
+}
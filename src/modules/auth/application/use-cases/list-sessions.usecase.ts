@@ -0,0 +1,51 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type {
+  RefreshTokenExpiresAt,
+  RefreshTokenIpAddress,
+  RefreshTokenJti,
+  RefreshTokenLastUsedAt,
+  RefreshTokenSessionId,
+  RefreshTokenUserAgent,
+} from '@modules/auth/domain/entities/refresh-token.entity';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+
+export interface ListSessionsInput {
+  userId: UserId;
+  /** `jti` of the access token making the request, used to flag the caller's own session. */
+  currentJti?: RefreshTokenJti;
+}
+
+export interface SessionSummary {
+  id: RefreshTokenSessionId;
+  userAgent?: RefreshTokenUserAgent;
+  ipAddress?: RefreshTokenIpAddress;
+  lastUsedAt?: RefreshTokenLastUsedAt;
+  expiresAt: RefreshTokenExpiresAt;
+  current: boolean;
+}
+
+@injectable()
+export class ListSessionsUseCase implements IUseCase<ListSessionsInput, SessionSummary[]> {
+  constructor(
+    @inject(AuthModuleTokens.RefreshTokenRepository)
+    private readonly refreshTokenRepository: RefreshTokenRepository
+  ) {}
+
+  async execute(input: ListSessionsInput): Promise<SessionSummary[]> {
+    const tokens = await this.refreshTokenRepository.findActiveByUserId(input.userId, new Date());
+
+    return tokens.map(token => ({
+      id: token.sessionId as RefreshTokenSessionId,
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      lastUsedAt: token.lastUsedAt,
+      expiresAt: token.expiresAt,
+      current: token.jti === input.currentJti,
+    }));
+  }
+}
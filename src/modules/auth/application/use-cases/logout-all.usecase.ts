@@ -0,0 +1,34 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type { RefreshTokenRevokedAt } from '@modules/auth/domain/entities/refresh-token.entity';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+
+import { BaseLogoutUseCase, type LogoutOutput } from '../base/base-logout.usecase';
+import { AccessTokenDenylistService } from '../services/access-token-denylist.service';
+
+export interface LogoutAllInput {
+  userId: UserId;
+}
+
+@injectable()
+export class LogoutAllUseCase extends BaseLogoutUseCase<LogoutAllInput, LogoutOutput> {
+  constructor(
+    @inject(AuthModuleTokens.RefreshTokenRepository)
+    protected readonly refreshTokenRepository: RefreshTokenRepository,
+    @inject(AccessTokenDenylistService)
+    private readonly accessTokenDenylist: AccessTokenDenylistService
+  ) {
+    super(refreshTokenRepository);
+  }
+
+  async execute(input: LogoutAllInput): Promise<LogoutOutput> {
+    const revokedAt = new Date() as RefreshTokenRevokedAt;
+    await this.refreshTokenRepository.revokeAllByUserId(input.userId, revokedAt);
+    await this.accessTokenDenylist.revokeAllForUser(input.userId, revokedAt);
+
+    return { success: true };
+  }
+}
@@ -6,6 +6,7 @@ import { type RefreshTokenPlain } from '@modules/auth/domain/entities/refresh-to
 import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
 import { UnauthorizedError } from '@shared/errors/error-mapper';
 import { BaseLogoutUseCase, type LogoutOutput } from '../base/base-logout.usecase';
+import { AccessTokenDenylistService } from '../services/access-token-denylist.service';
 
 export interface LogoutInput {
   refreshToken: RefreshTokenPlain;
@@ -15,7 +16,9 @@ export interface LogoutInput {
 export class LogoutUseCase extends BaseLogoutUseCase<LogoutInput, LogoutOutput> {
   constructor(
     @inject(AuthModuleTokens.RefreshTokenRepository)
-    protected readonly refreshTokenRepository: RefreshTokenRepository
+    protected readonly refreshTokenRepository: RefreshTokenRepository,
+    @inject(AccessTokenDenylistService)
+    private readonly accessTokenDenylist: AccessTokenDenylistService
   ) {
     super(refreshTokenRepository);
   }
@@ -25,8 +28,12 @@ export class LogoutUseCase extends BaseLogoutUseCase<LogoutInput, LogoutOutput>
       throw new UnauthorizedError('Refresh token not found');
     }
 
-    const jti = await this.validateRefreshToken(input.refreshToken);
-    await this.revokeRefreshTokenByJti(jti);
+    const storedToken = await this.retrieveRefreshToken(input.refreshToken);
+    await this.revokeRefreshTokenByJti(storedToken.jti);
+
+    if (storedToken.sessionId) {
+      await this.accessTokenDenylist.revokeSession(storedToken.userId, storedToken.sessionId);
+    }
 
     return { success: true };
   }
@@ -4,14 +4,24 @@ import { inject, injectable } from 'tsyringe';
 import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
 import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
 import { AuthModuleTokens } from '@modules/auth/module.tokens';
-import { type RefreshTokenPlain } from '@modules/auth/domain/entities/refresh-token.entity';
+import {
+  type IRefreshToken,
+  type RefreshTokenPlain,
+  type RefreshTokenRevokedAt,
+  type RefreshTokenSessionId,
+  type SessionDevice,
+} from '@modules/auth/domain/entities/refresh-token.entity';
 import { AuthTokenService } from '@modules/auth/domain/ports/auth-token.service';
 import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { PlatformTokens } from '@platform/di/tokens';
 import { UnauthorizedError } from '@shared/errors/error-mapper';
+import type { LoggerPort } from '@shared/logging/logger.port';
 import { type AuthenticatedUser, BaseAuthUseCase } from '../base/base-auth.usecase';
+import { AccessTokenDenylistService } from '../services/access-token-denylist.service';
 
 export interface RefreshSessionInput {
   refreshToken: RefreshTokenPlain;
+  device?: SessionDevice;
 }
 
 @injectable()
@@ -22,7 +32,11 @@ export class RefreshSessionUseCase extends BaseAuthUseCase<RefreshSessionInput,
     @inject(AuthModuleTokens.RefreshTokenRepository)
     protected readonly refreshTokenRepository: RefreshTokenRepository,
     @inject(AuthModuleTokens.AuthTokenService)
-    protected readonly authTokenService: AuthTokenService
+    protected readonly authTokenService: AuthTokenService,
+    @inject(PlatformTokens.Logger)
+    private readonly logger: LoggerPort,
+    @inject(AccessTokenDenylistService)
+    private readonly accessTokenDenylist: AccessTokenDenylistService
   ) {
     super(userRepository, refreshTokenRepository, authTokenService);
   }
@@ -32,11 +46,38 @@ export class RefreshSessionUseCase extends BaseAuthUseCase<RefreshSessionInput,
 
     await this.revokeRefreshTokenByJti(storedToken.jti);
 
-    const user = await this.userRepository.getById(storedToken.userId);
+    const user = await this.userRepository.getByIdAnyStatus(storedToken.userId);
     if (!user) {
       throw new UnauthorizedError('Associated user not found');
     }
+    user.assertActive();
 
-    return await this.generateTokensForUserWithoutRevoke(user);
+    return await this.rotateSession(user, storedToken, input.device);
+  }
+
+  /**
+   * A token that has already been rotated should never come back: either it was stolen or the thief
+   * already used it. We cannot tell which party is legitimate, so the whole session is revoked and both
+   * have to sign in again.
+   */
+  protected async onRevokedTokenReplayed(storedToken: IRefreshToken): Promise<void> {
+    const successor = await this.refreshTokenRepository.findByParentJti(storedToken.jti);
+    if (!successor) {
+      return;
+    }
+
+    const sessionId = storedToken.sessionId as RefreshTokenSessionId;
+    const revokedAt = new Date() as RefreshTokenRevokedAt;
+    await this.refreshTokenRepository.revokeBySessionId(storedToken.userId, sessionId, revokedAt);
+    await this.accessTokenDenylist.revokeSession(storedToken.userId, sessionId, revokedAt);
+
+    this.logger.warn('Refresh token reuse detected; session revoked', {
+      event: 'auth.refresh_token_reuse',
+      userId: storedToken.userId,
+      sessionId,
+      jti: storedToken.jti,
+    });
+
+    throw new UnauthorizedError('Refresh token reuse detected');
   }
 }
@@ -0,0 +1,32 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { IUser } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+
+import { BaseMailLinkUseCase, type MailLinkInput, type MailLinkOutput } from '../base/base-mail-link.usecase';
+import { SendVerificationEmailUseCase } from './send-verification-email.usecase';
+
+export type ResendVerificationInput = MailLinkInput;
+
+export type ResendVerificationOutput = MailLinkOutput;
+
+/**
+ * Mails a fresh verification link to an account whose address has not been verified yet.
+ */
+@injectable()
+export class ResendVerificationUseCase extends BaseMailLinkUseCase {
+  constructor(
+    @inject(AccountsModuleTokens.UserRepository) protected readonly userRepository: UserRepository,
+    @inject(SendVerificationEmailUseCase) private readonly sendVerificationEmail: SendVerificationEmailUseCase
+  ) {
+    super(userRepository);
+  }
+
+  protected async mailLink(user: IUser): Promise<void> {
+    if (!user.isEmailVerified()) {
+      await this.sendVerificationEmail.execute({ user });
+    }
+  }
+}
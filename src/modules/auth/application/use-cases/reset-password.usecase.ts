@@ -0,0 +1,75 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserPassword } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import type { RefreshTokenRevokedAt } from '@modules/auth/domain/entities/refresh-token.entity';
+import {
+  ESingleUseTokenPurpose,
+  type SingleUseTokenConsumedAt,
+  type SingleUseTokenHash,
+  type SingleUseTokenPlain,
+} from '@modules/auth/domain/entities/single-use-token.entity';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { SingleUseTokenRepository } from '@modules/auth/domain/ports/single-use-token.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { ValidationError } from '@shared/errors/error-mapper';
+import { hashOpaqueToken } from '@shared/utils/opaque-token.util';
+
+import { AccessTokenDenylistService } from '../services/access-token-denylist.service';
+
+export interface ResetPasswordInput {
+  token: SingleUseTokenPlain;
+  password: UserPassword;
+}
+
+export interface ResetPasswordOutput {
+  success: boolean;
+}
+
+/**
+ * Sets a new password from a reset link and signs the user out everywhere.
+ */
+@injectable()
+export class ResetPasswordUseCase implements IUseCase<ResetPasswordInput, ResetPasswordOutput> {
+  constructor(
+    @inject(AuthModuleTokens.SingleUseTokenRepository)
+    private readonly singleUseTokenRepository: SingleUseTokenRepository,
+    @inject(AccountsModuleTokens.UserRepository) private readonly userRepository: UserRepository,
+    @inject(AuthModuleTokens.RefreshTokenRepository)
+    private readonly refreshTokenRepository: RefreshTokenRepository,
+    @inject(AccessTokenDenylistService)
+    private readonly accessTokenDenylist: AccessTokenDenylistService
+  ) {}
+
+  async execute({ token, password }: ResetPasswordInput): Promise<ResetPasswordOutput> {
+    const now = new Date();
+    const storedToken = await this.singleUseTokenRepository.findByTokenHash(
+      ESingleUseTokenPurpose.passwordReset,
+      hashOpaqueToken(token) as SingleUseTokenHash
+    );
+
+    if (!storedToken || storedToken.isConsumed() || storedToken.isExpired(now)) {
+      throw new ValidationError('Invalid or expired password reset token');
+    }
+
+    const user = await this.userRepository.getById(storedToken.userId);
+    if (!user) {
+      throw new ValidationError('Invalid or expired password reset token');
+    }
+
+    const consumed = await this.singleUseTokenRepository.markConsumed(storedToken.id, now as SingleUseTokenConsumedAt);
+    if (!consumed) {
+      throw new ValidationError('Invalid or expired password reset token');
+    }
+
+    await user.setHashPassword(password);
+    await this.userRepository.updatePassword(user.id, user.password);
+    await this.refreshTokenRepository.revokeAllByUserId(user.id, now as RefreshTokenRevokedAt);
+    await this.accessTokenDenylist.revokeAllForUser(user.id, now);
+
+    return { success: true };
+  }
+}
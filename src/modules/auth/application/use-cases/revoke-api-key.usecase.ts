@@ -0,0 +1,34 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type { ApiKeyId, ApiKeyRevokedAt } from '@modules/auth/domain/entities/api-key.entity';
+import { ApiKeyRepository } from '@modules/auth/domain/ports/api-key.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { NotFoundError } from '@shared/errors/error-mapper';
+
+export interface RevokeApiKeyInput {
+  userId: UserId;
+  id: ApiKeyId;
+}
+
+export interface RevokeApiKeyOutput {
+  success: boolean;
+}
+
+@injectable()
+export class RevokeApiKeyUseCase implements IUseCase<RevokeApiKeyInput, RevokeApiKeyOutput> {
+  constructor(@inject(AuthModuleTokens.ApiKeyRepository) private readonly apiKeyRepository: ApiKeyRepository) {}
+
+  async execute(input: RevokeApiKeyInput): Promise<RevokeApiKeyOutput> {
+    const revoked = await this.apiKeyRepository.revoke(input.userId, input.id, new Date() as ApiKeyRevokedAt);
+
+    // Keys of other users are reported as missing so their ids cannot be probed.
+    if (!revoked) {
+      throw new NotFoundError('API key not found');
+    }
+
+    return { success: true };
+  }
+}
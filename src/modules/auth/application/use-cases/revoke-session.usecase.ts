@@ -0,0 +1,42 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type { RefreshTokenRevokedAt, RefreshTokenSessionId } from '@modules/auth/domain/entities/refresh-token.entity';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import { NotFoundError } from '@shared/errors/error-mapper';
+
+import { BaseLogoutUseCase, type LogoutOutput } from '../base/base-logout.usecase';
+import { AccessTokenDenylistService } from '../services/access-token-denylist.service';
+
+export interface RevokeSessionInput {
+  userId: UserId;
+  sessionId: RefreshTokenSessionId;
+}
+
+@injectable()
+export class RevokeSessionUseCase extends BaseLogoutUseCase<RevokeSessionInput, LogoutOutput> {
+  constructor(
+    @inject(AuthModuleTokens.RefreshTokenRepository)
+    protected readonly refreshTokenRepository: RefreshTokenRepository,
+    @inject(AccessTokenDenylistService)
+    private readonly accessTokenDenylist: AccessTokenDenylistService
+  ) {
+    super(refreshTokenRepository);
+  }
+
+  async execute(input: RevokeSessionInput): Promise<LogoutOutput> {
+    const revokedAt = new Date() as RefreshTokenRevokedAt;
+    const revoked = await this.refreshTokenRepository.revokeBySessionId(input.userId, input.sessionId, revokedAt);
+
+    // Sessions of other users are reported as missing so their ids cannot be probed.
+    if (!revoked) {
+      throw new NotFoundError('Session not found');
+    }
+
+    await this.accessTokenDenylist.revokeSession(input.userId, input.sessionId, revokedAt);
+
+    return { success: true };
+  }
+}
@@ -0,0 +1,67 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { IUser, UserEmail } from '@modules/accounts/domain/entities/user.entity';
+import {
+  ESingleUseTokenPurpose,
+  SingleUseToken,
+  type SingleUseTokenExpiresAt,
+  type SingleUseTokenHash,
+} from '@modules/auth/domain/entities/single-use-token.entity';
+import { SingleUseTokenRepository } from '@modules/auth/domain/ports/single-use-token.repository';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import type { EmailSender } from '@shared/mail/email-sender.port';
+import { generateOpaqueToken, hashOpaqueToken } from '@shared/utils/opaque-token.util';
+
+export interface SendVerificationEmailInput {
+  user: IUser;
+  /** New address to confirm for an email change; the link goes there and the account keeps its address until then. */
+  email?: UserEmail;
+}
+
+/**
+ * Mails the user a fresh verification link. Links sent earlier stop working.
+ */
+@injectable()
+export class SendVerificationEmailUseCase implements IUseCase<SendVerificationEmailInput, void> {
+  constructor(
+    @inject(AuthModuleTokens.SingleUseTokenRepository)
+    private readonly singleUseTokenRepository: SingleUseTokenRepository,
+    @inject(AuthModuleTokens.AuthConfig) private readonly authConfig: AuthConfig,
+    @inject(PlatformTokens.EmailSender) private readonly emailSender: EmailSender
+  ) {}
+
+  async execute({ user, email }: SendVerificationEmailInput): Promise<void> {
+    const { tokenTtlSeconds, verifyUrl } = this.authConfig.emailVerification;
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + tokenTtlSeconds * 1000) as SingleUseTokenExpiresAt;
+
+    await this.singleUseTokenRepository.deleteUnconsumedByUserId(user.id, ESingleUseTokenPurpose.emailVerification);
+    const builder = Builder(SingleUseToken)
+      .userId(user.id)
+      .purpose(ESingleUseTokenPurpose.emailVerification)
+      .tokenHash(hashOpaqueToken(token) as SingleUseTokenHash)
+      .expiresAt(expiresAt);
+    if (email) {
+      builder.email(email);
+    }
+    await this.singleUseTokenRepository.create(builder.build());
+
+    const link = `${verifyUrl}?token=${encodeURIComponent(token)}`;
+    await this.emailSender.send({
+      to: email ?? user.email,
+      subject: email ? 'Confirm your new email address' : 'Verify your email address',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        `Confirm your email address by opening ${link}`,
+        '',
+        `The link expires at ${expiresAt.toISOString()}.`,
+      ].join('\n'),
+    });
+  }
+}
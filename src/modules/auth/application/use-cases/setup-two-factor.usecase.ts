@@ -0,0 +1,59 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import type { TwoFactorSecret } from '@modules/auth/domain/entities/two-factor.entity';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { ConflictError, UnauthorizedError } from '@shared/errors/error-mapper';
+import { buildOtpauthUri, generateTotpSecret } from '@shared/utils/totp.util';
+
+export interface SetupTwoFactorInput {
+  userId: UserId;
+}
+
+export interface SetupTwoFactorOutput {
+  secret: TwoFactorSecret;
+  otpauthUri: string;
+}
+
+/**
+ * Generates a new TOTP secret for the user. Two-factor stays off until the first code is confirmed through
+ * `EnableTwoFactorUseCase`, so calling this again simply replaces an unfinished enrollment.
+ */
+@injectable()
+export class SetupTwoFactorUseCase implements IUseCase<SetupTwoFactorInput, SetupTwoFactorOutput> {
+  constructor(
+    @inject(AccountsModuleTokens.UserRepository) private readonly userRepository: UserRepository,
+    @inject(AuthModuleTokens.TwoFactorRepository) private readonly twoFactorRepository: TwoFactorRepository,
+    @inject(AuthModuleTokens.AuthConfig) private readonly authConfig: AuthConfig
+  ) {}
+
+  async execute({ userId }: SetupTwoFactorInput): Promise<SetupTwoFactorOutput> {
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      throw new UnauthorizedError('Associated user not found');
+    }
+
+    const existing = await this.twoFactorRepository.findByUserId(user.id);
+    if (existing?.isEnabled()) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret() as TwoFactorSecret;
+    await this.twoFactorRepository.savePending(user.id, secret);
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri({
+        secret,
+        accountName: user.email as unknown as string,
+        issuer: this.authConfig.twoFactor.issuer,
+      }),
+    };
+  }
+}
@@ -5,42 +5,78 @@ import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
 import type { UserEmail, UserPassword } from '@modules/accounts/domain/entities/user.entity';
 import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
 import { AuthModuleTokens } from '@modules/auth/module.tokens';
-import { AuthTokenService } from '@modules/auth/domain/ports/auth-token.service';
+import type { SessionDevice } from '@modules/auth/domain/entities/refresh-token.entity';
+import type { TwoFactorChallengeToken } from '@modules/auth/domain/entities/two-factor.entity';
+import { AuthTokenService, type TwoFactorChallengeExpiresAt } from '@modules/auth/domain/ports/auth-token.service';
 import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
-import { UnauthorizedError } from '@shared/errors/error-mapper';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import { ForbiddenError, UnauthorizedError } from '@shared/errors/error-mapper';
 import { type AuthenticatedUser, BaseAuthUseCase } from '../base/base-auth.usecase';
+import { LoginThrottleService } from '../services/login-throttle.service';
 
 export interface SignInInput {
   email: UserEmail;
   password: UserPassword;
+  device?: SessionDevice;
 }
 
+/** Returned instead of tokens when the user has two-factor enabled; see `VerifyTwoFactorUseCase`. */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: TwoFactorChallengeToken;
+  challengeExpiresAt: TwoFactorChallengeExpiresAt;
+}
+
+export type SignInOutput = AuthenticatedUser | TwoFactorChallenge;
+
 @injectable()
-export class SignInUseCase extends BaseAuthUseCase<SignInInput, AuthenticatedUser> {
+export class SignInUseCase extends BaseAuthUseCase<SignInInput, SignInOutput> {
   constructor(
     @inject(AccountsModuleTokens.UserRepository)
     protected readonly userRepository: UserRepository,
     @inject(AuthModuleTokens.RefreshTokenRepository)
     protected readonly refreshTokenRepository: RefreshTokenRepository,
     @inject(AuthModuleTokens.AuthTokenService)
-    protected readonly authTokenService: AuthTokenService
+    protected readonly authTokenService: AuthTokenService,
+    @inject(AuthModuleTokens.TwoFactorRepository)
+    private readonly twoFactorRepository: TwoFactorRepository,
+    @inject(LoginThrottleService) private readonly loginThrottle: LoginThrottleService
   ) {
     super(userRepository, refreshTokenRepository, authTokenService);
   }
 
-  async execute(input: SignInInput): Promise<AuthenticatedUser> {
-    const user = await this.userRepository.getByEmail(input.email);
+  async execute(input: SignInInput): Promise<SignInOutput> {
+    const ipAddress = input.device?.ipAddress;
+    await this.loginThrottle.assertNotLocked(input.email, ipAddress);
+
+    const user = await this.userRepository.getByEmailAnyStatus(input.email);
 
     if (!user) {
+      await this.loginThrottle.recordFailure(input.email, ipAddress);
       throw new UnauthorizedError('Invalid credentials');
     }
 
     const isValidPassword = await user.comparePassword(input.password);
 
     if (!isValidPassword) {
+      await this.loginThrottle.recordFailure(input.email, ipAddress);
       throw new UnauthorizedError('Invalid credentials');
     }
 
-    return await this.generateTokensForUser(user);
+    await this.loginThrottle.recordSuccess(input.email);
+
+    // Checked after the password so the response does not reveal whether an address is registered.
+    user.assertActive();
+    if (!user.isEmailVerified()) {
+      throw new ForbiddenError('Email address has not been verified');
+    }
+
+    const twoFactor = await this.twoFactorRepository.findByUserId(user.id);
+    if (twoFactor?.isEnabled()) {
+      const { challengeToken, expiresAt } = await this.authTokenService.generateTwoFactorChallenge(user);
+      return { twoFactorRequired: true, challengeToken, challengeExpiresAt: expiresAt };
+    }
+
+    return await this.generateTokensForUser(user, input.device);
   }
 }
@@ -3,15 +3,23 @@ import 'reflect-metadata';
 import { inject, injectable } from 'tsyringe';
 
 import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
-import type { BUserName, UserEmail, UserPassword, UserStatus } from '@modules/accounts/domain/entities/user.entity';
+import { ERole } from '@modules/accounts/domain/entities/role.entity';
+import type {
+  BUserName,
+  IUser,
+  UserEmail,
+  UserPassword,
+  UserRole,
+  UserStatus,
+} from '@modules/accounts/domain/entities/user.entity';
 import { User } from '@modules/accounts/domain/entities/user.entity';
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
 import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
 import { AuthModuleTokens } from '@modules/auth/module.tokens';
-import { AuthTokenService } from '@modules/auth/domain/ports/auth-token.service';
-import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import type { IUseCase } from '@shared/application/use-case';
 import { ConflictError } from '@shared/errors/error-mapper';
-import { EStatus } from '@shared/kernel/status.enum';
-import { type AuthenticatedUser, BaseAuthUseCase } from '../base/base-auth.usecase';
+import { SendVerificationEmailUseCase } from './send-verification-email.usecase';
 
 export interface SignUpInput {
   name: BUserName;
@@ -19,36 +27,52 @@ export interface SignUpInput {
   password: UserPassword;
 }
 
+export interface SignUpOutput {
+  user: IUser;
+}
+
+/**
+ * Registers the user and mails a verification link. No session is opened: the user can sign in once the
+ * address is verified. An address held by an account in any status is taken, except that a deleted account
+ * gives way to the new one when `deletedAccountSignUp` is `replace`.
+ */
 @injectable()
-export class SignUpUseCase extends BaseAuthUseCase<SignUpInput, AuthenticatedUser> {
+export class SignUpUseCase implements IUseCase<SignUpInput, SignUpOutput> {
   constructor(
     @inject(AccountsModuleTokens.UserRepository)
-    protected readonly userRepository: UserRepository,
-    @inject(AuthModuleTokens.RefreshTokenRepository)
-    protected readonly refreshTokenRepository: RefreshTokenRepository,
-    @inject(AuthModuleTokens.AuthTokenService)
-    protected readonly authTokenService: AuthTokenService
-  ) {
-    super(userRepository, refreshTokenRepository, authTokenService);
-  }
+    private readonly userRepository: UserRepository,
+    @inject(SendVerificationEmailUseCase)
+    private readonly sendVerificationEmail: SendVerificationEmailUseCase,
+    @inject(AuthModuleTokens.AuthConfig) private readonly authConfig: AuthConfig
+  ) {}
 
-  async execute(input: SignUpInput): Promise<AuthenticatedUser> {
-    const existingUser = await this.userRepository.getByEmail(input.email);
+  async execute(input: SignUpInput): Promise<SignUpOutput> {
+    const existingUser = await this.userRepository.getByEmailAnyStatus(input.email);
 
     if (existingUser) {
-      throw new ConflictError('Email is already registered');
+      const canReplace =
+        existingUser.status === EUserStatus.deleted && this.authConfig.deletedAccountSignUp === 'replace';
+      if (!canReplace) {
+        throw new ConflictError('Email is already registered');
+      }
+
+      await this.userRepository.delete(existingUser.id);
     }
 
     const user = Builder(User)
       .email(input.email)
       .name(input.name)
-      .status(EStatus.active as UserStatus)
+      .status(EUserStatus.active as UserStatus)
+      .role(ERole.user as UserRole)
       .build();
 
     await user.setHashPassword(input.password);
 
     const createdUser = await this.userRepository.create(user);
 
-    return await this.generateTokensForUser(createdUser);
+    await this.sendVerificationEmail.execute({ user: createdUser });
+    createdUser.hiddenPassword();
+
+    return { user: createdUser };
   }
 }
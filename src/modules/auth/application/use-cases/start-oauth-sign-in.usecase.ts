@@ -0,0 +1,66 @@
+import { createHash, randomBytes } from 'crypto';
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import {
+  AuthTokenService,
+  type OAuthStateExpiresAt,
+  type OAuthStateToken,
+} from '@modules/auth/domain/ports/auth-token.service';
+import type {
+  OAuthNonce,
+  OAuthState,
+  PkceCodeChallenge,
+  PkceCodeVerifier,
+} from '@modules/auth/domain/ports/identity-provider';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+
+import { IdentityProviderRegistry } from '../services/identity-provider.registry';
+
+export interface StartOAuthSignInInput {
+  provider: string;
+}
+
+export interface StartOAuthSignInOutput {
+  /** Where to send the browser. */
+  authorizationUrl: string;
+  /** Signed state, nonce and PKCE verifier; kept in a cookie until `CompleteOAuthSignInUseCase` needs them. */
+  stateToken: OAuthStateToken;
+  expiresAt: OAuthStateExpiresAt;
+}
+
+const randomToken = () => randomBytes(32).toString('base64url');
+
+/**
+ * First step of signing in with an identity provider: draws a fresh state, nonce and PKCE verifier for this
+ * attempt and builds the URL of the provider's consent page.
+ */
+@injectable()
+export class StartOAuthSignInUseCase implements IUseCase<StartOAuthSignInInput, StartOAuthSignInOutput> {
+  constructor(
+    @inject(AuthModuleTokens.IdentityProviderRegistry)
+    private readonly identityProviders: IdentityProviderRegistry,
+    @inject(AuthModuleTokens.AuthTokenService)
+    private readonly authTokenService: AuthTokenService
+  ) {}
+
+  async execute(input: StartOAuthSignInInput): Promise<StartOAuthSignInOutput> {
+    const identityProvider = this.identityProviders.get(input.provider);
+
+    const state = randomToken() as OAuthState;
+    const nonce = randomToken() as OAuthNonce;
+    const codeVerifier = randomToken() as PkceCodeVerifier;
+    const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url') as PkceCodeChallenge;
+
+    const authorizationUrl = await identityProvider.createAuthorizationUrl({ state, nonce, codeChallenge });
+    const { stateToken, expiresAt } = await this.authTokenService.generateOAuthState({
+      provider: identityProvider.name,
+      state,
+      nonce,
+      codeVerifier,
+    });
+
+    return { authorizationUrl, stateToken, expiresAt };
+  }
+}
@@ -0,0 +1,78 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { BUserName, IUser, UserEmail, UserId, UserPassword } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { ConflictError, ForbiddenError, UnauthorizedError, ValidationError } from '@shared/errors/error-mapper';
+
+import { SendVerificationEmailUseCase } from './send-verification-email.usecase';
+
+export interface UpdateProfileInput {
+  userId: UserId;
+  name?: BUserName;
+  email?: UserEmail;
+  /** Required to change the email address. */
+  currentPassword?: UserPassword;
+}
+
+export interface UpdateProfileOutput {
+  user: IUser;
+  /** Address awaiting confirmation; the account keeps its current address until the emailed link is used. */
+  pendingEmail?: UserEmail;
+}
+
+/**
+ * Updates the signed-in user's own profile. A new name applies at once. A new email address only takes effect
+ * once the link mailed to it is opened, so a mistyped address cannot lock the user out.
+ */
+@injectable()
+export class UpdateProfileUseCase implements IUseCase<UpdateProfileInput, UpdateProfileOutput> {
+  constructor(
+    @inject(AccountsModuleTokens.UserRepository) private readonly userRepository: UserRepository,
+    @inject(SendVerificationEmailUseCase)
+    private readonly sendVerificationEmailUseCase: SendVerificationEmailUseCase
+  ) {}
+
+  async execute({ userId, name, email, currentPassword }: UpdateProfileInput): Promise<UpdateProfileOutput> {
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      throw new UnauthorizedError('Associated user not found');
+    }
+
+    const isEmailChange = email !== undefined && email !== user.email;
+    if (isEmailChange) {
+      await this.assertCanChangeEmail(user, email, currentPassword);
+    }
+
+    if (name !== undefined && name !== user.name) {
+      await this.userRepository.updateName(user.id, name);
+      user.name = name;
+    }
+
+    if (isEmailChange) {
+      await this.sendVerificationEmailUseCase.execute({ user, email });
+    }
+
+    user.hiddenPassword();
+    return isEmailChange ? { user, pendingEmail: email } : { user };
+  }
+
+  // Whoever holds an access token could otherwise take the account over by moving its email elsewhere.
+  private async assertCanChangeEmail(user: IUser, email: UserEmail, currentPassword?: UserPassword): Promise<void> {
+    if (!currentPassword) {
+      throw new ValidationError('Current password is required to change the email address');
+    }
+
+    const isValidPassword = await user.comparePassword(currentPassword);
+    if (!isValidPassword) {
+      throw new ForbiddenError('Current password is incorrect');
+    }
+
+    const existingUser = await this.userRepository.getByEmailAnyStatus(email);
+    if (existingUser) {
+      throw new ConflictError('Email is already registered');
+    }
+  }
+}
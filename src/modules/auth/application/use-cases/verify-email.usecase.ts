@@ -0,0 +1,67 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserEmailVerifiedAt } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import {
+  ESingleUseTokenPurpose,
+  type SingleUseTokenConsumedAt,
+  type SingleUseTokenHash,
+  type SingleUseTokenPlain,
+} from '@modules/auth/domain/entities/single-use-token.entity';
+import { SingleUseTokenRepository } from '@modules/auth/domain/ports/single-use-token.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { ConflictError, ValidationError } from '@shared/errors/error-mapper';
+import { hashOpaqueToken } from '@shared/utils/opaque-token.util';
+
+export interface VerifyEmailInput {
+  token: SingleUseTokenPlain;
+}
+
+export interface VerifyEmailOutput {
+  success: boolean;
+}
+
+@injectable()
+export class VerifyEmailUseCase implements IUseCase<VerifyEmailInput, VerifyEmailOutput> {
+  constructor(
+    @inject(AuthModuleTokens.SingleUseTokenRepository)
+    private readonly singleUseTokenRepository: SingleUseTokenRepository,
+    @inject(AccountsModuleTokens.UserRepository) private readonly userRepository: UserRepository
+  ) {}
+
+  async execute({ token }: VerifyEmailInput): Promise<VerifyEmailOutput> {
+    const now = new Date();
+    const storedToken = await this.singleUseTokenRepository.findByTokenHash(
+      ESingleUseTokenPurpose.emailVerification,
+      hashOpaqueToken(token) as SingleUseTokenHash
+    );
+
+    if (!storedToken || storedToken.isConsumed() || storedToken.isExpired(now)) {
+      throw new ValidationError('Invalid or expired verification token');
+    }
+
+    // The address was free when the change was requested, but someone may have registered it since.
+    if (storedToken.email) {
+      const owner = await this.userRepository.getByEmailAnyStatus(storedToken.email);
+      if (owner && owner.id !== storedToken.userId) {
+        throw new ConflictError('Email is already registered');
+      }
+    }
+
+    const consumed = await this.singleUseTokenRepository.markConsumed(storedToken.id, now as SingleUseTokenConsumedAt);
+    if (!consumed) {
+      throw new ValidationError('Invalid or expired verification token');
+    }
+
+    if (storedToken.email) {
+      await this.userRepository.updateEmail(storedToken.userId, storedToken.email, now as UserEmailVerifiedAt);
+    } else {
+      await this.userRepository.markEmailVerified(storedToken.userId, now as UserEmailVerifiedAt);
+    }
+
+    return { success: true };
+  }
+}
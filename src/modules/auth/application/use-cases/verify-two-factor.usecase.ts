@@ -0,0 +1,115 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { IUser } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccountsModuleTokens } from '@modules/accounts/module.tokens';
+import type { SessionDevice } from '@modules/auth/domain/entities/refresh-token.entity';
+import type {
+  RecoveryCodeUsedAt,
+  TwoFactorChallengeToken,
+  TwoFactorCode,
+  TwoFactorTimeStep,
+} from '@modules/auth/domain/entities/two-factor.entity';
+import { AuthTokenService } from '@modules/auth/domain/ports/auth-token.service';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import { UnauthorizedError } from '@shared/errors/error-mapper';
+import { verifyTotp } from '@shared/utils/totp.util';
+
+import { type AuthenticatedUser, BaseAuthUseCase } from '../base/base-auth.usecase';
+import { LoginThrottleService } from '../services/login-throttle.service';
+
+export interface VerifyTwoFactorInput {
+  challengeToken: TwoFactorChallengeToken;
+  /** A 6-digit code from the authenticator app, or one of the recovery codes. */
+  code: TwoFactorCode;
+  device?: SessionDevice;
+}
+
+const TOTP_CODE_PATTERN = /^\d{6}$/;
+
+/**
+ * Second sign-in step: exchanges the challenge token from `SignInUseCase` plus a valid code for a session.
+ * Wrong codes count towards a per-user lockout, so guessing cannot continue across fresh challenges. A challenge
+ * is redeemed at most once.
+ */
+@injectable()
+export class VerifyTwoFactorUseCase extends BaseAuthUseCase<VerifyTwoFactorInput, AuthenticatedUser> {
+  constructor(
+    @inject(AccountsModuleTokens.UserRepository)
+    protected readonly userRepository: UserRepository,
+    @inject(AuthModuleTokens.RefreshTokenRepository)
+    protected readonly refreshTokenRepository: RefreshTokenRepository,
+    @inject(AuthModuleTokens.AuthTokenService)
+    protected readonly authTokenService: AuthTokenService,
+    @inject(AuthModuleTokens.TwoFactorRepository)
+    private readonly twoFactorRepository: TwoFactorRepository,
+    @inject(LoginThrottleService) private readonly loginThrottle: LoginThrottleService
+  ) {
+    super(userRepository, refreshTokenRepository, authTokenService);
+  }
+
+  async execute(input: VerifyTwoFactorInput): Promise<AuthenticatedUser> {
+    const challenge = await this.authTokenService.verifyTwoFactorChallenge(input.challengeToken);
+    if (!challenge) {
+      throw new UnauthorizedError('Invalid or expired two-factor challenge');
+    }
+    const { userId } = challenge;
+
+    await this.loginThrottle.assertTwoFactorNotLocked(userId);
+
+    const user = await this.userRepository.getByIdAnyStatus(userId);
+    if (!user) {
+      throw new UnauthorizedError('Associated user not found');
+    }
+    user.assertActive();
+
+    const isValidCode = await this.verifyCode(user, input.code);
+    if (!isValidCode) {
+      await this.loginThrottle.recordTwoFactorFailure(user.id);
+      throw new UnauthorizedError('Invalid two-factor code');
+    }
+
+    // Checked only once the code is right, so a wrong code does not use up the challenge.
+    const isFirstUse = await this.twoFactorRepository.recordUsedChallenge(challenge.jti, challenge.expiresAt);
+    if (!isFirstUse) {
+      throw new UnauthorizedError('Two-factor challenge has already been used');
+    }
+
+    await this.loginThrottle.recordTwoFactorSuccess(user.id);
+
+    return await this.generateTokensForUser(user, input.device);
+  }
+
+  private async verifyCode(user: IUser, code: TwoFactorCode): Promise<boolean> {
+    const twoFactor = await this.twoFactorRepository.findByUserId(user.id);
+    if (!twoFactor?.isEnabled()) {
+      return false;
+    }
+
+    const now = new Date();
+
+    if (TOTP_CODE_PATTERN.test(code)) {
+      const step = verifyTotp(twoFactor.secret, code, now);
+      // recordUsedStep refuses steps at or before the last accepted one, so a code cannot be replayed.
+      return step !== undefined && (await this.twoFactorRepository.recordUsedStep(user.id, step as TwoFactorTimeStep));
+    }
+
+    return this.consumeRecoveryCode(user, code, now);
+  }
+
+  // The codes are stored as salted argon2 hashes, which cannot be looked up, so each unused one is compared.
+  private async consumeRecoveryCode(user: IUser, code: TwoFactorCode, now: Date): Promise<boolean> {
+    const recoveryCodes = await this.twoFactorRepository.findUnusedRecoveryCodes(user.id);
+
+    for (const recoveryCode of recoveryCodes) {
+      if (await recoveryCode.compareCode(code)) {
+        return this.twoFactorRepository.markRecoveryCodeUsed(recoveryCode.id, now as RecoveryCodeUsedAt);
+      }
+    }
+
+    return false;
+  }
+}
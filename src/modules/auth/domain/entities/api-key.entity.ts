@@ -0,0 +1,92 @@
+import * as argon2 from 'argon2';
+import { StrictBuilder } from 'builder-pattern';
+
+import type { Permission } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { argon2Config } from '@modules/auth/infrastructure/config/auth.config';
+import { Brand } from '@shared/kernel/brand.type';
+
+export type ApiKeyId = Brand<string, 'ApiKeyId'>;
+export type ApiKeyName = Brand<string, 'ApiKeyName'>;
+/** Public, unique part of a key that finds its row; the secret after it is only stored hashed. */
+export type ApiKeyPrefix = Brand<string, 'ApiKeyPrefix'>;
+export type ApiKeyHash = Brand<string, 'ApiKeyHash'>;
+/** The full key as handed to the user: `ak_<prefix>.<secret>`. */
+export type ApiKeyPlain = Brand<string, 'ApiKeyPlain'>;
+export type ApiKeyCreatedAt = Brand<Date, 'ApiKeyCreatedAt'>;
+export type ApiKeyExpiresAt = Brand<Date, 'ApiKeyExpiresAt'>;
+export type ApiKeyRevokedAt = Brand<Date, 'ApiKeyRevokedAt'>;
+export type ApiKeyLastUsedAt = Brand<Date, 'ApiKeyLastUsedAt'>;
+
+export const API_KEY_MARKER = 'ak_';
+
+/**
+ * Splits a presented key into its prefix, or returns `undefined` when it does not have the `ak_<prefix>.<secret>`
+ * shape.
+ */
+export const parseApiKeyPrefix = (key: string): ApiKeyPrefix | undefined => {
+  if (!key.startsWith(API_KEY_MARKER)) {
+    return undefined;
+  }
+
+  const parts = key.slice(API_KEY_MARKER.length).split('.');
+  const [prefix, secret] = parts;
+
+  return prefix && secret && parts.length === 2 ? (prefix as ApiKeyPrefix) : undefined;
+};
+
+export interface IApiKey {
+  id: ApiKeyId;
+  userId: UserId;
+  name: ApiKeyName;
+  prefix: ApiKeyPrefix;
+  keyHash: ApiKeyHash;
+  /** Permissions the key is limited to; unset means everything the owner's role allows. */
+  scopes?: Permission[];
+  createdAt?: ApiKeyCreatedAt;
+  expiresAt?: ApiKeyExpiresAt;
+  revokedAt?: ApiKeyRevokedAt;
+  lastUsedAt?: ApiKeyLastUsedAt;
+
+  compareKey(key: ApiKeyPlain): Promise<boolean>;
+  setHashKey(key: ApiKeyPlain): Promise<void>;
+  isRevoked(): boolean;
+  isExpired(referenceDate?: Date): boolean;
+}
+
+export class ApiKey implements IApiKey {
+  id: ApiKeyId = '' as ApiKeyId;
+  userId: UserId = '' as UserId;
+  name: ApiKeyName = '' as ApiKeyName;
+  prefix: ApiKeyPrefix = '' as ApiKeyPrefix;
+  keyHash: ApiKeyHash = '' as ApiKeyHash;
+  scopes?: Permission[];
+  createdAt?: ApiKeyCreatedAt;
+  expiresAt?: ApiKeyExpiresAt;
+  revokedAt?: ApiKeyRevokedAt;
+  lastUsedAt?: ApiKeyLastUsedAt;
+
+  async compareKey(key: ApiKeyPlain): Promise<boolean> {
+    return argon2.verify(this.keyHash, key);
+  }
+
+  async setHashKey(key: ApiKeyPlain): Promise<void> {
+    const argon2Options = StrictBuilder<argon2.Options>()
+      .type(argon2.argon2id)
+      .memoryCost(argon2Config.memoryCost)
+      .timeCost(argon2Config.timeCost)
+      .parallelism(argon2Config.parallelism)
+      .salt(argon2Config.saltBuffer)
+      .build();
+
+    this.keyHash = (await argon2.hash(key, argon2Options)) as ApiKeyHash;
+  }
+
+  isRevoked(): boolean {
+    return Boolean(this.revokedAt);
+  }
+
+  isExpired(referenceDate: Date = new Date()): boolean {
+    return Boolean(this.expiresAt && this.expiresAt.getTime() <= referenceDate.getTime());
+  }
+}
@@ -0,0 +1,45 @@
+import { Brand } from '@shared/kernel/brand.type';
+
+export enum ELoginAttemptScope {
+  email = 'email',
+  ip = 'ip',
+  twoFactor = 'two_factor',
+}
+
+export type LoginAttemptKey = Brand<string, 'LoginAttemptKey'>;
+export type LoginAttemptFailedCount = Brand<number, 'LoginAttemptFailedCount'>;
+export type LoginAttemptLastFailedAt = Brand<Date, 'LoginAttemptLastFailedAt'>;
+export type LoginAttemptLockedUntil = Brand<Date, 'LoginAttemptLockedUntil'>;
+
+export interface ILoginAttempt {
+  scope: ELoginAttemptScope;
+  /** Lower-cased email address, client IP or, for two-factor codes, the user id, depending on the scope. */
+  key: LoginAttemptKey;
+  /** Consecutive failures; starts over once the scope has been quiet for the configured window. */
+  failedCount: LoginAttemptFailedCount;
+  lastFailedAt: LoginAttemptLastFailedAt;
+  lockedUntil?: LoginAttemptLockedUntil;
+
+  isLocked(referenceDate?: Date): boolean;
+  retryAfterSeconds(referenceDate?: Date): number;
+}
+
+export class LoginAttempt implements ILoginAttempt {
+  scope: ELoginAttemptScope = ELoginAttemptScope.email;
+  key: LoginAttemptKey = '' as LoginAttemptKey;
+  failedCount: LoginAttemptFailedCount = 0 as LoginAttemptFailedCount;
+  lastFailedAt: LoginAttemptLastFailedAt = new Date() as LoginAttemptLastFailedAt;
+  lockedUntil?: LoginAttemptLockedUntil;
+
+  isLocked(referenceDate: Date = new Date()): boolean {
+    return Boolean(this.lockedUntil) && this.lockedUntil!.getTime() > referenceDate.getTime();
+  }
+
+  retryAfterSeconds(referenceDate: Date = new Date()): number {
+    if (!this.isLocked(referenceDate)) {
+      return 0;
+    }
+
+    return Math.ceil((this.lockedUntil!.getTime() - referenceDate.getTime()) / 1000);
+  }
+}
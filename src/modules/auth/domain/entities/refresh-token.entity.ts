@@ -10,6 +10,16 @@ export type RefreshTokenPlain = Brand<string, 'RefreshTokenPlain'>;
 export type RefreshTokenCreatedAt = Brand<Date, 'RefreshTokenCreatedAt'>;
 export type RefreshTokenExpiresAt = Brand<Date, 'RefreshTokenExpiresAt'>;
 export type RefreshTokenRevokedAt = Brand<Date, 'RefreshTokenRevokedAt'>;
+export type RefreshTokenSessionId = Brand<string, 'RefreshTokenSessionId'>;
+export type RefreshTokenUserAgent = Brand<string, 'RefreshTokenUserAgent'>;
+export type RefreshTokenIpAddress = Brand<string, 'RefreshTokenIpAddress'>;
+export type RefreshTokenLastUsedAt = Brand<Date, 'RefreshTokenLastUsedAt'>;
+
+/** Client the session was opened or last refreshed from. */
+export interface SessionDevice {
+  userAgent?: RefreshTokenUserAgent;
+  ipAddress?: RefreshTokenIpAddress;
+}
 
 export interface IRefreshToken {
   id: RefreshTokenId;
@@ -19,6 +29,16 @@ export interface IRefreshToken {
   createdAt?: RefreshTokenCreatedAt;
   expiresAt: RefreshTokenExpiresAt;
   revokedAt?: RefreshTokenRevokedAt;
+  /**
+   * Shared by every token rotated from the same sign-in; identifies the session to the user and is the
+   * rotation family that is revoked as a whole when a rotated token is replayed.
+   */
+  sessionId?: RefreshTokenSessionId;
+  /** The token this one was rotated from; unset for the first token of a session. */
+  parentJti?: RefreshTokenJti;
+  userAgent?: RefreshTokenUserAgent;
+  ipAddress?: RefreshTokenIpAddress;
+  lastUsedAt?: RefreshTokenLastUsedAt;
 
   compareToken(token: RefreshTokenPlain): Promise<boolean>;
   markRevoked(revokedAt?: RefreshTokenRevokedAt): void;
@@ -34,6 +54,11 @@ export class RefreshToken implements IRefreshToken {
   createdAt?: RefreshTokenCreatedAt;
   expiresAt: RefreshTokenExpiresAt = new Date() as RefreshTokenExpiresAt;
   revokedAt?: RefreshTokenRevokedAt;
+  sessionId?: RefreshTokenSessionId;
+  parentJti?: RefreshTokenJti;
+  userAgent?: RefreshTokenUserAgent;
+  ipAddress?: RefreshTokenIpAddress;
+  lastUsedAt?: RefreshTokenLastUsedAt;
 
   async compareToken(token: RefreshTokenPlain): Promise<boolean> {
     return argon2.verify(this.tokenHash, token);
@@ -0,0 +1,51 @@
+import type { UserEmail, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { Brand } from '@shared/kernel/brand.type';
+
+/** What a mailed link does; a token only ever works for the purpose it was issued for. */
+export enum ESingleUseTokenPurpose {
+  emailVerification = 'email_verification',
+  passwordReset = 'password_reset',
+  magicLink = 'magic_link',
+}
+
+export type SingleUseTokenId = Brand<string, 'SingleUseTokenId'>;
+export type SingleUseTokenHash = Brand<string, 'SingleUseTokenHash'>;
+export type SingleUseTokenPlain = Brand<string, 'SingleUseTokenPlain'>;
+export type SingleUseTokenCreatedAt = Brand<Date, 'SingleUseTokenCreatedAt'>;
+export type SingleUseTokenExpiresAt = Brand<Date, 'SingleUseTokenExpiresAt'>;
+export type SingleUseTokenConsumedAt = Brand<Date, 'SingleUseTokenConsumedAt'>;
+
+export interface ISingleUseToken {
+  id: SingleUseTokenId;
+  userId: UserId;
+  purpose: ESingleUseTokenPurpose;
+  /** SHA-256 of the token in the email; the token itself is never stored. */
+  tokenHash: SingleUseTokenHash;
+  /** New address an email verification link confirms for an email change; unset otherwise. */
+  email?: UserEmail;
+  createdAt?: SingleUseTokenCreatedAt;
+  expiresAt: SingleUseTokenExpiresAt;
+  consumedAt?: SingleUseTokenConsumedAt;
+
+  isConsumed(): boolean;
+  isExpired(referenceDate?: Date): boolean;
+}
+
+export class SingleUseToken implements ISingleUseToken {
+  id: SingleUseTokenId = '' as SingleUseTokenId;
+  userId: UserId = '' as UserId;
+  purpose: ESingleUseTokenPurpose = ESingleUseTokenPurpose.emailVerification;
+  tokenHash: SingleUseTokenHash = '' as SingleUseTokenHash;
+  email?: UserEmail;
+  createdAt?: SingleUseTokenCreatedAt;
+  expiresAt: SingleUseTokenExpiresAt = new Date() as SingleUseTokenExpiresAt;
+  consumedAt?: SingleUseTokenConsumedAt;
+
+  isConsumed(): boolean {
+    return Boolean(this.consumedAt);
+  }
+
+  isExpired(referenceDate: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= referenceDate.getTime();
+  }
+}
@@ -0,0 +1,79 @@
+import * as argon2 from 'argon2';
+import { StrictBuilder } from 'builder-pattern';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { argon2Config } from '@modules/auth/infrastructure/config/auth.config';
+import { Brand } from '@shared/kernel/brand.type';
+
+export type TwoFactorSecret = Brand<string, 'TwoFactorSecret'>;
+export type TwoFactorCode = Brand<string, 'TwoFactorCode'>;
+export type TwoFactorTimeStep = Brand<number, 'TwoFactorTimeStep'>;
+export type TwoFactorCreatedAt = Brand<Date, 'TwoFactorCreatedAt'>;
+export type TwoFactorEnabledAt = Brand<Date, 'TwoFactorEnabledAt'>;
+export type TwoFactorChallengeToken = Brand<string, 'TwoFactorChallengeToken'>;
+export type TwoFactorChallengeJti = Brand<string, 'TwoFactorChallengeJti'>;
+export type RecoveryCodeId = Brand<string, 'RecoveryCodeId'>;
+export type RecoveryCodeHash = Brand<string, 'RecoveryCodeHash'>;
+export type RecoveryCodeUsedAt = Brand<Date, 'RecoveryCodeUsedAt'>;
+
+export interface ITwoFactor {
+  userId: UserId;
+  /** Base32 TOTP secret shared with the user's authenticator app. */
+  secret: TwoFactorSecret;
+  createdAt?: TwoFactorCreatedAt;
+  /** Unset while enrollment is pending, i.e. before the first code was confirmed. */
+  enabledAt?: TwoFactorEnabledAt;
+  /** Time step of the last accepted code; codes at or before it are refused so none can be replayed. */
+  lastUsedStep?: TwoFactorTimeStep;
+
+  isEnabled(): boolean;
+}
+
+export class TwoFactor implements ITwoFactor {
+  userId: UserId = '' as UserId;
+  secret: TwoFactorSecret = '' as TwoFactorSecret;
+  createdAt?: TwoFactorCreatedAt;
+  enabledAt?: TwoFactorEnabledAt;
+  lastUsedStep?: TwoFactorTimeStep;
+
+  isEnabled(): boolean {
+    return Boolean(this.enabledAt);
+  }
+}
+
+export interface IRecoveryCode {
+  id: RecoveryCodeId;
+  userId: UserId;
+  codeHash: RecoveryCodeHash;
+  usedAt?: RecoveryCodeUsedAt;
+
+  compareCode(code: string): Promise<boolean>;
+}
+
+export class RecoveryCode implements IRecoveryCode {
+  id: RecoveryCodeId = '' as RecoveryCodeId;
+  userId: UserId = '' as UserId;
+  codeHash: RecoveryCodeHash = '' as RecoveryCodeHash;
+  usedAt?: RecoveryCodeUsedAt;
+
+  async compareCode(code: string): Promise<boolean> {
+    return argon2.verify(this.codeHash, normalizeRecoveryCode(code));
+  }
+}
+
+/**
+ * Recovery codes are shown as `XXXX-XXXX-XXXX-XXXX`; users may type them in any case, with or without the dashes.
+ */
+export const normalizeRecoveryCode = (code: string): string => code.toUpperCase().replace(/[\s-]/g, '');
+
+export const hashRecoveryCode = async (code: string): Promise<RecoveryCodeHash> => {
+  const argon2Options = StrictBuilder<argon2.Options>()
+    .type(argon2.argon2id)
+    .memoryCost(argon2Config.memoryCost)
+    .timeCost(argon2Config.timeCost)
+    .parallelism(argon2Config.parallelism)
+    .salt(argon2Config.saltBuffer)
+    .build();
+
+  return (await argon2.hash(normalizeRecoveryCode(code), argon2Options)) as RecoveryCodeHash;
+};
@@ -0,0 +1,31 @@
+import type { UserEmail, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { Brand } from '@shared/kernel/brand.type';
+
+export type UserIdentityId = Brand<string, 'UserIdentityId'>;
+/** Name of a configured identity provider, e.g. `google`; it appears in the sign-in URLs. */
+export type IdentityProviderName = Brand<string, 'IdentityProviderName'>;
+/** The provider's stable identifier for the account (the ID token `sub` claim). */
+export type IdentitySubject = Brand<string, 'IdentitySubject'>;
+export type UserIdentityCreatedAt = Brand<Date, 'UserIdentityCreatedAt'>;
+export type UserIdentityLastUsedAt = Brand<Date, 'UserIdentityLastUsedAt'>;
+
+export interface IUserIdentity {
+  id: UserIdentityId;
+  userId: UserId;
+  provider: IdentityProviderName;
+  subject: IdentitySubject;
+  /** Address the provider reported when the identity was linked; informational only. */
+  email?: UserEmail;
+  createdAt?: UserIdentityCreatedAt;
+  lastUsedAt?: UserIdentityLastUsedAt;
+}
+
+export class UserIdentity implements IUserIdentity {
+  id: UserIdentityId = '' as UserIdentityId;
+  userId: UserId = '' as UserId;
+  provider: IdentityProviderName = '' as IdentityProviderName;
+  subject: IdentitySubject = '' as IdentitySubject;
+  email?: UserEmail;
+  createdAt?: UserIdentityCreatedAt;
+  lastUsedAt?: UserIdentityLastUsedAt;
+}
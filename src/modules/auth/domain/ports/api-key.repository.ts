@@ -0,0 +1,18 @@
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type {
+  ApiKeyId,
+  ApiKeyLastUsedAt,
+  ApiKeyPrefix,
+  ApiKeyRevokedAt,
+  IApiKey,
+} from '@modules/auth/domain/entities/api-key.entity';
+
+export abstract class ApiKeyRepository {
+  abstract create(apiKey: IApiKey): Promise<IApiKey>;
+  abstract findByPrefix(prefix: ApiKeyPrefix): Promise<IApiKey | undefined>;
+  /** Keys that are not revoked, newest first; expired ones are included so the user can see and revoke them. */
+  abstract findUnrevokedByUserId(userId: UserId): Promise<IApiKey[]>;
+  /** Revokes the key only if it belongs to `userId` and is not revoked yet; returns whether it did. */
+  abstract revoke(userId: UserId, id: ApiKeyId, revokedAt: ApiKeyRevokedAt): Promise<boolean>;
+  abstract markUsed(id: ApiKeyId, usedAt: ApiKeyLastUsedAt): Promise<void>;
+}
@@ -1,12 +1,18 @@
-import type { IUser } from '@modules/accounts/domain/entities/user.entity';
+import type { IUser, UserId } from '@modules/accounts/domain/entities/user.entity';
 import type {
   RefreshTokenExpiresAt,
   RefreshTokenHash,
   RefreshTokenJti,
 } from '@modules/auth/domain/entities/refresh-token.entity';
+import type { TwoFactorChallengeJti, TwoFactorChallengeToken } from '@modules/auth/domain/entities/two-factor.entity';
+import type { IdentityProviderName } from '@modules/auth/domain/entities/user-identity.entity';
+import type { OAuthNonce, OAuthState, PkceCodeVerifier } from '@modules/auth/domain/ports/identity-provider';
 import { Brand } from '@shared/kernel/brand.type';
 
 export type AccessTokenExpiresAt = Brand<Date, 'AccessTokenExpiresAt'>;
+export type TwoFactorChallengeExpiresAt = Brand<Date, 'TwoFactorChallengeExpiresAt'>;
+export type OAuthStateToken = Brand<string, 'OAuthStateToken'>;
+export type OAuthStateExpiresAt = Brand<Date, 'OAuthStateExpiresAt'>;
 
 export interface GeneratedAuthTokens {
   accessToken: string;
@@ -17,6 +23,41 @@ export interface GeneratedAuthTokens {
   refreshTokenHash: RefreshTokenHash;
 }
 
+export interface GeneratedTwoFactorChallenge {
+  challengeToken: TwoFactorChallengeToken;
+  expiresAt: TwoFactorChallengeExpiresAt;
+}
+
+export interface VerifiedTwoFactorChallenge {
+  userId: UserId;
+  /** Identifies the challenge so it can be redeemed only once. */
+  jti: TwoFactorChallengeJti;
+  expiresAt: TwoFactorChallengeExpiresAt;
+}
+
+/** What the callback of a provider sign-in needs to check the response and redeem the code. */
+export interface OAuthSignInState {
+  provider: IdentityProviderName;
+  state: OAuthState;
+  nonce: OAuthNonce;
+  codeVerifier: PkceCodeVerifier;
+}
+
+export interface GeneratedOAuthState {
+  stateToken: OAuthStateToken;
+  expiresAt: OAuthStateExpiresAt;
+}
+
 export abstract class AuthTokenService {
   abstract generateTokens(user: IUser): Promise<GeneratedAuthTokens>;
+  /** Short-lived proof that the user passed the password step; it grants no access on its own. */
+  abstract generateTwoFactorChallenge(user: IUser): Promise<GeneratedTwoFactorChallenge>;
+  /** Returns the user the challenge was issued to, or `undefined` when it is invalid or expired. */
+  abstract verifyTwoFactorChallenge(
+    challengeToken: TwoFactorChallengeToken
+  ): Promise<VerifiedTwoFactorChallenge | undefined>;
+  /** Signs the state of a provider sign-in so it can wait in a browser cookie until the callback. */
+  abstract generateOAuthState(signInState: OAuthSignInState): Promise<GeneratedOAuthState>;
+  /** Returns the signed state, or `undefined` when the token is invalid or expired. */
+  abstract verifyOAuthState(stateToken: OAuthStateToken): Promise<OAuthSignInState | undefined>;
 }
@@ -0,0 +1,45 @@
+import type { UserEmail } from '@modules/accounts/domain/entities/user.entity';
+import type { IdentityProviderName, IdentitySubject } from '@modules/auth/domain/entities/user-identity.entity';
+import { Brand } from '@shared/kernel/brand.type';
+
+export type OAuthState = Brand<string, 'OAuthState'>;
+export type OAuthNonce = Brand<string, 'OAuthNonce'>;
+export type OAuthAuthorizationCode = Brand<string, 'OAuthAuthorizationCode'>;
+/** PKCE secret kept by the client; only its SHA-256 challenge is sent in the authorization request. */
+export type PkceCodeVerifier = Brand<string, 'PkceCodeVerifier'>;
+export type PkceCodeChallenge = Brand<string, 'PkceCodeChallenge'>;
+
+export interface AuthorizationRequest {
+  state: OAuthState;
+  nonce: OAuthNonce;
+  codeChallenge: PkceCodeChallenge;
+}
+
+export interface AuthorizationCodeExchange {
+  code: OAuthAuthorizationCode;
+  codeVerifier: PkceCodeVerifier;
+  /** Must come back unchanged in the ID token, which ties the token to this sign-in attempt. */
+  nonce: OAuthNonce;
+}
+
+export interface ExternalIdentity {
+  subject: IdentitySubject;
+  email?: UserEmail;
+  /** Whether the provider vouches for `email`; unverified addresses are never used to find or create users. */
+  emailVerified: boolean;
+  name?: string;
+}
+
+/**
+ * An external sign-in service using the OAuth 2.0 authorization-code flow with PKCE (S256).
+ */
+export abstract class IdentityProvider {
+  abstract readonly name: IdentityProviderName;
+  /** URL of the provider's consent page that the browser is sent to. */
+  abstract createAuthorizationUrl(request: AuthorizationRequest): Promise<string>;
+  /**
+   * Redeems the code and returns the identity from a validated ID token. Throws `UnauthorizedError` when the
+   * provider rejects the code or the ID token fails validation.
+   */
+  abstract exchangeCode(exchange: AuthorizationCodeExchange): Promise<ExternalIdentity>;
+}
@@ -0,0 +1,23 @@
+import type {
+  ELoginAttemptScope,
+  ILoginAttempt,
+  LoginAttemptKey,
+  LoginAttemptLastFailedAt,
+  LoginAttemptLockedUntil,
+} from '@modules/auth/domain/entities/login-attempt.entity';
+
+export abstract class LoginAttemptRepository {
+  abstract findByKey(scope: ELoginAttemptScope, key: LoginAttemptKey): Promise<ILoginAttempt | undefined>;
+  /**
+   * Counts one more failure and returns the updated record. The count starts over when neither the last failure
+   * nor the end of the last lockout falls after `windowStart`.
+   */
+  abstract recordFailure(
+    scope: ELoginAttemptScope,
+    key: LoginAttemptKey,
+    failedAt: LoginAttemptLastFailedAt,
+    windowStart: Date
+  ): Promise<ILoginAttempt>;
+  abstract lock(scope: ELoginAttemptScope, key: LoginAttemptKey, lockedUntil: LoginAttemptLockedUntil): Promise<void>;
+  abstract clear(scope: ELoginAttemptScope, key: LoginAttemptKey): Promise<void>;
+}
@@ -3,11 +3,31 @@ import type {
   IRefreshToken,
   RefreshTokenJti,
   RefreshTokenRevokedAt,
+  RefreshTokenSessionId,
 } from '@modules/auth/domain/entities/refresh-token.entity';
 
 export abstract class RefreshTokenRepository {
   abstract create(token: IRefreshToken): Promise<IRefreshToken>;
   abstract findByJti(jti: RefreshTokenJti): Promise<IRefreshToken | undefined>;
+  /** The token rotated from `parentJti`, if that token has been rotated. */
+  abstract findByParentJti(parentJti: RefreshTokenJti): Promise<IRefreshToken | undefined>;
   abstract revokeAllByUserId(userId: UserId, revokedAt: RefreshTokenRevokedAt): Promise<void>;
   abstract revokeByJti(jti: RefreshTokenJti, revokedAt: RefreshTokenRevokedAt): Promise<void>;
+  /** Tokens that are neither revoked nor expired at `now`, most recently used first; one per session. */
+  abstract findActiveByUserId(userId: UserId, now: Date): Promise<IRefreshToken[]>;
+  /**
+   * Jtis of the user's tokens created at or after `since`, optionally within one session. Each issuance shares
+   * its jti with an access token, so these are the access tokens that may not have expired yet.
+   */
+  abstract findJtisIssuedSince(
+    userId: UserId,
+    since: Date,
+    sessionId?: RefreshTokenSessionId
+  ): Promise<RefreshTokenJti[]>;
+  /** Revokes the session's active token; returns `false` when the user has no such active session. */
+  abstract revokeBySessionId(
+    userId: UserId,
+    sessionId: RefreshTokenSessionId,
+    revokedAt: RefreshTokenRevokedAt
+  ): Promise<boolean>;
 }
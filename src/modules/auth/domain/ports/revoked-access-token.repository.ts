@@ -0,0 +1,10 @@
+import type { RefreshTokenJti } from '@modules/auth/domain/entities/refresh-token.entity';
+
+/** Access tokens that must be refused before they expire, keyed by the jti they share with their refresh token. */
+export abstract class RevokedAccessTokenRepository {
+  /** Adds the jtis; one already listed keeps the later of its two expiry times. */
+  abstract addMany(jtis: RefreshTokenJti[], expiresAt: Date): Promise<void>;
+  abstract isRevoked(jti: RefreshTokenJti, now: Date): Promise<boolean>;
+  /** Drops entries whose tokens have expired anyway; returns how many were removed. */
+  abstract deleteExpired(now: Date): Promise<number>;
+}
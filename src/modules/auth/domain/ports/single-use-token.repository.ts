@@ -0,0 +1,21 @@
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type {
+  ESingleUseTokenPurpose,
+  ISingleUseToken,
+  SingleUseTokenConsumedAt,
+  SingleUseTokenHash,
+  SingleUseTokenId,
+} from '@modules/auth/domain/entities/single-use-token.entity';
+
+/** Tokens mailed as links for email verification, password reset and passwordless sign-in. */
+export abstract class SingleUseTokenRepository {
+  abstract create(token: ISingleUseToken): Promise<ISingleUseToken>;
+  abstract findByTokenHash(
+    purpose: ESingleUseTokenPurpose,
+    tokenHash: SingleUseTokenHash
+  ): Promise<ISingleUseToken | undefined>;
+  /** Marks the token used; returns `false` when it had already been consumed. */
+  abstract markConsumed(id: SingleUseTokenId, consumedAt: SingleUseTokenConsumedAt): Promise<boolean>;
+  /** Drops the user's unused tokens for the purpose, so only the most recently mailed link works. */
+  abstract deleteUnconsumedByUserId(userId: UserId, purpose: ESingleUseTokenPurpose): Promise<void>;
+}
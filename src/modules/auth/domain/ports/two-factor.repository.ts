@@ -0,0 +1,27 @@
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type {
+  IRecoveryCode,
+  ITwoFactor,
+  RecoveryCodeHash,
+  RecoveryCodeId,
+  RecoveryCodeUsedAt,
+  TwoFactorChallengeJti,
+  TwoFactorEnabledAt,
+  TwoFactorSecret,
+  TwoFactorTimeStep,
+} from '@modules/auth/domain/entities/two-factor.entity';
+
+export abstract class TwoFactorRepository {
+  abstract findByUserId(userId: UserId): Promise<ITwoFactor | undefined>;
+  /** Starts (or restarts) enrollment with a new secret; the user stays without 2FA until `enable`. */
+  abstract savePending(userId: UserId, secret: TwoFactorSecret): Promise<ITwoFactor>;
+  abstract enable(userId: UserId, enabledAt: TwoFactorEnabledAt, step: TwoFactorTimeStep): Promise<void>;
+  /** Records an accepted code's step; returns `false` when that step or a later one was already used. */
+  abstract recordUsedStep(userId: UserId, step: TwoFactorTimeStep): Promise<boolean>;
+  abstract replaceRecoveryCodes(userId: UserId, codeHashes: RecoveryCodeHash[]): Promise<void>;
+  /** Records a redeemed sign-in challenge; returns `false` when it was redeemed before. */
+  abstract recordUsedChallenge(jti: TwoFactorChallengeJti, expiresAt: Date): Promise<boolean>;
+  abstract findUnusedRecoveryCodes(userId: UserId): Promise<IRecoveryCode[]>;
+  /** Marks a recovery code as used; returns `false` when it already was. */
+  abstract markRecoveryCodeUsed(id: RecoveryCodeId, usedAt: RecoveryCodeUsedAt): Promise<boolean>;
+}
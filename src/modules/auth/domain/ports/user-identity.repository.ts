@@ -0,0 +1,16 @@
+import type {
+  IdentityProviderName,
+  IdentitySubject,
+  IUserIdentity,
+  UserIdentityId,
+  UserIdentityLastUsedAt,
+} from '@modules/auth/domain/entities/user-identity.entity';
+
+export abstract class UserIdentityRepository {
+  abstract findByProviderSubject(
+    provider: IdentityProviderName,
+    subject: IdentitySubject
+  ): Promise<IUserIdentity | undefined>;
+  abstract create(identity: IUserIdentity): Promise<IUserIdentity>;
+  abstract markUsed(id: UserIdentityId, usedAt: UserIdentityLastUsedAt): Promise<void>;
+}
@@ -5,6 +5,16 @@ import { durationToSeconds } from '@shared/utils/duration';
 
 export const DEFAULT_ACCESS_TOKEN_EXPIRES_IN = '15m';
 export const DEFAULT_REFRESH_TOKEN_EXPIRES_IN = '7d';
+export const DEFAULT_EMAIL_VERIFICATION_EXPIRES_IN = '24h';
+export const DEFAULT_PASSWORD_RESET_EXPIRES_IN = '1h';
+export const DEFAULT_MAGIC_LINK_EXPIRES_IN = '15m';
+export const DEFAULT_TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+export const DEFAULT_LOGIN_LOCKOUT_BASE = '30s';
+export const DEFAULT_LOGIN_LOCKOUT_MAX = '1h';
+export const DEFAULT_LOGIN_ATTEMPT_WINDOW = '15m';
+export const DEFAULT_ACCESS_TOKEN_DENYLIST_CACHE_TTL = '5s';
+export const DEFAULT_OAUTH_STATE_EXPIRES_IN = '10m';
+export const DEFAULT_OIDC_SCOPES = ['openid', 'email', 'profile'];
 
 const normalizeBoolean = (value: string | undefined, fallback: boolean) => {
   if (value === undefined) {
@@ -22,8 +32,28 @@ const normalizeSameSite = (value: string | undefined): 'lax' | 'strict' | 'none'
   return 'lax';
 };
 
+/**
+ * What signing up with the address of a deleted account does: `reject` it as already registered, or `replace`
+ * the old account, and whatever data it still holds, with a new one.
+ */
+export type DeletedAccountSignUpPolicy = 'reject' | 'replace';
+
+const normalizeDeletedAccountSignUp = (value: string | undefined): DeletedAccountSignUpPolicy =>
+  value?.toLowerCase() === 'replace' ? 'replace' : 'reject';
+
+const normalizeList = (value: string | undefined): string[] =>
+  (value ?? '')
+    .split(/[\s,]+/)
+    .map(item => item.trim())
+    .filter(Boolean);
+
 export interface JwtConfig {
-  secret: string;
+  /** HS256 shared secret; with asymmetric keys configured it only verifies tokens issued before the switch. */
+  secret?: string;
+  /** Directory of PEM keys for RS256/ES256, one file per key named `<kid>.pem`. */
+  keysDir?: string;
+  /** `kid` of the private key that signs new tokens. */
+  activeKid?: string;
   issuer: string;
   audience?: string;
   accessTokenExpiresIn: string;
@@ -40,10 +70,88 @@ export interface RefreshTokenCookieConfig {
   maxAgeSeconds: number;
 }
 
+export interface EmailVerificationConfig {
+  tokenTtlSeconds: number;
+  /** Page the emailed link points to; the token is appended as `?token=`. */
+  verifyUrl: string;
+}
+
+export interface PasswordResetConfig {
+  tokenTtlSeconds: number;
+  /** Page the emailed link points to; the token is appended as `?token=`. */
+  resetUrl: string;
+}
+
+export interface MagicLinkConfig {
+  tokenTtlSeconds: number;
+  /** Page the emailed sign-in link points to; the token is appended as `?token=`. */
+  signInUrl: string;
+}
+
+export interface TwoFactorConfig {
+  /** Shown next to the account in authenticator apps. */
+  issuer: string;
+  /** Lifetime of the challenge token sign-in returns while the second factor is outstanding. */
+  challengeExpiresIn: string;
+}
+
+export interface LoginThrottleConfig {
+  /** Failed sign-ins for one email address before it is locked. */
+  maxAttemptsPerEmail: number;
+  /** Failed sign-ins from one client IP before it is locked; higher because users can share an address. */
+  maxAttemptsPerIp: number;
+  /** Wrong two-factor codes for one user, across challenges, before the second step is locked. */
+  maxTwoFactorAttempts: number;
+  /** Length of the first lockout; every further failure doubles it, up to `maxLockoutSeconds`. */
+  baseLockoutSeconds: number;
+  maxLockoutSeconds: number;
+  /** Quiet period after which the failure count starts over. */
+  windowSeconds: number;
+}
+
+export interface AccessTokenDenylistConfig {
+  /** Most jtis kept in the in-process cache. */
+  cacheSize: number;
+  /**
+   * How long a "not revoked" answer is reused. Revocations made by this process apply at once; ones made by
+   * another instance are seen after at most this delay.
+   */
+  cacheTtlSeconds: number;
+}
+
+export interface OidcProviderConfig {
+  /** Lower-case name used in the sign-in URLs, e.g. `/auth/oauth/google`. */
+  name: string;
+  /** Issuer URL; its `/.well-known/openid-configuration` document supplies the endpoints and signing keys. */
+  issuer: string;
+  clientId: string;
+  /** Sent to the token endpoint when set; public clients rely on PKCE alone. */
+  clientSecret?: string;
+  /** This API's callback, `/auth/oauth/<name>/callback`, exactly as registered with the provider. */
+  redirectUri: string;
+  scopes: string[];
+}
+
+export interface OidcConfig {
+  /** How long a user has to finish signing in at the provider. */
+  stateExpiresIn: string;
+  providers: OidcProviderConfig[];
+}
+
 export interface AuthConfig {
   jwt: JwtConfig;
   refreshTokenCookie: RefreshTokenCookieConfig;
   refreshTokenCsrfCookie: RefreshTokenCookieConfig;
+  emailVerification: EmailVerificationConfig;
+  passwordReset: PasswordResetConfig;
+  magicLink: MagicLinkConfig;
+  twoFactor: TwoFactorConfig;
+  loginThrottle: LoginThrottleConfig;
+  accessTokenDenylist: AccessTokenDenylistConfig;
+  deletedAccountSignUp: DeletedAccountSignUpPolicy;
+  oidc: OidcConfig;
+  /** Carries the signed state of a provider sign-in between the redirect to the provider and its callback. */
+  oauthStateCookie: RefreshTokenCookieConfig;
 }
 
 const accessTokenExpiresIn = process.env.JWT_ACCESS_EXPIRES_IN ?? DEFAULT_ACCESS_TOKEN_EXPIRES_IN;
@@ -51,9 +159,41 @@ const refreshTokenExpiresIn = process.env.JWT_REFRESH_EXPIRES_IN ?? DEFAULT_REFR
 
 const cookieSecureDefault = process.env.NODE_ENV === 'production';
 
+const oauthStateExpiresIn = process.env.OAUTH_STATE_EXPIRES_IN ?? DEFAULT_OAUTH_STATE_EXPIRES_IN;
+
+// Each name in OIDC_PROVIDERS is configured by OIDC_<NAME>_ISSUER, _CLIENT_ID, _CLIENT_SECRET, _REDIRECT_URI
+// and _SCOPES.
+const loadOidcProviders = (): OidcProviderConfig[] =>
+  normalizeList(process.env.OIDC_PROVIDERS).map(rawName => {
+    const name = rawName.toLowerCase();
+    const prefix = `OIDC_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+    const issuer = process.env[`${prefix}_ISSUER`];
+    const clientId = process.env[`${prefix}_CLIENT_ID`];
+    const redirectUri = process.env[`${prefix}_REDIRECT_URI`];
+    if (!issuer || !clientId || !redirectUri) {
+      throw new Error(`OIDC provider "${name}" needs ${prefix}_ISSUER, ${prefix}_CLIENT_ID and ${prefix}_REDIRECT_URI`);
+    }
+
+    const scopes = normalizeList(process.env[`${prefix}_SCOPES`]);
+
+    return {
+      name,
+      issuer,
+      clientId,
+      clientSecret: process.env[`${prefix}_CLIENT_SECRET`],
+      redirectUri,
+      scopes: scopes.length > 0 ? scopes : DEFAULT_OIDC_SCOPES,
+    };
+  });
+
 export const authConfig: AuthConfig = {
   jwt: {
-    secret: process.env.JWT_SECRET ?? 'mySecret',
+    // The development fallback is skipped in production and alongside a key directory, so it is never a live key there.
+    secret:
+      process.env.JWT_SECRET ??
+      (process.env.NODE_ENV === 'production' || process.env.JWT_KEYS_DIR ? undefined : 'mySecret'),
+    keysDir: process.env.JWT_KEYS_DIR,
+    activeKid: process.env.JWT_ACTIVE_KID,
     issuer: process.env.JWT_ISSUER ?? 'elysia-app',
     audience: process.env.JWT_AUDIENCE,
     accessTokenExpiresIn,
@@ -77,6 +217,70 @@ export const authConfig: AuthConfig = {
     httpOnly: false,
     maxAgeSeconds: durationToSeconds(refreshTokenExpiresIn, DEFAULT_REFRESH_TOKEN_EXPIRES_IN),
   },
+  emailVerification: {
+    tokenTtlSeconds: durationToSeconds(
+      process.env.EMAIL_VERIFICATION_EXPIRES_IN ?? DEFAULT_EMAIL_VERIFICATION_EXPIRES_IN,
+      DEFAULT_EMAIL_VERIFICATION_EXPIRES_IN
+    ),
+    verifyUrl: process.env.EMAIL_VERIFICATION_URL ?? 'http://localhost:3000/verify-email',
+  },
+  passwordReset: {
+    tokenTtlSeconds: durationToSeconds(
+      process.env.PASSWORD_RESET_EXPIRES_IN ?? DEFAULT_PASSWORD_RESET_EXPIRES_IN,
+      DEFAULT_PASSWORD_RESET_EXPIRES_IN
+    ),
+    resetUrl: process.env.PASSWORD_RESET_URL ?? 'http://localhost:3000/reset-password',
+  },
+  magicLink: {
+    tokenTtlSeconds: durationToSeconds(
+      process.env.MAGIC_LINK_EXPIRES_IN ?? DEFAULT_MAGIC_LINK_EXPIRES_IN,
+      DEFAULT_MAGIC_LINK_EXPIRES_IN
+    ),
+    signInUrl: process.env.MAGIC_LINK_URL ?? 'http://localhost:3000/magic-link',
+  },
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER ?? process.env.JWT_ISSUER ?? 'elysia-app',
+    challengeExpiresIn: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN ?? DEFAULT_TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+  },
+  loginThrottle: {
+    maxAttemptsPerEmail: Number(process.env.LOGIN_MAX_ATTEMPTS_PER_EMAIL ?? 5),
+    maxAttemptsPerIp: Number(process.env.LOGIN_MAX_ATTEMPTS_PER_IP ?? 20),
+    maxTwoFactorAttempts: Number(process.env.LOGIN_MAX_TWO_FACTOR_ATTEMPTS ?? 5),
+    baseLockoutSeconds: durationToSeconds(
+      process.env.LOGIN_LOCKOUT_BASE ?? DEFAULT_LOGIN_LOCKOUT_BASE,
+      DEFAULT_LOGIN_LOCKOUT_BASE
+    ),
+    maxLockoutSeconds: durationToSeconds(
+      process.env.LOGIN_LOCKOUT_MAX ?? DEFAULT_LOGIN_LOCKOUT_MAX,
+      DEFAULT_LOGIN_LOCKOUT_MAX
+    ),
+    windowSeconds: durationToSeconds(
+      process.env.LOGIN_ATTEMPT_WINDOW ?? DEFAULT_LOGIN_ATTEMPT_WINDOW,
+      DEFAULT_LOGIN_ATTEMPT_WINDOW
+    ),
+  },
+  accessTokenDenylist: {
+    cacheSize: Number(process.env.ACCESS_TOKEN_DENYLIST_CACHE_SIZE ?? 10_000),
+    cacheTtlSeconds: durationToSeconds(
+      process.env.ACCESS_TOKEN_DENYLIST_CACHE_TTL ?? DEFAULT_ACCESS_TOKEN_DENYLIST_CACHE_TTL,
+      DEFAULT_ACCESS_TOKEN_DENYLIST_CACHE_TTL
+    ),
+  },
+  deletedAccountSignUp: normalizeDeletedAccountSignUp(process.env.DELETED_ACCOUNT_SIGNUP),
+  oidc: {
+    stateExpiresIn: oauthStateExpiresIn,
+    providers: loadOidcProviders(),
+  },
+  oauthStateCookie: {
+    name: process.env.OAUTH_STATE_COOKIE_NAME ?? 'oauth_state',
+    path: '/auth/oauth',
+    domain: process.env.REFRESH_TOKEN_COOKIE_DOMAIN,
+    // Lax, whatever the refresh token cookie uses: the callback is a top-level navigation from the provider's site.
+    sameSite: 'lax',
+    secure: normalizeBoolean(process.env.OAUTH_STATE_COOKIE_SECURE, cookieSecureDefault),
+    httpOnly: true,
+    maxAgeSeconds: durationToSeconds(oauthStateExpiresIn, DEFAULT_OAUTH_STATE_EXPIRES_IN),
+  },
 };
 
 export const jwtConfig = authConfig.jwt;
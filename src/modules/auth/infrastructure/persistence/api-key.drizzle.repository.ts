@@ -0,0 +1,107 @@
+import { Builder } from 'builder-pattern';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import type { Permission } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import {
+  ApiKey,
+  type ApiKeyCreatedAt,
+  type ApiKeyExpiresAt,
+  type ApiKeyHash,
+  type ApiKeyId,
+  type ApiKeyLastUsedAt,
+  type ApiKeyName,
+  type ApiKeyPrefix,
+  type ApiKeyRevokedAt,
+  type IApiKey,
+} from '@modules/auth/domain/entities/api-key.entity';
+import { ApiKeyRepository } from '@modules/auth/domain/ports/api-key.repository';
+import { db } from '@platform/database/connection';
+
+import { type ApiKeyRow, apiKeys } from './api-key.schema';
+
+@injectable()
+export class ApiKeyDrizzleRepository extends ApiKeyRepository {
+  async create(apiKey: IApiKey): Promise<IApiKey> {
+    const result = await db
+      .insert(apiKeys)
+      .values({
+        userId: apiKey.userId as string,
+        name: apiKey.name as string,
+        prefix: apiKey.prefix as string,
+        keyHash: apiKey.keyHash as string,
+        scopes: apiKey.scopes ?? null,
+        expiresAt: (apiKey.expiresAt as Date | undefined) ?? null,
+      })
+      .returning();
+
+    return this.toDomain(result[0]);
+  }
+
+  async findByPrefix(prefix: ApiKeyPrefix): Promise<IApiKey | undefined> {
+    const result = await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.prefix, prefix as string))
+      .limit(1);
+
+    return result[0] ? this.toDomain(result[0]) : undefined;
+  }
+
+  async findUnrevokedByUserId(userId: UserId): Promise<IApiKey[]> {
+    const result = await db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId as string), isNull(apiKeys.revokedAt)))
+      .orderBy(desc(apiKeys.createdAt));
+
+    return result.map(row => this.toDomain(row));
+  }
+
+  async revoke(userId: UserId, id: ApiKeyId, revokedAt: ApiKeyRevokedAt): Promise<boolean> {
+    const result = await db
+      .update(apiKeys)
+      .set({ revokedAt: revokedAt as Date })
+      .where(and(eq(apiKeys.userId, userId as string), eq(apiKeys.id, id as string), isNull(apiKeys.revokedAt)))
+      .returning({ id: apiKeys.id });
+
+    return result.length > 0;
+  }
+
+  async markUsed(id: ApiKeyId, usedAt: ApiKeyLastUsedAt): Promise<void> {
+    await db
+      .update(apiKeys)
+      .set({ lastUsedAt: usedAt as Date })
+      .where(eq(apiKeys.id, id as string));
+  }
+
+  private toDomain(row: ApiKeyRow): IApiKey {
+    const builder = Builder(ApiKey)
+      .id(row.id as ApiKeyId)
+      .userId(row.userId as UserId)
+      .name(row.name as ApiKeyName)
+      .prefix(row.prefix as ApiKeyPrefix)
+      .keyHash(row.keyHash as ApiKeyHash)
+      .createdAt(row.createdAt as ApiKeyCreatedAt);
+
+    if (row.scopes) {
+      builder.scopes(row.scopes as Permission[]);
+    }
+
+    if (row.expiresAt) {
+      builder.expiresAt(row.expiresAt as ApiKeyExpiresAt);
+    }
+
+    if (row.revokedAt) {
+      builder.revokedAt(row.revokedAt as ApiKeyRevokedAt);
+    }
+
+    if (row.lastUsedAt) {
+      builder.lastUsedAt(row.lastUsedAt as ApiKeyLastUsedAt);
+    }
+
+    return builder.build();
+  }
+}
@@ -0,0 +1,78 @@
+import { Builder } from 'builder-pattern';
+import { and, eq, sql } from 'drizzle-orm';
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import {
+  ELoginAttemptScope,
+  type ILoginAttempt,
+  LoginAttempt,
+  type LoginAttemptFailedCount,
+  type LoginAttemptKey,
+  type LoginAttemptLastFailedAt,
+  type LoginAttemptLockedUntil,
+} from '@modules/auth/domain/entities/login-attempt.entity';
+import { LoginAttemptRepository } from '@modules/auth/domain/ports/login-attempt.repository';
+import { db } from '@platform/database/connection';
+
+import { type LoginAttemptRecord, loginAttempts } from './login-attempt.schema';
+
+@injectable()
+export class LoginAttemptDrizzleRepository extends LoginAttemptRepository {
+  async findByKey(scope: ELoginAttemptScope, key: LoginAttemptKey): Promise<ILoginAttempt | undefined> {
+    const result = await db
+      .select()
+      .from(loginAttempts)
+      .where(and(eq(loginAttempts.scope, scope), eq(loginAttempts.key, key as string)))
+      .limit(1);
+
+    return result[0] ? this.toDomain(result[0]) : undefined;
+  }
+
+  async recordFailure(
+    scope: ELoginAttemptScope,
+    key: LoginAttemptKey,
+    failedAt: LoginAttemptLastFailedAt,
+    windowStart: Date
+  ): Promise<ILoginAttempt> {
+    // A single upsert keeps concurrent failures from losing increments.
+    const result = await db
+      .insert(loginAttempts)
+      .values({ scope, key: key as string, failedCount: 1, lastFailedAt: failedAt as Date })
+      .onConflictDoUpdate({
+        target: [loginAttempts.scope, loginAttempts.key],
+        set: {
+          failedCount: sql`case when greatest(${loginAttempts.lastFailedAt}, ${loginAttempts.lockedUntil}) < ${windowStart.toISOString()}::timestamptz then 1 else ${loginAttempts.failedCount} + 1 end`,
+          lastFailedAt: failedAt as Date,
+        },
+      })
+      .returning();
+
+    return this.toDomain(result[0]);
+  }
+
+  async lock(scope: ELoginAttemptScope, key: LoginAttemptKey, lockedUntil: LoginAttemptLockedUntil): Promise<void> {
+    await db
+      .update(loginAttempts)
+      .set({ lockedUntil: lockedUntil as Date })
+      .where(and(eq(loginAttempts.scope, scope), eq(loginAttempts.key, key as string)));
+  }
+
+  async clear(scope: ELoginAttemptScope, key: LoginAttemptKey): Promise<void> {
+    await db.delete(loginAttempts).where(and(eq(loginAttempts.scope, scope), eq(loginAttempts.key, key as string)));
+  }
+
+  private toDomain(record: LoginAttemptRecord): ILoginAttempt {
+    const builder = Builder(LoginAttempt)
+      .scope(record.scope as ELoginAttemptScope)
+      .key(record.key as LoginAttemptKey)
+      .failedCount(record.failedCount as LoginAttemptFailedCount)
+      .lastFailedAt(record.lastFailedAt as LoginAttemptLastFailedAt);
+
+    if (record.lockedUntil) {
+      builder.lockedUntil(record.lockedUntil as LoginAttemptLockedUntil);
+    }
+
+    return builder.build();
+  }
+}
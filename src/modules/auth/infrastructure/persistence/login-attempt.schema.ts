@@ -0,0 +1,18 @@
+import { integer, pgTable, primaryKey, timestamp, varchar } from 'drizzle-orm/pg-core';
+
+export const loginAttempts = pgTable(
+  'login_attempts',
+  {
+    scope: varchar('scope', { length: 16 }).notNull(),
+    key: varchar('key', { length: 255 }).notNull(),
+    failedCount: integer('failed_count').notNull().default(0),
+    lastFailedAt: timestamp('last_failed_at', { withTimezone: true }).notNull(),
+    lockedUntil: timestamp('locked_until', { withTimezone: true }),
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.scope, table.key] }),
+  })
+);
+
+export type LoginAttemptRecord = typeof loginAttempts.$inferSelect;
+export type NewLoginAttemptRecord = typeof loginAttempts.$inferInsert;
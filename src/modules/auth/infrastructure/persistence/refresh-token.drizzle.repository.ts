@@ -1,5 +1,5 @@
 import { Builder } from 'builder-pattern';
-import { eq } from 'drizzle-orm';
+import { and, desc, eq, gt, gte, isNull } from 'drizzle-orm';
 import 'reflect-metadata';
 import { injectable } from 'tsyringe';
 
@@ -11,8 +11,12 @@ import {
   type RefreshTokenExpiresAt,
   type RefreshTokenHash,
   type RefreshTokenId,
+  type RefreshTokenIpAddress,
   type RefreshTokenJti,
+  type RefreshTokenLastUsedAt,
   type RefreshTokenRevokedAt,
+  type RefreshTokenSessionId,
+  type RefreshTokenUserAgent,
 } from '@modules/auth/domain/entities/refresh-token.entity';
 import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
 import { db } from '@platform/database/connection';
@@ -29,6 +33,11 @@ export class RefreshTokenDrizzleRepository extends RefreshTokenRepository {
         tokenHash: token.tokenHash as string,
         expiresAt: token.expiresAt as Date,
         revokedAt: token.revokedAt ? (token.revokedAt as Date) : null,
+        sessionId: token.sessionId as string | undefined,
+        parentJti: token.parentJti ?? null,
+        userAgent: token.userAgent ?? null,
+        ipAddress: token.ipAddress ?? null,
+        lastUsedAt: token.lastUsedAt as Date | undefined,
       })
       .returning();
 
@@ -45,6 +54,16 @@ export class RefreshTokenDrizzleRepository extends RefreshTokenRepository {
     return result[0] ? this.toDomain(result[0]) : undefined;
   }
 
+  async findByParentJti(parentJti: RefreshTokenJti): Promise<IRefreshToken | undefined> {
+    const result = await db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.parentJti, parentJti as string))
+      .limit(1);
+
+    return result[0] ? this.toDomain(result[0]) : undefined;
+  }
+
   async revokeByJti(jti: RefreshTokenJti, revokedAt: RefreshTokenRevokedAt): Promise<void> {
     await db
       .update(refreshTokens)
@@ -56,7 +75,62 @@ export class RefreshTokenDrizzleRepository extends RefreshTokenRepository {
     await db
       .update(refreshTokens)
       .set({ revokedAt: revokedAt as Date })
-      .where(eq(refreshTokens.userId, userId as string));
+      .where(and(eq(refreshTokens.userId, userId as string), isNull(refreshTokens.revokedAt)));
+  }
+
+  async findActiveByUserId(userId: UserId, now: Date): Promise<IRefreshToken[]> {
+    const result = await db
+      .select()
+      .from(refreshTokens)
+      .where(
+        and(
+          eq(refreshTokens.userId, userId as string),
+          isNull(refreshTokens.revokedAt),
+          gt(refreshTokens.expiresAt, now)
+        )
+      )
+      .orderBy(desc(refreshTokens.lastUsedAt));
+
+    return result.map(token => this.toDomain(token));
+  }
+
+  async findJtisIssuedSince(
+    userId: UserId,
+    since: Date,
+    sessionId?: RefreshTokenSessionId
+  ): Promise<RefreshTokenJti[]> {
+    const result = await db
+      .select({ jti: refreshTokens.jti })
+      .from(refreshTokens)
+      .where(
+        and(
+          eq(refreshTokens.userId, userId as string),
+          gte(refreshTokens.createdAt, since),
+          sessionId ? eq(refreshTokens.sessionId, sessionId as string) : undefined
+        )
+      );
+
+    return result.map(row => row.jti as RefreshTokenJti);
+  }
+
+  async revokeBySessionId(
+    userId: UserId,
+    sessionId: RefreshTokenSessionId,
+    revokedAt: RefreshTokenRevokedAt
+  ): Promise<boolean> {
+    const result = await db
+      .update(refreshTokens)
+      .set({ revokedAt: revokedAt as Date })
+      .where(
+        and(
+          eq(refreshTokens.userId, userId as string),
+          eq(refreshTokens.sessionId, sessionId as string),
+          isNull(refreshTokens.revokedAt)
+        )
+      )
+      .returning({ id: refreshTokens.id });
+
+    return result.length > 0;
   }
 
   private toDomain(drizzleToken: DrizzleRefreshToken): IRefreshToken {
@@ -66,7 +140,21 @@ export class RefreshTokenDrizzleRepository extends RefreshTokenRepository {
       .jti(drizzleToken.jti as RefreshTokenJti)
       .tokenHash(drizzleToken.tokenHash as RefreshTokenHash)
       .createdAt(drizzleToken.createdAt as RefreshTokenCreatedAt)
-      .expiresAt(drizzleToken.expiresAt as RefreshTokenExpiresAt);
+      .expiresAt(drizzleToken.expiresAt as RefreshTokenExpiresAt)
+      .sessionId(drizzleToken.sessionId as RefreshTokenSessionId)
+      .lastUsedAt(drizzleToken.lastUsedAt as RefreshTokenLastUsedAt);
+
+    if (drizzleToken.parentJti) {
+      builder.parentJti(drizzleToken.parentJti as RefreshTokenJti);
+    }
+
+    if (drizzleToken.userAgent) {
+      builder.userAgent(drizzleToken.userAgent as RefreshTokenUserAgent);
+    }
+
+    if (drizzleToken.ipAddress) {
+      builder.ipAddress(drizzleToken.ipAddress as RefreshTokenIpAddress);
+    }
 
     if (drizzleToken.revokedAt) {
       builder.revokedAt(drizzleToken.revokedAt as RefreshTokenRevokedAt);
@@ -14,10 +14,17 @@ export const refreshTokens = pgTable(
     expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     revokedAt: timestamp('revoked_at', { withTimezone: true }),
+    sessionId: uuid('session_id').defaultRandom().notNull(),
+    parentJti: varchar('parent_jti', { length: 128 }),
+    userAgent: varchar('user_agent', { length: 512 }),
+    ipAddress: varchar('ip_address', { length: 64 }),
+    lastUsedAt: timestamp('last_used_at', { withTimezone: true }).defaultNow().notNull(),
   },
   table => ({
     userIdx: index('refresh_tokens_user_idx').on(table.userId),
     expiresAtIdx: index('refresh_tokens_expires_at_idx').on(table.expiresAt),
+    sessionIdx: index('refresh_tokens_session_idx').on(table.sessionId),
+    parentJtiIdx: index('refresh_tokens_parent_jti_idx').on(table.parentJti),
   })
 );
 
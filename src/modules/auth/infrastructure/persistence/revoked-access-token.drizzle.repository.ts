@@ -0,0 +1,45 @@
+import { and, eq, gt, lte, sql } from 'drizzle-orm';
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import type { RefreshTokenJti } from '@modules/auth/domain/entities/refresh-token.entity';
+import { RevokedAccessTokenRepository } from '@modules/auth/domain/ports/revoked-access-token.repository';
+import { db } from '@platform/database/connection';
+
+import { revokedAccessTokens } from './revoked-access-token.schema';
+
+@injectable()
+export class RevokedAccessTokenDrizzleRepository extends RevokedAccessTokenRepository {
+  async addMany(jtis: RefreshTokenJti[], expiresAt: Date): Promise<void> {
+    if (jtis.length === 0) {
+      return;
+    }
+
+    await db
+      .insert(revokedAccessTokens)
+      .values(jtis.map(jti => ({ jti: jti as string, expiresAt })))
+      .onConflictDoUpdate({
+        target: revokedAccessTokens.jti,
+        set: { expiresAt: sql`greatest(${revokedAccessTokens.expiresAt}, excluded.expires_at)` },
+      });
+  }
+
+  async isRevoked(jti: RefreshTokenJti, now: Date): Promise<boolean> {
+    const result = await db
+      .select({ jti: revokedAccessTokens.jti })
+      .from(revokedAccessTokens)
+      .where(and(eq(revokedAccessTokens.jti, jti as string), gt(revokedAccessTokens.expiresAt, now)))
+      .limit(1);
+
+    return result.length > 0;
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    const result = await db
+      .delete(revokedAccessTokens)
+      .where(lte(revokedAccessTokens.expiresAt, now))
+      .returning({ jti: revokedAccessTokens.jti });
+
+    return result.length;
+  }
+}
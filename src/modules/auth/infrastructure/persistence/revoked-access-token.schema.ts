@@ -0,0 +1,16 @@
+import { index, pgTable, timestamp, varchar } from 'drizzle-orm/pg-core';
+
+export const revokedAccessTokens = pgTable(
+  'revoked_access_tokens',
+  {
+    jti: varchar('jti', { length: 128 }).primaryKey(),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    revokedAt: timestamp('revoked_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  table => ({
+    expiresAtIdx: index('revoked_access_tokens_expires_at_idx').on(table.expiresAt),
+  })
+);
+
+export type RevokedAccessTokenRecord = typeof revokedAccessTokens.$inferSelect;
+export type NewRevokedAccessTokenRecord = typeof revokedAccessTokens.$inferInsert;
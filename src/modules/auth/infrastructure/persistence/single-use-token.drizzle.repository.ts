@@ -0,0 +1,93 @@
+import { Builder } from 'builder-pattern';
+import { and, eq, isNull } from 'drizzle-orm';
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import type { UserEmail, UserId } from '@modules/accounts/domain/entities/user.entity';
+import {
+  type ESingleUseTokenPurpose,
+  type ISingleUseToken,
+  SingleUseToken,
+  type SingleUseTokenConsumedAt,
+  type SingleUseTokenCreatedAt,
+  type SingleUseTokenExpiresAt,
+  type SingleUseTokenHash,
+  type SingleUseTokenId,
+} from '@modules/auth/domain/entities/single-use-token.entity';
+import { SingleUseTokenRepository } from '@modules/auth/domain/ports/single-use-token.repository';
+import { db } from '@platform/database/connection';
+
+import { type SingleUseToken as DrizzleSingleUseToken, singleUseTokens } from './single-use-token.schema';
+
+@injectable()
+export class SingleUseTokenDrizzleRepository extends SingleUseTokenRepository {
+  async create(token: ISingleUseToken): Promise<ISingleUseToken> {
+    const result = await db
+      .insert(singleUseTokens)
+      .values({
+        userId: token.userId as string,
+        purpose: token.purpose,
+        tokenHash: token.tokenHash as string,
+        email: token.email ?? null,
+        expiresAt: token.expiresAt as Date,
+      })
+      .returning();
+
+    return this.toDomain(result[0]);
+  }
+
+  async findByTokenHash(
+    purpose: ESingleUseTokenPurpose,
+    tokenHash: SingleUseTokenHash
+  ): Promise<ISingleUseToken | undefined> {
+    const result = await db
+      .select()
+      .from(singleUseTokens)
+      .where(and(eq(singleUseTokens.tokenHash, tokenHash as string), eq(singleUseTokens.purpose, purpose)))
+      .limit(1);
+
+    return result[0] ? this.toDomain(result[0]) : undefined;
+  }
+
+  async markConsumed(id: SingleUseTokenId, consumedAt: SingleUseTokenConsumedAt): Promise<boolean> {
+    const result = await db
+      .update(singleUseTokens)
+      .set({ consumedAt: consumedAt as Date })
+      .where(and(eq(singleUseTokens.id, id as string), isNull(singleUseTokens.consumedAt)))
+      .returning({ id: singleUseTokens.id });
+
+    return result.length > 0;
+  }
+
+  async deleteUnconsumedByUserId(userId: UserId, purpose: ESingleUseTokenPurpose): Promise<void> {
+    await db
+      .delete(singleUseTokens)
+      .where(
+        and(
+          eq(singleUseTokens.userId, userId as string),
+          eq(singleUseTokens.purpose, purpose),
+          isNull(singleUseTokens.consumedAt)
+        )
+      );
+  }
+
+  private toDomain(drizzleToken: DrizzleSingleUseToken): ISingleUseToken {
+    const builder = Builder(SingleUseToken)
+      .id(drizzleToken.id as SingleUseTokenId)
+      .userId(drizzleToken.userId as UserId)
+      .purpose(drizzleToken.purpose as ESingleUseTokenPurpose)
+      .tokenHash(drizzleToken.tokenHash as SingleUseTokenHash)
+      .createdAt(drizzleToken.createdAt as SingleUseTokenCreatedAt)
+      .expiresAt(drizzleToken.expiresAt as SingleUseTokenExpiresAt);
+
+    if (drizzleToken.email) {
+      builder.email(drizzleToken.email as UserEmail);
+    }
+
+    if (drizzleToken.consumedAt) {
+      builder.consumedAt(drizzleToken.consumedAt as SingleUseTokenConsumedAt);
+    }
+
+    return builder.build();
+  }
+}
@@ -0,0 +1,25 @@
+import { index, pgTable, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+
+import { users } from '@modules/accounts/infrastructure/persistence/user.schema';
+
+export const singleUseTokens = pgTable(
+  'single_use_tokens',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    purpose: varchar('purpose', { length: 30 }).notNull(),
+    tokenHash: varchar('token_hash', { length: 128 }).notNull().unique(),
+    email: varchar('email', { length: 255 }),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    consumedAt: timestamp('consumed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  table => ({
+    userPurposeIdx: index('single_use_tokens_user_purpose_idx').on(table.userId, table.purpose),
+  })
+);
+
+export type SingleUseToken = typeof singleUseTokens.$inferSelect;
+export type NewSingleUseToken = typeof singleUseTokens.$inferInsert;
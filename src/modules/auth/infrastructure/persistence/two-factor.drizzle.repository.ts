@@ -0,0 +1,149 @@
+import { Builder } from 'builder-pattern';
+import { and, eq, isNull, lt, lte, or } from 'drizzle-orm';
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import {
+  type IRecoveryCode,
+  type ITwoFactor,
+  RecoveryCode,
+  type RecoveryCodeHash,
+  type RecoveryCodeId,
+  type RecoveryCodeUsedAt,
+  TwoFactor,
+  type TwoFactorChallengeJti,
+  type TwoFactorCreatedAt,
+  type TwoFactorEnabledAt,
+  type TwoFactorSecret,
+  type TwoFactorTimeStep,
+} from '@modules/auth/domain/entities/two-factor.entity';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import { db } from '@platform/database/connection';
+
+import {
+  type TwoFactorRecoveryCode,
+  twoFactorRecoveryCodes,
+  twoFactorUsedChallenges,
+  type UserTwoFactor,
+  userTwoFactor,
+} from './two-factor.schema';
+
+@injectable()
+export class TwoFactorDrizzleRepository extends TwoFactorRepository {
+  async findByUserId(userId: UserId): Promise<ITwoFactor | undefined> {
+    const result = await db
+      .select()
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId as string))
+      .limit(1);
+
+    return result[0] ? this.toDomain(result[0]) : undefined;
+  }
+
+  async savePending(userId: UserId, secret: TwoFactorSecret): Promise<ITwoFactor> {
+    const values = { secret: secret as string, enabledAt: null, lastUsedStep: null, createdAt: new Date() };
+    const result = await db
+      .insert(userTwoFactor)
+      .values({ userId: userId as string, ...values })
+      .onConflictDoUpdate({ target: userTwoFactor.userId, set: values })
+      .returning();
+
+    return this.toDomain(result[0]);
+  }
+
+  async enable(userId: UserId, enabledAt: TwoFactorEnabledAt, step: TwoFactorTimeStep): Promise<void> {
+    await db
+      .update(userTwoFactor)
+      .set({ enabledAt: enabledAt as Date, lastUsedStep: step as number })
+      .where(eq(userTwoFactor.userId, userId as string));
+  }
+
+  async recordUsedStep(userId: UserId, step: TwoFactorTimeStep): Promise<boolean> {
+    const result = await db
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step as number })
+      .where(
+        and(
+          eq(userTwoFactor.userId, userId as string),
+          or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step as number))
+        )
+      )
+      .returning({ userId: userTwoFactor.userId });
+
+    return result.length > 0;
+  }
+
+  async recordUsedChallenge(jti: TwoFactorChallengeJti, expiresAt: Date): Promise<boolean> {
+    const result = await db
+      .insert(twoFactorUsedChallenges)
+      .values({ jti: jti as string, expiresAt })
+      .onConflictDoNothing()
+      .returning({ jti: twoFactorUsedChallenges.jti });
+
+    // Challenges are redeemed once per sign-in, so this is a good moment to drop the expired ones.
+    await db.delete(twoFactorUsedChallenges).where(lte(twoFactorUsedChallenges.expiresAt, new Date()));
+
+    return result.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: UserId, codeHashes: RecoveryCodeHash[]): Promise<void> {
+    await db.transaction(async tx => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId as string));
+
+      if (codeHashes.length > 0) {
+        await tx
+          .insert(twoFactorRecoveryCodes)
+          .values(codeHashes.map(codeHash => ({ userId: userId as string, codeHash: codeHash as string })));
+      }
+    });
+  }
+
+  async findUnusedRecoveryCodes(userId: UserId): Promise<IRecoveryCode[]> {
+    const result = await db
+      .select()
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId as string), isNull(twoFactorRecoveryCodes.usedAt)));
+
+    return result.map(recoveryCode => this.toRecoveryCodeDomain(recoveryCode));
+  }
+
+  async markRecoveryCodeUsed(id: RecoveryCodeId, usedAt: RecoveryCodeUsedAt): Promise<boolean> {
+    const result = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: usedAt as Date })
+      .where(and(eq(twoFactorRecoveryCodes.id, id as string), isNull(twoFactorRecoveryCodes.usedAt)))
+      .returning({ id: twoFactorRecoveryCodes.id });
+
+    return result.length > 0;
+  }
+
+  private toDomain(drizzleTwoFactor: UserTwoFactor): ITwoFactor {
+    const builder = Builder(TwoFactor)
+      .userId(drizzleTwoFactor.userId as UserId)
+      .secret(drizzleTwoFactor.secret as TwoFactorSecret)
+      .createdAt(drizzleTwoFactor.createdAt as TwoFactorCreatedAt);
+
+    if (drizzleTwoFactor.enabledAt) {
+      builder.enabledAt(drizzleTwoFactor.enabledAt as TwoFactorEnabledAt);
+    }
+
+    if (drizzleTwoFactor.lastUsedStep !== null) {
+      builder.lastUsedStep(drizzleTwoFactor.lastUsedStep as TwoFactorTimeStep);
+    }
+
+    return builder.build();
+  }
+  private toRecoveryCodeDomain(drizzleRecoveryCode: TwoFactorRecoveryCode): IRecoveryCode {
+    const builder = Builder(RecoveryCode)
+      .id(drizzleRecoveryCode.id as RecoveryCodeId)
+      .userId(drizzleRecoveryCode.userId as UserId)
+      .codeHash(drizzleRecoveryCode.codeHash as RecoveryCodeHash);
+
+    if (drizzleRecoveryCode.usedAt) {
+      builder.usedAt(drizzleRecoveryCode.usedAt as RecoveryCodeUsedAt);
+    }
+
+    return builder.build();
+  }
+}
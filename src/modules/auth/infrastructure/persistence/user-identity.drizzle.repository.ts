@@ -0,0 +1,76 @@
+import { Builder } from 'builder-pattern';
+import { and, eq } from 'drizzle-orm';
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import type { UserEmail, UserId } from '@modules/accounts/domain/entities/user.entity';
+import {
+  type IdentityProviderName,
+  type IdentitySubject,
+  type IUserIdentity,
+  UserIdentity,
+  type UserIdentityCreatedAt,
+  type UserIdentityId,
+  type UserIdentityLastUsedAt,
+} from '@modules/auth/domain/entities/user-identity.entity';
+import { UserIdentityRepository } from '@modules/auth/domain/ports/user-identity.repository';
+import { db } from '@platform/database/connection';
+
+import { userIdentities, type UserIdentityRow } from './user-identity.schema';
+
+@injectable()
+export class UserIdentityDrizzleRepository extends UserIdentityRepository {
+  async findByProviderSubject(
+    provider: IdentityProviderName,
+    subject: IdentitySubject
+  ): Promise<IUserIdentity | undefined> {
+    const result = await db
+      .select()
+      .from(userIdentities)
+      .where(and(eq(userIdentities.provider, provider as string), eq(userIdentities.subject, subject as string)))
+      .limit(1);
+
+    return result[0] ? this.toDomain(result[0]) : undefined;
+  }
+
+  async create(identity: IUserIdentity): Promise<IUserIdentity> {
+    const result = await db
+      .insert(userIdentities)
+      .values({
+        userId: identity.userId as string,
+        provider: identity.provider as string,
+        subject: identity.subject as string,
+        email: (identity.email as string | undefined) ?? null,
+        lastUsedAt: (identity.lastUsedAt as Date | undefined) ?? null,
+      })
+      .returning();
+
+    return this.toDomain(result[0]);
+  }
+
+  async markUsed(id: UserIdentityId, usedAt: UserIdentityLastUsedAt): Promise<void> {
+    await db
+      .update(userIdentities)
+      .set({ lastUsedAt: usedAt as Date })
+      .where(eq(userIdentities.id, id as string));
+  }
+
+  private toDomain(row: UserIdentityRow): IUserIdentity {
+    const builder = Builder(UserIdentity)
+      .id(row.id as UserIdentityId)
+      .userId(row.userId as UserId)
+      .provider(row.provider as IdentityProviderName)
+      .subject(row.subject as IdentitySubject)
+      .createdAt(row.createdAt as UserIdentityCreatedAt);
+
+    if (row.email) {
+      builder.email(row.email as UserEmail);
+    }
+
+    if (row.lastUsedAt) {
+      builder.lastUsedAt(row.lastUsedAt as UserIdentityLastUsedAt);
+    }
+
+    return builder.build();
+  }
+}
@@ -0,0 +1,25 @@
+import { index, pgTable, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+
+import { users } from '@modules/accounts/infrastructure/persistence/user.schema';
+
+export const userIdentities = pgTable(
+  'user_identities',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    provider: varchar('provider', { length: 50 }).notNull(),
+    subject: varchar('subject', { length: 255 }).notNull(),
+    email: varchar('email', { length: 255 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  },
+  table => ({
+    providerSubjectIdx: uniqueIndex('user_identities_provider_subject_idx').on(table.provider, table.subject),
+    userIdx: index('user_identities_user_idx').on(table.userId),
+  })
+);
+
+export type UserIdentityRow = typeof userIdentities.$inferSelect;
+export type NewUserIdentityRow = typeof userIdentities.$inferInsert;
@@ -0,0 +1,200 @@
+import { createPrivateKey, createPublicKey, createSecretKey, type KeyObject } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import {
+  createLocalJWKSet,
+  errors,
+  exportJWK,
+  type FlattenedJWSInput,
+  type JWSHeaderParameters,
+  jwtVerify,
+  SignJWT,
+} from 'jose';
+import { basename, join } from 'path';
+
+import type { JwtConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { durationToSeconds } from '@shared/utils/duration';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  jti?: string;
+  nbf?: number;
+  exp?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export interface SignJwtInput extends Omit<JwtClaims, 'exp'> {
+  /** Absolute expiry in seconds since the epoch, or a duration such as `5m`; defaults to the access token lifetime. */
+  exp?: number | string;
+}
+
+export interface PublicJwk extends JsonWebKey {
+  kty: string;
+  kid: string;
+  alg: JwtAlgorithm;
+  use: 'sig';
+}
+
+interface JwtKey {
+  /** Unset only for the shared-secret key, which signs tokens without a `kid` header. */
+  kid?: string;
+  alg: JwtAlgorithm;
+  /** Private key, or the secret for HS256; absent for keys kept only to verify older tokens. */
+  signingKey?: KeyObject;
+  verificationKey: KeyObject;
+}
+
+const ALGORITHMS: JwtAlgorithm[] = ['HS256', 'RS256', 'ES256'];
+
+const detectAlgorithm = (key: KeyObject, file: string): JwtAlgorithm => {
+  if (key.asymmetricKeyType === 'rsa') {
+    return 'RS256';
+  }
+
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+
+  throw new Error(`Unsupported JWT key in ${file}: use an RSA key (RS256) or a P-256 EC key (ES256)`);
+};
+
+const loadKeysFromDirectory = (directory: string): JwtKey[] =>
+  readdirSync(directory)
+    .filter(file => file.endsWith('.pem'))
+    .sort()
+    .map(file => {
+      const pem = readFileSync(join(directory, file), 'utf8');
+      const isPublicOnly = pem.includes('PUBLIC KEY-----');
+      const signingKey = isPublicOnly ? undefined : createPrivateKey(pem);
+      const verificationKey = signingKey ? createPublicKey(signingKey) : createPublicKey(pem);
+
+      return {
+        kid: basename(file, '.pem'),
+        alg: detectAlgorithm(verificationKey, file),
+        signingKey,
+        verificationKey,
+      };
+    });
+
+/**
+ * Signs and verifies JWTs with a set of keys. Asymmetric keys are read from `JWT_KEYS_DIR` (one PEM per key,
+ * the file name is the `kid`); the one named by `JWT_ACTIVE_KID` signs new tokens and the others only verify
+ * tokens they issued before a rotation. `JWT_SECRET`, when set, stays available as an HS256 key so tokens
+ * issued before the switch remain valid until they expire.
+ */
+export class JwtKeyRing {
+  private readonly keys: JwtKey[];
+  private readonly activeKey: JwtKey;
+  private readonly secretKey?: JwtKey;
+  private publicJwks?: Promise<{ keys: PublicJwk[] }>;
+  private localJwks?: Promise<ReturnType<typeof createLocalJWKSet>>;
+
+  constructor(private readonly config: JwtConfig) {
+    const asymmetricKeys = config.keysDir ? loadKeysFromDirectory(config.keysDir) : [];
+    this.secretKey = config.secret
+      ? {
+          alg: 'HS256',
+          signingKey: createSecretKey(Buffer.from(config.secret)),
+          verificationKey: createSecretKey(Buffer.from(config.secret)),
+        }
+      : undefined;
+    this.keys = this.secretKey ? [...asymmetricKeys, this.secretKey] : asymmetricKeys;
+    this.activeKey = this.resolveActiveKey(asymmetricKeys, this.secretKey);
+  }
+
+  async sign({ exp, ...claims }: SignJwtInput): Promise<string> {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt =
+      typeof exp === 'number'
+        ? exp
+        : issuedAt + durationToSeconds(exp ?? this.config.accessTokenExpiresIn, this.config.accessTokenExpiresIn);
+
+    return new SignJWT({
+      iss: this.config.issuer,
+      ...(this.config.audience ? { aud: this.config.audience } : {}),
+      ...claims,
+    })
+      .setProtectedHeader({
+        alg: this.activeKey.alg,
+        typ: 'JWT',
+        ...(this.activeKey.kid ? { kid: this.activeKey.kid } : {}),
+      })
+      .setIssuedAt(issuedAt)
+      .setExpirationTime(expiresAt)
+      .sign(this.activeKey.signingKey!);
+  }
+
+  /**
+   * Returns the claims of a valid token, or `false` for anything malformed, unknown, tampered with or expired.
+   * Tokens without an `exp` claim are rejected too, so a token can never outlive every key rotation.
+   */
+  async verify(token?: string): Promise<JwtClaims | false> {
+    if (!token) {
+      return false;
+    }
+
+    try {
+      const { payload } = await jwtVerify(token, (header, input) => this.resolveVerificationKey(header, input), {
+        issuer: this.config.issuer,
+        audience: this.config.audience,
+        algorithms: ALGORITHMS,
+        requiredClaims: ['exp'],
+      });
+      return payload;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Public halves of the asymmetric keys, in JWK Set format; the shared secret is never published. */
+  toJwks(): Promise<{ keys: PublicJwk[] }> {
+    this.publicJwks ??= Promise.all(
+      this.keys
+        .filter((key): key is JwtKey & { kid: string } => key.alg !== 'HS256')
+        .map(async key => ({
+          ...(await exportJWK(key.verificationKey)),
+          kty: key.verificationKey.asymmetricKeyType === 'rsa' ? 'RSA' : 'EC',
+          kid: key.kid,
+          alg: key.alg,
+          use: 'sig' as const,
+        }))
+    ).then(keys => ({ keys }));
+
+    return this.publicJwks;
+  }
+
+  private resolveActiveKey(asymmetricKeys: JwtKey[], secretKey?: JwtKey): JwtKey {
+    if (asymmetricKeys.length > 0) {
+      const activeKey = asymmetricKeys.find(key => key.kid === this.config.activeKid);
+      if (!activeKey?.signingKey) {
+        throw new Error('JWT_ACTIVE_KID must name a private key in JWT_KEYS_DIR');
+      }
+      return activeKey;
+    }
+
+    if (!secretKey) {
+      throw new Error('JWT signing is not configured: set JWT_KEYS_DIR and JWT_ACTIVE_KID, or JWT_SECRET');
+    }
+
+    return secretKey;
+  }
+
+  // The algorithm is pinned by the key, never taken from the token, so a token cannot downgrade itself.
+  private async resolveVerificationKey(header: JWSHeaderParameters, input: FlattenedJWSInput) {
+    if (header.kid === undefined) {
+      if (!this.secretKey || header.alg !== this.secretKey.alg) {
+        throw new errors.JWKSNoMatchingKey();
+      }
+      return this.secretKey.verificationKey;
+    }
+
+    this.localJwks ??= this.toJwks().then(jwks => createLocalJWKSet(jwks));
+    const jwks = await this.localJwks;
+
+    return jwks(header, input);
+  }
+}
@@ -2,44 +2,128 @@ import * as argon2 from 'argon2';
 import { nanoid } from 'nanoid';
 import { inject, injectable } from 'tsyringe';
 
-import jwt from '@elysiajs/jwt';
-
 import { AuthModuleTokens } from '@modules/auth/module.tokens';
 import {
   type RefreshTokenExpiresAt,
   type RefreshTokenHash,
   type RefreshTokenJti,
 } from '@modules/auth/domain/entities/refresh-token.entity';
+import type { TwoFactorChallengeJti, TwoFactorChallengeToken } from '@modules/auth/domain/entities/two-factor.entity';
+import type { IdentityProviderName } from '@modules/auth/domain/entities/user-identity.entity';
 import {
   type AccessTokenExpiresAt,
   AuthTokenService,
   type GeneratedAuthTokens,
+  type GeneratedOAuthState,
+  type GeneratedTwoFactorChallenge,
+  type OAuthSignInState,
+  type OAuthStateExpiresAt,
+  type OAuthStateToken,
+  type TwoFactorChallengeExpiresAt,
+  type VerifiedTwoFactorChallenge,
 } from '@modules/auth/domain/ports/auth-token.service';
-import type { IUser } from '@modules/accounts/domain/entities/user.entity';
+import type { OAuthNonce, OAuthState, PkceCodeVerifier } from '@modules/auth/domain/ports/identity-provider';
+import type { IUser, UserId } from '@modules/accounts/domain/entities/user.entity';
 import { addDuration } from '@shared/utils/duration';
 import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
 import {
   DEFAULT_ACCESS_TOKEN_EXPIRES_IN,
+  DEFAULT_OAUTH_STATE_EXPIRES_IN,
   DEFAULT_REFRESH_TOKEN_EXPIRES_IN,
+  DEFAULT_TWO_FACTOR_CHALLENGE_EXPIRES_IN,
   argon2Config,
 } from '@modules/auth/infrastructure/config/auth.config';
+import { JwtKeyRing } from '@modules/auth/infrastructure/providers/jwt-key-ring';
 
-type JwtSignFunction = ReturnType<typeof jwt>['decorator']['jwt']['sign'];
+const TWO_FACTOR_CHALLENGE_TYPE = 'two_factor_challenge';
+const OAUTH_STATE_TYPE = 'oauth_state';
 
 @injectable()
 export class JwtTokenService extends AuthTokenService {
-  private readonly signAccessToken: JwtSignFunction;
-
-  constructor(@inject(AuthModuleTokens.AuthConfig) private readonly config: AuthConfig) {
+  constructor(
+    @inject(AuthModuleTokens.AuthConfig) private readonly config: AuthConfig,
+    @inject(AuthModuleTokens.JwtKeyRing) private readonly keyRing: JwtKeyRing
+  ) {
     super();
-    const plugin = jwt({
-      secret: config.jwt.secret,
-      iss: config.jwt.issuer,
-      ...(config.jwt.audience ? { aud: config.jwt.audience } : {}),
-      exp: config.jwt.accessTokenExpiresIn,
-    });
+  }
+
+  async generateTwoFactorChallenge(user: IUser): Promise<GeneratedTwoFactorChallenge> {
+    const { challengeExpiresIn } = this.config.twoFactor;
+    const expiresAt = addDuration(
+      new Date(),
+      challengeExpiresIn,
+      DEFAULT_TWO_FACTOR_CHALLENGE_EXPIRES_IN
+    ) as TwoFactorChallengeExpiresAt;
 
-    this.signAccessToken = plugin.decorator.jwt.sign.bind(plugin.decorator.jwt);
+    const challengeToken = (await this.keyRing.sign({
+      sub: user.id as unknown as string,
+      jti: nanoid(32),
+      type: TWO_FACTOR_CHALLENGE_TYPE,
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    })) as TwoFactorChallengeToken;
+
+    return { challengeToken, expiresAt };
+  }
+
+  async verifyTwoFactorChallenge(
+    challengeToken: TwoFactorChallengeToken
+  ): Promise<VerifiedTwoFactorChallenge | undefined> {
+    const payload = await this.keyRing.verify(challengeToken);
+    if (
+      !payload ||
+      payload.type !== TWO_FACTOR_CHALLENGE_TYPE ||
+      typeof payload.sub !== 'string' ||
+      typeof payload.jti !== 'string' ||
+      typeof payload.exp !== 'number'
+    ) {
+      return undefined;
+    }
+
+    return {
+      userId: payload.sub as UserId,
+      jti: payload.jti as TwoFactorChallengeJti,
+      expiresAt: new Date(payload.exp * 1000) as TwoFactorChallengeExpiresAt,
+    };
+  }
+
+  async generateOAuthState(signInState: OAuthSignInState): Promise<GeneratedOAuthState> {
+    const expiresAt = addDuration(
+      new Date(),
+      this.config.oidc.stateExpiresIn,
+      DEFAULT_OAUTH_STATE_EXPIRES_IN
+    ) as OAuthStateExpiresAt;
+
+    const stateToken = (await this.keyRing.sign({
+      type: OAUTH_STATE_TYPE,
+      provider: signInState.provider as string,
+      state: signInState.state as string,
+      nonce: signInState.nonce as string,
+      codeVerifier: signInState.codeVerifier as string,
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    })) as OAuthStateToken;
+
+    return { stateToken, expiresAt };
+  }
+
+  async verifyOAuthState(stateToken: OAuthStateToken): Promise<OAuthSignInState | undefined> {
+    const payload = await this.keyRing.verify(stateToken);
+    if (
+      !payload ||
+      payload.type !== OAUTH_STATE_TYPE ||
+      typeof payload.provider !== 'string' ||
+      typeof payload.state !== 'string' ||
+      typeof payload.nonce !== 'string' ||
+      typeof payload.codeVerifier !== 'string'
+    ) {
+      return undefined;
+    }
+
+    return {
+      provider: payload.provider as IdentityProviderName,
+      state: payload.state as OAuthState,
+      nonce: payload.nonce as OAuthNonce,
+      codeVerifier: payload.codeVerifier as PkceCodeVerifier,
+    };
   }
 
   async generateTokens(user: IUser): Promise<GeneratedAuthTokens> {
@@ -59,9 +143,10 @@ export class JwtTokenService extends AuthTokenService {
       DEFAULT_REFRESH_TOKEN_EXPIRES_IN
     ) as RefreshTokenExpiresAt;
 
-    const accessToken = await this.signAccessToken({
+    const accessToken = await this.keyRing.sign({
       sub: user.id as unknown as string,
       email: user.email as unknown as string,
+      role: user.role as unknown as string,
       jti: jtiValue,
       type: 'access',
     });
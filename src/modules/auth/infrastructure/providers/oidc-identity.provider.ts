@@ -0,0 +1,190 @@
+import { createRemoteJWKSet, errors, type JWTPayload, jwtVerify } from 'jose';
+
+import type { UserEmail } from '@modules/accounts/domain/entities/user.entity';
+import type { IdentityProviderName, IdentitySubject } from '@modules/auth/domain/entities/user-identity.entity';
+import {
+  type AuthorizationCodeExchange,
+  type AuthorizationRequest,
+  type ExternalIdentity,
+  IdentityProvider,
+} from '@modules/auth/domain/ports/identity-provider';
+import type { OidcProviderConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { BadGatewayError, UnauthorizedError } from '@shared/errors/error-mapper';
+
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface IdTokenClaims extends JWTPayload {
+  sub: string;
+  azp?: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+/** Allowed difference between our clock and the provider's when checking `exp` and `iat`. */
+const CLOCK_TOLERANCE_SECONDS = 60;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Whether jose rejected the token itself, as opposed to failing to fetch the key set: a timeout, a network error,
+ * a non-200 response or a body that is not a key set.
+ */
+const isIdTokenRejection = (error: unknown): boolean =>
+  error instanceof errors.JOSEError &&
+  error.code !== 'ERR_JOSE_GENERIC' &&
+  !(error instanceof errors.JWKSTimeout) &&
+  !(error instanceof errors.JWKSInvalid);
+
+/**
+ * Signs users in with any OpenID Connect provider. Endpoints come from the issuer's discovery document and are
+ * cached for the life of the process; jose caches the key set and fetches it again when an ID token names a key it
+ * does not contain, which is how providers roll their keys. ID tokens must be signed with RS256 or ES256. A provider
+ * that cannot be reached or answers with something unusable fails the sign-in with a `BadGatewayError`.
+ */
+export class OidcIdentityProvider extends IdentityProvider {
+  readonly name: IdentityProviderName;
+  private discovery?: Promise<OidcDiscoveryDocument>;
+  private jwks?: ReturnType<typeof createRemoteJWKSet>;
+
+  constructor(private readonly config: OidcProviderConfig) {
+    super();
+    this.name = config.name as IdentityProviderName;
+  }
+
+  async createAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+    const { authorization_endpoint } = await this.getDiscovery();
+    const url = new URL(authorization_endpoint);
+
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.config.redirectUri);
+    url.searchParams.set('scope', this.config.scopes.join(' '));
+    url.searchParams.set('state', request.state);
+    url.searchParams.set('nonce', request.nonce);
+    url.searchParams.set('code_challenge', request.codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return url.toString();
+  }
+
+  async exchangeCode(exchange: AuthorizationCodeExchange): Promise<ExternalIdentity> {
+    const { token_endpoint } = await this.getDiscovery();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: exchange.code,
+      redirect_uri: this.config.redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: exchange.codeVerifier,
+    });
+    if (this.config.clientSecret) {
+      body.set('client_secret', this.config.clientSecret);
+    }
+
+    const response = await this.request(token_endpoint, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded', accept: 'application/json' },
+      body,
+    });
+    if (response.status >= 500) {
+      throw new BadGatewayError(`The ${this.name} token endpoint failed with status ${response.status}`);
+    }
+
+    const tokens = (await response.json().catch(() => ({}))) as { id_token?: unknown };
+
+    if (!response.ok || typeof tokens.id_token !== 'string') {
+      throw new UnauthorizedError('The identity provider rejected the sign-in');
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token, exchange.nonce);
+
+    return {
+      subject: claims.sub as IdentitySubject,
+      email: claims.email ? (claims.email.toLowerCase() as UserEmail) : undefined,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: claims.name,
+    };
+  }
+
+  private async verifyIdToken(idToken: string, expectedNonce: string): Promise<IdTokenClaims> {
+    const { jwks_uri } = await this.getDiscovery();
+    this.jwks ??= createRemoteJWKSet(new URL(jwks_uri), { timeoutDuration: REQUEST_TIMEOUT_MS });
+
+    const { payload } = await jwtVerify<IdTokenClaims>(idToken, this.jwks, {
+      issuer: this.config.issuer,
+      audience: this.config.clientId,
+      algorithms: ['RS256', 'ES256'],
+      requiredClaims: ['sub', 'exp', 'iat', 'nonce'],
+      clockTolerance: CLOCK_TOLERANCE_SECONDS,
+    }).catch(error => {
+      if (isIdTokenRejection(error)) {
+        throw new UnauthorizedError('Invalid ID token');
+      }
+      throw new BadGatewayError(`Could not fetch the ${this.name} signing keys`);
+    });
+
+    if (
+      payload.nonce !== expectedNonce ||
+      (payload.azp !== undefined && payload.azp !== this.config.clientId) ||
+      typeof payload.sub !== 'string' ||
+      payload.sub.length === 0
+    ) {
+      throw new UnauthorizedError('Invalid ID token');
+    }
+
+    return payload;
+  }
+
+  private getDiscovery(): Promise<OidcDiscoveryDocument> {
+    this.discovery ??= this.fetchDiscovery().catch(error => {
+      // Not cached, so the next sign-in tries again once the provider is reachable.
+      this.discovery = undefined;
+      throw error;
+    });
+
+    return this.discovery;
+  }
+
+  private async fetchDiscovery(): Promise<OidcDiscoveryDocument> {
+    const document = await this.fetchJson<Partial<OidcDiscoveryDocument>>(
+      `${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`
+    );
+
+    if (document.issuer !== this.config.issuer) {
+      throw new BadGatewayError(
+        `OIDC discovery for ${this.name} returned issuer ${document.issuer}, expected ${this.config.issuer}`
+      );
+    }
+
+    if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+      throw new BadGatewayError(`OIDC discovery for ${this.name} is missing required endpoints`);
+    }
+
+    return document as OidcDiscoveryDocument;
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    const response = await this.request(url, { headers: { accept: 'application/json' } });
+    if (!response.ok) {
+      throw new BadGatewayError(`Request to ${url} failed with status ${response.status}`);
+    }
+
+    return (await response.json().catch(() => {
+      throw new BadGatewayError(`Request to ${url} did not return JSON`);
+    })) as T;
+  }
+
+  /** Fails with a `BadGatewayError` when the provider cannot be reached or does not answer in time. */
+  private async request(url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    } catch {
+      throw new BadGatewayError(`Could not reach the ${this.name} identity provider at ${url}`);
+    }
+  }
+}
@@ -1,12 +1,20 @@
+import type { Context } from 'elysia';
 import { nanoid } from 'nanoid';
 import { inject, injectable } from 'tsyringe';
 
 import type { IUser } from '@modules/accounts/domain/entities/user.entity';
 import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type {
+  RefreshTokenIpAddress,
+  RefreshTokenUserAgent,
+  SessionDevice,
+} from '@modules/auth/domain/entities/refresh-token.entity';
 import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
 import { toUserResponse } from '@modules/auth/interface/http/transformers/auth.transformers';
 import type { LoggerPort } from '@shared/logging/logger.port';
+import type { AppConfig } from '@platform/config/app-config';
 import { PlatformTokens } from '@platform/di/tokens';
+import { getClientIp } from '@shared/utils/client-ip.util';
 import {
   buildClearRefreshTokenCookie,
   buildClearRefreshTokenCsrfCookie,
@@ -31,7 +39,8 @@ export interface AuthResult {
 export class BaseAuthController {
   constructor(
     @inject(AuthModuleTokens.AuthConfig) protected readonly authConfig: AuthConfig,
-    @inject(PlatformTokens.Logger) protected readonly logger: LoggerPort
+    @inject(PlatformTokens.Logger) protected readonly logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) protected readonly appConfig: AppConfig
   ) {}
 
   protected setAuthCookies(set: unknown, tokens: AuthTokens): string {
@@ -67,6 +76,16 @@ export class BaseAuthController {
     return parseCookies(cookieHeader);
   }
 
+  protected getSessionDevice(request: Request, server: Context['server']): SessionDevice {
+    const userAgent = request.headers.get('user-agent')?.slice(0, 512);
+    const ipAddress = getClientIp(request, server, this.appConfig.server.trustProxy);
+
+    return {
+      userAgent: userAgent ? (userAgent as RefreshTokenUserAgent) : undefined,
+      ipAddress: ipAddress as RefreshTokenIpAddress | undefined,
+    };
+  }
+
   protected createAuthResponse(user: IUser, tokens: AuthTokens, csrfToken: string) {
     return {
       user: toUserResponse(user),
@@ -0,0 +1,68 @@
+import Elysia from 'elysia';
+import { StatusCodes } from 'http-status-codes';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserPassword } from '@modules/accounts/domain/entities/user.entity';
+import { ChangePasswordUseCase } from '@modules/auth/application/use-cases/change-password.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ChangePasswordRequestDto, ErrorResponseDto, SuccessResponseDto } from '../dtos/auth.dto';
+import { getAuth } from '../guards/auth.guard';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class ChangePasswordController extends BaseAuthController {
+  constructor(
+    @inject(ChangePasswordUseCase) private readonly changePasswordUseCase: ChangePasswordUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.post(
+      '/auth/password/change',
+      async ({ body, set, ...context }) => {
+        const { userId } = getAuth(context);
+
+        try {
+          const result = await this.changePasswordUseCase.execute({
+            userId,
+            currentPassword: body.currentPassword as UserPassword,
+            newPassword: body.newPassword as UserPassword,
+          });
+
+          set.status = StatusCodes.OK;
+          this.clearAuthCookies(set);
+          this.logSuccess('Password changed', { userId });
+
+          return result;
+        } catch (error) {
+          this.handleError(error, 'change password', { userId });
+        }
+      },
+      {
+        body: ChangePasswordRequestDto,
+        response: {
+          200: SuccessResponseDto,
+          400: ErrorResponseDto,
+          401: ErrorResponseDto,
+          403: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Change password',
+          description:
+            'Checks the current password, stores the new one and revokes every session of the user, including this one',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { StrictBuilder } from 'builder-pattern';
+import Elysia from 'elysia';
+import { StatusCodes } from 'http-status-codes';
+import { inject, injectable } from 'tsyringe';
+
+import {
+  type CompleteOAuthSignInInput,
+  CompleteOAuthSignInUseCase,
+} from '@modules/auth/application/use-cases/complete-oauth-sign-in.usecase';
+import type { OAuthStateToken } from '@modules/auth/domain/ports/auth-token.service';
+import type { OAuthAuthorizationCode, OAuthState } from '@modules/auth/domain/ports/identity-provider';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import { UnauthorizedError } from '@shared/errors/error-mapper';
+import type { LoggerPort } from '@shared/logging/logger.port';
+import { buildClearOAuthStateCookie } from '@shared/utils/cookie.util';
+
+import { ErrorResponseDto, OAuthCallbackQueryDto, OAuthProviderParamsDto, SignInResponseDto } from '../dtos/auth.dto';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class CompleteOAuthSignInController extends BaseAuthController {
+  constructor(
+    @inject(CompleteOAuthSignInUseCase) private readonly completeOAuthSignInUseCase: CompleteOAuthSignInUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.get(
+      '/auth/oauth/:provider/callback',
+      async ({ params, query, request, server, set }) => {
+        const requestId = this.generateRequestId();
+        const stateToken = this.parseRequestCookies(request)[this.authConfig.oauthStateCookie.name];
+
+        // The state is single-use whatever the outcome.
+        this.setCookies(set, [buildClearOAuthStateCookie(this.authConfig)]);
+
+        try {
+          if (query.error || !query.code || !query.state) {
+            throw new UnauthorizedError('The identity provider did not complete the sign-in');
+          }
+
+          const input: CompleteOAuthSignInInput = StrictBuilder<CompleteOAuthSignInInput>()
+            .provider(params.provider)
+            .code(query.code as OAuthAuthorizationCode)
+            .state(query.state as OAuthState)
+            .stateToken(stateToken as OAuthStateToken | undefined)
+            .device(this.getSessionDevice(request, server))
+            .build();
+
+          const result = await this.completeOAuthSignInUseCase.execute(input);
+          set.status = StatusCodes.OK;
+
+          // No cookies yet: the session only starts once POST /auth/2fa/verify succeeds.
+          if ('twoFactorRequired' in result) {
+            this.logSuccess('Two-factor challenge issued', { provider: params.provider, requestId });
+            return result;
+          }
+
+          const { user, tokens } = result;
+
+          const csrfToken = this.setAuthCookies(set, tokens);
+
+          this.logSuccess('Signed in with identity provider', { provider: params.provider, requestId });
+
+          return this.createAuthResponse(user, tokens, csrfToken);
+        } catch (error) {
+          this.handleError(error, 'complete provider sign-in', {
+            provider: params.provider,
+            providerError: query.error,
+            requestId,
+          });
+        }
+      },
+      {
+        params: OAuthProviderParamsDto,
+        query: OAuthCallbackQueryDto,
+        response: {
+          200: SignInResponseDto,
+          401: ErrorResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+          409: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Identity provider callback',
+          description:
+            'Where the provider redirects back to. Checks the state against the cookie set by `GET /auth/oauth/{provider}`, redeems the code and validates the ID token, then signs in the linked user like `POST /auth/signin`. A first sign-in links the identity to the account with the same verified email address, or creates one; an existing account whose address is unverified returns 409.',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import Elysia from 'elysia';
+import { StatusCodes } from 'http-status-codes';
+import { inject, injectable } from 'tsyringe';
+
+import { ConsumeMagicLinkUseCase } from '@modules/auth/application/use-cases/consume-magic-link.usecase';
+import type { SingleUseTokenPlain } from '@modules/auth/domain/entities/single-use-token.entity';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ConsumeMagicLinkRequestDto, ErrorResponseDto, SignInResponseDto } from '../dtos/auth.dto';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class ConsumeMagicLinkController extends BaseAuthController {
+  constructor(
+    @inject(ConsumeMagicLinkUseCase) private readonly consumeMagicLinkUseCase: ConsumeMagicLinkUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.post(
+      '/auth/magic-link/consume',
+      async ({ body, request, server, set }) => {
+        const requestId = this.generateRequestId();
+
+        try {
+          const result = await this.consumeMagicLinkUseCase.execute({
+            token: body.token as SingleUseTokenPlain,
+            device: this.getSessionDevice(request, server),
+          });
+          set.status = StatusCodes.OK;
+
+          // No cookies yet: the session only starts once POST /auth/2fa/verify succeeds.
+          if ('twoFactorRequired' in result) {
+            this.logSuccess('Two-factor challenge issued', { requestId });
+            return result;
+          }
+
+          const { user, tokens } = result;
+          const csrfToken = this.setAuthCookies(set, tokens);
+          this.logSuccess('Magic link sign-in completed', { userId: user.id, requestId });
+
+          return this.createAuthResponse(user, tokens, csrfToken);
+        } catch (error) {
+          this.handleError(error, 'consume magic link', { requestId });
+        }
+      },
+      {
+        body: ConsumeMagicLinkRequestDto,
+        response: {
+          200: SignInResponseDto,
+          400: ErrorResponseDto,
+          401: ErrorResponseDto,
+          403: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Sign in with a magic link',
+          description:
+            'Exchanges the token from a sign-in email for the session tokens, or for a two-factor challenge when the user has two-factor authentication enabled. Each link works once. An account that is not active returns 403 with `ACCOUNT_INACTIVE`, `ACCOUNT_SUSPENDED` or `ACCOUNT_DELETED`',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
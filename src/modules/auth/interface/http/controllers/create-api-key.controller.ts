@@ -0,0 +1,68 @@
+import Elysia from 'elysia';
+import { StatusCodes } from 'http-status-codes';
+import { inject, injectable } from 'tsyringe';
+
+import { CreateApiKeyUseCase } from '@modules/auth/application/use-cases/create-api-key.usecase';
+import type { ApiKeyExpiresAt, ApiKeyName } from '@modules/auth/domain/entities/api-key.entity';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { toApiKeyResponse } from '@modules/auth/interface/http/transformers/auth.transformers';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { CreateApiKeyRequestDto, CreateApiKeyResponseDto, ErrorResponseDto } from '../dtos/auth.dto';
+import { getAuth } from '../guards/auth.guard';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class CreateApiKeyController extends BaseAuthController {
+  constructor(
+    @inject(CreateApiKeyUseCase) private readonly createApiKeyUseCase: CreateApiKeyUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.post(
+      '/auth/api-keys',
+      async ({ body, set, ...context }) => {
+        const { userId } = getAuth(context);
+
+        try {
+          const { apiKey, key } = await this.createApiKeyUseCase.execute({
+            userId,
+            name: body.name as ApiKeyName,
+            scopes: body.scopes,
+            expiresAt: body.expiresAt as ApiKeyExpiresAt | undefined,
+          });
+          this.logSuccess('API key created', { userId, apiKeyId: apiKey.id });
+
+          set.status = StatusCodes.CREATED;
+          return { apiKey: toApiKeyResponse(apiKey), key };
+        } catch (error) {
+          this.handleError(error, 'create API key', { userId });
+        }
+      },
+      {
+        body: CreateApiKeyRequestDto,
+        response: {
+          201: CreateApiKeyResponseDto,
+          400: ErrorResponseDto,
+          401: ErrorResponseDto,
+          403: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Create an API key',
+          description:
+            'Issues a personal API key to send as `X-API-Key` instead of a bearer token. The full key is only returned here. `scopes` limits the key to some of your permissions (all of them when omitted), and `expiresAt` is optional',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
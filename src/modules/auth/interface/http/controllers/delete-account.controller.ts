@@ -0,0 +1,60 @@
+import Elysia from 'elysia';
+import { StatusCodes } from 'http-status-codes';
+import { inject, injectable } from 'tsyringe';
+
+import { DeleteAccountUseCase } from '@modules/auth/application/use-cases/delete-account.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, SuccessResponseDto } from '../dtos/auth.dto';
+import { getAuth } from '../guards/auth.guard';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class DeleteAccountController extends BaseAuthController {
+  constructor(
+    @inject(DeleteAccountUseCase) private readonly deleteAccountUseCase: DeleteAccountUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.delete(
+      '/me',
+      async ({ set, ...context }) => {
+        const { userId } = getAuth(context);
+
+        try {
+          const result = await this.deleteAccountUseCase.execute({ userId });
+
+          set.status = StatusCodes.OK;
+          this.clearAuthCookies(set);
+          this.logSuccess('Account deleted', { userId });
+
+          return result;
+        } catch (error) {
+          this.handleError(error, 'delete account', { userId });
+        }
+      },
+      {
+        response: {
+          200: SuccessResponseDto,
+          401: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Delete my account',
+          description:
+            'Permanently deletes the signed-in user together with their posts, and ends every session, including this one',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import Elysia from 'elysia';
+import { StatusCodes } from 'http-status-codes';
+import { inject, injectable } from 'tsyringe';
+
+import { EnableTwoFactorUseCase } from '@modules/auth/application/use-cases/enable-two-factor.usecase';
+import type { TwoFactorCode } from '@modules/auth/domain/entities/two-factor.entity';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { EnableTwoFactorRequestDto, EnableTwoFactorResponseDto, ErrorResponseDto } from '../dtos/auth.dto';
+import { getAuth } from '../guards/auth.guard';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class EnableTwoFactorController extends BaseAuthController {
+  constructor(
+    @inject(EnableTwoFactorUseCase) private readonly enableTwoFactorUseCase: EnableTwoFactorUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.post(
+      '/auth/2fa/enable',
+      async ({ body, set, ...context }) => {
+        const { userId } = getAuth(context);
+
+        try {
+          const result = await this.enableTwoFactorUseCase.execute({
+            userId,
+            code: body.code as TwoFactorCode,
+          });
+
+          set.status = StatusCodes.OK;
+          this.logSuccess('Two-factor authentication enabled', { userId });
+
+          return result;
+        } catch (error) {
+          this.handleError(error, 'enable two-factor authentication', { userId });
+        }
+      },
+      {
+        body: EnableTwoFactorRequestDto,
+        response: {
+          200: EnableTwoFactorResponseDto,
+          400: ErrorResponseDto,
+          401: ErrorResponseDto,
+          409: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Enable two-factor authentication',
+          description:
+            'Confirms the setup with a code from the authenticator app and returns one-time recovery codes, shown only once',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserEmail } from '@modules/accounts/domain/entities/user.entity';
+import { ForgotPasswordUseCase } from '@modules/auth/application/use-cases/forgot-password.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, ForgotPasswordRequestDto, SuccessResponseDto } from '../dtos/auth.dto';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class ForgotPasswordController extends BaseAuthController {
+  constructor(
+    @inject(ForgotPasswordUseCase) private readonly forgotPasswordUseCase: ForgotPasswordUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.post(
+      '/auth/password/forgot',
+      async ({ body }) => {
+        const requestId = this.generateRequestId();
+
+        try {
+          this.logSuccess('Handling forgot password request', { requestId });
+
+          return await this.forgotPasswordUseCase.execute({ email: body.email as UserEmail });
+        } catch (error) {
+          this.handleError(error, 'request password reset', { requestId });
+        }
+      },
+      {
+        body: ForgotPasswordRequestDto,
+        response: {
+          200: SuccessResponseDto,
+          400: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Request a password reset',
+          description:
+            'Mails a single-use reset link if the address is registered. Always answers with success so registered addresses cannot be discovered.',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
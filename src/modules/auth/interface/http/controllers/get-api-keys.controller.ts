@@ -0,0 +1,55 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { ListApiKeysUseCase } from '@modules/auth/application/use-cases/list-api-keys.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { toApiKeyResponse } from '@modules/auth/interface/http/transformers/auth.transformers';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, GetApiKeysResponseDto } from '../dtos/auth.dto';
+import { getAuth } from '../guards/auth.guard';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class GetApiKeysController extends BaseAuthController {
+  constructor(
+    @inject(ListApiKeysUseCase) private readonly listApiKeysUseCase: ListApiKeysUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.get(
+      '/auth/api-keys',
+      async ({ ...context }) => {
+        const { userId } = getAuth(context);
+
+        try {
+          const apiKeys = await this.listApiKeysUseCase.execute({ userId });
+          return apiKeys.map(toApiKeyResponse);
+        } catch (error) {
+          this.handleError(error, 'list API keys', { userId });
+        }
+      },
+      {
+        response: {
+          200: GetApiKeysResponseDto,
+          401: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'List API keys',
+          description:
+            'Lists the API keys of the current user that have not been revoked, newest first, including expired ones. Only the prefix of each key is shown',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
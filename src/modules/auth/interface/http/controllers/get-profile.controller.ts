@@ -0,0 +1,55 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { GetProfileUseCase } from '@modules/auth/application/use-cases/get-profile.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { toUserResponse } from '@modules/auth/interface/http/transformers/auth.transformers';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, ProfileResponseDto } from '../dtos/auth.dto';
+import { getAuth } from '../guards/auth.guard';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class GetProfileController extends BaseAuthController {
+  constructor(
+    @inject(GetProfileUseCase) private readonly getProfileUseCase: GetProfileUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.get(
+      '/me',
+      async ({ ...context }) => {
+        const { userId } = getAuth(context);
+
+        try {
+          const user = await this.getProfileUseCase.execute({ userId });
+
+          return { user: toUserResponse(user) };
+        } catch (error) {
+          this.handleError(error, 'get profile', { userId });
+        }
+      },
+      {
+        response: {
+          200: ProfileResponseDto,
+          401: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Get my profile',
+          description: 'Returns the account of the signed-in user',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
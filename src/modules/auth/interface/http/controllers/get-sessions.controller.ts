@@ -0,0 +1,53 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { ListSessionsUseCase } from '@modules/auth/application/use-cases/list-sessions.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, GetSessionsResponseDto } from '../dtos/auth.dto';
+import { getAuth } from '../guards/auth.guard';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class GetSessionsController extends BaseAuthController {
+  constructor(
+    @inject(ListSessionsUseCase) private readonly listSessionsUseCase: ListSessionsUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.get(
+      '/auth/sessions',
+      async ({ ...context }) => {
+        const { userId, jti } = getAuth(context);
+
+        try {
+          return await this.listSessionsUseCase.execute({ userId, currentJti: jti });
+        } catch (error) {
+          this.handleError(error, 'list sessions', { userId });
+        }
+      },
+      {
+        response: {
+          200: GetSessionsResponseDto,
+          401: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'List active sessions',
+          description:
+            'Lists the signed-in devices of the current user, most recently used first. `current` marks the session of the access token used for the request',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
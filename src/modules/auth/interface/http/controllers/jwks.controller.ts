@@ -0,0 +1,35 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import type { JwtKeyRing } from '@modules/auth/infrastructure/providers/jwt-key-ring';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+
+import { JwksResponseDto } from '../dtos/auth.dto';
+
+@injectable()
+export class JwksController {
+  constructor(@inject(AuthModuleTokens.JwtKeyRing) private readonly keyRing: JwtKeyRing) {}
+
+  register(app: Elysia) {
+    app.get(
+      '/.well-known/jwks.json',
+      ({ set }) => {
+        // Short enough that a newly added key is picked up well before it starts signing tokens.
+        set.headers['cache-control'] = 'public, max-age=300';
+
+        return this.keyRing.toJwks();
+      },
+      {
+        response: {
+          200: JwksResponseDto,
+        },
+        detail: {
+          summary: 'JSON Web Key Set',
+          description:
+            'Public keys for verifying access tokens. Retired keys stay listed until the tokens they signed expire.',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
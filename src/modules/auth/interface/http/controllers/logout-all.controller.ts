@@ -0,0 +1,59 @@
+import Elysia from 'elysia';
+import { StatusCodes } from 'http-status-codes';
+import { inject, injectable } from 'tsyringe';
+
+import { LogoutAllUseCase } from '@modules/auth/application/use-cases/logout-all.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, LogoutResponseDto } from '../dtos/auth.dto';
+import { getAuth } from '../guards/auth.guard';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class LogoutAllController extends BaseAuthController {
+  constructor(
+    @inject(LogoutAllUseCase) private readonly logoutAllUseCase: LogoutAllUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.post(
+      '/auth/logout-all',
+      async ({ set, ...context }) => {
+        const { userId } = getAuth(context);
+
+        try {
+          const result = await this.logoutAllUseCase.execute({ userId });
+
+          set.status = StatusCodes.OK;
+          this.clearAuthCookies(set);
+          this.logSuccess('User logged out from all sessions', { userId });
+
+          return result;
+        } catch (error) {
+          this.handleError(error, 'logout user from all sessions', { userId });
+        }
+      },
+      {
+        response: {
+          200: LogoutResponseDto,
+          401: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Log out everywhere',
+          description: 'Revokes every session of the current user, including the one making the request',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
@@ -7,6 +7,7 @@ import { AuthModuleTokens } from '@modules/auth/module.tokens';
 import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
 import type { RefreshTokenPlain } from '@modules/auth/domain/entities/refresh-token.entity';
 import type { LoggerPort } from '@shared/logging/logger.port';
+import type { AppConfig } from '@platform/config/app-config';
 import { PlatformTokens } from '@platform/di/tokens';
 import { BaseAuthController } from './base-auth.controller';
 
@@ -15,9 +16,10 @@ export class LogoutController extends BaseAuthController {
   constructor(
     @inject(LogoutUseCase) private readonly logoutUseCase: LogoutUseCase,
     @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
-    @inject(PlatformTokens.Logger) logger: LoggerPort
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
   ) {
-    super(authConfig, logger);
+    super(authConfig, logger, appConfig);
   }
 
   register(app: Elysia) {
@@ -10,6 +10,7 @@ import { AuthModuleTokens } from '@modules/auth/module.tokens';
 import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
 import { UnauthorizedError } from '@shared/errors/error-mapper';
 import type { LoggerPort } from '@shared/logging/logger.port';
+import type { AppConfig } from '@platform/config/app-config';
 import { PlatformTokens } from '@platform/di/tokens';
 import { BaseAuthController } from './base-auth.controller';
 import { AuthResponseDto, ErrorResponseDto, RefreshSessionRequestDto } from '../dtos/auth.dto';
@@ -19,15 +20,16 @@ export class RefreshSessionController extends BaseAuthController {
   constructor(
     @inject(RefreshSessionUseCase) private readonly refreshSessionUseCase: RefreshSessionUseCase,
     @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
-    @inject(PlatformTokens.Logger) logger: LoggerPort
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
   ) {
-    super(authConfig, logger);
+    super(authConfig, logger, appConfig);
   }
 
   register(app: Elysia) {
     app.post(
       '/auth/refresh',
-      async ({ request, headers, body, set }) => {
+      async ({ request, server, headers, body, set }) => {
         const cookies = this.parseRequestCookies(request);
         const csrfHeader = headers['x-csrf-token'];
         const csrfCookie = cookies[this.authConfig.refreshTokenCsrfCookie.name];
@@ -44,7 +46,7 @@ export class RefreshSessionController extends BaseAuthController {
           throw new UnauthorizedError('Refresh token not found');
         }
 
-        const input: RefreshSessionInput = { refreshToken };
+        const input: RefreshSessionInput = { refreshToken, device: this.getSessionDevice(request, server) };
         const requestId = this.generateRequestId();
 
         try {
@@ -0,0 +1,56 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserEmail } from '@modules/accounts/domain/entities/user.entity';
+import { RequestMagicLinkUseCase } from '@modules/auth/application/use-cases/request-magic-link.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, MagicLinkRequestDto, SuccessResponseDto } from '../dtos/auth.dto';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class RequestMagicLinkController extends BaseAuthController {
+  constructor(
+    @inject(RequestMagicLinkUseCase) private readonly requestMagicLinkUseCase: RequestMagicLinkUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.post(
+      '/auth/magic-link',
+      async ({ body }) => {
+        const requestId = this.generateRequestId();
+
+        try {
+          this.logSuccess('Handling magic link request', { requestId });
+
+          return await this.requestMagicLinkUseCase.execute({ email: body.email as UserEmail });
+        } catch (error) {
+          this.handleError(error, 'request magic link', { requestId });
+        }
+      },
+      {
+        body: MagicLinkRequestDto,
+        response: {
+          200: SuccessResponseDto,
+          400: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Request a sign-in link',
+          description:
+            'Mails a single-use, short-lived sign-in link if the address belongs to an active account. Always answers with success so registered addresses cannot be discovered.',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
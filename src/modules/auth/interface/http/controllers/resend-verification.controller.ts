@@ -0,0 +1,56 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserEmail } from '@modules/accounts/domain/entities/user.entity';
+import { ResendVerificationUseCase } from '@modules/auth/application/use-cases/resend-verification.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, ResendVerificationRequestDto, SuccessResponseDto } from '../dtos/auth.dto';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class ResendVerificationController extends BaseAuthController {
+  constructor(
+    @inject(ResendVerificationUseCase) private readonly resendVerificationUseCase: ResendVerificationUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.post(
+      '/auth/resend-verification',
+      async ({ body }) => {
+        const requestId = this.generateRequestId();
+
+        try {
+          this.logSuccess('Handling resend verification request', { requestId });
+
+          return await this.resendVerificationUseCase.execute({ email: body.email as UserEmail });
+        } catch (error) {
+          this.handleError(error, 'resend verification email', { requestId });
+        }
+      },
+      {
+        body: ResendVerificationRequestDto,
+        response: {
+          200: SuccessResponseDto,
+          400: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Resend verification email',
+          description:
+            'Mails a new verification link if the address belongs to an unverified account. Always answers with success so registered addresses cannot be discovered.',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
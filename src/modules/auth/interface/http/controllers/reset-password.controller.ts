@@ -0,0 +1,64 @@
+import Elysia from 'elysia';
+import { StatusCodes } from 'http-status-codes';
+import { inject, injectable } from 'tsyringe';
+
+import type { UserPassword } from '@modules/accounts/domain/entities/user.entity';
+import { ResetPasswordUseCase } from '@modules/auth/application/use-cases/reset-password.usecase';
+import type { SingleUseTokenPlain } from '@modules/auth/domain/entities/single-use-token.entity';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, ResetPasswordRequestDto, SuccessResponseDto } from '../dtos/auth.dto';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class ResetPasswordController extends BaseAuthController {
+  constructor(
+    @inject(ResetPasswordUseCase) private readonly resetPasswordUseCase: ResetPasswordUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.post(
+      '/auth/password/reset',
+      async ({ body, set }) => {
+        const requestId = this.generateRequestId();
+
+        try {
+          const result = await this.resetPasswordUseCase.execute({
+            token: body.token as SingleUseTokenPlain,
+            password: body.password as UserPassword,
+          });
+
+          set.status = StatusCodes.OK;
+          this.clearAuthCookies(set);
+          this.logSuccess('Password reset', { requestId });
+
+          return result;
+        } catch (error) {
+          this.handleError(error, 'reset password', { requestId });
+        }
+      },
+      {
+        body: ResetPasswordRequestDto,
+        response: {
+          200: SuccessResponseDto,
+          400: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Reset password',
+          description: 'Sets a new password using the token from the reset email and revokes every session of the user',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { RevokeApiKeyUseCase } from '@modules/auth/application/use-cases/revoke-api-key.usecase';
+import type { ApiKeyId } from '@modules/auth/domain/entities/api-key.entity';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ApiKeyIdParamsDto, ErrorResponseDto, SuccessResponseDto } from '../dtos/auth.dto';
+import { getAuth } from '../guards/auth.guard';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class RevokeApiKeyController extends BaseAuthController {
+  constructor(
+    @inject(RevokeApiKeyUseCase) private readonly revokeApiKeyUseCase: RevokeApiKeyUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.delete(
+      '/auth/api-keys/:id',
+      async ({ params, ...context }) => {
+        const { userId } = getAuth(context);
+        const apiKeyId = params.id as ApiKeyId;
+
+        try {
+          const result = await this.revokeApiKeyUseCase.execute({ userId, id: apiKeyId });
+          this.logSuccess('API key revoked', { userId, apiKeyId });
+
+          return result;
+        } catch (error) {
+          this.handleError(error, 'revoke API key', { userId, apiKeyId });
+        }
+      },
+      {
+        params: ApiKeyIdParamsDto,
+        response: {
+          200: SuccessResponseDto,
+          401: ErrorResponseDto,
+          404: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Revoke an API key',
+          description: 'Revokes one API key of the current user; requests using it are refused from then on',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { RevokeSessionUseCase } from '@modules/auth/application/use-cases/revoke-session.usecase';
+import type { RefreshTokenSessionId } from '@modules/auth/domain/entities/refresh-token.entity';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, LogoutResponseDto, SessionIdParamsDto } from '../dtos/auth.dto';
+import { getAuth } from '../guards/auth.guard';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class RevokeSessionController extends BaseAuthController {
+  constructor(
+    @inject(RevokeSessionUseCase) private readonly revokeSessionUseCase: RevokeSessionUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.delete(
+      '/auth/sessions/:id',
+      async ({ params, ...context }) => {
+        const { userId } = getAuth(context);
+        const sessionId = params.id as RefreshTokenSessionId;
+
+        try {
+          const result = await this.revokeSessionUseCase.execute({ userId, sessionId });
+          this.logSuccess('Session revoked', { userId, sessionId });
+
+          return result;
+        } catch (error) {
+          this.handleError(error, 'revoke session', { userId, sessionId });
+        }
+      },
+      {
+        params: SessionIdParamsDto,
+        response: {
+          200: LogoutResponseDto,
+          401: ErrorResponseDto,
+          404: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Revoke a session',
+          description:
+            'Signs one device of the current user out by revoking its refresh token. Access tokens already issued to it stay valid until they expire',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
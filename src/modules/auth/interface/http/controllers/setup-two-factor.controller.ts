@@ -0,0 +1,60 @@
+import Elysia from 'elysia';
+import { StatusCodes } from 'http-status-codes';
+import { inject, injectable } from 'tsyringe';
+
+import { SetupTwoFactorUseCase } from '@modules/auth/application/use-cases/setup-two-factor.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, TwoFactorSetupResponseDto } from '../dtos/auth.dto';
+import { getAuth } from '../guards/auth.guard';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class SetupTwoFactorController extends BaseAuthController {
+  constructor(
+    @inject(SetupTwoFactorUseCase) private readonly setupTwoFactorUseCase: SetupTwoFactorUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.post(
+      '/auth/2fa/setup',
+      async ({ set, ...context }) => {
+        const { userId } = getAuth(context);
+
+        try {
+          const result = await this.setupTwoFactorUseCase.execute({ userId });
+
+          set.status = StatusCodes.OK;
+          this.logSuccess('Two-factor setup started', { userId });
+
+          return result;
+        } catch (error) {
+          this.handleError(error, 'start two-factor setup', { userId });
+        }
+      },
+      {
+        response: {
+          200: TwoFactorSetupResponseDto,
+          401: ErrorResponseDto,
+          409: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Start two-factor setup',
+          description:
+            'Generates a TOTP secret and otpauth URI for an authenticator app; two-factor stays off until it is enabled',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
@@ -8,27 +8,30 @@ import { AuthModuleTokens } from '@modules/auth/module.tokens';
 import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
 import type { UserEmail, UserPassword } from '@modules/accounts/domain/entities/user.entity';
 import type { LoggerPort } from '@shared/logging/logger.port';
+import type { AppConfig } from '@platform/config/app-config';
 import { PlatformTokens } from '@platform/di/tokens';
 import { BaseAuthController } from './base-auth.controller';
-import { AuthResponseDto, ErrorResponseDto, SignInRequestDto } from '../dtos/auth.dto';
+import { ErrorResponseDto, SignInRequestDto, SignInResponseDto } from '../dtos/auth.dto';
 
 @injectable()
 export class SignInController extends BaseAuthController {
   constructor(
     @inject(SignInUseCase) private readonly signInUseCase: SignInUseCase,
     @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
-    @inject(PlatformTokens.Logger) logger: LoggerPort
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
   ) {
-    super(authConfig, logger);
+    super(authConfig, logger, appConfig);
   }
 
   register(app: Elysia) {
     app.post(
       '/auth/signin',
-      async ({ body, set }) => {
+      async ({ body, request, server, set }) => {
         const input: SignInInput = StrictBuilder<SignInInput>()
           .email(body.email as UserEmail)
           .password(body.password as UserPassword)
+          .device(this.getSessionDevice(request, server))
           .build();
 
         const requestId = this.generateRequestId();
@@ -40,9 +43,16 @@ export class SignInController extends BaseAuthController {
           });
 
           const result = await this.signInUseCase.execute(input);
+          set.status = StatusCodes.OK;
+
+          // No cookies yet: the session only starts once POST /auth/2fa/verify succeeds.
+          if ('twoFactorRequired' in result) {
+            this.logSuccess('Two-factor challenge issued', { requestId });
+            return result;
+          }
+
           const { user, tokens } = result;
 
-          set.status = StatusCodes.OK;
           const csrfToken = this.setAuthCookies(set, tokens);
 
           return this.createAuthResponse(user, tokens, csrfToken);
@@ -56,14 +66,17 @@ export class SignInController extends BaseAuthController {
       {
         body: SignInRequestDto,
         response: {
-          200: AuthResponseDto,
+          200: SignInResponseDto,
           400: ErrorResponseDto,
           401: ErrorResponseDto,
           403: ErrorResponseDto,
+          429: ErrorResponseDto,
           500: ErrorResponseDto,
         },
         detail: {
           summary: 'Sign in',
+          description:
+            'Returns the session tokens, or a short-lived challenge token when the user has two-factor authentication enabled. Repeated failures lock the email address or client IP temporarily (429 with Retry-After). A correct password for an account that is not active returns 403 with `ACCOUNT_INACTIVE`, `ACCOUNT_SUSPENDED` or `ACCOUNT_DELETED`',
           tags: ['Auth'],
         },
       }
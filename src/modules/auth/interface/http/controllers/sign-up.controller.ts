@@ -8,18 +8,21 @@ import { AuthModuleTokens } from '@modules/auth/module.tokens';
 import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
 import type { BUserName, UserEmail, UserPassword } from '@modules/accounts/domain/entities/user.entity';
 import type { LoggerPort } from '@shared/logging/logger.port';
+import type { AppConfig } from '@platform/config/app-config';
 import { PlatformTokens } from '@platform/di/tokens';
+import { toUserResponse } from '@modules/auth/interface/http/transformers/auth.transformers';
 import { BaseAuthController } from './base-auth.controller';
-import { AuthResponseDto, ErrorResponseDto, SignUpRequestDto } from '../dtos/auth.dto';
+import { ErrorResponseDto, SignUpRequestDto, SignUpResponseDto } from '../dtos/auth.dto';
 
 @injectable()
 export class SignUpController extends BaseAuthController {
   constructor(
     @inject(SignUpUseCase) private readonly signUpUseCase: SignUpUseCase,
     @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
-    @inject(PlatformTokens.Logger) logger: LoggerPort
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
   ) {
-    super(authConfig, logger);
+    super(authConfig, logger, appConfig);
   }
 
   register(app: Elysia) {
@@ -40,13 +43,11 @@ export class SignUpController extends BaseAuthController {
             requestId,
           });
 
-          const result = await this.signUpUseCase.execute(input);
-          const { user, tokens } = result;
+          const { user } = await this.signUpUseCase.execute(input);
 
           set.status = StatusCodes.CREATED;
-          const csrfToken = this.setAuthCookies(set, tokens);
 
-          return this.createAuthResponse(user, tokens, csrfToken);
+          return { user: toUserResponse(user) };
         } catch (error) {
           this.handleError(error, 'sign up user', {
             email: body.email,
@@ -57,7 +58,7 @@ export class SignUpController extends BaseAuthController {
       {
         body: SignUpRequestDto,
         response: {
-          201: AuthResponseDto,
+          201: SignUpResponseDto,
           400: ErrorResponseDto,
           401: ErrorResponseDto,
           409: ErrorResponseDto,
@@ -65,6 +66,8 @@ export class SignUpController extends BaseAuthController {
         },
         detail: {
           summary: 'Sign up',
+          description:
+            'Creates the account and emails a verification link. Sign-in is refused until the address is verified.',
           tags: ['Auth'],
         },
       }
@@ -0,0 +1,63 @@
+import Elysia from 'elysia';
+import { StatusCodes } from 'http-status-codes';
+import { inject, injectable } from 'tsyringe';
+
+import { StartOAuthSignInUseCase } from '@modules/auth/application/use-cases/start-oauth-sign-in.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+import { buildOAuthStateCookie } from '@shared/utils/cookie.util';
+
+import { ErrorResponseDto, OAuthProviderParamsDto } from '../dtos/auth.dto';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class StartOAuthSignInController extends BaseAuthController {
+  constructor(
+    @inject(StartOAuthSignInUseCase) private readonly startOAuthSignInUseCase: StartOAuthSignInUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.get(
+      '/auth/oauth/:provider',
+      async ({ params, set }) => {
+        const requestId = this.generateRequestId();
+
+        try {
+          const { authorizationUrl, stateToken, expiresAt } = await this.startOAuthSignInUseCase.execute({
+            provider: params.provider,
+          });
+
+          this.setCookies(set, [buildOAuthStateCookie(stateToken, expiresAt, this.authConfig)]);
+          set.status = StatusCodes.MOVED_TEMPORARILY;
+          set.headers['location'] = authorizationUrl;
+          set.headers['cache-control'] = 'no-store';
+
+          this.logSuccess('Redirecting to identity provider', { provider: params.provider, requestId });
+        } catch (error) {
+          this.handleError(error, 'start provider sign-in', { provider: params.provider, requestId });
+        }
+      },
+      {
+        params: OAuthProviderParamsDto,
+        response: {
+          404: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Sign in with an identity provider',
+          description:
+            "Redirects the browser to the provider's sign-in page (302). The state, nonce and PKCE verifier for the attempt travel in a short-lived HttpOnly cookie that the callback checks.",
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
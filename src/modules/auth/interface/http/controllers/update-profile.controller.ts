@@ -0,0 +1,70 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import type { BUserName, UserEmail, UserPassword } from '@modules/accounts/domain/entities/user.entity';
+import { UpdateProfileUseCase } from '@modules/auth/application/use-cases/update-profile.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { toUserResponse } from '@modules/auth/interface/http/transformers/auth.transformers';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, UpdateProfileRequestDto, UpdateProfileResponseDto } from '../dtos/auth.dto';
+import { getAuth } from '../guards/auth.guard';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class UpdateProfileController extends BaseAuthController {
+  constructor(
+    @inject(UpdateProfileUseCase) private readonly updateProfileUseCase: UpdateProfileUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.patch(
+      '/me',
+      async ({ body, ...context }) => {
+        const { userId } = getAuth(context);
+
+        try {
+          const { user, pendingEmail } = await this.updateProfileUseCase.execute({
+            userId,
+            name: body.name as BUserName | undefined,
+            email: body.email as UserEmail | undefined,
+            currentPassword: body.currentPassword as UserPassword | undefined,
+          });
+          this.logSuccess('Profile updated', { userId, emailChangeRequested: Boolean(pendingEmail) });
+
+          return {
+            user: toUserResponse(user),
+            ...(pendingEmail ? { pendingEmail: pendingEmail as string } : {}),
+          };
+        } catch (error) {
+          this.handleError(error, 'update profile', { userId });
+        }
+      },
+      {
+        body: UpdateProfileRequestDto,
+        response: {
+          200: UpdateProfileResponseDto,
+          400: ErrorResponseDto,
+          401: ErrorResponseDto,
+          403: ErrorResponseDto,
+          409: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Update my profile',
+          description:
+            'Changes the name and/or email address. A new address needs `currentPassword` and only replaces the current one once the verification link mailed to it is used; until then it is returned as `pendingEmail`',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { VerifyEmailUseCase } from '@modules/auth/application/use-cases/verify-email.usecase';
+import type { SingleUseTokenPlain } from '@modules/auth/domain/entities/single-use-token.entity';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { ErrorResponseDto, SuccessResponseDto, VerifyEmailRequestDto } from '../dtos/auth.dto';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class VerifyEmailController extends BaseAuthController {
+  constructor(
+    @inject(VerifyEmailUseCase) private readonly verifyEmailUseCase: VerifyEmailUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.post(
+      '/auth/verify-email',
+      async ({ body }) => {
+        const requestId = this.generateRequestId();
+
+        try {
+          const result = await this.verifyEmailUseCase.execute({
+            token: body.token as SingleUseTokenPlain,
+          });
+          this.logSuccess('Email address verified', { requestId });
+
+          return result;
+        } catch (error) {
+          this.handleError(error, 'verify email', { requestId });
+        }
+      },
+      {
+        body: VerifyEmailRequestDto,
+        response: {
+          200: SuccessResponseDto,
+          400: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Verify email address',
+          description: 'Consumes the token from the verification email. Tokens are single-use and expire.',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
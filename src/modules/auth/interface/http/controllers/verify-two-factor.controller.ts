@@ -0,0 +1,67 @@
+import Elysia from 'elysia';
+import { StatusCodes } from 'http-status-codes';
+import { inject, injectable } from 'tsyringe';
+
+import { VerifyTwoFactorUseCase } from '@modules/auth/application/use-cases/verify-two-factor.usecase';
+import type { TwoFactorChallengeToken, TwoFactorCode } from '@modules/auth/domain/entities/two-factor.entity';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { AuthModuleTokens } from '@modules/auth/module.tokens';
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+import { AuthResponseDto, ErrorResponseDto, VerifyTwoFactorRequestDto } from '../dtos/auth.dto';
+import { BaseAuthController } from './base-auth.controller';
+
+@injectable()
+export class VerifyTwoFactorController extends BaseAuthController {
+  constructor(
+    @inject(VerifyTwoFactorUseCase) private readonly verifyTwoFactorUseCase: VerifyTwoFactorUseCase,
+    @inject(AuthModuleTokens.AuthConfig) authConfig: AuthConfig,
+    @inject(PlatformTokens.Logger) logger: LoggerPort,
+    @inject(PlatformTokens.AppConfig) appConfig: AppConfig
+  ) {
+    super(authConfig, logger, appConfig);
+  }
+
+  register(app: Elysia) {
+    app.post(
+      '/auth/2fa/verify',
+      async ({ body, request, server, set }) => {
+        const requestId = this.generateRequestId();
+
+        try {
+          const { user, tokens } = await this.verifyTwoFactorUseCase.execute({
+            challengeToken: body.challengeToken as TwoFactorChallengeToken,
+            code: body.code as TwoFactorCode,
+            device: this.getSessionDevice(request, server),
+          });
+
+          set.status = StatusCodes.OK;
+          const csrfToken = this.setAuthCookies(set, tokens);
+          this.logSuccess('Two-factor sign-in completed', { userId: user.id, requestId });
+
+          return this.createAuthResponse(user, tokens, csrfToken);
+        } catch (error) {
+          this.handleError(error, 'verify two-factor code', { requestId });
+        }
+      },
+      {
+        body: VerifyTwoFactorRequestDto,
+        response: {
+          200: AuthResponseDto,
+          400: ErrorResponseDto,
+          401: ErrorResponseDto,
+          429: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Complete two-factor sign-in',
+          description:
+            'Exchanges the challenge token from sign-in plus an authenticator or recovery code for the session tokens. Repeated wrong codes lock the user temporarily (429 with Retry-After)',
+          tags: ['Auth'],
+        },
+      }
+    );
+  }
+}
@@ -1,14 +1,17 @@
 import { t } from 'elysia';
 
-import { StatusDto } from '@shared/dtos/common.dto';
+import { ERole, Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
 
 export const UserResponseDto = t.Object({
   id: t.String(),
   name: t.String(),
   email: t.String({ format: 'email' }),
-  status: StatusDto,
+  status: t.Enum(EUserStatus),
+  role: t.Enum(ERole),
   createdAt: t.Optional(t.Date()),
   updatedAt: t.Optional(t.Date()),
+  emailVerifiedAt: t.Optional(t.Date()),
 });
 
 export const SignUpRequestDto = t.Object({
@@ -17,6 +20,62 @@ export const SignUpRequestDto = t.Object({
   password: t.String({ minLength: 8, maxLength: 128 }),
 });
 
+export const SignUpResponseDto = t.Object({
+  user: UserResponseDto,
+});
+
+export const ProfileResponseDto = t.Object({
+  user: UserResponseDto,
+});
+
+export const UpdateProfileRequestDto = t.Object(
+  {
+    name: t.Optional(t.String({ minLength: 1, maxLength: 255 })),
+    email: t.Optional(t.String({ format: 'email' })),
+    currentPassword: t.Optional(t.String({ minLength: 1, maxLength: 128 })),
+  },
+  { minProperties: 1 }
+);
+
+export const UpdateProfileResponseDto = t.Object({
+  user: UserResponseDto,
+  pendingEmail: t.Optional(t.String({ format: 'email' })),
+});
+
+export const VerifyEmailRequestDto = t.Object({
+  token: t.String({ minLength: 1, maxLength: 256 }),
+});
+
+export const ResendVerificationRequestDto = t.Object({
+  email: t.String({ format: 'email' }),
+});
+
+export const ForgotPasswordRequestDto = t.Object({
+  email: t.String({ format: 'email' }),
+});
+
+export const ResetPasswordRequestDto = t.Object({
+  token: t.String({ minLength: 1, maxLength: 256 }),
+  password: t.String({ minLength: 8, maxLength: 128 }),
+});
+
+export const MagicLinkRequestDto = t.Object({
+  email: t.String({ format: 'email' }),
+});
+
+export const ConsumeMagicLinkRequestDto = t.Object({
+  token: t.String({ minLength: 1, maxLength: 256 }),
+});
+
+export const ChangePasswordRequestDto = t.Object({
+  currentPassword: t.String({ minLength: 1, maxLength: 128 }),
+  newPassword: t.String({ minLength: 8, maxLength: 128 }),
+});
+
+export const SuccessResponseDto = t.Object({
+  success: t.Boolean(),
+});
+
 export const SignInRequestDto = t.Object({
   email: t.String({ format: 'email' }),
   password: t.String({ minLength: 8, maxLength: 128 }),
@@ -37,17 +96,146 @@ export const AuthResponseDto = t.Object({
   csrf_token: t.String(),
 });
 
+export const TwoFactorChallengeResponseDto = t.Object({
+  twoFactorRequired: t.Literal(true),
+  challengeToken: t.String(),
+  challengeExpiresAt: t.Date(),
+});
+
+export const SignInResponseDto = t.Union([AuthResponseDto, TwoFactorChallengeResponseDto]);
+
+export const TwoFactorSetupResponseDto = t.Object({
+  secret: t.String(),
+  otpauthUri: t.String(),
+});
+
+export const EnableTwoFactorRequestDto = t.Object({
+  code: t.String({ pattern: '^\\d{6}$' }),
+});
+
+export const EnableTwoFactorResponseDto = t.Object({
+  recoveryCodes: t.Array(t.String()),
+});
+
+export const VerifyTwoFactorRequestDto = t.Object({
+  challengeToken: t.String({ minLength: 1 }),
+  code: t.String({ minLength: 6, maxLength: 16 }),
+});
+
 export const RefreshResponseDto = AuthResponseDto;
 
+export const SessionDto = t.Object({
+  id: t.String(),
+  userAgent: t.Optional(t.String()),
+  ipAddress: t.Optional(t.String()),
+  lastUsedAt: t.Optional(t.Date()),
+  expiresAt: t.Date(),
+  current: t.Boolean(),
+});
+
+export const GetSessionsResponseDto = t.Array(SessionDto);
+
+export const SessionIdParamsDto = t.Object({
+  id: t.String({ format: 'uuid' }),
+});
+
+export const LogoutResponseDto = t.Object({
+  success: t.Boolean(),
+});
+
+export const JwksResponseDto = t.Object({
+  keys: t.Array(
+    t.Object(
+      {
+        kty: t.String(),
+        kid: t.String(),
+        alg: t.String(),
+        use: t.String(),
+      },
+      { additionalProperties: true }
+    )
+  ),
+});
+
+export const ApiKeyScopeDto = t.Enum(Permissions);
+
+export const ApiKeyDto = t.Object({
+  id: t.String(),
+  name: t.String(),
+  prefix: t.String(),
+  scopes: t.Optional(t.Array(ApiKeyScopeDto)),
+  createdAt: t.Optional(t.Date()),
+  expiresAt: t.Optional(t.Date()),
+  lastUsedAt: t.Optional(t.Date()),
+});
+
+export const CreateApiKeyRequestDto = t.Object({
+  name: t.String({ minLength: 1, maxLength: 100 }),
+  scopes: t.Optional(t.Array(ApiKeyScopeDto, { minItems: 1 })),
+  expiresAt: t.Optional(t.Date()),
+});
+
+export const CreateApiKeyResponseDto = t.Object({
+  apiKey: ApiKeyDto,
+  key: t.String(),
+});
+
+export const GetApiKeysResponseDto = t.Array(ApiKeyDto);
+
+export const ApiKeyIdParamsDto = t.Object({
+  id: t.String({ format: 'uuid' }),
+});
+
+export const OAuthProviderParamsDto = t.Object({
+  provider: t.String({ pattern: '^[a-z0-9_-]+$', maxLength: 50 }),
+});
+
+export const OAuthCallbackQueryDto = t.Object({
+  code: t.Optional(t.String({ maxLength: 2048 })),
+  state: t.Optional(t.String({ maxLength: 512 })),
+  error: t.Optional(t.String()),
+  error_description: t.Optional(t.String()),
+});
+
 export const ErrorResponseDto = t.Object({
   error: t.String(),
   message: t.String(),
 });
 
 export type SignUpRequestDtoType = typeof SignUpRequestDto;
+export type SignUpResponseDtoType = typeof SignUpResponseDto;
+export type VerifyEmailRequestDtoType = typeof VerifyEmailRequestDto;
+export type ResendVerificationRequestDtoType = typeof ResendVerificationRequestDto;
+export type ForgotPasswordRequestDtoType = typeof ForgotPasswordRequestDto;
+export type ResetPasswordRequestDtoType = typeof ResetPasswordRequestDto;
+export type MagicLinkRequestDtoType = typeof MagicLinkRequestDto;
+export type ConsumeMagicLinkRequestDtoType = typeof ConsumeMagicLinkRequestDto;
+export type ChangePasswordRequestDtoType = typeof ChangePasswordRequestDto;
+export type ProfileResponseDtoType = typeof ProfileResponseDto;
+export type UpdateProfileRequestDtoType = typeof UpdateProfileRequestDto;
+export type UpdateProfileResponseDtoType = typeof UpdateProfileResponseDto;
+export type SuccessResponseDtoType = typeof SuccessResponseDto;
 export type SignInRequestDtoType = typeof SignInRequestDto;
 export type RefreshSessionRequestDtoType = typeof RefreshSessionRequestDto;
 export type AuthResponseDtoType = typeof AuthResponseDto;
+export type TwoFactorChallengeResponseDtoType = typeof TwoFactorChallengeResponseDto;
+export type SignInResponseDtoType = typeof SignInResponseDto;
+export type TwoFactorSetupResponseDtoType = typeof TwoFactorSetupResponseDto;
+export type EnableTwoFactorRequestDtoType = typeof EnableTwoFactorRequestDto;
+export type EnableTwoFactorResponseDtoType = typeof EnableTwoFactorResponseDto;
+export type VerifyTwoFactorRequestDtoType = typeof VerifyTwoFactorRequestDto;
 export type RefreshResponseDtoType = typeof RefreshResponseDto;
+export type SessionDtoType = typeof SessionDto;
+export type GetSessionsResponseDtoType = typeof GetSessionsResponseDto;
+export type SessionIdParamsDtoType = typeof SessionIdParamsDto;
+export type LogoutResponseDtoType = typeof LogoutResponseDto;
+export type JwksResponseDtoType = typeof JwksResponseDto;
+export type ApiKeyDtoType = typeof ApiKeyDto;
+export type CreateApiKeyRequestDtoType = typeof CreateApiKeyRequestDto;
+export type CreateApiKeyResponseDtoType = typeof CreateApiKeyResponseDto;
+export type GetApiKeysResponseDtoType = typeof GetApiKeysResponseDto;
+export type ApiKeyIdParamsDtoType = typeof ApiKeyIdParamsDto;
+export type OAuthProviderParamsDtoType = typeof OAuthProviderParamsDto;
+export type OAuthCallbackQueryDtoType = typeof OAuthCallbackQueryDto;
 export type ErrorResponseDtoType = typeof ErrorResponseDto;
 export type UserResponseDtoType = typeof UserResponseDto;
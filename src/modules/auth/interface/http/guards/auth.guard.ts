@@ -1,15 +1,46 @@
 import type { Context, Elysia } from 'elysia';
 import { t } from 'elysia';
 
-import jwt from '@elysiajs/jwt';
+import { ERole, getEffectivePermissions, isRole, type Permission } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
+import type { ApiKeyAuthenticationService } from '@modules/auth/application/services/api-key-authentication.service';
+import type { ApiKeyId } from '@modules/auth/domain/entities/api-key.entity';
+import type { RefreshTokenJti } from '@modules/auth/domain/entities/refresh-token.entity';
+import type { JwtKeyRing } from '@modules/auth/infrastructure/providers/jwt-key-ring';
+import { ForbiddenError, UnauthorizedError } from '@shared/errors/error-mapper';
 
-import { UnauthorizedError } from '@shared/errors/error-mapper';
+export type JwtDecorator = Pick<JwtKeyRing, 'sign' | 'verify'>;
 
-export type JwtDecorator = ReturnType<typeof jwt>['decorator']['jwt'];
+export type AccessTokenDenylistDecorator = Pick<AccessTokenDenylistService, 'isRevoked'>;
+
+export type ApiKeysDecorator = Pick<ApiKeyAuthenticationService, 'authenticate'>;
+
+export const API_KEY_HEADER = 'x-api-key';
+
+export interface WithAuthOptions {
+  /** Whether an `X-API-Key` header is accepted instead of a bearer token. Defaults to `true`. */
+  apiKeys?: boolean;
+}
+
+/** The caller of a route behind `withAuth`, resolved for each request. */
+export interface AuthContext {
+  userId: UserId;
+  role: ERole;
+  /** Access and refresh tokens of one issuance share a jti, which identifies the caller's session. */
+  jti?: RefreshTokenJti;
+  /** Set when the caller authenticated with an API key rather than a bearer token. */
+  apiKeyId?: ApiKeyId;
+  /** Permissions the API key is limited to; unset for bearer tokens. */
+  scopes?: Permission[];
+  /** The role's permissions narrowed to `scopes`; what route guards and use cases should check. */
+  permissions: readonly Permission[];
+}
 
 export interface JwtPayload {
   email: string;
   jti: string;
+  role?: string;
   sub: string;
   type: string;
 }
@@ -36,25 +67,95 @@ export const validateUserId = async (payload: JwtPayload): Promise<string | unde
   return userId;
 };
 
-export const withAuth = (app: Elysia) =>
-  app.guard({
-    headers: t.Object({
-      // authorization: t.String({ pattern: '^Bearer\\s+.+$' }),
-    }),
-    beforeHandle: async context => {
+// Challenge tokens from the two-factor sign-in step are signed with the same key and must not grant access.
+export const validateTokenType = async (payload: JwtPayload): Promise<void> => {
+  if (payload.type !== 'access') {
+    throw new UnauthorizedError('Invalid access token');
+  }
+};
+
+// Signed-out sessions stay refused until their access tokens would have expired.
+export const validateNotRevoked = async (
+  payload: JwtPayload,
+  accessTokenDenylist: AccessTokenDenylistDecorator
+): Promise<void> => {
+  if (payload.jti && (await accessTokenDenylist.isRevoked(payload.jti as RefreshTokenJti))) {
+    throw new UnauthorizedError('Access token has been revoked');
+  }
+};
+
+// Tokens issued before roles were introduced carry no role claim and are treated as regular users.
+export const validateRole = async (payload: JwtPayload): Promise<ERole> => {
+  const role = payload.role ?? ERole.user;
+  if (!isRole(role)) {
+    throw new UnauthorizedError('Invalid access token');
+  }
+  return role;
+};
+
+// Reached only without an Authorization header: a bearer token always takes precedence over an API key.
+export const validateApiKeyAllowed = async (allowed: boolean): Promise<void> => {
+  if (!allowed) {
+    throw new ForbiddenError('API keys cannot be used for this endpoint');
+  }
+};
+
+/** Reads the caller `withAuth` resolved for this request. */
+export const getAuth = (context: object): AuthContext => {
+  const { auth } = context as { auth?: AuthContext };
+  if (!auth) {
+    throw new UnauthorizedError('Missing access token');
+  }
+  return auth;
+};
+
+/**
+ * Requires a bearer access token or, unless `apiKeys` is `false`, a personal API key, and resolves the caller as
+ * `auth` (see `getAuth`). It is part of the request context rather than `store`, which every request shares.
+ */
+export const withAuth = (app: Elysia, { apiKeys = true }: WithAuthOptions = {}) =>
+  app
+    .guard({
+      headers: t.Object({
+        // authorization: t.String({ pattern: '^Bearer\\s+.+$' }),
+      }),
+    })
+    .resolve(async context => {
       const ctx = context as typeof context & {
         jwt: JwtDecorator;
-        bearer?: {
-          token?: string;
-        };
-        store: Record<string, unknown>;
+        accessTokenDenylist: AccessTokenDenylistDecorator;
+        apiKeys: ApiKeysDecorator;
       };
 
+      const apiKey = ctx.request.headers.get(API_KEY_HEADER);
+      if (apiKey && !ctx.request.headers.get('authorization')) {
+        await validateApiKeyAllowed(apiKeys);
+        const principal = await ctx.apiKeys.authenticate(apiKey);
+
+        const auth: AuthContext = {
+          userId: principal.userId,
+          role: principal.role,
+          apiKeyId: principal.apiKeyId,
+          scopes: principal.scopes,
+          permissions: getEffectivePermissions(principal.role, principal.scopes),
+        };
+        return { auth };
+      }
+
       const token = await validateToken(ctx);
 
-      const payload: JwtPayload = await ctx.jwt.verify(token);
+      // `false` for an invalid token, which validatePayload rejects.
+      const payload = (await ctx.jwt.verify(token)) as unknown as JwtPayload;
       await validatePayload(payload);
+      await validateTokenType(payload);
+      await validateNotRevoked(payload, ctx.accessTokenDenylist);
 
-      ctx.store.userId = await validateUserId(payload);
-    },
-  });
+      const role = await validateRole(payload);
+      const auth: AuthContext = {
+        userId: (await validateUserId(payload)) as UserId,
+        role,
+        jti: payload.jti as RefreshTokenJti,
+        permissions: getEffectivePermissions(role),
+      };
+      return { auth };
+    });
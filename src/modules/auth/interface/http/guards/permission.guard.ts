@@ -0,0 +1,22 @@
+import type { Permission } from '@modules/accounts/domain/entities/role.entity';
+import { ForbiddenError, UnauthorizedError } from '@shared/errors/error-mapper';
+
+import type { AuthContext } from './auth.guard';
+
+/**
+ * Route-level guard that must run behind `withAuth`, which resolves the caller's permissions: those of its role,
+ * narrowed to the scopes of the API key when one was used.
+ * Usage: `app.delete('/posts/:id', handler, { beforeHandle: withPermission(Permissions.PostsDelete) })`
+ */
+export const withPermission =
+  (...permissions: Permission[]) =>
+  async (context: { auth?: AuthContext }): Promise<void> => {
+    if (!context.auth) {
+      throw new UnauthorizedError('Missing access token');
+    }
+
+    const { permissions: granted } = context.auth;
+    if (!permissions.every(permission => granted.includes(permission))) {
+      throw new ForbiddenError('Insufficient permissions');
+    }
+  };
@@ -1,10 +1,23 @@
 import type { IUser } from '@modules/accounts/domain/entities/user.entity';
+import { API_KEY_MARKER, type IApiKey } from '@modules/auth/domain/entities/api-key.entity';
 
 export const toUserResponse = (user: IUser) => ({
   id: user.id as unknown as string,
   name: user.name as unknown as string,
   email: user.email as unknown as string,
   status: user.status,
+  role: user.role,
   createdAt: user.createdAt,
   updatedAt: user.updatedAt,
+  emailVerifiedAt: user.emailVerifiedAt,
+});
+
+export const toApiKeyResponse = (apiKey: IApiKey) => ({
+  id: apiKey.id as unknown as string,
+  name: apiKey.name as unknown as string,
+  prefix: `${API_KEY_MARKER}${apiKey.prefix}`,
+  scopes: apiKey.scopes,
+  createdAt: apiKey.createdAt,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
 });
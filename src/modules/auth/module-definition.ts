@@ -1,15 +1,55 @@
 import type { Elysia } from 'elysia';
-import type { DependencyContainer } from 'tsyringe';
+import { type DependencyContainer, instanceCachingFactory } from 'tsyringe';
 
+import { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
+import { ApiKeyAuthenticationService } from '@modules/auth/application/services/api-key-authentication.service';
+import { IdentityProviderRegistry } from '@modules/auth/application/services/identity-provider.registry';
+import { ApiKeyRepository } from '@modules/auth/domain/ports/api-key.repository';
 import { AuthTokenService } from '@modules/auth/domain/ports/auth-token.service';
+import { LoginAttemptRepository } from '@modules/auth/domain/ports/login-attempt.repository';
 import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { RevokedAccessTokenRepository } from '@modules/auth/domain/ports/revoked-access-token.repository';
+import { SingleUseTokenRepository } from '@modules/auth/domain/ports/single-use-token.repository';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import { UserIdentityRepository } from '@modules/auth/domain/ports/user-identity.repository';
 import { AuthConfig, authConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { ApiKeyDrizzleRepository } from '@modules/auth/infrastructure/persistence/api-key.drizzle.repository';
+import { LoginAttemptDrizzleRepository } from '@modules/auth/infrastructure/persistence/login-attempt.drizzle.repository';
 import { RefreshTokenDrizzleRepository } from '@modules/auth/infrastructure/persistence/refresh-token.drizzle.repository';
+import { RevokedAccessTokenDrizzleRepository } from '@modules/auth/infrastructure/persistence/revoked-access-token.drizzle.repository';
+import { SingleUseTokenDrizzleRepository } from '@modules/auth/infrastructure/persistence/single-use-token.drizzle.repository';
+import { TwoFactorDrizzleRepository } from '@modules/auth/infrastructure/persistence/two-factor.drizzle.repository';
+import { UserIdentityDrizzleRepository } from '@modules/auth/infrastructure/persistence/user-identity.drizzle.repository';
+import { JwtKeyRing } from '@modules/auth/infrastructure/providers/jwt-key-ring';
 import { JwtTokenService } from '@modules/auth/infrastructure/providers/jwt-token.service';
+import { OidcIdentityProvider } from '@modules/auth/infrastructure/providers/oidc-identity.provider';
+import { ChangePasswordController } from '@modules/auth/interface/http/controllers/change-password.controller';
+import { CompleteOAuthSignInController } from '@modules/auth/interface/http/controllers/complete-oauth-sign-in.controller';
+import { ConsumeMagicLinkController } from '@modules/auth/interface/http/controllers/consume-magic-link.controller';
+import { CreateApiKeyController } from '@modules/auth/interface/http/controllers/create-api-key.controller';
+import { DeleteAccountController } from '@modules/auth/interface/http/controllers/delete-account.controller';
+import { EnableTwoFactorController } from '@modules/auth/interface/http/controllers/enable-two-factor.controller';
+import { ForgotPasswordController } from '@modules/auth/interface/http/controllers/forgot-password.controller';
+import { GetApiKeysController } from '@modules/auth/interface/http/controllers/get-api-keys.controller';
+import { GetProfileController } from '@modules/auth/interface/http/controllers/get-profile.controller';
+import { GetSessionsController } from '@modules/auth/interface/http/controllers/get-sessions.controller';
+import { JwksController } from '@modules/auth/interface/http/controllers/jwks.controller';
+import { LogoutAllController } from '@modules/auth/interface/http/controllers/logout-all.controller';
 import { LogoutController } from '@modules/auth/interface/http/controllers/logout.controller';
 import { RefreshSessionController } from '@modules/auth/interface/http/controllers/refresh-session.controller';
+import { RequestMagicLinkController } from '@modules/auth/interface/http/controllers/request-magic-link.controller';
+import { ResendVerificationController } from '@modules/auth/interface/http/controllers/resend-verification.controller';
+import { ResetPasswordController } from '@modules/auth/interface/http/controllers/reset-password.controller';
+import { RevokeApiKeyController } from '@modules/auth/interface/http/controllers/revoke-api-key.controller';
+import { RevokeSessionController } from '@modules/auth/interface/http/controllers/revoke-session.controller';
+import { SetupTwoFactorController } from '@modules/auth/interface/http/controllers/setup-two-factor.controller';
 import { SignInController } from '@modules/auth/interface/http/controllers/sign-in.controller';
 import { SignUpController } from '@modules/auth/interface/http/controllers/sign-up.controller';
+import { StartOAuthSignInController } from '@modules/auth/interface/http/controllers/start-oauth-sign-in.controller';
+import { UpdateProfileController } from '@modules/auth/interface/http/controllers/update-profile.controller';
+import { VerifyEmailController } from '@modules/auth/interface/http/controllers/verify-email.controller';
+import { VerifyTwoFactorController } from '@modules/auth/interface/http/controllers/verify-two-factor.controller';
+import { withAuth } from '@modules/auth/interface/http/guards/auth.guard';
 import { AuthModuleTokens } from '@modules/auth/module.tokens';
 import type { ModuleDefinition } from '@platform/di/module-definition';
 
@@ -21,13 +61,82 @@ export const authModule: ModuleDefinition = {
       AuthModuleTokens.RefreshTokenRepository,
       RefreshTokenDrizzleRepository
     );
+    container.register<JwtKeyRing>(AuthModuleTokens.JwtKeyRing, {
+      useFactory: instanceCachingFactory(
+        dependencies => new JwtKeyRing(dependencies.resolve<AuthConfig>(AuthModuleTokens.AuthConfig).jwt)
+      ),
+    });
     container.registerSingleton<AuthTokenService>(AuthModuleTokens.AuthTokenService, JwtTokenService);
+    container.registerSingleton<SingleUseTokenRepository>(
+      AuthModuleTokens.SingleUseTokenRepository,
+      SingleUseTokenDrizzleRepository
+    );
+    container.registerSingleton<TwoFactorRepository>(AuthModuleTokens.TwoFactorRepository, TwoFactorDrizzleRepository);
+    container.registerSingleton<LoginAttemptRepository>(
+      AuthModuleTokens.LoginAttemptRepository,
+      LoginAttemptDrizzleRepository
+    );
+    container.registerSingleton<RevokedAccessTokenRepository>(
+      AuthModuleTokens.RevokedAccessTokenRepository,
+      RevokedAccessTokenDrizzleRepository
+    );
+    // A singleton so the whole process shares one cache.
+    container.registerSingleton(AccessTokenDenylistService);
+    container.registerSingleton<UserIdentityRepository>(
+      AuthModuleTokens.UserIdentityRepository,
+      UserIdentityDrizzleRepository
+    );
+    container.registerSingleton<ApiKeyRepository>(AuthModuleTokens.ApiKeyRepository, ApiKeyDrizzleRepository);
+    // A singleton so the whole process shares the cache of verified keys.
+    container.registerSingleton(ApiKeyAuthenticationService);
+    // Cached so each provider's discovery document and signing keys are fetched once per process.
+    container.register<IdentityProviderRegistry>(AuthModuleTokens.IdentityProviderRegistry, {
+      useFactory: instanceCachingFactory(
+        dependencies =>
+          new IdentityProviderRegistry(
+            dependencies
+              .resolve<AuthConfig>(AuthModuleTokens.AuthConfig)
+              .oidc.providers.map(provider => new OidcIdentityProvider(provider))
+          )
+      ),
+    });
   },
   routes(app: Elysia, container: DependencyContainer) {
     container.resolve(SignUpController).register(app);
     container.resolve(SignInController).register(app);
     container.resolve(RefreshSessionController).register(app);
     container.resolve(LogoutController).register(app);
+    container.resolve(VerifyEmailController).register(app);
+    container.resolve(ResendVerificationController).register(app);
+    container.resolve(ForgotPasswordController).register(app);
+    container.resolve(ResetPasswordController).register(app);
+    container.resolve(RequestMagicLinkController).register(app);
+    container.resolve(ConsumeMagicLinkController).register(app);
+    container.resolve(VerifyTwoFactorController).register(app);
+    container.resolve(JwksController).register(app);
+    container.resolve(StartOAuthSignInController).register(app);
+    container.resolve(CompleteOAuthSignInController).register(app);
+
+    // Grouped so the auth guard only applies to the signed-in routes, not to everything registered later.
+    // API keys are refused here: managing the account, its sessions and its keys needs an interactive sign-in.
+    app.group('', scoped => {
+      const protectedApp = withAuth(scoped as unknown as Elysia, { apiKeys: false }) as unknown as Elysia;
+
+      container.resolve(GetSessionsController).register(protectedApp);
+      container.resolve(RevokeSessionController).register(protectedApp);
+      container.resolve(LogoutAllController).register(protectedApp);
+      container.resolve(ChangePasswordController).register(protectedApp);
+      container.resolve(SetupTwoFactorController).register(protectedApp);
+      container.resolve(EnableTwoFactorController).register(protectedApp);
+      container.resolve(GetProfileController).register(protectedApp);
+      container.resolve(UpdateProfileController).register(protectedApp);
+      container.resolve(DeleteAccountController).register(protectedApp);
+      container.resolve(CreateApiKeyController).register(protectedApp);
+      container.resolve(GetApiKeysController).register(protectedApp);
+      container.resolve(RevokeApiKeyController).register(protectedApp);
+
+      return scoped;
+    });
   },
 };
 
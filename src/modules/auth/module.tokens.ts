@@ -2,4 +2,12 @@ export const AuthModuleTokens = {
   RefreshTokenRepository: Symbol('Auth.RefreshTokenRepository'),
   AuthTokenService: Symbol('Auth.AuthTokenService'),
   AuthConfig: Symbol('Auth.AuthConfig'),
+  JwtKeyRing: Symbol('Auth.JwtKeyRing'),
+  SingleUseTokenRepository: Symbol('Auth.SingleUseTokenRepository'),
+  TwoFactorRepository: Symbol('Auth.TwoFactorRepository'),
+  LoginAttemptRepository: Symbol('Auth.LoginAttemptRepository'),
+  RevokedAccessTokenRepository: Symbol('Auth.RevokedAccessTokenRepository'),
+  UserIdentityRepository: Symbol('Auth.UserIdentityRepository'),
+  IdentityProviderRegistry: Symbol('Auth.IdentityProviderRegistry'),
+  ApiKeyRepository: Symbol('Auth.ApiKeyRepository'),
 };
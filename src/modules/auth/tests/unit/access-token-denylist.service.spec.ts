@@ -0,0 +1,97 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
+import type { RefreshTokenJti, RefreshTokenSessionId } from '@modules/auth/domain/entities/refresh-token.entity';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { RevokedAccessTokenRepository } from '@modules/auth/domain/ports/revoked-access-token.repository';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+
+describe('AccessTokenDenylistService', () => {
+  const revokedAccessTokenRepository = mock<RevokedAccessTokenRepository>();
+  const refreshTokenRepository = mock<RefreshTokenRepository>();
+  const authConfig = {
+    jwt: { accessTokenExpiresIn: '15m' },
+    accessTokenDenylist: { cacheSize: 100, cacheTtlSeconds: 5 },
+  } as AuthConfig;
+
+  let service: AccessTokenDenylistService;
+
+  beforeEach(() => {
+    service = new AccessTokenDenylistService(revokedAccessTokenRepository, refreshTokenRepository, authConfig);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const now = new Date('2025-01-01T12:00:00.000Z');
+  const userId = 'user-id' as UserId;
+  const sessionId = 'session-id' as RefreshTokenSessionId;
+  const jti = 'jti-1' as RefreshTokenJti;
+
+  it('should be list every jti the session issued within the access token lifetime', async () => {
+    //Arrange
+    refreshTokenRepository.findJtisIssuedSince.mockResolvedValue([jti, 'jti-2' as RefreshTokenJti]);
+
+    //Act
+    await service.revokeSession(userId, sessionId, now);
+
+    //Assert
+    expect(refreshTokenRepository.findJtisIssuedSince).toHaveBeenCalledWith(
+      userId,
+      new Date('2025-01-01T11:45:00.000Z'),
+      sessionId
+    );
+    expect(revokedAccessTokenRepository.addMany).toHaveBeenCalledWith(
+      [jti, 'jti-2'],
+      new Date('2025-01-01T12:15:00.000Z')
+    );
+    expect(revokedAccessTokenRepository.deleteExpired).toHaveBeenCalledWith(now);
+  });
+
+  it('should be list the jtis of every session when revoking a user', async () => {
+    //Arrange
+    refreshTokenRepository.findJtisIssuedSince.mockResolvedValue([jti]);
+
+    //Act
+    await service.revokeAllForUser(userId, now);
+
+    //Assert
+    expect(refreshTokenRepository.findJtisIssuedSince).toHaveBeenCalledWith(
+      userId,
+      new Date('2025-01-01T11:45:00.000Z')
+    );
+    expect(revokedAccessTokenRepository.addMany).toHaveBeenCalledWith([jti], expect.any(Date));
+  });
+
+  it('should be answer from the cache for jtis this process revoked', async () => {
+    //Arrange
+    refreshTokenRepository.findJtisIssuedSince.mockResolvedValue([jti]);
+    await service.revokeSession(userId, sessionId, now);
+
+    //Act
+    const actual = await service.isRevoked(jti, now);
+
+    //Assert
+    expect(actual).toBe(true);
+    expect(revokedAccessTokenRepository.isRevoked).not.toHaveBeenCalled();
+  });
+
+  it('should be reuse a "not revoked" answer only for the cache ttl', async () => {
+    //Arrange
+    revokedAccessTokenRepository.isRevoked.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    await service.isRevoked(jti, now);
+
+    //Act
+    const cached = await service.isRevoked(jti, new Date(now.getTime() + 4_000));
+    const refreshed = await service.isRevoked(jti, new Date(now.getTime() + 5_000));
+
+    //Assert
+    expect(cached).toBe(false);
+    expect(refreshed).toBe(true);
+    expect(revokedAccessTokenRepository.isRevoked).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,165 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { ERole, Permissions } from '@modules/accounts/domain/entities/role.entity';
+import type { IUser, UserId, UserRole } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { ApiKeyAuthenticationService } from '@modules/auth/application/services/api-key-authentication.service';
+import {
+  ApiKey,
+  type ApiKeyExpiresAt,
+  type ApiKeyHash,
+  type ApiKeyId,
+  type ApiKeyLastUsedAt,
+  type ApiKeyPlain,
+  type ApiKeyPrefix,
+  type ApiKeyRevokedAt,
+  type IApiKey,
+} from '@modules/auth/domain/entities/api-key.entity';
+import { ApiKeyRepository } from '@modules/auth/domain/ports/api-key.repository';
+import { AccountStatusError, UnauthorizedError } from '@shared/errors/error-mapper';
+
+describe('ApiKeyAuthenticationService', () => {
+  const apiKeyRepository = mock<ApiKeyRepository>();
+  const userRepository = mock<UserRepository>();
+
+  let service: ApiKeyAuthenticationService;
+
+  const now = new Date('2025-01-01T12:00:00.000Z');
+  const userId = 'user-id' as UserId;
+  const key = 'ak_prefix123456.secret' as ApiKeyPlain;
+  let apiKey: IApiKey;
+  let user: IUser;
+
+  beforeEach(() => {
+    service = new ApiKeyAuthenticationService(apiKeyRepository, userRepository);
+    apiKey = Builder(ApiKey)
+      .id('key-id' as ApiKeyId)
+      .userId(userId)
+      .prefix('prefix123456' as ApiKeyPrefix)
+      .keyHash('hash' as ApiKeyHash)
+      .scopes([Permissions.PostsRead])
+      .build();
+    vi.spyOn(apiKey, 'compareKey').mockResolvedValue(true);
+    user = mock<IUser>({ id: userId, role: ERole.moderator as UserRole });
+    apiKeyRepository.findByPrefix.mockResolvedValue(apiKey);
+    userRepository.getByIdAnyStatus.mockResolvedValue(user);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should be resolve the key to its owner, role and scopes', async () => {
+    //Act
+    const actual = await service.authenticate(key, now);
+
+    //Assert
+    expect(actual).toEqual({ apiKeyId: 'key-id', userId, role: ERole.moderator, scopes: [Permissions.PostsRead] });
+    expect(apiKeyRepository.findByPrefix).toHaveBeenCalledWith('prefix123456');
+    expect(apiKeyRepository.markUsed).toHaveBeenCalledWith('key-id', now);
+  });
+
+  it.each(['not-a-key', 'ak_prefix123456', 'ak_.secret', 'ak_prefix.secret.extra'])(
+    'should be throw error without a lookup when the key is malformed: %s',
+    async malformed => {
+      //Act
+      const promise = service.authenticate(malformed, now);
+
+      //Assert
+      await expect(promise).rejects.toThrowError(new UnauthorizedError('Invalid API key'));
+      expect(apiKeyRepository.findByPrefix).not.toHaveBeenCalled();
+    }
+  );
+
+  it('should be throw error when no key has the prefix', async () => {
+    //Arrange
+    apiKeyRepository.findByPrefix.mockResolvedValue(undefined);
+
+    //Act
+    const promise = service.authenticate(key, now);
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Invalid API key'));
+  });
+
+  it.each([
+    ['revoked', () => (apiKey.revokedAt = new Date(now.getTime() - 1000) as ApiKeyRevokedAt)],
+    ['expired', () => (apiKey.expiresAt = now as ApiKeyExpiresAt)],
+    ['does not match the secret', () => vi.mocked(apiKey.compareKey).mockResolvedValue(false)],
+  ])('should be throw error when the key is %s', async (_label, arrange) => {
+    //Arrange
+    arrange();
+
+    //Act
+    const promise = service.authenticate(key, now);
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Invalid API key'));
+    expect(userRepository.getByIdAnyStatus).not.toHaveBeenCalled();
+  });
+
+  it('should be skip the hash check for a key that verified recently', async () => {
+    //Arrange
+    await service.authenticate(key, now);
+
+    //Act
+    await service.authenticate(key, new Date(now.getTime() + 5_000));
+
+    //Assert
+    expect(apiKey.compareKey).toHaveBeenCalledTimes(1);
+    expect(apiKeyRepository.findByPrefix).toHaveBeenCalledTimes(2);
+  });
+
+  it('should be check the hash again once the stored hash changes', async () => {
+    //Arrange
+    await service.authenticate(key, now);
+    apiKey.keyHash = 'rotated' as ApiKeyHash;
+
+    //Act
+    await service.authenticate(key, now);
+
+    //Assert
+    expect(apiKey.compareKey).toHaveBeenCalledTimes(2);
+  });
+
+  it('should be refuse a cached key once it has been revoked', async () => {
+    //Arrange
+    await service.authenticate(key, now);
+    apiKey.revokedAt = now as ApiKeyRevokedAt;
+
+    //Act
+    const promise = service.authenticate(key, now);
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Invalid API key'));
+  });
+
+  it('should be throw error when the owner is not active', async () => {
+    //Arrange
+    const error = new AccountStatusError('suspended', 'Account is suspended');
+    vi.mocked(user.assertActive).mockImplementation(() => {
+      throw error;
+    });
+
+    //Act
+    const promise = service.authenticate(key, now);
+
+    //Assert
+    await expect(promise).rejects.toBe(error);
+    expect(apiKeyRepository.markUsed).not.toHaveBeenCalled();
+  });
+
+  it('should be not record the use again within a minute', async () => {
+    //Arrange
+    apiKey.lastUsedAt = new Date(now.getTime() - 30_000) as ApiKeyLastUsedAt;
+
+    //Act
+    await service.authenticate(key, now);
+
+    //Assert
+    expect(apiKeyRepository.markUsed).not.toHaveBeenCalled();
+  });
+});
@@ -4,8 +4,19 @@ import { mock } from 'vitest-mock-extended';
 
 import { faker } from '@faker-js/faker';
 
-import { UnauthorizedError } from '@shared/errors/error-mapper';
-import { JwtPayload, validatePayload, validateToken, validateUserId } from '@modules/auth/interface/http/guards/auth.guard';
+import { ForbiddenError, UnauthorizedError } from '@shared/errors/error-mapper';
+import { ERole } from '@modules/accounts/domain/entities/role.entity';
+import {
+  type AccessTokenDenylistDecorator,
+  JwtPayload,
+  validateApiKeyAllowed,
+  validateNotRevoked,
+  validatePayload,
+  validateRole,
+  validateToken,
+  validateTokenType,
+  validateUserId,
+} from '@modules/auth/interface/http/guards/auth.guard';
 
 describe('Auth Guard', () => {
   afterEach(() => {
@@ -106,4 +117,79 @@ describe('Auth Guard', () => {
       expect(actual).resolves.toBe(userId);
     });
   });
+
+  describe('validateTokenType', () => {
+    it('should be pass when token is an access token', async () => {
+      const payload = { sub: faker.string.uuid(), type: 'access' } as JwtPayload;
+
+      await expect(validateTokenType(payload)).resolves.toBeUndefined();
+    });
+
+    it('should be throw error unauthorized when token is a two-factor challenge', async () => {
+      const payload = { sub: faker.string.uuid(), type: 'two_factor_challenge' } as JwtPayload;
+
+      const errorExpected = new UnauthorizedError('Invalid access token');
+
+      await expect(validateTokenType(payload)).rejects.toThrowError(errorExpected);
+    });
+  });
+
+  describe('validateNotRevoked', () => {
+    it('should be pass when the jti is not on the denylist', async () => {
+      const accessTokenDenylist = mock<AccessTokenDenylistDecorator>();
+      accessTokenDenylist.isRevoked.mockResolvedValue(false);
+      const payload = { sub: faker.string.uuid(), jti: 'jti-1', type: 'access' } as JwtPayload;
+
+      await expect(validateNotRevoked(payload, accessTokenDenylist)).resolves.toBeUndefined();
+      expect(accessTokenDenylist.isRevoked).toHaveBeenCalledWith('jti-1');
+    });
+
+    it('should be throw error unauthorized when the jti has been revoked', async () => {
+      const accessTokenDenylist = mock<AccessTokenDenylistDecorator>();
+      accessTokenDenylist.isRevoked.mockResolvedValue(true);
+      const payload = { sub: faker.string.uuid(), jti: 'jti-1', type: 'access' } as JwtPayload;
+
+      const errorExpected = new UnauthorizedError('Access token has been revoked');
+
+      await expect(validateNotRevoked(payload, accessTokenDenylist)).rejects.toThrowError(errorExpected);
+    });
+  });
+
+  describe('validateApiKeyAllowed', () => {
+    it('should be pass when the endpoint accepts API keys', async () => {
+      await expect(validateApiKeyAllowed(true)).resolves.toBeUndefined();
+    });
+
+    it('should be throw error forbidden when the endpoint refuses API keys', async () => {
+      const errorExpected = new ForbiddenError('API keys cannot be used for this endpoint');
+
+      await expect(validateApiKeyAllowed(false)).rejects.toThrowError(errorExpected);
+    });
+  });
+
+  describe('validateRole', () => {
+    it('should be return user role when payload has no role claim', async () => {
+      const payload = { sub: faker.string.uuid() } as JwtPayload;
+
+      const actual = await validateRole(payload);
+
+      expect(actual).toBe(ERole.user);
+    });
+
+    it('should be return role when role claim is known', async () => {
+      const payload = { sub: faker.string.uuid(), role: ERole.moderator } as JwtPayload;
+
+      const actual = await validateRole(payload);
+
+      expect(actual).toBe(ERole.moderator);
+    });
+
+    it('should be throw error unauthorized when role claim is unknown', async () => {
+      const payload = { sub: faker.string.uuid(), role: 'superuser' } as JwtPayload;
+
+      const errorExpected = new UnauthorizedError('Invalid access token');
+
+      await expect(validateRole(payload)).rejects.toThrowError(errorExpected);
+    });
+  });
 });
@@ -13,6 +13,8 @@ import {
   RefreshTokenJti,
   RefreshTokenPlain,
   RefreshTokenRevokedAt,
+  RefreshTokenSessionId,
+  SessionDevice,
 } from '@modules/auth/domain/entities/refresh-token.entity';
 import { AuthTokenService, GeneratedAuthTokens } from '@modules/auth/domain/ports/auth-token.service';
 import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
@@ -25,12 +27,16 @@ describe('BaseAuthUseCase', () => {
     }
 
     // Expose protected methods for testing
-    public async testGenerateTokensForUser(user: IUser): Promise<AuthenticatedUser> {
-      return this.generateTokensForUser(user);
+    public async testGenerateTokensForUser(user: IUser, device?: SessionDevice): Promise<AuthenticatedUser> {
+      return this.generateTokensForUser(user, device);
     }
 
-    public async testGenerateTokensForUserWithoutRevoke(user: IUser): Promise<AuthenticatedUser> {
-      return this.generateTokensForUserWithoutRevoke(user);
+    public async testRotateSession(
+      user: IUser,
+      previous: IRefreshToken,
+      device?: SessionDevice
+    ): Promise<AuthenticatedUser> {
+      return this.rotateSession(user, previous, device);
     }
 
     public async testRevokeRefreshTokenByJti(jti: RefreshTokenJti): Promise<void> {
@@ -70,7 +76,7 @@ describe('BaseAuthUseCase', () => {
     .build();
 
   describe('generateTokensForUser', () => {
-    it('should revoke existing tokens and generate new ones for user', async () => {
+    it('should open a new session without revoking existing ones', async () => {
       // Arrange
 
       const mockTokens: GeneratedAuthTokens = {
@@ -83,24 +89,32 @@ describe('BaseAuthUseCase', () => {
       };
 
       authTokenService.generateTokens.mockResolvedValue(mockTokens);
-      refreshTokenRepository.revokeAllByUserId.mockResolvedValue();
       refreshTokenRepository.create.mockResolvedValue(mock<IRefreshToken>());
+      const device = { userAgent: faker.internet.userAgent(), ipAddress: faker.internet.ip() } as SessionDevice;
 
       // Act
-      const result = await useCase.testGenerateTokensForUser(user);
+      const result = await useCase.testGenerateTokensForUser(user, device);
 
       // Assert
-      expect(refreshTokenRepository.revokeAllByUserId).toHaveBeenCalledWith(user.id, expect.any(Date));
+      expect(refreshTokenRepository.revokeAllByUserId).not.toHaveBeenCalled();
       expect(authTokenService.generateTokens).toHaveBeenCalledWith(user);
       expect(refreshTokenRepository.create).toHaveBeenCalledWith(expect.any(RefreshToken));
+      expect(refreshTokenRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: undefined,
+          userAgent: device.userAgent,
+          ipAddress: device.ipAddress,
+          lastUsedAt: expect.any(Date),
+        })
+      );
       expect(result.user).toBe(user);
       expect(result.tokens).toBe(mockTokens);
       expect(user.password).toBe(''); // Password should be hidden
     });
   });
 
-  describe('generateTokensForUserWithoutRevoke', () => {
-    it('should generate tokens without revoking existing ones', async () => {
+  describe('rotateSession', () => {
+    it('should issue the next token of the same session without revoking others', async () => {
       // Arrange
 
       const mockTokens: GeneratedAuthTokens = {
@@ -114,14 +128,19 @@ describe('BaseAuthUseCase', () => {
 
       authTokenService.generateTokens.mockResolvedValue(mockTokens);
       refreshTokenRepository.create.mockResolvedValue(mock<IRefreshToken>());
+      const previous = Builder(RefreshToken)
+        .sessionId(faker.string.uuid() as RefreshTokenSessionId)
+        .build();
 
       // Act
-      const result = await useCase.testGenerateTokensForUserWithoutRevoke(user);
+      const result = await useCase.testRotateSession(user, previous);
 
       // Assert
       expect(refreshTokenRepository.revokeAllByUserId).not.toHaveBeenCalled();
       expect(authTokenService.generateTokens).toHaveBeenCalledWith(user);
-      expect(refreshTokenRepository.create).toHaveBeenCalledWith(expect.any(RefreshToken));
+      expect(refreshTokenRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: previous.sessionId, jti: mockTokens.jti })
+      );
       expect(result.user).toBe(user);
       expect(result.tokens).toBe(mockTokens);
       expect(user.password).toBe(''); // Password should be hidden
@@ -1,7 +1,12 @@
 import { vi } from 'vitest';
 import { mock } from 'vitest-mock-extended';
 
-import { RefreshTokenJti, RefreshTokenPlain, RefreshTokenRevokedAt } from '@modules/auth/domain/entities/refresh-token.entity';
+import {
+  IRefreshToken,
+  RefreshTokenJti,
+  RefreshTokenPlain,
+  RefreshTokenRevokedAt,
+} from '@modules/auth/domain/entities/refresh-token.entity';
 import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
 import { BaseLogoutUseCase, LogoutOutput } from '@modules/auth/application/base/base-logout.usecase';
 import { LogoutInput } from '@modules/auth/application/use-cases/logout.usecase';
@@ -17,6 +22,10 @@ describe('BaseLogoutUseCase', () => {
       return this.validateRefreshToken(refreshToken);
     }
 
+    public async testRetrieveRefreshToken(refreshToken: RefreshTokenPlain): Promise<IRefreshToken> {
+      return this.retrieveRefreshToken(refreshToken);
+    }
+
     public async testRevokeRefreshTokenByJti(jti: RefreshTokenJti): Promise<void> {
       return this.revokeRefreshTokenByJti(jti);
     }
@@ -83,6 +92,47 @@ describe('BaseLogoutUseCase', () => {
     });
   });
 
+  describe('retrieveRefreshToken', () => {
+    it('should throw UnauthorizedError when no token is stored for the JTI', async () => {
+      // Arrange
+      refreshTokenRepository.findByJti.mockResolvedValue(undefined);
+
+      // Act
+      const promise = useCase.testRetrieveRefreshToken('valid-jti.some-value' as RefreshTokenPlain);
+
+      // Assert
+      await expect(promise).rejects.toThrow('Invalid refresh token');
+      expect(refreshTokenRepository.findByJti).toHaveBeenCalledWith('valid-jti');
+    });
+
+    it('should throw UnauthorizedError when the secret does not match the stored token', async () => {
+      // Arrange
+      const storedToken = mock<IRefreshToken>();
+      storedToken.compareToken.mockResolvedValue(false);
+      refreshTokenRepository.findByJti.mockResolvedValue(storedToken);
+
+      // Act
+      const promise = useCase.testRetrieveRefreshToken('valid-jti.wrong-value' as RefreshTokenPlain);
+
+      // Assert
+      await expect(promise).rejects.toThrow('Invalid refresh token');
+      expect(storedToken.compareToken).toHaveBeenCalledWith('valid-jti.wrong-value');
+    });
+
+    it('should return the stored token when the secret matches', async () => {
+      // Arrange
+      const storedToken = mock<IRefreshToken>();
+      storedToken.compareToken.mockResolvedValue(true);
+      refreshTokenRepository.findByJti.mockResolvedValue(storedToken);
+
+      // Act
+      const result = await useCase.testRetrieveRefreshToken('valid-jti.some-value' as RefreshTokenPlain);
+
+      // Assert
+      expect(result).toBe(storedToken);
+    });
+  });
+
   describe('revokeRefreshTokenByJti', () => {
     it('should call refreshTokenRepository.revokeByJti with correct parameters', async () => {
       // Arrange
@@ -0,0 +1,69 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { IUser, UserId, UserPassword } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
+import { ChangePasswordUseCase } from '@modules/auth/application/use-cases/change-password.usecase';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { ForbiddenError } from '@shared/errors/error-mapper';
+
+describe('ChangePasswordUseCase', () => {
+  const userRepository = mock<UserRepository>();
+  const refreshTokenRepository = mock<RefreshTokenRepository>();
+  const accessTokenDenylist = mock<AccessTokenDenylistService>();
+
+  let useCase: ChangePasswordUseCase;
+
+  beforeEach(() => {
+    useCase = new ChangePasswordUseCase(userRepository, refreshTokenRepository, accessTokenDenylist);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const input = {
+    userId: 'user-id' as UserId,
+    currentPassword: 'CurrentPassword123' as UserPassword,
+    newPassword: 'NewPassword123' as UserPassword,
+  };
+
+  it('should be throw error when the current password is wrong', async () => {
+    //Arrange
+    const user = mock<IUser>();
+    user.comparePassword.mockResolvedValue(false);
+    userRepository.getById.mockResolvedValue(user);
+
+    //Act
+    const promise = useCase.execute(input);
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ForbiddenError('Current password is incorrect'));
+    expect(userRepository.updatePassword).not.toHaveBeenCalled();
+    expect(refreshTokenRepository.revokeAllByUserId).not.toHaveBeenCalled();
+  });
+
+  it('should be store the new password and revoke every session', async () => {
+    //Arrange
+    const user = mock<IUser>();
+    user.id = input.userId;
+    user.comparePassword.mockResolvedValue(true);
+    user.setHashPassword.mockImplementation(async () => {
+      user.password = 'hashed-password' as UserPassword;
+    });
+    userRepository.getById.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute(input);
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(user.comparePassword).toHaveBeenCalledWith(input.currentPassword);
+    expect(user.setHashPassword).toHaveBeenCalledWith(input.newPassword);
+    expect(userRepository.updatePassword).toHaveBeenCalledWith(input.userId, 'hashed-password');
+    expect(refreshTokenRepository.revokeAllByUserId).toHaveBeenCalledWith(input.userId, expect.any(Date));
+    expect(accessTokenDenylist.revokeAllForUser).toHaveBeenCalledWith(input.userId, expect.any(Date));
+  });
+});
@@ -0,0 +1,253 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
+import type { IUser, UserEmail, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { IdentityProviderRegistry } from '@modules/auth/application/services/identity-provider.registry';
+import { CompleteOAuthSignInUseCase } from '@modules/auth/application/use-cases/complete-oauth-sign-in.usecase';
+import type {
+  RefreshTokenExpiresAt,
+  RefreshTokenHash,
+  RefreshTokenJti,
+} from '@modules/auth/domain/entities/refresh-token.entity';
+import type { ITwoFactor, TwoFactorChallengeToken } from '@modules/auth/domain/entities/two-factor.entity';
+import type {
+  IdentityProviderName,
+  IdentitySubject,
+  IUserIdentity,
+  UserIdentityId,
+} from '@modules/auth/domain/entities/user-identity.entity';
+import {
+  type AccessTokenExpiresAt,
+  AuthTokenService,
+  type OAuthStateToken,
+  type TwoFactorChallengeExpiresAt,
+} from '@modules/auth/domain/ports/auth-token.service';
+import {
+  type ExternalIdentity,
+  IdentityProvider,
+  type OAuthAuthorizationCode,
+  type OAuthNonce,
+  type OAuthState,
+  type PkceCodeVerifier,
+} from '@modules/auth/domain/ports/identity-provider';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import { UserIdentityRepository } from '@modules/auth/domain/ports/user-identity.repository';
+import { AccountStatusError, ConflictError, ForbiddenError, UnauthorizedError } from '@shared/errors/error-mapper';
+
+describe('CompleteOAuthSignInUseCase', () => {
+  const userRepository = mock<UserRepository>();
+  const refreshTokenRepository = mock<RefreshTokenRepository>();
+  const authTokenService = mock<AuthTokenService>();
+  const identityProvider = mock<IdentityProvider>();
+  const userIdentityRepository = mock<UserIdentityRepository>();
+  const twoFactorRepository = mock<TwoFactorRepository>();
+
+  let useCase: CompleteOAuthSignInUseCase;
+
+  beforeEach(() => {
+    Object.assign(identityProvider, { name: 'acme' as IdentityProviderName });
+    useCase = new CompleteOAuthSignInUseCase(
+      userRepository,
+      refreshTokenRepository,
+      authTokenService,
+      new IdentityProviderRegistry([identityProvider]),
+      userIdentityRepository,
+      twoFactorRepository
+    );
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = 'user-id' as UserId;
+  const email = 'jane@example.com' as UserEmail;
+  const input = {
+    provider: 'acme',
+    code: 'code' as OAuthAuthorizationCode,
+    state: 'state' as OAuthState,
+    stateToken: 'state-token' as OAuthStateToken,
+  };
+  const signInState = {
+    provider: 'acme' as IdentityProviderName,
+    state: 'state' as OAuthState,
+    nonce: 'nonce' as OAuthNonce,
+    codeVerifier: 'verifier' as PkceCodeVerifier,
+  };
+  const externalIdentity: ExternalIdentity = {
+    subject: 'subject-1' as IdentitySubject,
+    email,
+    emailVerified: true,
+    name: 'Jane',
+  };
+  const generatedTokens = {
+    accessToken: 'access-token',
+    accessTokenExpiresAt: new Date() as AccessTokenExpiresAt,
+    refreshToken: 'refresh-token',
+    refreshTokenHash: 'hashed-refresh-token' as RefreshTokenHash,
+    refreshTokenExpiresAt: new Date() as RefreshTokenExpiresAt,
+    jti: 'token-jti' as RefreshTokenJti,
+  };
+
+  const arrangeUser = (overrides: { emailVerified?: boolean } = {}) => {
+    const user = mock<IUser>();
+    user.id = userId;
+    user.email = email;
+    user.isEmailVerified.mockReturnValue(overrides.emailVerified ?? true);
+    user.hiddenPassword.mockImplementation(() => undefined);
+    return user;
+  };
+
+  const arrangeExchange = (identity: ExternalIdentity = externalIdentity) => {
+    authTokenService.verifyOAuthState.mockResolvedValue(signInState);
+    identityProvider.exchangeCode.mockResolvedValue(identity);
+    authTokenService.generateTokens.mockResolvedValue(generatedTokens);
+  };
+
+  it.each([
+    ['there is no state cookie', { stateToken: undefined }, signInState],
+    ['the state token is invalid', {}, undefined],
+    ['the state does not match', { state: 'other' as OAuthState }, signInState],
+    ['the state was issued for another provider', {}, { ...signInState, provider: 'other' as IdentityProviderName }],
+  ])('should be throw error when %s', async (_label, overrides, verifiedState) => {
+    //Arrange
+    authTokenService.verifyOAuthState.mockResolvedValue(verifiedState);
+
+    //Act
+    const promise = useCase.execute({ ...input, ...overrides });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Invalid or expired sign-in state'));
+    expect(identityProvider.exchangeCode).not.toHaveBeenCalled();
+  });
+
+  it('should be sign in the user already linked to the identity', async () => {
+    //Arrange
+    arrangeExchange();
+    const user = arrangeUser();
+    userIdentityRepository.findByProviderSubject.mockResolvedValue({
+      id: 'identity-id' as UserIdentityId,
+      userId,
+    } as IUserIdentity);
+    userRepository.getByIdAnyStatus.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute(input);
+
+    //Assert
+    expect(actual).toEqual({ user, tokens: generatedTokens });
+    expect(identityProvider.exchangeCode).toHaveBeenCalledWith({
+      code: input.code,
+      codeVerifier: signInState.codeVerifier,
+      nonce: signInState.nonce,
+    });
+    expect(userIdentityRepository.findByProviderSubject).toHaveBeenCalledWith('acme', 'subject-1');
+    expect(userIdentityRepository.markUsed).toHaveBeenCalledWith('identity-id', expect.any(Date));
+    expect(userIdentityRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should be link the identity to the existing account with the same verified email', async () => {
+    //Arrange
+    arrangeExchange();
+    const user = arrangeUser();
+    userRepository.getByEmailAnyStatus.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute(input);
+
+    //Assert
+    expect(actual).toEqual({ user, tokens: generatedTokens });
+    expect(userRepository.create).not.toHaveBeenCalled();
+    expect(userIdentityRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ userId, provider: 'acme', subject: 'subject-1', email })
+    );
+  });
+
+  it('should be throw error when the existing account has not verified its email', async () => {
+    //Arrange
+    arrangeExchange();
+    userRepository.getByEmailAnyStatus.mockResolvedValue(arrangeUser({ emailVerified: false }));
+
+    //Act
+    const promise = useCase.execute(input);
+
+    //Assert
+    await expect(promise).rejects.toThrowError(ConflictError);
+    expect(userIdentityRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the existing account is not active', async () => {
+    //Arrange
+    arrangeExchange();
+    const user = arrangeUser();
+    user.assertActive.mockImplementation(() => {
+      throw new AccountStatusError(EUserStatus.suspended);
+    });
+    userRepository.getByEmailAnyStatus.mockResolvedValue(user);
+
+    //Act
+    const promise = useCase.execute(input);
+
+    //Assert
+    await expect(promise).rejects.toThrowError(AccountStatusError);
+    expect(userIdentityRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should be create a verified account for a new identity', async () => {
+    //Arrange
+    arrangeExchange();
+    const created = arrangeUser();
+    userRepository.create.mockResolvedValue(created);
+
+    //Act
+    const actual = await useCase.execute(input);
+
+    //Assert
+    expect(actual).toEqual({ user: created, tokens: generatedTokens });
+    const newUser = userRepository.create.mock.calls[0][0];
+    expect(newUser).toMatchObject({ email, name: 'Jane', status: EUserStatus.active });
+    expect(newUser.emailVerifiedAt).toBeInstanceOf(Date);
+    expect(newUser.password).toMatch(/^\$argon2id\$/);
+    expect(userIdentityRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ userId, subject: 'subject-1' })
+    );
+  });
+
+  it('should be throw error when the provider did not verify the email of a new identity', async () => {
+    //Arrange
+    arrangeExchange({ ...externalIdentity, emailVerified: false });
+
+    //Act
+    const promise = useCase.execute(input);
+
+    //Assert
+    await expect(promise).rejects.toThrowError(ForbiddenError);
+    expect(userRepository.getByEmailAnyStatus).not.toHaveBeenCalled();
+    expect(userRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should be return a two-factor challenge when the user has two-factor enabled', async () => {
+    //Arrange
+    arrangeExchange();
+    userRepository.getByEmailAnyStatus.mockResolvedValue(arrangeUser());
+    const twoFactor = mock<ITwoFactor>();
+    twoFactor.isEnabled.mockReturnValue(true);
+    twoFactorRepository.findByUserId.mockResolvedValue(twoFactor);
+    const challengeExpiresAt = new Date() as TwoFactorChallengeExpiresAt;
+    authTokenService.generateTwoFactorChallenge.mockResolvedValue({
+      challengeToken: 'challenge-token' as TwoFactorChallengeToken,
+      expiresAt: challengeExpiresAt,
+    });
+
+    //Act
+    const actual = await useCase.execute(input);
+
+    //Assert
+    expect(actual).toEqual({ twoFactorRequired: true, challengeToken: 'challenge-token', challengeExpiresAt });
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,197 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
+import type { IUser, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { ConsumeMagicLinkUseCase } from '@modules/auth/application/use-cases/consume-magic-link.usecase';
+import type {
+  RefreshTokenExpiresAt,
+  RefreshTokenHash,
+  RefreshTokenJti,
+  SessionDevice,
+} from '@modules/auth/domain/entities/refresh-token.entity';
+import {
+  ESingleUseTokenPurpose,
+  SingleUseToken,
+  type SingleUseTokenConsumedAt,
+  type SingleUseTokenExpiresAt,
+  type SingleUseTokenHash,
+  type SingleUseTokenId,
+  type SingleUseTokenPlain,
+} from '@modules/auth/domain/entities/single-use-token.entity';
+import type { ITwoFactor, TwoFactorChallengeToken } from '@modules/auth/domain/entities/two-factor.entity';
+import {
+  type AccessTokenExpiresAt,
+  AuthTokenService,
+  type TwoFactorChallengeExpiresAt,
+} from '@modules/auth/domain/ports/auth-token.service';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { SingleUseTokenRepository } from '@modules/auth/domain/ports/single-use-token.repository';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import { AccountStatusError, UnauthorizedError } from '@shared/errors/error-mapper';
+import { hashOpaqueToken } from '@shared/utils/opaque-token.util';
+
+describe('ConsumeMagicLinkUseCase', () => {
+  const userRepository = mock<UserRepository>();
+  const refreshTokenRepository = mock<RefreshTokenRepository>();
+  const authTokenService = mock<AuthTokenService>();
+  const singleUseTokenRepository = mock<SingleUseTokenRepository>();
+  const twoFactorRepository = mock<TwoFactorRepository>();
+
+  let useCase: ConsumeMagicLinkUseCase;
+
+  beforeEach(() => {
+    useCase = new ConsumeMagicLinkUseCase(
+      userRepository,
+      refreshTokenRepository,
+      authTokenService,
+      singleUseTokenRepository,
+      twoFactorRepository
+    );
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = 'user-id' as UserId;
+  const token = 'magic-link-token' as SingleUseTokenPlain;
+  const generatedTokens = {
+    accessToken: 'access-token',
+    accessTokenExpiresAt: new Date() as AccessTokenExpiresAt,
+    refreshToken: 'refresh-token',
+    refreshTokenHash: 'hashed-refresh-token' as RefreshTokenHash,
+    refreshTokenExpiresAt: new Date() as RefreshTokenExpiresAt,
+    jti: 'token-jti' as RefreshTokenJti,
+  };
+
+  const arrangeToken = (overrides: { expiresAt?: Date; consumedAt?: Date } = {}) => {
+    const storedToken = Builder(SingleUseToken)
+      .id('token-id' as SingleUseTokenId)
+      .purpose(ESingleUseTokenPurpose.magicLink)
+      .userId(userId)
+      .tokenHash(hashOpaqueToken(token) as SingleUseTokenHash)
+      .expiresAt((overrides.expiresAt ?? new Date(Date.now() + 60_000)) as SingleUseTokenExpiresAt)
+      .consumedAt(overrides.consumedAt as SingleUseTokenConsumedAt | undefined)
+      .build();
+    singleUseTokenRepository.findByTokenHash.mockResolvedValue(storedToken);
+    singleUseTokenRepository.markConsumed.mockResolvedValue(true);
+    return storedToken;
+  };
+
+  const arrangeUser = (overrides: { emailVerified?: boolean } = {}) => {
+    const user = mock<IUser>();
+    user.id = userId;
+    user.isEmailVerified.mockReturnValue(overrides.emailVerified ?? true);
+    user.hiddenPassword.mockImplementation(() => undefined);
+    userRepository.getByIdAnyStatus.mockResolvedValue(user);
+    authTokenService.generateTokens.mockResolvedValue(generatedTokens);
+    return user;
+  };
+
+  it.each([
+    ['unknown', () => singleUseTokenRepository.findByTokenHash.mockResolvedValue(undefined)],
+    ['expired', () => arrangeToken({ expiresAt: new Date(Date.now() - 1000) })],
+    ['already used', () => arrangeToken({ consumedAt: new Date() })],
+  ])('should be throw error when the token is %s', async (_label, arrange) => {
+    //Arrange
+    arrange();
+
+    //Act
+    const promise = useCase.execute({ token });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Invalid or expired sign-in link'));
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when another request consumed the token first', async () => {
+    //Arrange
+    arrangeToken();
+    arrangeUser();
+    singleUseTokenRepository.markConsumed.mockResolvedValue(false);
+
+    //Act
+    const promise = useCase.execute({ token });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Invalid or expired sign-in link'));
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('should be consume the token and start a session', async () => {
+    //Arrange
+    arrangeToken();
+    const user = arrangeUser();
+    const device = { userAgent: 'vitest', ipAddress: '127.0.0.1' } as SessionDevice;
+
+    //Act
+    const actual = await useCase.execute({ token, device });
+
+    //Assert
+    expect(actual).toEqual({ user, tokens: generatedTokens });
+    expect(singleUseTokenRepository.findByTokenHash).toHaveBeenCalledWith(
+      ESingleUseTokenPurpose.magicLink,
+      hashOpaqueToken(token)
+    );
+    expect(singleUseTokenRepository.markConsumed).toHaveBeenCalledWith('token-id', expect.any(Date));
+    expect(refreshTokenRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ userId, jti: 'token-jti', userAgent: 'vitest', ipAddress: '127.0.0.1' })
+    );
+    expect(userRepository.markEmailVerified).not.toHaveBeenCalled();
+  });
+
+  it('should be mark an unverified email as verified', async () => {
+    //Arrange
+    arrangeToken();
+    arrangeUser({ emailVerified: false });
+
+    //Act
+    await useCase.execute({ token });
+
+    //Assert
+    expect(userRepository.markEmailVerified).toHaveBeenCalledWith(userId, expect.any(Date));
+  });
+
+  it('should be throw error when the account is not active', async () => {
+    //Arrange
+    arrangeToken();
+    const user = arrangeUser();
+    user.assertActive.mockImplementation(() => {
+      throw new AccountStatusError(EUserStatus.suspended);
+    });
+
+    //Act
+    const promise = useCase.execute({ token });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(AccountStatusError);
+    expect(singleUseTokenRepository.markConsumed).toHaveBeenCalled();
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('should be return a two-factor challenge when the user has two-factor enabled', async () => {
+    //Arrange
+    arrangeToken();
+    const user = arrangeUser();
+    const twoFactor = mock<ITwoFactor>();
+    twoFactor.isEnabled.mockReturnValue(true);
+    twoFactorRepository.findByUserId.mockResolvedValue(twoFactor);
+    const challengeExpiresAt = new Date() as TwoFactorChallengeExpiresAt;
+    authTokenService.generateTwoFactorChallenge.mockResolvedValue({
+      challengeToken: 'challenge' as TwoFactorChallengeToken,
+      expiresAt: challengeExpiresAt,
+    });
+
+    //Act
+    const actual = await useCase.execute({ token });
+
+    //Assert
+    expect(actual).toEqual({ twoFactorRequired: true, challengeToken: 'challenge', challengeExpiresAt });
+    expect(authTokenService.generateTwoFactorChallenge).toHaveBeenCalledWith(user);
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import { ERole, Permissions } from '@modules/accounts/domain/entities/role.entity';
+import type { IUser, UserId, UserRole } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { CreateApiKeyUseCase } from '@modules/auth/application/use-cases/create-api-key.usecase';
+import {
+  type ApiKeyExpiresAt,
+  type ApiKeyName,
+  type ApiKeyPlain,
+  type IApiKey,
+  parseApiKeyPrefix,
+} from '@modules/auth/domain/entities/api-key.entity';
+import { ApiKeyRepository } from '@modules/auth/domain/ports/api-key.repository';
+import { ForbiddenError, UnauthorizedError, ValidationError } from '@shared/errors/error-mapper';
+
+describe('CreateApiKeyUseCase', () => {
+  const userRepository = mock<UserRepository>();
+  const apiKeyRepository = mock<ApiKeyRepository>();
+
+  let useCase: CreateApiKeyUseCase;
+
+  beforeEach(() => {
+    useCase = new CreateApiKeyUseCase(userRepository, apiKeyRepository);
+    apiKeyRepository.create.mockImplementation(async apiKey => apiKey);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = faker.string.uuid() as UserId;
+  const name = 'CI' as ApiKeyName;
+  const user = mock<IUser>({ id: userId, role: ERole.user as UserRole });
+
+  it('should be throw error when the user does not exist', async () => {
+    //Arrange
+    userRepository.getById.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({ userId, name });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Associated user not found'));
+    expect(apiKeyRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the expiry is in the past', async () => {
+    //Arrange
+    userRepository.getById.mockResolvedValue(user);
+    const expiresAt = new Date(Date.now() - 1000) as ApiKeyExpiresAt;
+
+    //Act
+    const promise = useCase.execute({ userId, name, expiresAt });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ValidationError('expiresAt must be in the future'));
+  });
+
+  it('should be throw error when a scope is not a permission of the role', async () => {
+    //Arrange
+    userRepository.getById.mockResolvedValue(user);
+
+    //Act
+    const promise = useCase.execute({ userId, name, scopes: [Permissions.PostsRead, Permissions.UsersManage] });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ForbiddenError('API key scopes must be permissions of your role'));
+    expect(apiKeyRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should be store only the hash of the key and return the key once', async () => {
+    //Arrange
+    userRepository.getById.mockResolvedValue(user);
+    const expiresAt = new Date(Date.now() + 60_000) as ApiKeyExpiresAt;
+
+    //Act
+    const actual = await useCase.execute({
+      userId,
+      name,
+      scopes: [Permissions.PostsRead, Permissions.PostsRead],
+      expiresAt,
+    });
+
+    //Assert
+    const stored = apiKeyRepository.create.mock.calls[0][0] as IApiKey;
+    expect(actual.key).toMatch(/^ak_[\w-]{12}\.[\w-]{48}$/);
+    expect(parseApiKeyPrefix(actual.key)).toBe(stored.prefix);
+    expect(stored).toMatchObject({ userId, name, scopes: [Permissions.PostsRead], expiresAt });
+    expect(stored.keyHash).not.toContain(actual.key);
+    await expect(stored.compareKey(actual.key)).resolves.toBe(true);
+    await expect(stored.compareKey(`${actual.key}x` as ApiKeyPlain)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { IUser, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
+import { DeleteAccountUseCase } from '@modules/auth/application/use-cases/delete-account.usecase';
+import { UnauthorizedError } from '@shared/errors/error-mapper';
+
+describe('DeleteAccountUseCase', () => {
+  const userRepository = mock<UserRepository>();
+  const accessTokenDenylist = mock<AccessTokenDenylistService>();
+
+  let useCase: DeleteAccountUseCase;
+
+  beforeEach(() => {
+    useCase = new DeleteAccountUseCase(userRepository, accessTokenDenylist);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = 'user-id' as UserId;
+
+  it('should be throw error when the user no longer exists', async () => {
+    //Arrange
+    userRepository.getById.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({ userId });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Associated user not found'));
+    expect(userRepository.delete).not.toHaveBeenCalled();
+  });
+
+  it('should be denylist the access tokens before deleting the user', async () => {
+    //Arrange
+    const user = mock<IUser>();
+    user.id = userId;
+    userRepository.getById.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute({ userId });
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(accessTokenDenylist.revokeAllForUser).toHaveBeenCalledWith(userId);
+    expect(userRepository.delete).toHaveBeenCalledWith(userId);
+    expect(accessTokenDenylist.revokeAllForUser.mock.invocationCallOrder[0]).toBeLessThan(
+      userRepository.delete.mock.invocationCallOrder[0]
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import {
+  EnableTwoFactorUseCase,
+  RECOVERY_CODE_COUNT,
+} from '@modules/auth/application/use-cases/enable-two-factor.usecase';
+import {
+  hashRecoveryCode,
+  type ITwoFactor,
+  RecoveryCode,
+  type TwoFactorCode,
+  type TwoFactorSecret,
+} from '@modules/auth/domain/entities/two-factor.entity';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import { ValidationError } from '@shared/errors/error-mapper';
+import { generateTotp, generateTotpSecret, toTimeStep } from '@shared/utils/totp.util';
+
+describe('EnableTwoFactorUseCase', () => {
+  const twoFactorRepository = mock<TwoFactorRepository>();
+
+  let useCase: EnableTwoFactorUseCase;
+
+  beforeEach(() => {
+    useCase = new EnableTwoFactorUseCase(twoFactorRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = 'user-id' as UserId;
+  const secret = generateTotpSecret() as TwoFactorSecret;
+
+  const arrangePending = () => {
+    const twoFactor = mock<ITwoFactor>();
+    twoFactor.secret = secret;
+    twoFactor.isEnabled.mockReturnValue(false);
+    twoFactorRepository.findByUserId.mockResolvedValue(twoFactor);
+  };
+
+  it('should be throw error when setup has not been started', async () => {
+    //Arrange
+    twoFactorRepository.findByUserId.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({ userId, code: '123456' as TwoFactorCode });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ValidationError('Two-factor setup has not been started'));
+  });
+
+  it('should be throw error when the code is invalid', async () => {
+    //Arrange
+    arrangePending();
+    const wrongCode = generateTotp(secret, new Date(Date.now() - 10 * 60 * 1000));
+
+    //Act
+    const promise = useCase.execute({ userId, code: wrongCode as TwoFactorCode });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ValidationError('Invalid two-factor code'));
+    expect(twoFactorRepository.enable).not.toHaveBeenCalled();
+  });
+
+  it('should be enable two-factor and store only argon2 hashes of 80-bit recovery codes', async () => {
+    //Arrange
+    arrangePending();
+    const now = new Date();
+    const code = generateTotp(secret, now);
+
+    //Act
+    const actual = await useCase.execute({ userId, code: code as TwoFactorCode });
+
+    //Assert
+    expect(actual.recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT);
+    actual.recoveryCodes.forEach(recoveryCode => expect(recoveryCode).toMatch(/^([A-Z2-7]{4}-){3}[A-Z2-7]{4}$/));
+    expect(twoFactorRepository.enable).toHaveBeenCalledWith(userId, expect.any(Date), expect.any(Number));
+    const [, , step] = twoFactorRepository.enable.mock.calls[0];
+    expect(Math.abs(step - toTimeStep(now))).toBeLessThanOrEqual(1);
+    const [storedUserId, codeHashes] = twoFactorRepository.replaceRecoveryCodes.mock.calls[0];
+    expect(storedUserId).toBe(userId);
+    expect(codeHashes).toHaveLength(RECOVERY_CODE_COUNT);
+    codeHashes.forEach(codeHash => expect(codeHash).toMatch(/^\$argon2id\$/));
+    const stored = new RecoveryCode();
+    stored.codeHash = codeHashes[0];
+    await expect(stored.compareCode(actual.recoveryCodes[0])).resolves.toBe(true);
+  });
+
+  it('should be accept a recovery code regardless of case and dashes', async () => {
+    //Arrange
+    const recoveryCode = new RecoveryCode();
+    recoveryCode.codeHash = await hashRecoveryCode('ABCD-EFGH-IJKL-MNOP');
+
+    //Act
+    const actual = await recoveryCode.compareCode('abcdefgh-ijklmnop');
+
+    //Assert
+    expect(actual).toBe(true);
+    expect(recoveryCode.codeHash).not.toContain('ABCD');
+  });
+
+  it('should be refuse a different recovery code', async () => {
+    //Arrange
+    const recoveryCode = new RecoveryCode();
+    recoveryCode.codeHash = await hashRecoveryCode('ABCD-EFGH-IJKL-MNOP');
+
+    //Act
+    const actual = await recoveryCode.compareCode('ABCD-EFGH-IJKL-MNOQ');
+
+    //Assert
+    expect(actual).toBe(false);
+  });
+});
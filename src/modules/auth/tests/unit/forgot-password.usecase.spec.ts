@@ -0,0 +1,75 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { type BUserName, User, type UserEmail, type UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { ForgotPasswordUseCase } from '@modules/auth/application/use-cases/forgot-password.usecase';
+import { ESingleUseTokenPurpose, type ISingleUseToken } from '@modules/auth/domain/entities/single-use-token.entity';
+import { SingleUseTokenRepository } from '@modules/auth/domain/ports/single-use-token.repository';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import type { EmailSender } from '@shared/mail/email-sender.port';
+import { hashOpaqueToken } from '@shared/utils/opaque-token.util';
+
+describe('ForgotPasswordUseCase', () => {
+  const userRepository = mock<UserRepository>();
+  const singleUseTokenRepository = mock<SingleUseTokenRepository>();
+  const emailSender = mock<EmailSender>();
+  const authConfig = {
+    passwordReset: { tokenTtlSeconds: 3600, resetUrl: 'https://app.example.com/reset-password' },
+  } as AuthConfig;
+
+  let useCase: ForgotPasswordUseCase;
+
+  beforeEach(() => {
+    useCase = new ForgotPasswordUseCase(userRepository, singleUseTokenRepository, authConfig, emailSender);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const email = 'jane@example.com' as UserEmail;
+
+  it('should be report success without sending when the email is unknown', async () => {
+    //Arrange
+    userRepository.getByEmail.mockResolvedValue(undefined);
+
+    //Act
+    const actual = await useCase.execute({ email });
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(singleUseTokenRepository.create).not.toHaveBeenCalled();
+    expect(emailSender.send).not.toHaveBeenCalled();
+  });
+
+  it('should be replace earlier tokens and mail a reset link', async () => {
+    //Arrange
+    const user = Builder(User)
+      .id('user-id' as UserId)
+      .name('Jane Doe' as BUserName)
+      .email(email)
+      .build();
+    userRepository.getByEmail.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute({ email });
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(singleUseTokenRepository.deleteUnconsumedByUserId).toHaveBeenCalledWith(
+      user.id,
+      ESingleUseTokenPurpose.passwordReset
+    );
+    const [storedToken] = singleUseTokenRepository.create.mock.calls[0] as [ISingleUseToken];
+    expect(storedToken.userId).toBe(user.id);
+    expect(storedToken.purpose).toBe(ESingleUseTokenPurpose.passwordReset);
+
+    const [message] = emailSender.send.mock.calls[0];
+    expect(message.to).toBe(email);
+    const token = /reset-password\?token=([\w-]+)/.exec(message.text)?.[1];
+    expect(hashOpaqueToken(token as string)).toBe(storedToken.tokenHash);
+  });
+});
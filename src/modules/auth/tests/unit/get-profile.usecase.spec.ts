@@ -0,0 +1,49 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { IUser, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { GetProfileUseCase } from '@modules/auth/application/use-cases/get-profile.usecase';
+import { UnauthorizedError } from '@shared/errors/error-mapper';
+
+describe('GetProfileUseCase', () => {
+  const userRepository = mock<UserRepository>();
+
+  let useCase: GetProfileUseCase;
+
+  beforeEach(() => {
+    useCase = new GetProfileUseCase(userRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = 'user-id' as UserId;
+
+  it('should be throw error when the user no longer exists', async () => {
+    //Arrange
+    userRepository.getById.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({ userId });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Associated user not found'));
+  });
+
+  it('should be return the user without the password hash', async () => {
+    //Arrange
+    const user = mock<IUser>();
+    userRepository.getById.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute({ userId });
+
+    //Assert
+    expect(actual).toBe(user);
+    expect(userRepository.getById).toHaveBeenCalledWith(userId);
+    expect(user.hiddenPassword).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,223 @@
+import { generateKeyPairSync } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { SignJWT } from 'jose';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach } from 'vitest';
+
+import type { JwtConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { JwtKeyRing } from '@modules/auth/infrastructure/providers/jwt-key-ring';
+
+const writePrivateKey = (directory: string, kid: string, type: 'rsa' | 'ec') => {
+  const { privateKey } =
+    type === 'rsa'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  writeFileSync(join(directory, `${kid}.pem`), privateKey.export({ type: 'pkcs8', format: 'pem' }));
+};
+
+const decodePayload = (token: string) => JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+
+const encodeSegment = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('JwtKeyRing', () => {
+  let keysDir: string;
+  let baseConfig: JwtConfig;
+
+  beforeEach(() => {
+    keysDir = mkdtempSync(join(tmpdir(), 'jwt-keys-'));
+    baseConfig = {
+      keysDir,
+      issuer: 'elysia-app',
+      audience: 'elysia-clients',
+      accessTokenExpiresIn: '15m',
+      refreshTokenExpiresIn: '7d',
+    };
+  });
+
+  afterEach(() => {
+    rmSync(keysDir, { recursive: true, force: true });
+  });
+
+  it('should be sign and verify tokens with an RS256 key', async () => {
+    //Arrange
+    writePrivateKey(keysDir, 'rsa-1', 'rsa');
+    const keyRing = new JwtKeyRing({ ...baseConfig, activeKid: 'rsa-1' });
+
+    //Act
+    const token = await keyRing.sign({ sub: 'user-1', type: 'access' });
+    const actual = await keyRing.verify(token);
+
+    //Assert
+    expect(JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'))).toEqual({
+      alg: 'RS256',
+      typ: 'JWT',
+      kid: 'rsa-1',
+    });
+    expect(actual).toMatchObject({ sub: 'user-1', type: 'access', iss: 'elysia-app', aud: 'elysia-clients' });
+  });
+
+  it('should be sign and verify tokens with an ES256 key', async () => {
+    //Arrange
+    writePrivateKey(keysDir, 'ec-1', 'ec');
+    const keyRing = new JwtKeyRing({ ...baseConfig, activeKid: 'ec-1' });
+
+    //Act
+    const token = await keyRing.sign({ sub: 'user-1' });
+    const actual = await keyRing.verify(token);
+
+    //Assert
+    expect(actual).toMatchObject({ sub: 'user-1' });
+  });
+
+  it('should be keep verifying tokens signed by a key that was rotated out', async () => {
+    //Arrange
+    writePrivateKey(keysDir, 'old', 'rsa');
+    const oldToken = await new JwtKeyRing({ ...baseConfig, activeKid: 'old' }).sign({ sub: 'user-1' });
+    writePrivateKey(keysDir, 'new', 'ec');
+    const keyRing = new JwtKeyRing({ ...baseConfig, activeKid: 'new' });
+
+    //Act
+    const actual = await keyRing.verify(oldToken);
+
+    //Assert
+    expect(actual).toMatchObject({ sub: 'user-1' });
+  });
+
+  it('should be verify with a public-only key file but refuse to sign with it', async () => {
+    //Arrange
+    writePrivateKey(keysDir, 'active', 'rsa');
+    const { publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    writeFileSync(join(keysDir, 'retired.pem'), publicKey.export({ type: 'spki', format: 'pem' }));
+
+    //Act
+    const keyRing = new JwtKeyRing({ ...baseConfig, activeKid: 'active' });
+    const create = () => new JwtKeyRing({ ...baseConfig, activeKid: 'retired' });
+
+    //Assert
+    expect((await keyRing.toJwks()).keys.map(key => key.kid)).toEqual(['active', 'retired']);
+    expect(create).toThrowError('JWT_ACTIVE_KID must name a private key in JWT_KEYS_DIR');
+  });
+
+  it('should be reject a token whose payload was tampered with', async () => {
+    //Arrange
+    writePrivateKey(keysDir, 'rsa-1', 'rsa');
+    const keyRing = new JwtKeyRing({ ...baseConfig, activeKid: 'rsa-1' });
+    const [header, payload, signature] = (await keyRing.sign({ sub: 'user-1', role: 'user' })).split('.');
+    const tampered = encodeSegment({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), role: 'admin' });
+
+    //Act
+    const actual = await keyRing.verify(`${header}.${tampered}.${signature}`);
+
+    //Assert
+    expect(actual).toBe(false);
+  });
+
+  it('should be reject an expired token', async () => {
+    //Arrange
+    writePrivateKey(keysDir, 'rsa-1', 'rsa');
+    const keyRing = new JwtKeyRing({ ...baseConfig, activeKid: 'rsa-1' });
+    const token = await keyRing.sign({ sub: 'user-1', exp: Math.floor(Date.now() / 1000) - 1 });
+
+    //Act
+    const actual = await keyRing.verify(token);
+
+    //Assert
+    expect(actual).toBe(false);
+  });
+
+  it('should be reject a token without an expiry', async () => {
+    //Arrange
+    const keyRing = new JwtKeyRing({ ...baseConfig, keysDir: undefined, secret: 'legacy-secret' });
+    const token = await new SignJWT({ sub: 'user-1', iss: 'elysia-app', aud: 'elysia-clients' })
+      .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+      .sign(new TextEncoder().encode('legacy-secret'));
+
+    //Act
+    const actual = await keyRing.verify(token);
+
+    //Assert
+    expect(actual).toBe(false);
+  });
+
+  it('should be reject a token whose header claims a different algorithm than its key', async () => {
+    //Arrange
+    writePrivateKey(keysDir, 'rsa-1', 'rsa');
+    const keyRing = new JwtKeyRing({ ...baseConfig, activeKid: 'rsa-1' });
+    const [, payload, signature] = (await keyRing.sign({ sub: 'user-1' })).split('.');
+    const header = encodeSegment({ alg: 'HS256', typ: 'JWT', kid: 'rsa-1' });
+
+    //Act
+    const actual = await keyRing.verify(`${header}.${payload}.${signature}`);
+
+    //Assert
+    expect(actual).toBe(false);
+  });
+
+  it('should be reject a token from another issuer', async () => {
+    //Arrange
+    writePrivateKey(keysDir, 'rsa-1', 'rsa');
+    const token = await new JwtKeyRing({ ...baseConfig, issuer: 'someone-else', activeKid: 'rsa-1' }).sign({
+      sub: 'user-1',
+    });
+    const keyRing = new JwtKeyRing({ ...baseConfig, activeKid: 'rsa-1' });
+
+    //Act
+    const actual = await keyRing.verify(token);
+
+    //Assert
+    expect(actual).toBe(false);
+  });
+
+  it('should be accept legacy HS256 tokens without a kid while signing with the asymmetric key', async () => {
+    //Arrange
+    const legacyToken = await new JwtKeyRing({ ...baseConfig, keysDir: undefined, secret: 'legacy-secret' }).sign({
+      sub: 'user-1',
+    });
+    writePrivateKey(keysDir, 'rsa-1', 'rsa');
+    const keyRing = new JwtKeyRing({ ...baseConfig, secret: 'legacy-secret', activeKid: 'rsa-1' });
+
+    //Act
+    const actual = await keyRing.verify(legacyToken);
+    const newToken = await keyRing.sign({ sub: 'user-1' });
+
+    //Assert
+    expect(actual).toMatchObject({ sub: 'user-1' });
+    expect(decodePayload(newToken)).toMatchObject({ sub: 'user-1' });
+    expect(newToken.split('.')[0]).toBe(encodeSegment({ alg: 'RS256', typ: 'JWT', kid: 'rsa-1' }));
+  });
+
+  it('should be publish only public asymmetric keys in the JWKS', async () => {
+    //Arrange
+    writePrivateKey(keysDir, 'rsa-1', 'rsa');
+    writePrivateKey(keysDir, 'ec-1', 'ec');
+    const keyRing = new JwtKeyRing({ ...baseConfig, secret: 'legacy-secret', activeKid: 'rsa-1' });
+
+    //Act
+    const actual = await keyRing.toJwks();
+
+    //Assert
+    expect(actual.keys).toHaveLength(2);
+    expect(actual.keys).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ kid: 'rsa-1', kty: 'RSA', alg: 'RS256', use: 'sig' }),
+        expect.objectContaining({ kid: 'ec-1', kty: 'EC', alg: 'ES256', use: 'sig', crv: 'P-256' }),
+      ])
+    );
+    for (const key of actual.keys) {
+      expect(key).not.toHaveProperty('d');
+      expect(key).not.toHaveProperty('k');
+    }
+  });
+
+  it('should be throw error when no signing key is configured', () => {
+    //Arrange
+    const config = { ...baseConfig, keysDir: undefined, secret: undefined };
+
+    //Act
+    const create = () => new JwtKeyRing(config);
+
+    //Assert
+    expect(create).toThrowError('JWT signing is not configured');
+  });
+});
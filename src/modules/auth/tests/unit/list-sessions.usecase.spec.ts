@@ -0,0 +1,75 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { ListSessionsUseCase } from '@modules/auth/application/use-cases/list-sessions.usecase';
+import {
+  RefreshToken,
+  RefreshTokenExpiresAt,
+  RefreshTokenIpAddress,
+  RefreshTokenJti,
+  RefreshTokenLastUsedAt,
+  RefreshTokenSessionId,
+  RefreshTokenUserAgent,
+} from '@modules/auth/domain/entities/refresh-token.entity';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+
+describe('ListSessionsUseCase', () => {
+  const refreshTokenRepository = mock<RefreshTokenRepository>();
+
+  let useCase: ListSessionsUseCase;
+
+  beforeEach(() => {
+    useCase = new ListSessionsUseCase(refreshTokenRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = faker.string.uuid() as UserId;
+  const buildToken = () =>
+    Builder(RefreshToken)
+      .userId(userId)
+      .jti(faker.string.alphanumeric(32) as RefreshTokenJti)
+      .sessionId(faker.string.uuid() as RefreshTokenSessionId)
+      .userAgent(faker.internet.userAgent() as RefreshTokenUserAgent)
+      .ipAddress(faker.internet.ip() as RefreshTokenIpAddress)
+      .lastUsedAt(faker.date.recent() as RefreshTokenLastUsedAt)
+      .expiresAt(faker.date.future() as RefreshTokenExpiresAt)
+      .build();
+
+  it('should be list active sessions and flag the current one', async () => {
+    //Arrange
+    const currentToken = buildToken();
+    const otherToken = buildToken();
+    refreshTokenRepository.findActiveByUserId.mockResolvedValue([otherToken, currentToken]);
+
+    //Act
+    const actual = await useCase.execute({ userId, currentJti: currentToken.jti });
+
+    //Assert
+    expect(refreshTokenRepository.findActiveByUserId).toHaveBeenCalledWith(userId, expect.any(Date));
+    expect(actual).toEqual([
+      {
+        id: otherToken.sessionId,
+        userAgent: otherToken.userAgent,
+        ipAddress: otherToken.ipAddress,
+        lastUsedAt: otherToken.lastUsedAt,
+        expiresAt: otherToken.expiresAt,
+        current: false,
+      },
+      {
+        id: currentToken.sessionId,
+        userAgent: currentToken.userAgent,
+        ipAddress: currentToken.ipAddress,
+        lastUsedAt: currentToken.lastUsedAt,
+        expiresAt: currentToken.expiresAt,
+        current: true,
+      },
+    ]);
+  });
+});
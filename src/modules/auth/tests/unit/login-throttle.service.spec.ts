@@ -0,0 +1,216 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { UserEmail, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { LoginThrottleService } from '@modules/auth/application/services/login-throttle.service';
+import {
+  ELoginAttemptScope,
+  LoginAttempt,
+  type LoginAttemptFailedCount,
+  type LoginAttemptKey,
+  type LoginAttemptLastFailedAt,
+  type LoginAttemptLockedUntil,
+} from '@modules/auth/domain/entities/login-attempt.entity';
+import { LoginAttemptRepository } from '@modules/auth/domain/ports/login-attempt.repository';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { TooManyRequestsError } from '@shared/errors/error-mapper';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+describe('LoginThrottleService', () => {
+  const loginAttemptRepository = mock<LoginAttemptRepository>();
+  const logger = mock<LoggerPort>();
+  const authConfig = {
+    loginThrottle: {
+      maxAttemptsPerEmail: 5,
+      maxAttemptsPerIp: 20,
+      maxTwoFactorAttempts: 5,
+      baseLockoutSeconds: 30,
+      maxLockoutSeconds: 3600,
+      windowSeconds: 900,
+    },
+  } as AuthConfig;
+
+  let service: LoginThrottleService;
+
+  beforeEach(() => {
+    service = new LoginThrottleService(loginAttemptRepository, authConfig, logger);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const now = new Date('2025-01-01T12:00:00.000Z');
+  const email = 'John@Example.com' as UserEmail;
+  const ipAddress = '203.0.113.7';
+
+  const toAttempt = (scope: ELoginAttemptScope, failedCount: number, lockedUntil?: Date) => {
+    const builder = Builder(LoginAttempt)
+      .scope(scope)
+      .key((scope === ELoginAttemptScope.email ? 'john@example.com' : ipAddress) as LoginAttemptKey)
+      .failedCount(failedCount as LoginAttemptFailedCount)
+      .lastFailedAt(now as LoginAttemptLastFailedAt);
+
+    if (lockedUntil) {
+      builder.lockedUntil(lockedUntil as LoginAttemptLockedUntil);
+    }
+
+    return builder.build();
+  };
+
+  describe('assertNotLocked', () => {
+    it('should be pass when neither the email nor the ip is locked', async () => {
+      //Arrange
+      loginAttemptRepository.findByKey.mockResolvedValue(toAttempt(ELoginAttemptScope.email, 2));
+
+      //Act
+      const promise = service.assertNotLocked(email, ipAddress, now);
+
+      //Assert
+      await expect(promise).resolves.toBeUndefined();
+      expect(loginAttemptRepository.findByKey).toHaveBeenCalledWith(ELoginAttemptScope.email, 'john@example.com');
+      expect(loginAttemptRepository.findByKey).toHaveBeenCalledWith(ELoginAttemptScope.ip, ipAddress);
+    });
+
+    it('should be throw too many requests with the remaining lockout when the ip is locked', async () => {
+      //Arrange
+      loginAttemptRepository.findByKey.mockImplementation(async scope =>
+        scope === ELoginAttemptScope.ip
+          ? toAttempt(ELoginAttemptScope.ip, 20, new Date(now.getTime() + 90_500))
+          : undefined
+      );
+
+      //Act
+      const promise = service.assertNotLocked(email, ipAddress, now);
+
+      //Assert
+      await expect(promise).rejects.toBeInstanceOf(TooManyRequestsError);
+      await expect(promise).rejects.toMatchObject({ retryAfterSeconds: 91 });
+    });
+
+    it('should be pass when the lockout has expired', async () => {
+      //Arrange
+      loginAttemptRepository.findByKey.mockResolvedValue(
+        toAttempt(ELoginAttemptScope.email, 5, new Date(now.getTime() - 1000))
+      );
+
+      //Act
+      const promise = service.assertNotLocked(email, undefined, now);
+
+      //Assert
+      await expect(promise).resolves.toBeUndefined();
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should be count the failure without locking below the limit', async () => {
+      //Arrange
+      loginAttemptRepository.recordFailure.mockResolvedValue(toAttempt(ELoginAttemptScope.email, 4));
+
+      //Act
+      await service.recordFailure(email, undefined, now);
+
+      //Assert
+      expect(loginAttemptRepository.recordFailure).toHaveBeenCalledWith(
+        ELoginAttemptScope.email,
+        'john@example.com',
+        now,
+        new Date(now.getTime() - 900_000)
+      );
+      expect(loginAttemptRepository.lock).not.toHaveBeenCalled();
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should be lock with an exponentially growing lockout and log it', async () => {
+      //Arrange
+      loginAttemptRepository.recordFailure.mockImplementation(async scope =>
+        scope === ELoginAttemptScope.email ? toAttempt(scope, 7) : toAttempt(scope, 1)
+      );
+
+      //Act
+      await service.recordFailure(email, ipAddress, now);
+
+      //Assert
+      expect(loginAttemptRepository.lock).toHaveBeenCalledTimes(1);
+      expect(loginAttemptRepository.lock).toHaveBeenCalledWith(
+        ELoginAttemptScope.email,
+        'john@example.com',
+        new Date(now.getTime() + 120_000)
+      );
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Sign-in locked after repeated failures',
+        expect.objectContaining({ event: 'auth.login_lockout', scope: ELoginAttemptScope.email, failedCount: 7 })
+      );
+    });
+
+    it('should be cap the lockout at the configured maximum', async () => {
+      //Arrange
+      loginAttemptRepository.recordFailure.mockResolvedValue(toAttempt(ELoginAttemptScope.email, 30));
+
+      //Act
+      await service.recordFailure(email, undefined, now);
+
+      //Assert
+      expect(loginAttemptRepository.lock).toHaveBeenCalledWith(
+        ELoginAttemptScope.email,
+        'john@example.com',
+        new Date(now.getTime() + 3_600_000)
+      );
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('should be clear only the email counter', async () => {
+      //Act
+      await service.recordSuccess(email);
+
+      //Assert
+      expect(loginAttemptRepository.clear).toHaveBeenCalledTimes(1);
+      expect(loginAttemptRepository.clear).toHaveBeenCalledWith(ELoginAttemptScope.email, 'john@example.com');
+    });
+  });
+
+  describe('two-factor', () => {
+    const userId = 'user-id' as UserId;
+
+    it('should be throw too many requests when the user is locked', async () => {
+      //Arrange
+      const lockedUntil = new Date(now.getTime() + 60_000);
+      loginAttemptRepository.findByKey.mockResolvedValue(toAttempt(ELoginAttemptScope.twoFactor, 5, lockedUntil));
+
+      //Act
+      const promise = service.assertTwoFactorNotLocked(userId, now);
+
+      //Assert
+      await expect(promise).rejects.toThrowError(
+        new TooManyRequestsError('Too many failed two-factor attempts, try again later', 60)
+      );
+      expect(loginAttemptRepository.findByKey).toHaveBeenCalledWith(ELoginAttemptScope.twoFactor, userId);
+    });
+
+    it('should be lock the user once the limit is reached', async () => {
+      //Arrange
+      loginAttemptRepository.recordFailure.mockResolvedValue(toAttempt(ELoginAttemptScope.twoFactor, 5));
+
+      //Act
+      await service.recordTwoFactorFailure(userId, now);
+
+      //Assert
+      expect(loginAttemptRepository.lock).toHaveBeenCalledWith(
+        ELoginAttemptScope.twoFactor,
+        userId,
+        new Date(now.getTime() + 30_000)
+      );
+    });
+
+    it('should be clear the user counter on success', async () => {
+      //Act
+      await service.recordTwoFactorSuccess(userId);
+
+      //Assert
+      expect(loginAttemptRepository.clear).toHaveBeenCalledWith(ELoginAttemptScope.twoFactor, userId);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
+import { LogoutAllUseCase } from '@modules/auth/application/use-cases/logout-all.usecase';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+
+describe('LogoutAllUseCase', () => {
+  const refreshTokenRepository = mock<RefreshTokenRepository>();
+  const accessTokenDenylist = mock<AccessTokenDenylistService>();
+
+  let useCase: LogoutAllUseCase;
+
+  beforeEach(() => {
+    useCase = new LogoutAllUseCase(refreshTokenRepository, accessTokenDenylist);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should be revoke every session of the user', async () => {
+    //Arrange
+    const userId = faker.string.uuid() as UserId;
+
+    //Act
+    const actual = await useCase.execute({ userId });
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(refreshTokenRepository.revokeAllByUserId).toHaveBeenCalledWith(userId, expect.any(Date));
+    expect(accessTokenDenylist.revokeAllForUser).toHaveBeenCalledWith(userId, expect.any(Date));
+  });
+});
@@ -3,17 +3,19 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { mock } from 'vitest-mock-extended';
 
 import { UnauthorizedError } from '@shared/errors/error-mapper';
-import { RefreshTokenPlain } from '@modules/auth/domain/entities/refresh-token.entity';
+import { IRefreshToken, RefreshTokenPlain } from '@modules/auth/domain/entities/refresh-token.entity';
 import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
 import { LogoutInput, LogoutUseCase } from '@modules/auth/application/use-cases/logout.usecase';
 
 describe('LogoutUseCase', () => {
   const refreshTokenRepository = mock<RefreshTokenRepository>();
+  const accessTokenDenylist = mock<AccessTokenDenylistService>();
 
   let useCase: LogoutUseCase;
 
   beforeEach(() => {
-    useCase = new LogoutUseCase(refreshTokenRepository);
+    useCase = new LogoutUseCase(refreshTokenRepository, accessTokenDenylist);
   });
 
   afterEach(() => {
@@ -52,19 +54,70 @@ describe('LogoutUseCase', () => {
     expect(refreshTokenRepository.revokeByJti).not.toHaveBeenCalled();
   });
 
-  it('should be return success when refresh token is valid', async () => {
+  it('should be throw error unauthorized when refresh token is unknown', async () => {
     //Arrange
     const input = mock<LogoutInput>({
-      refreshToken: 'valid-jti.token.signature' as RefreshTokenPlain,
+      refreshToken: 'valid-jti.secret' as RefreshTokenPlain,
     });
-    refreshTokenRepository.revokeByJti.mockResolvedValue(undefined);
+    refreshTokenRepository.findByJti.mockResolvedValue(undefined);
+
+    const errorExpected = new UnauthorizedError('Invalid refresh token');
+
+    //Act
+    const promise = useCase.execute(input);
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(refreshTokenRepository.revokeByJti).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error unauthorized without revoking anything when the secret does not match', async () => {
+    //Arrange
+    const input = mock<LogoutInput>({
+      refreshToken: 'valid-jti.wrong-secret' as RefreshTokenPlain,
+    });
+    const storedToken = mock<IRefreshToken>({
+      jti: 'valid-jti',
+      userId: 'user-id',
+      sessionId: 'session-id',
+    } as Partial<IRefreshToken>);
+    storedToken.compareToken.mockResolvedValue(false);
+    refreshTokenRepository.findByJti.mockResolvedValue(storedToken);
+
+    const errorExpected = new UnauthorizedError('Invalid refresh token');
+
+    //Act
+    const promise = useCase.execute(input);
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(storedToken.compareToken).toHaveBeenCalledWith('valid-jti.wrong-secret');
+    expect(refreshTokenRepository.revokeByJti).not.toHaveBeenCalled();
+    expect(accessTokenDenylist.revokeSession).not.toHaveBeenCalled();
+  });
+
+  it('should be revoke the refresh token and the access tokens of its session when the secret matches', async () => {
+    //Arrange
+    const input = mock<LogoutInput>({
+      refreshToken: 'valid-jti.secret' as RefreshTokenPlain,
+    });
+    const storedToken = mock<IRefreshToken>({
+      jti: 'valid-jti',
+      userId: 'user-id',
+      sessionId: 'session-id',
+    } as Partial<IRefreshToken>);
+    storedToken.compareToken.mockResolvedValue(true);
+    refreshTokenRepository.findByJti.mockResolvedValue(storedToken);
 
     const expected = { success: true };
+
     //Act
     const actual = await useCase.execute(input);
 
     //Assert
     expect(actual).toEqual(expected);
+    expect(refreshTokenRepository.findByJti).toHaveBeenCalledWith('valid-jti');
     expect(refreshTokenRepository.revokeByJti).toHaveBeenCalledWith('valid-jti', expect.any(Date));
+    expect(accessTokenDenylist.revokeSession).toHaveBeenCalledWith('user-id', 'session-id');
   });
 });
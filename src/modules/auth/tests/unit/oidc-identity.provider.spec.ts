@@ -0,0 +1,306 @@
+import { createHash, sign as cryptoSign, generateKeyPairSync, type KeyObject } from 'crypto';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach } from 'vitest';
+
+import type {
+  OAuthAuthorizationCode,
+  OAuthNonce,
+  OAuthState,
+  PkceCodeChallenge,
+  PkceCodeVerifier,
+} from '@modules/auth/domain/ports/identity-provider';
+import type { OidcProviderConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { OidcIdentityProvider } from '@modules/auth/infrastructure/providers/oidc-identity.provider';
+import { BadGatewayError, UnauthorizedError } from '@shared/errors/error-mapper';
+
+interface StubKey {
+  kid: string;
+  alg: 'RS256' | 'ES256';
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+const createStubKey = (kid: string, alg: StubKey['alg']): StubKey => {
+  const { privateKey, publicKey } =
+    alg === 'RS256'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  return { kid, alg, privateKey, publicKey };
+};
+
+const encodeSegment = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signIdToken = (key: StubKey, claims: Record<string, unknown>) => {
+  const signingInput = `${encodeSegment({ alg: key.alg, typ: 'JWT', kid: key.kid })}.${encodeSegment(claims)}`;
+  const signature =
+    key.alg === 'ES256'
+      ? cryptoSign('sha256', Buffer.from(signingInput), { key: key.privateKey, dsaEncoding: 'ieee-p1363' })
+      : cryptoSign('sha256', Buffer.from(signingInput), key.privateKey);
+  return `${signingInput}.${signature.toString('base64url')}`;
+};
+
+const CODE_VERIFIER = 'verifier-0123456789-0123456789-0123456789' as PkceCodeVerifier;
+const CODE_CHALLENGE = createHash('sha256').update(CODE_VERIFIER).digest('base64url') as PkceCodeChallenge;
+const NONCE = 'nonce-1' as OAuthNonce;
+const CODE = 'code-1' as OAuthAuthorizationCode;
+
+/**
+ * A minimal OpenID provider: discovery, a JWKS endpoint and a token endpoint that checks the PKCE verifier
+ * against `CODE_CHALLENGE` before returning an ID token built from `idTokenClaims`.
+ */
+const stub = {
+  server: undefined as unknown as Server,
+  issuer: '',
+  discoveredIssuer: undefined as string | undefined,
+  publishedKeys: [] as StubKey[],
+  signingKey: undefined as unknown as StubKey,
+  idTokenClaims: {} as Record<string, unknown>,
+  tokenRequests: [] as URLSearchParams[],
+};
+
+const handleTokenRequest = (body: URLSearchParams) => {
+  stub.tokenRequests.push(body);
+  const verifier = body.get('code_verifier') ?? '';
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  if (body.get('code') !== CODE || challenge !== CODE_CHALLENGE || body.get('client_id') !== 'client-1') {
+    return { status: 400, body: { error: 'invalid_grant' } };
+  }
+
+  return {
+    status: 200,
+    body: { access_token: 'access', token_type: 'Bearer', id_token: signIdToken(stub.signingKey, stub.idTokenClaims) },
+  };
+};
+
+const startStubIssuer = () =>
+  new Promise<void>(resolve => {
+    stub.server = createServer((request, response) => {
+      const chunks: Buffer[] = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', () => {
+        const reply = (status: number, body: object) => {
+          response.writeHead(status, { 'content-type': 'application/json' });
+          response.end(JSON.stringify(body));
+        };
+
+        switch (request.url) {
+          case '/.well-known/openid-configuration':
+            return reply(200, {
+              issuer: stub.discoveredIssuer ?? stub.issuer,
+              authorization_endpoint: `${stub.issuer}/authorize?prompt=login`,
+              token_endpoint: `${stub.issuer}/token`,
+              jwks_uri: `${stub.issuer}/jwks`,
+            });
+          case '/jwks':
+            return reply(200, {
+              keys: stub.publishedKeys.map(key => ({
+                ...key.publicKey.export({ format: 'jwk' }),
+                kid: key.kid,
+                alg: key.alg,
+                use: 'sig',
+              })),
+            });
+          case '/token': {
+            const result = handleTokenRequest(new URLSearchParams(Buffer.concat(chunks).toString('utf8')));
+            return reply(result.status, result.body);
+          }
+          default:
+            return reply(404, { error: 'not_found' });
+        }
+      });
+    });
+    stub.server.listen(0, '127.0.0.1', () => {
+      stub.issuer = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`;
+      resolve();
+    });
+  });
+
+describe('OidcIdentityProvider', () => {
+  const rsaKey = createStubKey('rsa-1', 'RS256');
+  let config: OidcProviderConfig;
+
+  beforeAll(async () => {
+    await startStubIssuer();
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => stub.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    const now = Math.floor(Date.now() / 1000);
+    config = {
+      name: 'stub',
+      issuer: stub.issuer,
+      clientId: 'client-1',
+      clientSecret: 'secret-1',
+      redirectUri: 'http://localhost:3000/auth/oauth/stub/callback',
+      scopes: ['openid', 'email'],
+    };
+    stub.discoveredIssuer = undefined;
+    stub.publishedKeys = [rsaKey];
+    stub.signingKey = rsaKey;
+    stub.tokenRequests = [];
+    stub.idTokenClaims = {
+      iss: stub.issuer,
+      aud: 'client-1',
+      sub: 'subject-1',
+      iat: now,
+      exp: now + 300,
+      nonce: NONCE,
+      email: 'Jane@Example.com',
+      email_verified: true,
+      name: 'Jane',
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const exchange = (provider = new OidcIdentityProvider(config)) =>
+    provider.exchangeCode({ code: CODE, codeVerifier: CODE_VERIFIER, nonce: NONCE });
+
+  it('should be build the authorization URL from the discovered endpoint', async () => {
+    //Arrange
+    const provider = new OidcIdentityProvider(config);
+
+    //Act
+    const actual = new URL(
+      await provider.createAuthorizationUrl({
+        state: 'state-1' as OAuthState,
+        nonce: NONCE,
+        codeChallenge: CODE_CHALLENGE,
+      })
+    );
+
+    //Assert
+    expect(`${actual.origin}${actual.pathname}`).toBe(`${stub.issuer}/authorize`);
+    expect(Object.fromEntries(actual.searchParams)).toEqual({
+      prompt: 'login',
+      response_type: 'code',
+      client_id: 'client-1',
+      redirect_uri: config.redirectUri,
+      scope: 'openid email',
+      state: 'state-1',
+      nonce: NONCE,
+      code_challenge: CODE_CHALLENGE,
+      code_challenge_method: 'S256',
+    });
+  });
+
+  it('should be redeem the code with the PKCE verifier and return the identity from the ID token', async () => {
+    //Act
+    const actual = await exchange();
+
+    //Assert
+    expect(actual).toEqual({ subject: 'subject-1', email: 'jane@example.com', emailVerified: true, name: 'Jane' });
+    expect(Object.fromEntries(stub.tokenRequests[0])).toEqual({
+      grant_type: 'authorization_code',
+      code: CODE,
+      redirect_uri: config.redirectUri,
+      client_id: 'client-1',
+      client_secret: 'secret-1',
+      code_verifier: CODE_VERIFIER,
+    });
+  });
+
+  it('should be throw error when the token endpoint rejects the code', async () => {
+    //Arrange
+    const provider = new OidcIdentityProvider(config);
+
+    //Act
+    const actual = provider.exchangeCode({ code: CODE, codeVerifier: 'wrong' as PkceCodeVerifier, nonce: NONCE });
+
+    //Assert
+    await expect(actual).rejects.toThrowError(new UnauthorizedError('The identity provider rejected the sign-in'));
+  });
+
+  it.each([
+    ['another nonce', { nonce: 'nonce-2' }],
+    ['no nonce', { nonce: undefined }],
+    ['another audience', { aud: 'client-2' }],
+    ['another authorized party', { aud: ['client-1', 'client-2'], azp: 'client-2' }],
+    ['another issuer', { iss: 'https://evil.example.com' }],
+    ['an expired token', { exp: Math.floor(Date.now() / 1000) - 120 }],
+    ['no subject', { sub: undefined }],
+  ])('should be reject an ID token with %s', async (_label, claims) => {
+    //Arrange
+    stub.idTokenClaims = { ...stub.idTokenClaims, ...claims };
+
+    //Act
+    const actual = exchange();
+
+    //Assert
+    await expect(actual).rejects.toThrowError(new UnauthorizedError('Invalid ID token'));
+  });
+
+  it('should be reject an ID token signed by a key the issuer does not publish', async () => {
+    //Arrange
+    stub.signingKey = { ...createStubKey('rsa-1', 'RS256'), kid: 'rsa-1' };
+
+    //Act
+    const actual = exchange();
+
+    //Assert
+    await expect(actual).rejects.toThrowError(new UnauthorizedError('Invalid ID token'));
+  });
+
+  it('should be fetch the key set again when the issuer starts signing with a new key', async () => {
+    //Arrange
+    const provider = new OidcIdentityProvider(config);
+    await exchange(provider);
+    const ecKey = createStubKey('ec-1', 'ES256');
+    stub.publishedKeys = [rsaKey, ecKey];
+    stub.signingKey = ecKey;
+    // jose fetches the key set at most once every 30 seconds.
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 31_000);
+
+    //Act
+    const actual = await exchange(provider);
+
+    //Assert
+    expect(actual.subject).toBe('subject-1');
+  });
+
+  it('should be throw error when discovery reports a different issuer', async () => {
+    //Arrange
+    stub.discoveredIssuer = 'https://evil.example.com';
+
+    //Act
+    const actual = exchange();
+
+    //Assert
+    await expect(actual).rejects.toThrowError(
+      new BadGatewayError(`OIDC discovery for stub returned issuer https://evil.example.com, expected ${stub.issuer}`)
+    );
+  });
+
+  it('should be throw error bad gateway when the discovery document cannot be fetched', async () => {
+    //Arrange
+    const provider = new OidcIdentityProvider({ ...config, issuer: `${stub.issuer}/missing` });
+
+    //Act
+    const actual = exchange(provider);
+
+    //Assert
+    await expect(actual).rejects.toBeInstanceOf(BadGatewayError);
+  });
+
+  it('should be throw error bad gateway when the identity provider cannot be reached', async () => {
+    //Arrange
+    const provider = new OidcIdentityProvider({ ...config, issuer: 'http://127.0.0.1:1' });
+
+    //Act
+    const actual = exchange(provider);
+
+    //Assert
+    await expect(actual).rejects.toThrowError(
+      new BadGatewayError(
+        'Could not reach the stub identity provider at http://127.0.0.1:1/.well-known/openid-configuration'
+      )
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  ERole,
+  getEffectivePermissions,
+  type Permission,
+  Permissions,
+} from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type { AuthContext } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { ForbiddenError, UnauthorizedError } from '@shared/errors/error-mapper';
+
+describe('withPermission', () => {
+  const userId = 'user-id' as UserId;
+  const authAs = (role: ERole, scopes?: Permission[]): AuthContext => ({
+    userId,
+    role,
+    scopes,
+    permissions: getEffectivePermissions(role, scopes),
+  });
+
+  it('should be throw error unauthorized when no caller is resolved', async () => {
+    const guard = withPermission(Permissions.PostsRead);
+
+    const promise = guard({});
+
+    await expect(promise).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  it('should be throw error forbidden when role lacks the permission', async () => {
+    const guard = withPermission(Permissions.UsersManage);
+    const errorExpected = new ForbiddenError('Insufficient permissions');
+
+    const promise = guard({ auth: authAs(ERole.moderator) });
+
+    await expect(promise).rejects.toThrowError(errorExpected);
+  });
+
+  it('should be pass when role has every permission', async () => {
+    const guard = withPermission(Permissions.PostsUpdate, Permissions.PostsManageAny);
+
+    const promise = guard({ auth: authAs(ERole.moderator) });
+
+    await expect(promise).resolves.toBeUndefined();
+  });
+
+  it('should be pass for admin on any permission', async () => {
+    const guard = withPermission(...Object.values(Permissions));
+
+    const promise = guard({ auth: authAs(ERole.admin) });
+
+    await expect(promise).resolves.toBeUndefined();
+  });
+
+  it('should be throw error forbidden when an API key is not scoped to the permission', async () => {
+    const guard = withPermission(Permissions.PostsCreate);
+    const errorExpected = new ForbiddenError('Insufficient permissions');
+
+    const promise = guard({ auth: authAs(ERole.admin, [Permissions.PostsRead]) });
+
+    await expect(promise).rejects.toThrowError(errorExpected);
+  });
+
+  it('should be throw error forbidden when an API key is scoped beyond what the role allows', async () => {
+    const guard = withPermission(Permissions.UsersManage);
+    const errorExpected = new ForbiddenError('Insufficient permissions');
+
+    const promise = guard({ auth: authAs(ERole.user, [Permissions.UsersManage]) });
+
+    await expect(promise).rejects.toThrowError(errorExpected);
+  });
+
+  it('should be pass when an API key is scoped to every permission', async () => {
+    const guard = withPermission(Permissions.PostsRead);
+
+    const promise = guard({ auth: authAs(ERole.user, [Permissions.PostsRead]) });
+
+    await expect(promise).resolves.toBeUndefined();
+  });
+});
@@ -2,20 +2,24 @@ import 'reflect-metadata';
 import { beforeEach, describe, expect, it } from 'vitest';
 import { mock } from 'vitest-mock-extended';
 
-import { UnauthorizedError } from '@shared/errors/error-mapper';
 import type { IUser, UserId } from '@modules/accounts/domain/entities/user.entity';
 import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
+import { RefreshSessionUseCase } from '@modules/auth/application/use-cases/refresh-session.usecase';
 import type {
   IRefreshToken,
   RefreshTokenExpiresAt,
   RefreshTokenHash,
   RefreshTokenJti,
   RefreshTokenPlain,
+  RefreshTokenSessionId,
+  SessionDevice,
 } from '@modules/auth/domain/entities/refresh-token.entity';
 import { AuthTokenService } from '@modules/auth/domain/ports/auth-token.service';
 import type { AccessTokenExpiresAt } from '@modules/auth/domain/ports/auth-token.service';
 import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
-import { RefreshSessionUseCase } from '@modules/auth/application/use-cases/refresh-session.usecase';
+import { AccountStatusError, UnauthorizedError } from '@shared/errors/error-mapper';
+import type { LoggerPort } from '@shared/logging/logger.port';
 
 const refreshTokenString = 'token-jti.random-secret';
 
@@ -23,6 +27,8 @@ describe('RefreshSessionUseCase', () => {
   const refreshTokenRepository = mock<RefreshTokenRepository>();
   const userRepository = mock<UserRepository>();
   const authTokenService = mock<AuthTokenService>();
+  const logger = mock<LoggerPort>();
+  const accessTokenDenylist = mock<AccessTokenDenylistService>();
 
   let useCase: RefreshSessionUseCase;
 
@@ -36,7 +42,13 @@ describe('RefreshSessionUseCase', () => {
   };
 
   beforeEach(() => {
-    useCase = new RefreshSessionUseCase(userRepository, refreshTokenRepository, authTokenService);
+    useCase = new RefreshSessionUseCase(
+      userRepository,
+      refreshTokenRepository,
+      authTokenService,
+      logger,
+      accessTokenDenylist
+    );
   });
 
   afterEach(() => {
@@ -70,6 +82,70 @@ describe('RefreshSessionUseCase', () => {
     await expect(promise).rejects.toBeInstanceOf(UnauthorizedError);
   });
 
+  it('revokes the whole session when a rotated refresh token is replayed', async () => {
+    //Arrange
+    const storedToken = mock<IRefreshToken>();
+    storedToken.isRevoked.mockReturnValue(true);
+    storedToken.compareToken.mockResolvedValue(true);
+    storedToken.jti = 'token-jti' as RefreshTokenJti;
+    storedToken.userId = 'user-id' as UserId;
+    storedToken.sessionId = 'session-id' as RefreshTokenSessionId;
+
+    refreshTokenRepository.findByJti.mockResolvedValue(storedToken);
+    refreshTokenRepository.findByParentJti.mockResolvedValue(mock<IRefreshToken>());
+
+    //Act
+    const promise = useCase.execute({ refreshToken: refreshTokenString as RefreshTokenPlain });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Refresh token reuse detected'));
+    expect(refreshTokenRepository.findByParentJti).toHaveBeenCalledWith('token-jti');
+    expect(refreshTokenRepository.revokeBySessionId).toHaveBeenCalledWith('user-id', 'session-id', expect.any(Date));
+    expect(accessTokenDenylist.revokeSession).toHaveBeenCalledWith('user-id', 'session-id', expect.any(Date));
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ event: 'auth.refresh_token_reuse', userId: 'user-id', sessionId: 'session-id' })
+    );
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('does not revoke the session when a logged out refresh token is presented', async () => {
+    //Arrange
+    const storedToken = mock<IRefreshToken>();
+    storedToken.isRevoked.mockReturnValue(true);
+    storedToken.compareToken.mockResolvedValue(true);
+    storedToken.jti = 'token-jti' as RefreshTokenJti;
+
+    refreshTokenRepository.findByJti.mockResolvedValue(storedToken);
+    refreshTokenRepository.findByParentJti.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({ refreshToken: refreshTokenString as RefreshTokenPlain });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Refresh token has been revoked'));
+    expect(refreshTokenRepository.revokeBySessionId).not.toHaveBeenCalled();
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('does not revoke the session when a revoked jti is presented with the wrong secret', async () => {
+    //Arrange
+    const storedToken = mock<IRefreshToken>();
+    storedToken.isRevoked.mockReturnValue(true);
+    storedToken.compareToken.mockResolvedValue(false);
+    storedToken.jti = 'token-jti' as RefreshTokenJti;
+
+    refreshTokenRepository.findByJti.mockResolvedValue(storedToken);
+
+    //Act
+    const promise = useCase.execute({ refreshToken: refreshTokenString as RefreshTokenPlain });
+
+    //Assert
+    await expect(promise).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(refreshTokenRepository.findByParentJti).not.toHaveBeenCalled();
+    expect(refreshTokenRepository.revokeBySessionId).not.toHaveBeenCalled();
+  });
+
   it('throws unauthorized if refresh token is expired', async () => {
     //Arrange
     const storedToken = mock<IRefreshToken>();
@@ -113,7 +189,7 @@ describe('RefreshSessionUseCase', () => {
     storedToken.userId = 'user-id' as UserId;
 
     refreshTokenRepository.findByJti.mockResolvedValue(storedToken);
-    userRepository.getById.mockResolvedValue(undefined);
+    userRepository.getByIdAnyStatus.mockResolvedValue(undefined);
 
     //Act
     const promise = useCase.execute({ refreshToken: refreshTokenString as RefreshTokenPlain });
@@ -122,6 +198,31 @@ describe('RefreshSessionUseCase', () => {
     await expect(promise).rejects.toBeInstanceOf(UnauthorizedError);
   });
 
+  it('throws an account status error and issues no tokens when the user is no longer active', async () => {
+    //Arrange
+    const storedToken = mock<IRefreshToken>();
+    storedToken.isRevoked.mockReturnValue(false);
+    storedToken.isExpired.mockReturnValue(false);
+    storedToken.compareToken.mockResolvedValue(true);
+    storedToken.jti = 'token-jti' as RefreshTokenJti;
+    storedToken.userId = 'user-id' as UserId;
+    const user = mock<IUser>();
+    user.assertActive.mockImplementation(() => {
+      throw new AccountStatusError('inactive');
+    });
+
+    refreshTokenRepository.findByJti.mockResolvedValue(storedToken);
+    userRepository.getByIdAnyStatus.mockResolvedValue(user);
+
+    //Act
+    const promise = useCase.execute({ refreshToken: refreshTokenString as RefreshTokenPlain });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new AccountStatusError('inactive'));
+    expect(refreshTokenRepository.revokeByJti).toHaveBeenCalledWith(storedToken.jti, expect.any(Date));
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
   it('rotates token when refresh token is valid', async () => {
     //Arrange
     const storedToken = mock<IRefreshToken>();
@@ -140,48 +241,30 @@ describe('RefreshSessionUseCase', () => {
     vi.mocked(refreshTokenRepository.findByJti).mockResolvedValue(storedToken);
     vi.mocked(refreshTokenRepository.revokeByJti).mockResolvedValue(undefined);
     vi.mocked(refreshTokenRepository.create).mockResolvedValue(storedToken);
-    vi.mocked(userRepository.getById).mockResolvedValue(user);
+    vi.mocked(userRepository.getByIdAnyStatus).mockResolvedValue(user);
     vi.mocked(authTokenService.generateTokens).mockResolvedValue(generatedTokens);
 
-    // Mock the generateTokensForUserWithoutRevoke method
-    const generateTokensForUserWithoutRevokeSpy = vi.spyOn(useCase, 'generateTokensForUserWithoutRevoke');
-    generateTokensForUserWithoutRevokeSpy.mockResolvedValue({ user, tokens: generatedTokens });
+    storedToken.sessionId = 'session-id' as RefreshTokenSessionId;
+    const device = { userAgent: 'Mozilla/5.0', ipAddress: '203.0.113.7' } as SessionDevice;
 
     //Act
-    const actual = await useCase.execute({ refreshToken: refreshTokenString as RefreshTokenPlain });
+    const actual = await useCase.execute({ refreshToken: refreshTokenString as RefreshTokenPlain, device });
 
     //Assert
     expect(refreshTokenRepository.findByJti).toHaveBeenCalledWith('token-jti' as RefreshTokenJti);
-    expect(userRepository.getById).toHaveBeenCalledWith(storedToken.userId);
+    expect(userRepository.getByIdAnyStatus).toHaveBeenCalledWith(storedToken.userId);
     expect(refreshTokenRepository.revokeByJti).toHaveBeenCalledWith(storedToken.jti, expect.any(Date));
-    expect(generateTokensForUserWithoutRevokeSpy).toHaveBeenCalledWith(user);
-    expect(actual).toEqual({ user, tokens: generatedTokens });
-  });
-
-  it('generateTokensForUserWithoutRevoke creates tokens without revoking existing tokens', async () => {
-    //Arrange
-    const user = mock<IUser>();
-    user.hiddenPassword.mockImplementation(() => undefined);
-
-    const mockRefreshToken = mock<IRefreshToken>();
-
-    vi.mocked(authTokenService.generateTokens).mockResolvedValue(generatedTokens);
-    vi.mocked(refreshTokenRepository.create).mockResolvedValue(mockRefreshToken);
-
-    //Act
-    const actual = await useCase.generateTokensForUserWithoutRevoke(user);
-
-    //Assert
-    expect(authTokenService.generateTokens).toHaveBeenCalledWith(user);
+    expect(refreshTokenRepository.revokeAllByUserId).not.toHaveBeenCalled();
     expect(refreshTokenRepository.create).toHaveBeenCalledWith(
       expect.objectContaining({
         userId: user.id,
         jti: generatedTokens.jti,
-        tokenHash: generatedTokens.refreshTokenHash,
-        expiresAt: generatedTokens.refreshTokenExpiresAt,
+        sessionId: 'session-id',
+        parentJti: 'token-jti',
+        userAgent: device.userAgent,
+        ipAddress: device.ipAddress,
       })
     );
-    expect(user.hiddenPassword).toHaveBeenCalled();
     expect(actual).toEqual({ user, tokens: generatedTokens });
   });
 });
@@ -0,0 +1,65 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { IUser, UserEmail } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { ResendVerificationUseCase } from '@modules/auth/application/use-cases/resend-verification.usecase';
+import { SendVerificationEmailUseCase } from '@modules/auth/application/use-cases/send-verification-email.usecase';
+
+describe('ResendVerificationUseCase', () => {
+  const userRepository = mock<UserRepository>();
+  const sendVerificationEmail = mock<SendVerificationEmailUseCase>();
+
+  let useCase: ResendVerificationUseCase;
+
+  beforeEach(() => {
+    useCase = new ResendVerificationUseCase(userRepository, sendVerificationEmail);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const email = 'jane@example.com' as UserEmail;
+
+  it('should be send a new link to an unverified user', async () => {
+    //Arrange
+    const user = mock<IUser>();
+    user.isEmailVerified.mockReturnValue(false);
+    userRepository.getByEmail.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute({ email });
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(sendVerificationEmail.execute).toHaveBeenCalledWith({ user });
+  });
+
+  it('should be report success without sending when the user is already verified', async () => {
+    //Arrange
+    const user = mock<IUser>();
+    user.isEmailVerified.mockReturnValue(true);
+    userRepository.getByEmail.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute({ email });
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(sendVerificationEmail.execute).not.toHaveBeenCalled();
+  });
+
+  it('should be report success without sending when the email is unknown', async () => {
+    //Arrange
+    userRepository.getByEmail.mockResolvedValue(undefined);
+
+    //Act
+    const actual = await useCase.execute({ email });
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(sendVerificationEmail.execute).not.toHaveBeenCalled();
+  });
+});
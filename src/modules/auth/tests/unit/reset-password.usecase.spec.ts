@@ -0,0 +1,122 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import type { IUser, UserId, UserPassword } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
+import { ResetPasswordUseCase } from '@modules/auth/application/use-cases/reset-password.usecase';
+import {
+  ESingleUseTokenPurpose,
+  SingleUseToken,
+  type SingleUseTokenConsumedAt,
+  type SingleUseTokenExpiresAt,
+  type SingleUseTokenId,
+  type SingleUseTokenPlain,
+} from '@modules/auth/domain/entities/single-use-token.entity';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { SingleUseTokenRepository } from '@modules/auth/domain/ports/single-use-token.repository';
+import { ValidationError } from '@shared/errors/error-mapper';
+import { hashOpaqueToken } from '@shared/utils/opaque-token.util';
+
+describe('ResetPasswordUseCase', () => {
+  const singleUseTokenRepository = mock<SingleUseTokenRepository>();
+  const userRepository = mock<UserRepository>();
+  const refreshTokenRepository = mock<RefreshTokenRepository>();
+  const accessTokenDenylist = mock<AccessTokenDenylistService>();
+
+  let useCase: ResetPasswordUseCase;
+
+  beforeEach(() => {
+    useCase = new ResetPasswordUseCase(
+      singleUseTokenRepository,
+      userRepository,
+      refreshTokenRepository,
+      accessTokenDenylist
+    );
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const token = 'reset-token' as SingleUseTokenPlain;
+  const password = 'NewPassword123' as UserPassword;
+  const buildStoredToken = () =>
+    Builder(SingleUseToken)
+      .id(faker.string.uuid() as SingleUseTokenId)
+      .purpose(ESingleUseTokenPurpose.passwordReset)
+      .userId(faker.string.uuid() as UserId)
+      .expiresAt(faker.date.future() as SingleUseTokenExpiresAt)
+      .build();
+
+  it('should be throw error when the token is unknown', async () => {
+    //Arrange
+    singleUseTokenRepository.findByTokenHash.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({ token, password });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ValidationError('Invalid or expired password reset token'));
+    expect(singleUseTokenRepository.findByTokenHash).toHaveBeenCalledWith(
+      ESingleUseTokenPurpose.passwordReset,
+      hashOpaqueToken(token)
+    );
+    expect(userRepository.updatePassword).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the token has expired', async () => {
+    //Arrange
+    const storedToken = buildStoredToken();
+    storedToken.expiresAt = faker.date.past() as SingleUseTokenExpiresAt;
+    singleUseTokenRepository.findByTokenHash.mockResolvedValue(storedToken);
+
+    //Act
+    const promise = useCase.execute({ token, password });
+
+    //Assert
+    await expect(promise).rejects.toBeInstanceOf(ValidationError);
+    expect(userRepository.updatePassword).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the token was already used', async () => {
+    //Arrange
+    const storedToken = buildStoredToken();
+    storedToken.consumedAt = faker.date.recent() as SingleUseTokenConsumedAt;
+    singleUseTokenRepository.findByTokenHash.mockResolvedValue(storedToken);
+
+    //Act
+    const promise = useCase.execute({ token, password });
+
+    //Assert
+    await expect(promise).rejects.toBeInstanceOf(ValidationError);
+    expect(userRepository.updatePassword).not.toHaveBeenCalled();
+  });
+
+  it('should be store the new password and revoke every session', async () => {
+    //Arrange
+    const storedToken = buildStoredToken();
+    const user = mock<IUser>();
+    user.id = storedToken.userId;
+    user.setHashPassword.mockImplementation(async () => {
+      user.password = 'hashed-password' as UserPassword;
+    });
+    singleUseTokenRepository.findByTokenHash.mockResolvedValue(storedToken);
+    singleUseTokenRepository.markConsumed.mockResolvedValue(true);
+    userRepository.getById.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute({ token, password });
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(singleUseTokenRepository.markConsumed).toHaveBeenCalledWith(storedToken.id, expect.any(Date));
+    expect(user.setHashPassword).toHaveBeenCalledWith(password);
+    expect(userRepository.updatePassword).toHaveBeenCalledWith(user.id, 'hashed-password');
+    expect(refreshTokenRepository.revokeAllByUserId).toHaveBeenCalledWith(user.id, expect.any(Date));
+    expect(accessTokenDenylist.revokeAllForUser).toHaveBeenCalledWith(user.id, expect.any(Date));
+  });
+});
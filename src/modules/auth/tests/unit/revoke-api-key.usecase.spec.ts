@@ -0,0 +1,50 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { RevokeApiKeyUseCase } from '@modules/auth/application/use-cases/revoke-api-key.usecase';
+import type { ApiKeyId } from '@modules/auth/domain/entities/api-key.entity';
+import { ApiKeyRepository } from '@modules/auth/domain/ports/api-key.repository';
+import { NotFoundError } from '@shared/errors/error-mapper';
+
+describe('RevokeApiKeyUseCase', () => {
+  const apiKeyRepository = mock<ApiKeyRepository>();
+
+  let useCase: RevokeApiKeyUseCase;
+
+  beforeEach(() => {
+    useCase = new RevokeApiKeyUseCase(apiKeyRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = faker.string.uuid() as UserId;
+  const id = faker.string.uuid() as ApiKeyId;
+
+  it('should be throw error when the user has no such API key', async () => {
+    //Arrange
+    apiKeyRepository.revoke.mockResolvedValue(false);
+
+    //Act
+    const promise = useCase.execute({ userId, id });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new NotFoundError('API key not found'));
+  });
+
+  it('should be revoke the API key of the user', async () => {
+    //Arrange
+    apiKeyRepository.revoke.mockResolvedValue(true);
+
+    //Act
+    const actual = await useCase.execute({ userId, id });
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(apiKeyRepository.revoke).toHaveBeenCalledWith(userId, id, expect.any(Date));
+  });
+});
@@ -0,0 +1,55 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
+import { RevokeSessionUseCase } from '@modules/auth/application/use-cases/revoke-session.usecase';
+import { RefreshTokenSessionId } from '@modules/auth/domain/entities/refresh-token.entity';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { NotFoundError } from '@shared/errors/error-mapper';
+
+describe('RevokeSessionUseCase', () => {
+  const refreshTokenRepository = mock<RefreshTokenRepository>();
+  const accessTokenDenylist = mock<AccessTokenDenylistService>();
+
+  let useCase: RevokeSessionUseCase;
+
+  beforeEach(() => {
+    useCase = new RevokeSessionUseCase(refreshTokenRepository, accessTokenDenylist);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = faker.string.uuid() as UserId;
+  const sessionId = faker.string.uuid() as RefreshTokenSessionId;
+
+  it('should be throw error when the user has no such active session', async () => {
+    //Arrange
+    refreshTokenRepository.revokeBySessionId.mockResolvedValue(false);
+
+    //Act
+    const promise = useCase.execute({ userId, sessionId });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new NotFoundError('Session not found'));
+    expect(accessTokenDenylist.revokeSession).not.toHaveBeenCalled();
+  });
+
+  it('should be revoke the session of the user', async () => {
+    //Arrange
+    refreshTokenRepository.revokeBySessionId.mockResolvedValue(true);
+
+    //Act
+    const actual = await useCase.execute({ userId, sessionId });
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(refreshTokenRepository.revokeBySessionId).toHaveBeenCalledWith(userId, sessionId, expect.any(Date));
+    expect(refreshTokenRepository.revokeAllByUserId).not.toHaveBeenCalled();
+    expect(accessTokenDenylist.revokeSession).toHaveBeenCalledWith(userId, sessionId, expect.any(Date));
+  });
+});
@@ -0,0 +1,78 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { type BUserName, User, type UserEmail, type UserId } from '@modules/accounts/domain/entities/user.entity';
+import { SendVerificationEmailUseCase } from '@modules/auth/application/use-cases/send-verification-email.usecase';
+import { ESingleUseTokenPurpose, type ISingleUseToken } from '@modules/auth/domain/entities/single-use-token.entity';
+import { SingleUseTokenRepository } from '@modules/auth/domain/ports/single-use-token.repository';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import type { EmailSender } from '@shared/mail/email-sender.port';
+import { hashOpaqueToken } from '@shared/utils/opaque-token.util';
+
+describe('SendVerificationEmailUseCase', () => {
+  const singleUseTokenRepository = mock<SingleUseTokenRepository>();
+  const emailSender = mock<EmailSender>();
+  const authConfig = {
+    emailVerification: { tokenTtlSeconds: 3600, verifyUrl: 'https://app.example.com/verify-email' },
+  } as AuthConfig;
+
+  let useCase: SendVerificationEmailUseCase;
+
+  beforeEach(() => {
+    useCase = new SendVerificationEmailUseCase(singleUseTokenRepository, authConfig, emailSender);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should be replace earlier tokens and mail a link with the new one', async () => {
+    //Arrange
+    const user = Builder(User)
+      .id('user-id' as UserId)
+      .name('Jane Doe' as BUserName)
+      .email('jane@example.com' as UserEmail)
+      .build();
+
+    //Act
+    await useCase.execute({ user });
+
+    //Assert
+    expect(singleUseTokenRepository.deleteUnconsumedByUserId).toHaveBeenCalledWith(
+      user.id,
+      ESingleUseTokenPurpose.emailVerification
+    );
+    const [storedToken] = singleUseTokenRepository.create.mock.calls[0] as [ISingleUseToken];
+    expect(storedToken.userId).toBe(user.id);
+    expect(storedToken.purpose).toBe(ESingleUseTokenPurpose.emailVerification);
+    expect(storedToken.expiresAt.getTime()).toBeGreaterThan(Date.now() + 3500 * 1000);
+
+    const [message] = emailSender.send.mock.calls[0];
+    expect(message.to).toBe(user.email);
+    const token = /verify-email\?token=([\w-]+)/.exec(message.text)?.[1];
+    expect(token).toBeDefined();
+    expect(hashOpaqueToken(token as string)).toBe(storedToken.tokenHash);
+  });
+
+  it('should be mail the link to the new address when confirming an email change', async () => {
+    //Arrange
+    const user = Builder(User)
+      .id('user-id' as UserId)
+      .name('Jane Doe' as BUserName)
+      .email('jane@example.com' as UserEmail)
+      .build();
+    const email = 'jane.doe@example.org' as UserEmail;
+
+    //Act
+    await useCase.execute({ user, email });
+
+    //Assert
+    const [storedToken] = singleUseTokenRepository.create.mock.calls[0] as [ISingleUseToken];
+    expect(storedToken.email).toBe(email);
+    const [message] = emailSender.send.mock.calls[0];
+    expect(message.to).toBe(email);
+    expect(message.subject).toBe('Confirm your new email address');
+  });
+});
@@ -0,0 +1,67 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { IUser, UserEmail, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { SetupTwoFactorUseCase } from '@modules/auth/application/use-cases/setup-two-factor.usecase';
+import type { ITwoFactor } from '@modules/auth/domain/entities/two-factor.entity';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { ConflictError } from '@shared/errors/error-mapper';
+
+describe('SetupTwoFactorUseCase', () => {
+  const userRepository = mock<UserRepository>();
+  const twoFactorRepository = mock<TwoFactorRepository>();
+  const authConfig = { twoFactor: { issuer: 'Acme', challengeExpiresIn: '5m' } } as AuthConfig;
+
+  let useCase: SetupTwoFactorUseCase;
+
+  beforeEach(() => {
+    useCase = new SetupTwoFactorUseCase(userRepository, twoFactorRepository, authConfig);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = 'user-id' as UserId;
+
+  const arrangeUser = () => {
+    const user = mock<IUser>();
+    user.id = userId;
+    user.email = 'john@example.com' as UserEmail;
+    userRepository.getById.mockResolvedValue(user);
+    return user;
+  };
+
+  it('should be throw error when two-factor is already enabled', async () => {
+    //Arrange
+    arrangeUser();
+    const twoFactor = mock<ITwoFactor>();
+    twoFactor.isEnabled.mockReturnValue(true);
+    twoFactorRepository.findByUserId.mockResolvedValue(twoFactor);
+
+    //Act
+    const promise = useCase.execute({ userId });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ConflictError('Two-factor authentication is already enabled'));
+    expect(twoFactorRepository.savePending).not.toHaveBeenCalled();
+  });
+
+  it('should be store a pending secret and return the otpauth uri', async () => {
+    //Arrange
+    arrangeUser();
+    twoFactorRepository.findByUserId.mockResolvedValue(undefined);
+
+    //Act
+    const actual = await useCase.execute({ userId });
+
+    //Assert
+    expect(actual.secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(actual.otpauthUri).toContain('otpauth://totp/Acme%3Ajohn%40example.com?');
+    expect(actual.otpauthUri).toContain(`secret=${actual.secret}`);
+    expect(twoFactorRepository.savePending).toHaveBeenCalledWith(userId, actual.secret);
+  });
+});
@@ -2,14 +2,27 @@ import 'reflect-metadata';
 import { beforeEach, describe, expect, it } from 'vitest';
 import { mock, mockReset } from 'vitest-mock-extended';
 
-import { UnauthorizedError } from '@shared/errors/error-mapper';
 import type { IUser, UserEmail, UserPassword } from '@modules/accounts/domain/entities/user.entity';
 import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
-import type { RefreshTokenExpiresAt, RefreshTokenHash, RefreshTokenJti } from '@modules/auth/domain/entities/refresh-token.entity';
+import { LoginThrottleService } from '@modules/auth/application/services/login-throttle.service';
+import { SignInUseCase } from '@modules/auth/application/use-cases/sign-in.usecase';
+import type {
+  RefreshTokenExpiresAt,
+  RefreshTokenHash,
+  RefreshTokenIpAddress,
+  RefreshTokenJti,
+} from '@modules/auth/domain/entities/refresh-token.entity';
+import type { ITwoFactor, TwoFactorChallengeToken } from '@modules/auth/domain/entities/two-factor.entity';
 import { AuthTokenService } from '@modules/auth/domain/ports/auth-token.service';
-import type { AccessTokenExpiresAt } from '@modules/auth/domain/ports/auth-token.service';
+import type { AccessTokenExpiresAt, TwoFactorChallengeExpiresAt } from '@modules/auth/domain/ports/auth-token.service';
 import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
-import { SignInUseCase } from '@modules/auth/application/use-cases/sign-in.usecase';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import {
+  AccountStatusError,
+  ForbiddenError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from '@shared/errors/error-mapper';
 
 const toInput = () => ({
   email: 'john@example.com' as UserEmail,
@@ -20,6 +33,8 @@ describe('SignInUseCase', () => {
   const userRepository = mock<UserRepository>();
   const refreshTokenRepository = mock<RefreshTokenRepository>();
   const authTokenService = mock<AuthTokenService>();
+  const twoFactorRepository = mock<TwoFactorRepository>();
+  const loginThrottle = mock<LoginThrottleService>();
 
   let useCase: SignInUseCase;
 
@@ -36,22 +51,78 @@ describe('SignInUseCase', () => {
     mockReset(userRepository);
     mockReset(refreshTokenRepository);
     mockReset(authTokenService);
-    useCase = new SignInUseCase(userRepository, refreshTokenRepository, authTokenService);
+    mockReset(twoFactorRepository);
+    mockReset(loginThrottle);
+    useCase = new SignInUseCase(
+      userRepository,
+      refreshTokenRepository,
+      authTokenService,
+      twoFactorRepository,
+      loginThrottle
+    );
+  });
+
+  it('throws too many requests without checking the password while sign-in is locked', async () => {
+    loginThrottle.assertNotLocked.mockRejectedValue(new TooManyRequestsError('Locked', 30));
+
+    await expect(
+      useCase.execute({ ...toInput(), device: { ipAddress: '203.0.113.7' as RefreshTokenIpAddress } })
+    ).rejects.toBeInstanceOf(TooManyRequestsError);
+    expect(loginThrottle.assertNotLocked).toHaveBeenCalledWith('john@example.com', '203.0.113.7');
+    expect(userRepository.getByEmailAnyStatus).not.toHaveBeenCalled();
   });
 
   it('throws unauthorized if user does not exist', async () => {
-    userRepository.getByEmail.mockResolvedValue(undefined);
+    userRepository.getByEmailAnyStatus.mockResolvedValue(undefined);
 
     await expect(useCase.execute(toInput())).rejects.toBeInstanceOf(UnauthorizedError);
     expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+    expect(loginThrottle.recordFailure).toHaveBeenCalledWith('john@example.com', undefined);
   });
 
   it('throws unauthorized if password is invalid', async () => {
     const user = mock<IUser>();
     user.comparePassword.mockResolvedValue(false);
-    userRepository.getByEmail.mockResolvedValue(user);
+    userRepository.getByEmailAnyStatus.mockResolvedValue(user);
 
-    await expect(useCase.execute(toInput())).rejects.toBeInstanceOf(UnauthorizedError);
+    await expect(
+      useCase.execute({ ...toInput(), device: { ipAddress: '203.0.113.7' as RefreshTokenIpAddress } })
+    ).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+    expect(loginThrottle.recordFailure).toHaveBeenCalledWith('john@example.com', '203.0.113.7');
+    expect(loginThrottle.recordSuccess).not.toHaveBeenCalled();
+  });
+
+  it('throws an account status error when the password is right but the account is suspended', async () => {
+    const user = mock<IUser>();
+    user.comparePassword.mockResolvedValue(true);
+    user.assertActive.mockImplementation(() => {
+      throw new AccountStatusError('suspended');
+    });
+    userRepository.getByEmailAnyStatus.mockResolvedValue(user);
+
+    await expect(useCase.execute(toInput())).rejects.toThrowError(new AccountStatusError('suspended'));
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('throws unauthorized without revealing the status when the password is wrong', async () => {
+    const user = mock<IUser>();
+    user.comparePassword.mockResolvedValue(false);
+    userRepository.getByEmailAnyStatus.mockResolvedValue(user);
+
+    await expect(useCase.execute(toInput())).rejects.toThrowError(new UnauthorizedError('Invalid credentials'));
+    expect(user.assertActive).not.toHaveBeenCalled();
+  });
+
+  it('throws forbidden if the email address is not verified', async () => {
+    const user = mock<IUser>();
+    user.comparePassword.mockResolvedValue(true);
+    user.isEmailVerified.mockReturnValue(false);
+    userRepository.getByEmailAnyStatus.mockResolvedValue(user);
+
+    await expect(useCase.execute(toInput())).rejects.toThrowError(
+      new ForbiddenError('Email address has not been verified')
+    );
     expect(authTokenService.generateTokens).not.toHaveBeenCalled();
   });
 
@@ -59,13 +130,14 @@ describe('SignInUseCase', () => {
     const input = toInput();
     const user = mock<IUser>();
     user.comparePassword.mockResolvedValue(true);
+    user.isEmailVerified.mockReturnValue(true);
     user.hiddenPassword.mockImplementation(() => undefined);
-    userRepository.getByEmail.mockResolvedValue(user);
+    userRepository.getByEmailAnyStatus.mockResolvedValue(user);
     authTokenService.generateTokens.mockResolvedValue(generatedTokens);
 
     const result = await useCase.execute(input);
 
-    expect(refreshTokenRepository.revokeAllByUserId).toHaveBeenCalled();
+    expect(refreshTokenRepository.revokeAllByUserId).not.toHaveBeenCalled();
     expect(refreshTokenRepository.create).toHaveBeenCalledWith(
       expect.objectContaining({
         jti: generatedTokens.jti,
@@ -74,6 +146,32 @@ describe('SignInUseCase', () => {
       })
     );
     expect(user.hiddenPassword).toHaveBeenCalled();
+    expect(loginThrottle.recordSuccess).toHaveBeenCalledWith(input.email);
     expect(result).toEqual({ user, tokens: generatedTokens });
   });
+
+  it('returns a two-factor challenge instead of tokens when two-factor is enabled', async () => {
+    const user = mock<IUser>();
+    user.comparePassword.mockResolvedValue(true);
+    user.isEmailVerified.mockReturnValue(true);
+    userRepository.getByEmailAnyStatus.mockResolvedValue(user);
+    const twoFactor = mock<ITwoFactor>();
+    twoFactor.isEnabled.mockReturnValue(true);
+    twoFactorRepository.findByUserId.mockResolvedValue(twoFactor);
+    const challenge = {
+      challengeToken: 'challenge-token' as TwoFactorChallengeToken,
+      expiresAt: new Date() as TwoFactorChallengeExpiresAt,
+    };
+    authTokenService.generateTwoFactorChallenge.mockResolvedValue(challenge);
+
+    const result = await useCase.execute(toInput());
+
+    expect(result).toEqual({
+      twoFactorRequired: true,
+      challengeToken: challenge.challengeToken,
+      challengeExpiresAt: challenge.expiresAt,
+    });
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+    expect(refreshTokenRepository.create).not.toHaveBeenCalled();
+  });
 });
@@ -2,14 +2,20 @@ import 'reflect-metadata';
 import { beforeEach, describe, expect, it } from 'vitest';
 import { mock, mockReset } from 'vitest-mock-extended';
 
-import { ConflictError } from '@shared/errors/error-mapper';
-import type { BUserName, IUser, UserEmail, UserPassword } from '@modules/accounts/domain/entities/user.entity';
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
+import type {
+  BUserName,
+  IUser,
+  UserEmail,
+  UserId,
+  UserPassword,
+  UserStatus,
+} from '@modules/accounts/domain/entities/user.entity';
 import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
-import type { RefreshTokenExpiresAt, RefreshTokenHash, RefreshTokenJti } from '@modules/auth/domain/entities/refresh-token.entity';
-import { AuthTokenService, GeneratedAuthTokens } from '@modules/auth/domain/ports/auth-token.service';
-import type { AccessTokenExpiresAt } from '@modules/auth/domain/ports/auth-token.service';
-import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { SendVerificationEmailUseCase } from '@modules/auth/application/use-cases/send-verification-email.usecase';
 import { SignUpUseCase } from '@modules/auth/application/use-cases/sign-up.usecase';
+import type { AuthConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { ConflictError } from '@shared/errors/error-mapper';
 
 const toUserInput = () => ({
   name: 'Jane Doe' as BUserName,
@@ -19,58 +25,82 @@ const toUserInput = () => ({
 
 describe('SignUpUseCase', () => {
   const userRepository = mock<UserRepository>();
-  const refreshTokenRepository = mock<RefreshTokenRepository>();
-  const authTokenService = mock<AuthTokenService>();
+  const sendVerificationEmail = mock<SendVerificationEmailUseCase>();
+  const authConfig = { deletedAccountSignUp: 'reject' } as AuthConfig;
 
   let useCase: SignUpUseCase;
 
   beforeEach(() => {
     mockReset(userRepository);
-    mockReset(refreshTokenRepository);
-    mockReset(authTokenService);
-    useCase = new SignUpUseCase(userRepository, refreshTokenRepository, authTokenService);
+    mockReset(sendVerificationEmail);
+    authConfig.deletedAccountSignUp = 'reject';
+    useCase = new SignUpUseCase(userRepository, sendVerificationEmail, authConfig);
   });
 
-  const generatedTokens: GeneratedAuthTokens = {
-    accessToken: 'access-token',
-    accessTokenExpiresAt: new Date() as AccessTokenExpiresAt,
-    refreshToken: 'refresh-token',
-    refreshTokenHash: 'hashed-refresh-token' as RefreshTokenHash,
-    refreshTokenExpiresAt: new Date() as RefreshTokenExpiresAt,
-    jti: 'token-jti' as RefreshTokenJti,
+  const existingUserWithStatus = (status: EUserStatus) => {
+    const user = mock<IUser>();
+    user.id = 'existing-user-id' as UserId;
+    user.status = status as UserStatus;
+    return user;
   };
 
-  it('creates a new user when email is not taken', async () => {
+  it('creates an unverified user and mails a verification link', async () => {
     const input = toUserInput();
     const createdUser = mock<IUser>();
     createdUser.hiddenPassword.mockImplementation(() => undefined);
 
-    userRepository.getByEmail.mockResolvedValue(undefined);
+    userRepository.getByEmailAnyStatus.mockResolvedValue(undefined);
     userRepository.create.mockResolvedValue(createdUser);
-    authTokenService.generateTokens.mockResolvedValue(generatedTokens);
 
     const result = await useCase.execute(input);
 
-    expect(userRepository.getByEmail).toHaveBeenCalledWith(input.email);
-    expect(userRepository.create).toHaveBeenCalledTimes(1);
-    expect(authTokenService.generateTokens).toHaveBeenCalledWith(createdUser);
-    expect(refreshTokenRepository.create).toHaveBeenCalledWith(
-      expect.objectContaining({
-        jti: generatedTokens.jti,
-        tokenHash: generatedTokens.refreshTokenHash,
-        expiresAt: generatedTokens.refreshTokenExpiresAt,
-      })
-    );
+    expect(userRepository.getByEmailAnyStatus).toHaveBeenCalledWith(input.email);
+    const [user] = userRepository.create.mock.calls[0];
+    expect(user.email).toBe(input.email);
+    expect(user.isEmailVerified()).toBe(false);
+    expect(sendVerificationEmail.execute).toHaveBeenCalledWith({ user: createdUser });
     expect(createdUser.hiddenPassword).toHaveBeenCalled();
-    expect(result).toEqual({ user: createdUser, tokens: generatedTokens });
+    expect(result).toEqual({ user: createdUser });
   });
 
-  it('throws conflict error when email already exists', async () => {
-    const existingUser = mock<IUser>();
-    userRepository.getByEmail.mockResolvedValue(existingUser);
+  it.each([EUserStatus.active, EUserStatus.inactive, EUserStatus.suspended])(
+    'throws conflict error when the email belongs to a %s account',
+    async status => {
+      userRepository.getByEmailAnyStatus.mockResolvedValue(existingUserWithStatus(status));
 
-    await expect(useCase.execute(toUserInput())).rejects.toBeInstanceOf(ConflictError);
+      await expect(useCase.execute(toUserInput())).rejects.toBeInstanceOf(ConflictError);
+      expect(userRepository.create).not.toHaveBeenCalled();
+      expect(sendVerificationEmail.execute).not.toHaveBeenCalled();
+    }
+  );
+
+  it('throws conflict error for the email of a deleted account by default', async () => {
+    userRepository.getByEmailAnyStatus.mockResolvedValue(existingUserWithStatus(EUserStatus.deleted));
+
+    await expect(useCase.execute(toUserInput())).rejects.toThrowError(new ConflictError('Email is already registered'));
+    expect(userRepository.delete).not.toHaveBeenCalled();
     expect(userRepository.create).not.toHaveBeenCalled();
-    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('replaces a deleted account when deleted account sign-up is set to replace', async () => {
+    authConfig.deletedAccountSignUp = 'replace';
+    const createdUser = mock<IUser>();
+    userRepository.getByEmailAnyStatus.mockResolvedValue(existingUserWithStatus(EUserStatus.deleted));
+    userRepository.create.mockResolvedValue(createdUser);
+
+    const result = await useCase.execute(toUserInput());
+
+    expect(userRepository.delete).toHaveBeenCalledWith('existing-user-id');
+    expect(userRepository.create).toHaveBeenCalled();
+    expect(sendVerificationEmail.execute).toHaveBeenCalledWith({ user: createdUser });
+    expect(result).toEqual({ user: createdUser });
+  });
+
+  it('does not replace an account that is only suspended', async () => {
+    authConfig.deletedAccountSignUp = 'replace';
+    userRepository.getByEmailAnyStatus.mockResolvedValue(existingUserWithStatus(EUserStatus.suspended));
+
+    await expect(useCase.execute(toUserInput())).rejects.toBeInstanceOf(ConflictError);
+    expect(userRepository.delete).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,68 @@
+import { createHash } from 'crypto';
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { IdentityProviderRegistry } from '@modules/auth/application/services/identity-provider.registry';
+import { StartOAuthSignInUseCase } from '@modules/auth/application/use-cases/start-oauth-sign-in.usecase';
+import type { IdentityProviderName } from '@modules/auth/domain/entities/user-identity.entity';
+import {
+  AuthTokenService,
+  type OAuthStateExpiresAt,
+  type OAuthStateToken,
+} from '@modules/auth/domain/ports/auth-token.service';
+import { IdentityProvider } from '@modules/auth/domain/ports/identity-provider';
+import { NotFoundError } from '@shared/errors/error-mapper';
+
+describe('StartOAuthSignInUseCase', () => {
+  const identityProvider = mock<IdentityProvider>();
+  const authTokenService = mock<AuthTokenService>();
+
+  let useCase: StartOAuthSignInUseCase;
+
+  beforeEach(() => {
+    Object.assign(identityProvider, { name: 'acme' as IdentityProviderName });
+    useCase = new StartOAuthSignInUseCase(new IdentityProviderRegistry([identityProvider]), authTokenService);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should be sign the state, nonce and PKCE verifier that the authorization URL was built with', async () => {
+    //Arrange
+    const expiresAt = new Date() as OAuthStateExpiresAt;
+    identityProvider.createAuthorizationUrl.mockResolvedValue('https://idp.example.com/authorize?state=x');
+    authTokenService.generateOAuthState.mockResolvedValue({ stateToken: 'state-token' as OAuthStateToken, expiresAt });
+
+    //Act
+    const actual = await useCase.execute({ provider: 'acme' });
+
+    //Assert
+    expect(actual).toEqual({
+      authorizationUrl: 'https://idp.example.com/authorize?state=x',
+      stateToken: 'state-token',
+      expiresAt,
+    });
+    const request = identityProvider.createAuthorizationUrl.mock.calls[0][0];
+    const signed = authTokenService.generateOAuthState.mock.calls[0][0];
+    expect(signed).toEqual({
+      provider: 'acme',
+      state: request.state,
+      nonce: request.nonce,
+      codeVerifier: expect.any(String),
+    });
+    expect(request.codeChallenge).toBe(createHash('sha256').update(signed.codeVerifier).digest('base64url'));
+    expect(signed.codeVerifier.length).toBeGreaterThanOrEqual(43);
+    expect(request.state).not.toBe(request.nonce);
+  });
+
+  it('should be throw error when the provider is not configured', async () => {
+    //Act
+    const promise = useCase.execute({ provider: 'unknown' });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new NotFoundError('Unknown identity provider'));
+    expect(authTokenService.generateOAuthState).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { EUserStatus } from '@modules/accounts/domain/entities/user-status.enum';
+import type {
+  BUserName,
+  IUser,
+  UserEmail,
+  UserId,
+  UserPassword,
+  UserStatus,
+} from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { SendVerificationEmailUseCase } from '@modules/auth/application/use-cases/send-verification-email.usecase';
+import { UpdateProfileUseCase } from '@modules/auth/application/use-cases/update-profile.usecase';
+import { ConflictError, ForbiddenError, ValidationError } from '@shared/errors/error-mapper';
+
+describe('UpdateProfileUseCase', () => {
+  const userRepository = mock<UserRepository>();
+  const sendVerificationEmailUseCase = mock<SendVerificationEmailUseCase>();
+
+  let useCase: UpdateProfileUseCase;
+
+  beforeEach(() => {
+    useCase = new UpdateProfileUseCase(userRepository, sendVerificationEmailUseCase);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = 'user-id' as UserId;
+  const newEmail = 'jane.doe@example.org' as UserEmail;
+  const currentPassword = 'CurrentPassword123' as UserPassword;
+
+  const buildUser = () => {
+    const user = mock<IUser>();
+    user.id = userId;
+    user.name = 'Jane' as BUserName;
+    user.email = 'jane@example.com' as UserEmail;
+    return user;
+  };
+
+  it('should be rename the user without touching the email address', async () => {
+    //Arrange
+    const user = buildUser();
+    userRepository.getById.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute({ userId, name: 'Jane Doe' as BUserName });
+
+    //Assert
+    expect(actual).toEqual({ user });
+    expect(user.name).toBe('Jane Doe');
+    expect(userRepository.updateName).toHaveBeenCalledWith(userId, 'Jane Doe');
+    expect(sendVerificationEmailUseCase.execute).not.toHaveBeenCalled();
+    expect(user.hiddenPassword).toHaveBeenCalled();
+  });
+
+  it('should be mail a confirmation link to a new address and keep the current one until it is used', async () => {
+    //Arrange
+    const user = buildUser();
+    user.comparePassword.mockResolvedValue(true);
+    userRepository.getById.mockResolvedValue(user);
+    userRepository.getByEmailAnyStatus.mockResolvedValue(undefined);
+
+    //Act
+    const actual = await useCase.execute({ userId, email: newEmail, currentPassword });
+
+    //Assert
+    expect(actual).toEqual({ user, pendingEmail: newEmail });
+    expect(user.email).toBe('jane@example.com');
+    expect(user.comparePassword).toHaveBeenCalledWith(currentPassword);
+    expect(sendVerificationEmailUseCase.execute).toHaveBeenCalledWith({ user, email: newEmail });
+    expect(userRepository.updateEmail).not.toHaveBeenCalled();
+  });
+
+  it('should be ignore an email equal to the current address', async () => {
+    //Arrange
+    const user = buildUser();
+    userRepository.getById.mockResolvedValue(user);
+
+    //Act
+    const actual = await useCase.execute({ userId, email: 'jane@example.com' as UserEmail });
+
+    //Assert
+    expect(actual).toEqual({ user });
+    expect(sendVerificationEmailUseCase.execute).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when changing the email without the current password', async () => {
+    //Arrange
+    userRepository.getById.mockResolvedValue(buildUser());
+
+    //Act
+    const promise = useCase.execute({ userId, name: 'Jane Doe' as BUserName, email: newEmail });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(
+      new ValidationError('Current password is required to change the email address')
+    );
+    expect(userRepository.updateName).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the current password is wrong', async () => {
+    //Arrange
+    const user = buildUser();
+    user.comparePassword.mockResolvedValue(false);
+    userRepository.getById.mockResolvedValue(user);
+
+    //Act
+    const promise = useCase.execute({ userId, email: newEmail, currentPassword });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ForbiddenError('Current password is incorrect'));
+    expect(sendVerificationEmailUseCase.execute).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the new address belongs to an account that is not active', async () => {
+    //Arrange
+    const user = buildUser();
+    user.comparePassword.mockResolvedValue(true);
+    userRepository.getById.mockResolvedValue(user);
+    userRepository.getByEmailAnyStatus.mockResolvedValue(mock<IUser>({ status: EUserStatus.suspended as UserStatus }));
+
+    //Act
+    const promise = useCase.execute({ userId, email: newEmail, currentPassword });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ConflictError('Email is already registered'));
+    expect(userRepository.getByEmailAnyStatus).toHaveBeenCalledWith(newEmail);
+  });
+
+  it('should be throw error when the new address is already registered', async () => {
+    //Arrange
+    const user = buildUser();
+    user.comparePassword.mockResolvedValue(true);
+    userRepository.getById.mockResolvedValue(user);
+    userRepository.getByEmailAnyStatus.mockResolvedValue(mock<IUser>());
+
+    //Act
+    const promise = useCase.execute({ userId, email: newEmail, currentPassword });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ConflictError('Email is already registered'));
+    expect(sendVerificationEmailUseCase.execute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import type { IUser, UserEmail, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { VerifyEmailUseCase } from '@modules/auth/application/use-cases/verify-email.usecase';
+import {
+  ESingleUseTokenPurpose,
+  SingleUseToken,
+  type SingleUseTokenConsumedAt,
+  type SingleUseTokenExpiresAt,
+  type SingleUseTokenId,
+  type SingleUseTokenPlain,
+} from '@modules/auth/domain/entities/single-use-token.entity';
+import { SingleUseTokenRepository } from '@modules/auth/domain/ports/single-use-token.repository';
+import { ConflictError, ValidationError } from '@shared/errors/error-mapper';
+import { hashOpaqueToken } from '@shared/utils/opaque-token.util';
+
+describe('VerifyEmailUseCase', () => {
+  const singleUseTokenRepository = mock<SingleUseTokenRepository>();
+  const userRepository = mock<UserRepository>();
+
+  let useCase: VerifyEmailUseCase;
+
+  beforeEach(() => {
+    useCase = new VerifyEmailUseCase(singleUseTokenRepository, userRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const token = 'verification-token' as SingleUseTokenPlain;
+  const buildStoredToken = () =>
+    Builder(SingleUseToken)
+      .id(faker.string.uuid() as SingleUseTokenId)
+      .purpose(ESingleUseTokenPurpose.emailVerification)
+      .userId(faker.string.uuid() as UserId)
+      .expiresAt(faker.date.future() as SingleUseTokenExpiresAt)
+      .build();
+
+  it('should be throw error when the token is unknown', async () => {
+    //Arrange
+    singleUseTokenRepository.findByTokenHash.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({ token });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ValidationError('Invalid or expired verification token'));
+    expect(singleUseTokenRepository.findByTokenHash).toHaveBeenCalledWith(
+      ESingleUseTokenPurpose.emailVerification,
+      hashOpaqueToken(token)
+    );
+    expect(userRepository.markEmailVerified).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the token has expired', async () => {
+    //Arrange
+    const storedToken = buildStoredToken();
+    storedToken.expiresAt = faker.date.past() as SingleUseTokenExpiresAt;
+    singleUseTokenRepository.findByTokenHash.mockResolvedValue(storedToken);
+
+    //Act
+    const promise = useCase.execute({ token });
+
+    //Assert
+    await expect(promise).rejects.toBeInstanceOf(ValidationError);
+    expect(userRepository.markEmailVerified).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the token was already used', async () => {
+    //Arrange
+    const storedToken = buildStoredToken();
+    storedToken.consumedAt = faker.date.recent() as SingleUseTokenConsumedAt;
+    singleUseTokenRepository.findByTokenHash.mockResolvedValue(storedToken);
+
+    //Act
+    const promise = useCase.execute({ token });
+
+    //Assert
+    await expect(promise).rejects.toBeInstanceOf(ValidationError);
+    expect(singleUseTokenRepository.markConsumed).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when a concurrent request consumed the token first', async () => {
+    //Arrange
+    singleUseTokenRepository.findByTokenHash.mockResolvedValue(buildStoredToken());
+    singleUseTokenRepository.markConsumed.mockResolvedValue(false);
+
+    //Act
+    const promise = useCase.execute({ token });
+
+    //Assert
+    await expect(promise).rejects.toBeInstanceOf(ValidationError);
+    expect(userRepository.markEmailVerified).not.toHaveBeenCalled();
+  });
+
+  it('should be consume the token and mark the email as verified', async () => {
+    //Arrange
+    const storedToken = buildStoredToken();
+    singleUseTokenRepository.findByTokenHash.mockResolvedValue(storedToken);
+    singleUseTokenRepository.markConsumed.mockResolvedValue(true);
+
+    //Act
+    const actual = await useCase.execute({ token });
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(singleUseTokenRepository.markConsumed).toHaveBeenCalledWith(storedToken.id, expect.any(Date));
+    expect(userRepository.markEmailVerified).toHaveBeenCalledWith(storedToken.userId, expect.any(Date));
+  });
+
+  it('should be replace the email address when the token confirms an email change', async () => {
+    //Arrange
+    const storedToken = buildStoredToken();
+    storedToken.email = 'new@example.com' as UserEmail;
+    singleUseTokenRepository.findByTokenHash.mockResolvedValue(storedToken);
+    singleUseTokenRepository.markConsumed.mockResolvedValue(true);
+    userRepository.getByEmailAnyStatus.mockResolvedValue(undefined);
+
+    //Act
+    const actual = await useCase.execute({ token });
+
+    //Assert
+    expect(actual).toEqual({ success: true });
+    expect(userRepository.updateEmail).toHaveBeenCalledWith(storedToken.userId, 'new@example.com', expect.any(Date));
+    expect(userRepository.markEmailVerified).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the new address was registered after the change was requested', async () => {
+    //Arrange
+    const storedToken = buildStoredToken();
+    storedToken.email = 'new@example.com' as UserEmail;
+    singleUseTokenRepository.findByTokenHash.mockResolvedValue(storedToken);
+    userRepository.getByEmailAnyStatus.mockResolvedValue(mock<IUser>({ id: faker.string.uuid() as UserId }));
+
+    //Act
+    const promise = useCase.execute({ token });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ConflictError('Email is already registered'));
+    expect(singleUseTokenRepository.markConsumed).not.toHaveBeenCalled();
+    expect(userRepository.updateEmail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,230 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { IUser, UserId } from '@modules/accounts/domain/entities/user.entity';
+import { UserRepository } from '@modules/accounts/domain/ports/user.repository';
+import { LoginThrottleService } from '@modules/auth/application/services/login-throttle.service';
+import { VerifyTwoFactorUseCase } from '@modules/auth/application/use-cases/verify-two-factor.usecase';
+import type {
+  RefreshTokenExpiresAt,
+  RefreshTokenHash,
+  RefreshTokenJti,
+} from '@modules/auth/domain/entities/refresh-token.entity';
+import type {
+  IRecoveryCode,
+  ITwoFactor,
+  RecoveryCodeId,
+  TwoFactorChallengeJti,
+  TwoFactorChallengeToken,
+  TwoFactorCode,
+  TwoFactorSecret,
+} from '@modules/auth/domain/entities/two-factor.entity';
+import {
+  type AccessTokenExpiresAt,
+  AuthTokenService,
+  type TwoFactorChallengeExpiresAt,
+} from '@modules/auth/domain/ports/auth-token.service';
+import { RefreshTokenRepository } from '@modules/auth/domain/ports/refresh-token.repository';
+import { TwoFactorRepository } from '@modules/auth/domain/ports/two-factor.repository';
+import { TooManyRequestsError, UnauthorizedError } from '@shared/errors/error-mapper';
+import { generateTotp, generateTotpSecret } from '@shared/utils/totp.util';
+
+describe('VerifyTwoFactorUseCase', () => {
+  const userRepository = mock<UserRepository>();
+  const refreshTokenRepository = mock<RefreshTokenRepository>();
+  const authTokenService = mock<AuthTokenService>();
+  const twoFactorRepository = mock<TwoFactorRepository>();
+  const loginThrottle = mock<LoginThrottleService>();
+
+  let useCase: VerifyTwoFactorUseCase;
+
+  beforeEach(() => {
+    useCase = new VerifyTwoFactorUseCase(
+      userRepository,
+      refreshTokenRepository,
+      authTokenService,
+      twoFactorRepository,
+      loginThrottle
+    );
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const userId = 'user-id' as UserId;
+  const secret = generateTotpSecret() as TwoFactorSecret;
+  const challengeToken = 'challenge-token' as TwoFactorChallengeToken;
+  const challenge = {
+    userId,
+    jti: 'challenge-jti' as TwoFactorChallengeJti,
+    expiresAt: new Date(Date.now() + 5 * 60 * 1000) as TwoFactorChallengeExpiresAt,
+  };
+  const generatedTokens = {
+    accessToken: 'access-token',
+    accessTokenExpiresAt: new Date() as AccessTokenExpiresAt,
+    refreshToken: 'refresh-token',
+    refreshTokenHash: 'hashed-refresh-token' as RefreshTokenHash,
+    refreshTokenExpiresAt: new Date() as RefreshTokenExpiresAt,
+    jti: 'token-jti' as RefreshTokenJti,
+  };
+
+  const arrangeChallenge = () => {
+    const user = mock<IUser>();
+    user.id = userId;
+    user.hiddenPassword.mockImplementation(() => undefined);
+    authTokenService.verifyTwoFactorChallenge.mockResolvedValue(challenge);
+    userRepository.getByIdAnyStatus.mockResolvedValue(user);
+    const twoFactor = mock<ITwoFactor>();
+    twoFactor.secret = secret;
+    twoFactor.isEnabled.mockReturnValue(true);
+    twoFactorRepository.findByUserId.mockResolvedValue(twoFactor);
+    twoFactorRepository.recordUsedChallenge.mockResolvedValue(true);
+    authTokenService.generateTokens.mockResolvedValue(generatedTokens);
+    return user;
+  };
+
+  it('should be throw error when the challenge token is invalid', async () => {
+    //Arrange
+    authTokenService.verifyTwoFactorChallenge.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({ challengeToken, code: '123456' as TwoFactorCode });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Invalid or expired two-factor challenge'));
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('should be issue tokens when the authenticator code is valid', async () => {
+    //Arrange
+    const user = arrangeChallenge();
+    twoFactorRepository.recordUsedStep.mockResolvedValue(true);
+    const code = generateTotp(secret, new Date()) as TwoFactorCode;
+
+    //Act
+    const actual = await useCase.execute({ challengeToken, code });
+
+    //Assert
+    expect(actual).toEqual({ user, tokens: generatedTokens });
+    expect(twoFactorRepository.recordUsedStep).toHaveBeenCalledWith(userId, expect.any(Number));
+    expect(twoFactorRepository.recordUsedChallenge).toHaveBeenCalledWith(challenge.jti, challenge.expiresAt);
+    expect(refreshTokenRepository.create).toHaveBeenCalled();
+    expect(loginThrottle.recordTwoFactorSuccess).toHaveBeenCalledWith(userId);
+  });
+
+  it('should be throw error when the challenge token was already redeemed', async () => {
+    //Arrange
+    arrangeChallenge();
+    twoFactorRepository.recordUsedStep.mockResolvedValue(true);
+    twoFactorRepository.recordUsedChallenge.mockResolvedValue(false);
+    const code = generateTotp(secret, new Date()) as TwoFactorCode;
+
+    //Act
+    const promise = useCase.execute({ challengeToken, code });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Two-factor challenge has already been used'));
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+    expect(loginThrottle.recordTwoFactorSuccess).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the authenticator code was already used', async () => {
+    //Arrange
+    arrangeChallenge();
+    twoFactorRepository.recordUsedStep.mockResolvedValue(false);
+    const code = generateTotp(secret, new Date()) as TwoFactorCode;
+
+    //Act
+    const promise = useCase.execute({ challengeToken, code });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Invalid two-factor code'));
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+    expect(twoFactorRepository.recordUsedChallenge).not.toHaveBeenCalled();
+    expect(loginThrottle.recordTwoFactorFailure).toHaveBeenCalledWith(userId);
+  });
+
+  it('should be throw too many requests before checking the code when the user is locked', async () => {
+    //Arrange
+    arrangeChallenge();
+    const errorExpected = new TooManyRequestsError('Too many failed two-factor attempts, try again later', 60);
+    loginThrottle.assertTwoFactorNotLocked.mockRejectedValue(errorExpected);
+
+    //Act
+    const promise = useCase.execute({ challengeToken, code: '123456' as TwoFactorCode });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(loginThrottle.assertTwoFactorNotLocked).toHaveBeenCalledWith(userId);
+    expect(twoFactorRepository.findByUserId).not.toHaveBeenCalled();
+    expect(loginThrottle.recordTwoFactorFailure).not.toHaveBeenCalled();
+  });
+
+  const arrangeRecoveryCodes = (matchingCode?: string) => {
+    const recoveryCodes = ['recovery-code-1', 'recovery-code-2'].map(id => {
+      const recoveryCode = mock<IRecoveryCode>();
+      recoveryCode.id = id as RecoveryCodeId;
+      recoveryCode.compareCode.mockImplementation(async code => id === 'recovery-code-2' && code === matchingCode);
+      return recoveryCode;
+    });
+    twoFactorRepository.findUnusedRecoveryCodes.mockResolvedValue(recoveryCodes);
+  };
+
+  it('should be issue tokens when an unused recovery code is given', async () => {
+    //Arrange
+    arrangeChallenge();
+    arrangeRecoveryCodes('abcd-efgh-ijkl-mnop');
+    twoFactorRepository.markRecoveryCodeUsed.mockResolvedValue(true);
+
+    //Act
+    await useCase.execute({ challengeToken, code: 'abcd-efgh-ijkl-mnop' as TwoFactorCode });
+
+    //Assert
+    expect(twoFactorRepository.findUnusedRecoveryCodes).toHaveBeenCalledWith(userId);
+    expect(twoFactorRepository.markRecoveryCodeUsed).toHaveBeenCalledWith('recovery-code-2', expect.any(Date));
+    expect(twoFactorRepository.recordUsedStep).not.toHaveBeenCalled();
+    expect(authTokenService.generateTokens).toHaveBeenCalled();
+  });
+
+  it('should be throw error when no unused recovery code matches', async () => {
+    //Arrange
+    arrangeChallenge();
+    arrangeRecoveryCodes();
+
+    //Act
+    const promise = useCase.execute({ challengeToken, code: 'abcd-efgh-ijkl-mnop' as TwoFactorCode });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Invalid two-factor code'));
+    expect(twoFactorRepository.markRecoveryCodeUsed).not.toHaveBeenCalled();
+    expect(loginThrottle.recordTwoFactorFailure).toHaveBeenCalledWith(userId);
+  });
+
+  it('should be throw error when the matching recovery code was used concurrently', async () => {
+    //Arrange
+    arrangeChallenge();
+    arrangeRecoveryCodes('abcd-efgh-ijkl-mnop');
+    twoFactorRepository.markRecoveryCodeUsed.mockResolvedValue(false);
+
+    //Act
+    const promise = useCase.execute({ challengeToken, code: 'abcd-efgh-ijkl-mnop' as TwoFactorCode });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Invalid two-factor code'));
+    expect(authTokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when two-factor is no longer enabled', async () => {
+    //Arrange
+    arrangeChallenge();
+    twoFactorRepository.findByUserId.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({ challengeToken, code: '123456' as TwoFactorCode });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new UnauthorizedError('Invalid two-factor code'));
+  });
+});
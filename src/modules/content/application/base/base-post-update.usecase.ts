@@ -0,0 +1,80 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { inject } from 'tsyringe';
+
+import type { Permission } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { PostRevision } from '@modules/content/domain/entities/post-revision.entity';
+import type { IPost, PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ContentModuleTokens } from '@modules/content/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { ForbiddenError, NotFoundError, PreconditionFailedError } from '@shared/errors/error-mapper';
+
+export interface PostEditor {
+  actorId: UserId;
+  actorPermissions: readonly Permission[];
+  /** Version the client last saw; `undefined` skips the check (`If-Match: *`). */
+  expectedVersion?: PostVersion;
+}
+
+export abstract class BasePostUpdateUseCase<Input, Output> implements IUseCase<Input, Output> {
+  constructor(
+    @inject(ContentModuleTokens.PostRepository)
+    protected readonly postRepository: PostRepository,
+    @inject(ContentModuleTokens.PostRevisionRepository)
+    protected readonly postRevisionRepository: PostRevisionRepository
+  ) {}
+
+  abstract execute(input: Input): Promise<Output>;
+
+  protected async getEditablePost(id: PostId, editor: PostEditor): Promise<IPost> {
+    const post = await this.postRepository.getById(id);
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+
+    if (!post.canBeModifiedBy(editor.actorId, editor.actorPermissions)) {
+      throw new ForbiddenError('You are not allowed to update this post');
+    }
+
+    if (editor.expectedVersion !== undefined && post.version !== editor.expectedVersion) {
+      throw new PreconditionFailedError('Post has been modified since it was last read');
+    }
+
+    return post;
+  }
+
+  /**
+   * Writes `changes` over `current` and keeps `current` as a revision, both or neither. The update is guarded on
+   * the version that was read, so a concurrent write between the read and the update is also caught.
+   */
+  protected async applyUpdate(current: IPost, changes: IPost, editedBy: UserId): Promise<IPost> {
+    const revision = Builder(PostRevision)
+      .postId(current.id)
+      .version(current.version)
+      .title(current.title)
+      .content(current.content)
+      .status(current.status)
+      .editedBy(editedBy)
+      .build();
+
+    const updatedPost = await this.postRepository.updateById(changes, current.version, revision);
+    if (!updatedPost) {
+      throw new PreconditionFailedError('Post has been modified since it was last read');
+    }
+
+    return updatedPost;
+  }
+
+  /** Saves a lifecycle transition already applied to `post`, guarded on the version it was loaded with. */
+  protected async savePublication(post: IPost): Promise<IPost> {
+    const updatedPost = await this.postRepository.updatePublicationById(post, post.version);
+    if (!updatedPost) {
+      throw new PreconditionFailedError('Post has been modified since it was last read');
+    }
+
+    return updatedPost;
+  }
+}
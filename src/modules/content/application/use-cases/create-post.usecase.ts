@@ -2,6 +2,7 @@ import { Builder } from 'builder-pattern';
 import dayjs from 'dayjs';
 import { inject, injectable } from 'tsyringe';
 
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
 import { ContentModuleTokens } from '@modules/content/module.tokens';
 import {
   type IPost,
@@ -19,6 +20,7 @@ import type { IUseCase } from '@shared/application/use-case';
 export interface CreatePostInput {
   title: PostTitle;
   content: PostContent;
+  authorId: UserId;
 }
 
 @injectable()
@@ -29,11 +31,12 @@ export class CreatePostUseCase implements IUseCase<CreatePostInput, IPost> {
   ) {}
 
   async execute(input: CreatePostInput): Promise<IPost> {
-    const { title, content } = input;
+    const { title, content, authorId } = input;
 
     const post = Builder(Post)
       .title(title)
       .content(content)
+      .authorId(authorId)
       .createdAt(dayjs().toDate() as PostCreatedAt)
       .updatedAt(dayjs().toDate() as PostUpdatedAt)
       .status(EStatus.active as PostStatus)
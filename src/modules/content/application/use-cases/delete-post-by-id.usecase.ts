@@ -1,25 +1,46 @@
 import { inject, injectable } from 'tsyringe';
 
+import type { Permission } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
 import { ContentModuleTokens } from '@modules/content/module.tokens';
 import { PostRepository } from '@modules/content/domain/ports/post.repository';
-import type { PostId } from '@modules/content/domain/entities/post.entity';
-import { NotFoundError } from '@shared/errors/error-mapper';
+import type { PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
+import { ForbiddenError, NotFoundError, PreconditionFailedError } from '@shared/errors/error-mapper';
 import type { IUseCase } from '@shared/application/use-case';
 
+export interface DeletePostByIdInput {
+  id: PostId;
+  actorId: UserId;
+  actorPermissions: readonly Permission[];
+  /** Version the client last saw; `undefined` skips the check (`If-Match: *`). */
+  expectedVersion?: PostVersion;
+}
+
 @injectable()
-export class DeletePostByIdUseCase implements IUseCase<PostId, void> {
+export class DeletePostByIdUseCase implements IUseCase<DeletePostByIdInput, void> {
   constructor(
     @inject(ContentModuleTokens.PostRepository)
     private readonly postRepository: PostRepository
   ) {}
 
-  async execute(input: PostId): Promise<void> {
-    const postExist = await this.postRepository.getById(input);
+  async execute(input: DeletePostByIdInput): Promise<void> {
+    const postExist = await this.postRepository.getById(input.id);
 
     if (!postExist) {
       throw new NotFoundError('Post not found');
     }
 
-    await this.postRepository.deleteById(input);
+    if (!postExist.canBeModifiedBy(input.actorId, input.actorPermissions)) {
+      throw new ForbiddenError('You are not allowed to delete this post');
+    }
+
+    if (input.expectedVersion !== undefined && postExist.version !== input.expectedVersion) {
+      throw new PreconditionFailedError('Post has been modified since it was last read');
+    }
+
+    const deleted = await this.postRepository.deleteById(input.id, postExist.version);
+    if (!deleted) {
+      throw new PreconditionFailedError('Post has been modified since it was last read');
+    }
   }
 }
@@ -1,5 +1,7 @@
 import { inject, injectable } from 'tsyringe';
 
+import { type Permission, Permissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
 import { ContentModuleTokens } from '@modules/content/module.tokens';
 import {
   type GetAllPostsQuery,
@@ -8,14 +10,24 @@ import {
 } from '@modules/content/domain/ports/post.repository';
 import type { IUseCase } from '@shared/application/use-case';
 
+export interface GetAllPostsInput extends Omit<GetAllPostsQuery, 'visibleTo'> {
+  actorId: UserId;
+  actorPermissions: readonly Permission[];
+}
+
 @injectable()
-export class GetAllPostsUseCase implements IUseCase<GetAllPostsQuery, GetAllPostsReturnType> {
+export class GetAllPostsUseCase implements IUseCase<GetAllPostsInput, GetAllPostsReturnType> {
   constructor(
     @inject(ContentModuleTokens.PostRepository)
     private readonly postRepository: PostRepository
   ) {}
 
-  async execute(query: GetAllPostsQuery): Promise<GetAllPostsReturnType> {
-    return this.postRepository.getAll(query);
+  async execute(input: GetAllPostsInput): Promise<GetAllPostsReturnType> {
+    const { actorId, actorPermissions, ...query } = input;
+
+    // Moderators see every post; everyone else sees published posts and their own drafts.
+    const canManageAny = actorPermissions.includes(Permissions.PostsManageAny);
+
+    return this.postRepository.getAll({ ...query, visibleTo: canManageAny ? undefined : actorId });
   }
 }
@@ -1,20 +1,33 @@
 import { inject, injectable } from 'tsyringe';
 
+import { type Permission, Permissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
 import { ContentModuleTokens } from '@modules/content/module.tokens';
 import type { IPost, PostId } from '@modules/content/domain/entities/post.entity';
 import { PostRepository } from '@modules/content/domain/ports/post.repository';
 import { NotFoundError } from '@shared/errors/error-mapper';
 import type { IUseCase } from '@shared/application/use-case';
 
+export interface GetPostByIdInput {
+  id: PostId;
+  actorId: UserId;
+  actorPermissions: readonly Permission[];
+}
+
 @injectable()
-export class GetPostByIdUseCase implements IUseCase<PostId, IPost> {
+export class GetPostByIdUseCase implements IUseCase<GetPostByIdInput, IPost> {
   constructor(
     @inject(ContentModuleTokens.PostRepository)
     private readonly postRepository: PostRepository
   ) {}
 
-  async execute(postId: PostId): Promise<IPost> {
-    const post = await this.postRepository.getById(postId);
+  async execute(input: GetPostByIdInput): Promise<IPost> {
+    const { id, actorId, actorPermissions } = input;
+
+    // Unpublished posts are only visible to their author and to moderators; to anyone else they do not exist.
+    const canManageAny = actorPermissions.includes(Permissions.PostsManageAny);
+
+    const post = await this.postRepository.getById(id, canManageAny ? undefined : actorId);
     if (!post) {
       throw new NotFoundError('Post not found');
     }
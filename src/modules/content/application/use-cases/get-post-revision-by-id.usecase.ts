@@ -0,0 +1,46 @@
+import { inject, injectable } from 'tsyringe';
+
+import type { Permission } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type { IPostRevision, PostRevisionId } from '@modules/content/domain/entities/post-revision.entity';
+import type { PostId } from '@modules/content/domain/entities/post.entity';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ContentModuleTokens } from '@modules/content/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { ForbiddenError, NotFoundError } from '@shared/errors/error-mapper';
+
+export interface GetPostRevisionByIdInput {
+  postId: PostId;
+  revisionId: PostRevisionId;
+  actorId: UserId;
+  actorPermissions: readonly Permission[];
+}
+
+@injectable()
+export class GetPostRevisionByIdUseCase implements IUseCase<GetPostRevisionByIdInput, IPostRevision> {
+  constructor(
+    @inject(ContentModuleTokens.PostRepository)
+    private readonly postRepository: PostRepository,
+    @inject(ContentModuleTokens.PostRevisionRepository)
+    private readonly postRevisionRepository: PostRevisionRepository
+  ) {}
+
+  async execute(input: GetPostRevisionByIdInput): Promise<IPostRevision> {
+    const post = await this.postRepository.getById(input.postId);
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+
+    if (!post.canBeModifiedBy(input.actorId, input.actorPermissions)) {
+      throw new ForbiddenError('You are not allowed to view revisions of this post');
+    }
+
+    const revision = await this.postRevisionRepository.getById(input.postId, input.revisionId);
+    if (!revision) {
+      throw new NotFoundError('Post revision not found');
+    }
+
+    return revision;
+  }
+}
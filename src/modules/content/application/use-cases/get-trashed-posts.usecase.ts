@@ -0,0 +1,31 @@
+import { inject, injectable } from 'tsyringe';
+
+import { type Permission, Permissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { type GetAllPostsReturnType, PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ContentModuleTokens } from '@modules/content/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+
+export interface GetTrashedPostsInput {
+  page?: number;
+  limit?: number;
+  actorId: UserId;
+  actorPermissions: readonly Permission[];
+}
+
+@injectable()
+export class GetTrashedPostsUseCase implements IUseCase<GetTrashedPostsInput, GetAllPostsReturnType> {
+  constructor(
+    @inject(ContentModuleTokens.PostRepository)
+    private readonly postRepository: PostRepository
+  ) {}
+
+  async execute(input: GetTrashedPostsInput): Promise<GetAllPostsReturnType> {
+    const { page, limit, actorId, actorPermissions } = input;
+
+    // Moderators manage every post, so they see the whole trash; everyone else only sees their own posts.
+    const canManageAny = actorPermissions.includes(Permissions.PostsManageAny);
+
+    return this.postRepository.getAllDeleted({ page, limit, authorId: canManageAny ? undefined : actorId });
+  }
+}
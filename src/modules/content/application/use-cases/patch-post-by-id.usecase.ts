@@ -0,0 +1,95 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import {
+  EDITABLE_POST_STATUSES,
+  type IPost,
+  POST_TITLE_MAX_LENGTH,
+  type PostContent,
+  type PostId,
+  type PostStatus,
+  type PostTitle,
+} from '@modules/content/domain/entities/post.entity';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ContentModuleTokens } from '@modules/content/module.tokens';
+import { ValidationError } from '@shared/errors/error-mapper';
+import { applyJsonPatch, applyMergePatch, type JsonValue, type PatchFormat } from '@shared/utils/json-patch.util';
+
+import { BasePostUpdateUseCase, type PostEditor } from '../base/base-post-update.usecase';
+
+const PATCHABLE_FIELDS = ['title', 'content', 'status'] as const;
+
+export interface PostPatch {
+  format: PatchFormat;
+  document: unknown;
+}
+
+export interface PatchPostByIdInput extends PostEditor {
+  id: PostId;
+  patch: PostPatch;
+}
+
+@injectable()
+export class PatchPostByIdUseCase extends BasePostUpdateUseCase<PatchPostByIdInput, IPost> {
+  constructor(
+    @inject(ContentModuleTokens.PostRepository)
+    protected readonly postRepository: PostRepository,
+    @inject(ContentModuleTokens.PostRevisionRepository)
+    protected readonly postRevisionRepository: PostRevisionRepository
+  ) {
+    super(postRepository, postRevisionRepository);
+  }
+
+  async execute(input: PatchPostByIdInput): Promise<IPost> {
+    const { id, patch, actorId } = input;
+
+    const postExist = await this.getEditablePost(id, input);
+    const document: JsonValue = {
+      title: postExist.title,
+      content: postExist.content,
+      status: postExist.status,
+    };
+
+    const patched =
+      patch.format === 'json-patch'
+        ? applyJsonPatch(document, patch.document)
+        : applyMergePatch(document, patch.document);
+
+    return this.applyUpdate(postExist, this.toPost(id, patched), actorId);
+  }
+
+  /**
+   * Validates the patched document as a whole, so a patch can only produce a post that a full update could
+   * also have produced.
+   */
+  private toPost(id: PostId, patched: JsonValue): IPost {
+    if (typeof patched !== 'object' || patched === null || Array.isArray(patched)) {
+      throw new ValidationError('Patched post must be an object');
+    }
+
+    const unknownField = Object.keys(patched).find(key => !(PATCHABLE_FIELDS as readonly string[]).includes(key));
+    if (unknownField) {
+      throw new ValidationError(`Field "${unknownField}" cannot be patched`);
+    }
+
+    const { title, content, status } = patched;
+    if (typeof title !== 'string' || title.length < 1 || title.length > POST_TITLE_MAX_LENGTH) {
+      throw new ValidationError(`Title must be a string of 1 to ${POST_TITLE_MAX_LENGTH} characters`);
+    }
+    if (typeof content !== 'string' || content.length < 1) {
+      throw new ValidationError('Content must be a non-empty string');
+    }
+    if (typeof status !== 'string' || !(EDITABLE_POST_STATUSES as readonly string[]).includes(status)) {
+      throw new ValidationError(`Status must be one of: ${EDITABLE_POST_STATUSES.join(', ')}`);
+    }
+
+    return Builder<IPost>()
+      .id(id)
+      .title(title as PostTitle)
+      .content(content as PostContent)
+      .status(status as PostStatus)
+      .build();
+  }
+}
@@ -0,0 +1,27 @@
+import { inject, injectable } from 'tsyringe';
+
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ContentModuleTokens } from '@modules/content/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+
+export interface PublishDuePostsInput {
+  /** Scheduled posts whose `publishAt` is at or before this instant are published. */
+  now: Date;
+}
+
+export interface PublishDuePostsOutput {
+  published: number;
+}
+
+@injectable()
+export class PublishDuePostsUseCase implements IUseCase<PublishDuePostsInput, PublishDuePostsOutput> {
+  constructor(
+    @inject(ContentModuleTokens.PostRepository)
+    private readonly postRepository: PostRepository
+  ) {}
+
+  async execute(input: PublishDuePostsInput): Promise<PublishDuePostsOutput> {
+    const published = await this.postRepository.publishDue(input.now);
+    return { published };
+  }
+}
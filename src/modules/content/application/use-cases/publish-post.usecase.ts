@@ -0,0 +1,32 @@
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { IPost, PostId } from '@modules/content/domain/entities/post.entity';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ContentModuleTokens } from '@modules/content/module.tokens';
+
+import { BasePostUpdateUseCase, type PostEditor } from '../base/base-post-update.usecase';
+
+export interface PublishPostInput extends PostEditor {
+  id: PostId;
+}
+
+@injectable()
+export class PublishPostUseCase extends BasePostUpdateUseCase<PublishPostInput, IPost> {
+  constructor(
+    @inject(ContentModuleTokens.PostRepository)
+    protected readonly postRepository: PostRepository,
+    @inject(ContentModuleTokens.PostRevisionRepository)
+    protected readonly postRevisionRepository: PostRevisionRepository
+  ) {
+    super(postRepository, postRevisionRepository);
+  }
+
+  async execute(input: PublishPostInput): Promise<IPost> {
+    const post = await this.getEditablePost(input.id, input);
+    post.publish(new Date());
+
+    return this.savePublication(post);
+  }
+}
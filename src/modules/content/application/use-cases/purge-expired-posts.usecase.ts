@@ -0,0 +1,27 @@
+import { inject, injectable } from 'tsyringe';
+
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ContentModuleTokens } from '@modules/content/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+
+export interface PurgeExpiredPostsInput {
+  /** Posts deleted before this instant are removed for good. */
+  cutoff: Date;
+}
+
+export interface PurgeExpiredPostsOutput {
+  purged: number;
+}
+
+@injectable()
+export class PurgeExpiredPostsUseCase implements IUseCase<PurgeExpiredPostsInput, PurgeExpiredPostsOutput> {
+  constructor(
+    @inject(ContentModuleTokens.PostRepository)
+    private readonly postRepository: PostRepository
+  ) {}
+
+  async execute(input: PurgeExpiredPostsInput): Promise<PurgeExpiredPostsOutput> {
+    const purged = await this.postRepository.purgeDeletedBefore(input.cutoff);
+    return { purged };
+  }
+}
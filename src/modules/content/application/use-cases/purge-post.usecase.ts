@@ -0,0 +1,42 @@
+import { inject, injectable } from 'tsyringe';
+
+import type { Permission } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type { PostId } from '@modules/content/domain/entities/post.entity';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ContentModuleTokens } from '@modules/content/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { ForbiddenError, NotFoundError } from '@shared/errors/error-mapper';
+
+export interface PurgePostInput {
+  id: PostId;
+  actorId: UserId;
+  actorPermissions: readonly Permission[];
+}
+
+/**
+ * Permanently removes a post that is already in the trash, together with its revisions.
+ */
+@injectable()
+export class PurgePostUseCase implements IUseCase<PurgePostInput, void> {
+  constructor(
+    @inject(ContentModuleTokens.PostRepository)
+    private readonly postRepository: PostRepository
+  ) {}
+
+  async execute(input: PurgePostInput): Promise<void> {
+    const deletedPost = await this.postRepository.getDeletedById(input.id);
+    if (!deletedPost) {
+      throw new NotFoundError('Post not found in trash');
+    }
+
+    if (!deletedPost.canBeModifiedBy(input.actorId, input.actorPermissions)) {
+      throw new ForbiddenError('You are not allowed to purge this post');
+    }
+
+    const purged = await this.postRepository.purgeById(input.id);
+    if (!purged) {
+      throw new NotFoundError('Post not found in trash');
+    }
+  }
+}
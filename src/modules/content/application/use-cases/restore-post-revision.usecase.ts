@@ -0,0 +1,53 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { PostRevisionId } from '@modules/content/domain/entities/post-revision.entity';
+import { type IPost, Post, type PostId } from '@modules/content/domain/entities/post.entity';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ContentModuleTokens } from '@modules/content/module.tokens';
+import { NotFoundError } from '@shared/errors/error-mapper';
+
+import { BasePostUpdateUseCase, type PostEditor } from '../base/base-post-update.usecase';
+
+export interface RestorePostRevisionInput extends PostEditor {
+  postId: PostId;
+  revisionId: PostRevisionId;
+}
+
+/**
+ * Rolls a post back to a revision. The restore is a regular edit, so the content it replaces becomes a
+ * revision too and the restore itself can be undone.
+ */
+@injectable()
+export class RestorePostRevisionUseCase extends BasePostUpdateUseCase<RestorePostRevisionInput, IPost> {
+  constructor(
+    @inject(ContentModuleTokens.PostRepository)
+    protected readonly postRepository: PostRepository,
+    @inject(ContentModuleTokens.PostRevisionRepository)
+    protected readonly postRevisionRepository: PostRevisionRepository
+  ) {
+    super(postRepository, postRevisionRepository);
+  }
+
+  async execute(input: RestorePostRevisionInput): Promise<IPost> {
+    const { postId, revisionId, actorId } = input;
+
+    const post = await this.getEditablePost(postId, input);
+
+    const revision = await this.postRevisionRepository.getById(postId, revisionId);
+    if (!revision) {
+      throw new NotFoundError('Post revision not found');
+    }
+
+    const changes = Builder(Post)
+      .id(postId)
+      .title(revision.title)
+      .content(revision.content)
+      .status(revision.status)
+      .build();
+
+    return this.applyUpdate(post, changes, actorId);
+  }
+}
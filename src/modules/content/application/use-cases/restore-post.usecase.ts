@@ -0,0 +1,41 @@
+import { inject, injectable } from 'tsyringe';
+
+import type { Permission } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type { IPost, PostId } from '@modules/content/domain/entities/post.entity';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ContentModuleTokens } from '@modules/content/module.tokens';
+import type { IUseCase } from '@shared/application/use-case';
+import { ForbiddenError, NotFoundError } from '@shared/errors/error-mapper';
+
+export interface RestorePostInput {
+  id: PostId;
+  actorId: UserId;
+  actorPermissions: readonly Permission[];
+}
+
+@injectable()
+export class RestorePostUseCase implements IUseCase<RestorePostInput, IPost> {
+  constructor(
+    @inject(ContentModuleTokens.PostRepository)
+    private readonly postRepository: PostRepository
+  ) {}
+
+  async execute(input: RestorePostInput): Promise<IPost> {
+    const deletedPost = await this.postRepository.getDeletedById(input.id);
+    if (!deletedPost) {
+      throw new NotFoundError('Post not found in trash');
+    }
+
+    if (!deletedPost.canBeModifiedBy(input.actorId, input.actorPermissions)) {
+      throw new ForbiddenError('You are not allowed to restore this post');
+    }
+
+    const restoredPost = await this.postRepository.restoreById(input.id);
+    if (!restoredPost) {
+      throw new NotFoundError('Post not found in trash');
+    }
+
+    return restoredPost;
+  }
+}
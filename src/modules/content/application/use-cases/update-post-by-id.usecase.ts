@@ -1,24 +1,39 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
 import { inject, injectable } from 'tsyringe';
 
 import { ContentModuleTokens } from '@modules/content/module.tokens';
 import type { IPost } from '@modules/content/domain/entities/post.entity';
 import { PostRepository } from '@modules/content/domain/ports/post.repository';
-import { NotFoundError } from '@shared/errors/error-mapper';
-import type { IUseCase } from '@shared/application/use-case';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
+import { BasePostUpdateUseCase, type PostEditor } from '../base/base-post-update.usecase';
+
+export interface UpdatePostByIdInput extends PostEditor {
+  post: IPost;
+}
 
 @injectable()
-export class UpdatePostByIdUseCase implements IUseCase<IPost, IPost> {
+export class UpdatePostByIdUseCase extends BasePostUpdateUseCase<UpdatePostByIdInput, IPost> {
   constructor(
     @inject(ContentModuleTokens.PostRepository)
-    private readonly postRepository: PostRepository
-  ) {}
+    protected readonly postRepository: PostRepository,
+    @inject(ContentModuleTokens.PostRevisionRepository)
+    protected readonly postRevisionRepository: PostRevisionRepository
+  ) {
+    super(postRepository, postRevisionRepository);
+  }
+
+  async execute(input: UpdatePostByIdInput): Promise<IPost> {
+    const { post, actorId } = input;
 
-  async execute(post: IPost): Promise<IPost> {
-    const postExist = await this.postRepository.getById(post.id);
-    if (!postExist) {
-      throw new NotFoundError('Post not found');
-    }
+    const postExist = await this.getEditablePost(post.id, input);
+    const changes = Builder<IPost>()
+      .id(postExist.id)
+      .title(post.title ?? postExist.title)
+      .content(post.content ?? postExist.content)
+      .status(post.status ?? postExist.status)
+      .build();
 
-    return this.postRepository.updateById(post);
+    return this.applyUpdate(postExist, changes, actorId);
   }
 }
@@ -0,0 +1,38 @@
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type {
+  PostContent,
+  PostId,
+  PostStatus,
+  PostTitle,
+  PostVersion,
+} from '@modules/content/domain/entities/post.entity';
+import { Brand } from '@shared/kernel/brand.type';
+
+export type PostRevisionId = Brand<string, 'PostRevisionId'>;
+export type PostRevisionCreatedAt = Brand<Date, 'PostRevisionCreatedAt'>;
+
+/**
+ * Snapshot of a post as it was at `version`, taken when an edit replaced it. `editedBy` is the user whose edit
+ * superseded the snapshot.
+ */
+export interface IPostRevision {
+  id: PostRevisionId;
+  postId: PostId;
+  version: PostVersion;
+  title: PostTitle;
+  content: PostContent;
+  status: PostStatus;
+  editedBy?: UserId;
+  createdAt?: PostRevisionCreatedAt;
+}
+
+export class PostRevision implements IPostRevision {
+  id: PostRevisionId = '' as PostRevisionId;
+  postId: PostId = '' as PostId;
+  version: PostVersion = 1 as PostVersion;
+  title: PostTitle = '' as PostTitle;
+  content: PostContent = '' as PostContent;
+  status: PostStatus = '' as PostStatus;
+  editedBy?: UserId;
+  createdAt?: PostRevisionCreatedAt;
+}
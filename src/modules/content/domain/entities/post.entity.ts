@@ -1,20 +1,68 @@
+import { type Permission, Permissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { ConflictError, ValidationError } from '@shared/errors/error-mapper';
 import { Brand } from '@shared/kernel/brand.type';
 import { EStatus } from '@shared/kernel/status.enum';
 
+export enum EPublicationStatus {
+  draft = 'draft',
+  inReview = 'in_review',
+  scheduled = 'scheduled',
+  published = 'published',
+  archived = 'archived',
+}
+
 export type PostId = Brand<string, 'PostId'>;
 export type PostTitle = Brand<string, 'PostTitle'>;
 export type PostContent = Brand<string, 'PostContent'>;
 export type PostStatus = Brand<EStatus, 'PostStatus'>;
+export type PostVersion = Brand<number, 'PostVersion'>;
 export type PostCreatedAt = Brand<Date, 'PostCreatedAt'>;
 export type PostUpdatedAt = Brand<Date, 'PostUpdatedAt'>;
+export type PostDeletedAt = Brand<Date, 'PostDeletedAt'>;
+export type PostPublicationStatus = Brand<EPublicationStatus, 'PostPublicationStatus'>;
+export type PostPublishAt = Brand<Date, 'PostPublishAt'>;
+export type PostPublishedAt = Brand<Date, 'PostPublishedAt'>;
+
+export const POST_TITLE_MAX_LENGTH = 200;
+
+// Statuses an edit may set. Deleting goes through the trash (`deleteById`), which also records what to restore.
+export const EDITABLE_POST_STATUSES = [EStatus.active, EStatus.inactive] as const;
+
+// States a post may be in before moving to each target state. Every post starts as a draft.
+const publicationTransitions: Record<EPublicationStatus, readonly EPublicationStatus[]> = {
+  [EPublicationStatus.draft]: [],
+  [EPublicationStatus.inReview]: [EPublicationStatus.draft],
+  [EPublicationStatus.scheduled]: [EPublicationStatus.draft, EPublicationStatus.inReview, EPublicationStatus.scheduled],
+  [EPublicationStatus.published]: [EPublicationStatus.draft, EPublicationStatus.inReview, EPublicationStatus.scheduled],
+  [EPublicationStatus.archived]: [
+    EPublicationStatus.draft,
+    EPublicationStatus.inReview,
+    EPublicationStatus.scheduled,
+    EPublicationStatus.published,
+  ],
+};
 
 export interface IPost {
   id: PostId;
   title: PostTitle;
   content: PostContent;
   status: PostStatus;
+  authorId: UserId;
+  version: PostVersion;
   createdAt?: PostCreatedAt;
   updatedAt?: PostUpdatedAt;
+  deletedAt?: PostDeletedAt;
+  publicationStatus: PostPublicationStatus;
+  publishAt?: PostPublishAt;
+  publishedAt?: PostPublishedAt;
+
+  isOwnedBy(userId: UserId): boolean;
+  canBeModifiedBy(userId: UserId, permissions: readonly Permission[]): boolean;
+  submitForReview(): void;
+  schedule(publishAt: Date, now: Date): void;
+  publish(now: Date): void;
+  archive(): void;
 }
 
 export class Post implements IPost {
@@ -22,6 +70,51 @@ export class Post implements IPost {
   title: PostTitle = '' as PostTitle;
   content: PostContent = '' as PostContent;
   status: PostStatus = '' as PostStatus;
+  authorId: UserId = '' as UserId;
+  version: PostVersion = 1 as PostVersion;
   createdAt?: PostCreatedAt;
   updatedAt?: PostUpdatedAt;
+  deletedAt?: PostDeletedAt;
+  publicationStatus: PostPublicationStatus = EPublicationStatus.draft as PostPublicationStatus;
+  publishAt?: PostPublishAt;
+  publishedAt?: PostPublishedAt;
+
+  isOwnedBy(userId: UserId): boolean {
+    return Boolean(this.authorId) && this.authorId === userId;
+  }
+
+  canBeModifiedBy(userId: UserId, permissions: readonly Permission[]): boolean {
+    return permissions.includes(Permissions.PostsManageAny) || this.isOwnedBy(userId);
+  }
+
+  submitForReview(): void {
+    this.transitionTo(EPublicationStatus.inReview);
+  }
+
+  schedule(publishAt: Date, now: Date): void {
+    if (publishAt.getTime() <= now.getTime()) {
+      throw new ValidationError('publishAt must be in the future');
+    }
+
+    this.transitionTo(EPublicationStatus.scheduled);
+    this.publishAt = publishAt as PostPublishAt;
+  }
+
+  publish(now: Date): void {
+    this.transitionTo(EPublicationStatus.published);
+    this.publishAt = undefined;
+    this.publishedAt = now as PostPublishedAt;
+  }
+
+  archive(): void {
+    this.transitionTo(EPublicationStatus.archived);
+    this.publishAt = undefined;
+  }
+
+  private transitionTo(target: EPublicationStatus): void {
+    if (!publicationTransitions[target].includes(this.publicationStatus)) {
+      throw new ConflictError(`Cannot move a ${this.publicationStatus} post to ${target}`);
+    }
+    this.publicationStatus = target as PostPublicationStatus;
+  }
 }
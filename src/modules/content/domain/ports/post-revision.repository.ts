@@ -0,0 +1,8 @@
+import type { IPostRevision, PostRevisionId } from '@modules/content/domain/entities/post-revision.entity';
+import type { PostId } from '@modules/content/domain/entities/post.entity';
+
+export abstract class PostRevisionRepository {
+  /** Revisions of the post, newest first. */
+  abstract getAllByPostId(postId: PostId): Promise<IPostRevision[]>;
+  abstract getById(postId: PostId, revisionId: PostRevisionId): Promise<IPostRevision | undefined>;
+}
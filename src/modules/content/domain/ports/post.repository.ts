@@ -1,17 +1,62 @@
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type { IPostRevision } from '@modules/content/domain/entities/post-revision.entity';
+import type { IPost, PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
 import type { GetAllMetaType, GetAllParamsType } from '@shared/kernel/types';
-import type { IPost, PostId } from '@modules/content/domain/entities/post.entity';
 
-export interface GetAllPostsQuery extends GetAllParamsType {}
+export interface GetAllPostsQuery extends GetAllParamsType {
+  highlight?: boolean;
+  /** Limits the list to published posts and this user's own; omitted for moderators who see every post. */
+  visibleTo?: UserId;
+}
+
+export interface PostHighlight {
+  title: string;
+  content: string;
+}
+
+export type PostListItem = IPost & { highlight?: PostHighlight };
+
+export interface GetTrashedPostsQuery {
+  page?: number;
+  limit?: number;
+  /** Restricts the trash to one author; omitted for moderators who see every deleted post. */
+  authorId?: UserId;
+}
 
 export interface GetAllPostsReturnType {
-  result: IPost[];
+  result: PostListItem[];
   meta: GetAllMetaType;
 }
 
 export abstract class PostRepository {
   abstract create(post: IPost): Promise<IPost>;
-  abstract deleteById(id: PostId): Promise<void>;
+  /**
+   * Soft-deletes the post. When `expectedVersion` is given the delete only applies to that version;
+   * returns `false` when nothing was deleted.
+   */
+  abstract deleteById(id: PostId, expectedVersion?: PostVersion): Promise<boolean>;
   abstract getAll(query: GetAllPostsQuery): Promise<GetAllPostsReturnType>;
-  abstract getById(id: PostId): Promise<IPost | undefined>;
-  abstract updateById(post: IPost): Promise<IPost>;
+  /** With `visibleTo`, a post that is not published is only found for its author. */
+  abstract getById(id: PostId, visibleTo?: UserId): Promise<IPost | undefined>;
+  /**
+   * Updates the post, bumps its version and stores `revision`, the content being replaced, in one transaction.
+   * The update only applies to `expectedVersion`; returns `undefined` when nothing was updated.
+   */
+  abstract updateById(post: IPost, expectedVersion: PostVersion, revision: IPostRevision): Promise<IPost | undefined>;
+  /**
+   * Persists the publication state (`publicationStatus`, `publishAt`, `publishedAt`) and bumps the version,
+   * guarded on `expectedVersion` like `updateById`.
+   */
+  abstract updatePublicationById(post: IPost, expectedVersion: PostVersion): Promise<IPost | undefined>;
+  /** Publishes scheduled posts whose `publishAt` is at or before `now` and returns how many were published. */
+  abstract publishDue(now: Date): Promise<number>;
+  /** Soft-deleted posts, most recently deleted first. */
+  abstract getAllDeleted(query: GetTrashedPostsQuery): Promise<GetAllPostsReturnType>;
+  abstract getDeletedById(id: PostId): Promise<IPost | undefined>;
+  /** Brings a soft-deleted post back with the status it had before; returns `undefined` when it is not in the trash. */
+  abstract restoreById(id: PostId): Promise<IPost | undefined>;
+  /** Permanently removes a soft-deleted post; returns `false` when it is not in the trash. */
+  abstract purgeById(id: PostId): Promise<boolean>;
+  /** Permanently removes posts deleted before `cutoff` and returns how many were removed. */
+  abstract purgeDeletedBefore(cutoff: Date): Promise<number>;
 }
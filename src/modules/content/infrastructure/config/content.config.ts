@@ -0,0 +1,56 @@
+import 'dotenv/config';
+
+import { durationToSeconds } from '@shared/utils/duration';
+
+export const DEFAULT_POST_TRASH_RETENTION = '30d';
+export const DEFAULT_POST_TRASH_PURGE_INTERVAL = '1h';
+export const DEFAULT_POST_PUBLISH_INTERVAL = '1m';
+
+const normalizeBoolean = (value: string | undefined, fallback: boolean) => {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  return value.toLowerCase() === 'true';
+};
+
+export interface PostTrashConfig {
+  /** How long a deleted post stays restorable before the retention job purges it. */
+  retentionSeconds: number;
+  purgeIntervalSeconds: number;
+  purgeEnabled: boolean;
+}
+
+export interface PostPublishingConfig {
+  /** How often the scheduler looks for scheduled posts that are due. */
+  intervalSeconds: number;
+  enabled: boolean;
+}
+
+export interface ContentConfig {
+  trash: PostTrashConfig;
+  publishing: PostPublishingConfig;
+}
+
+export const contentConfig: ContentConfig = {
+  trash: {
+    retentionSeconds: durationToSeconds(
+      process.env.POST_TRASH_RETENTION ?? DEFAULT_POST_TRASH_RETENTION,
+      DEFAULT_POST_TRASH_RETENTION
+    ),
+    purgeIntervalSeconds: durationToSeconds(
+      process.env.POST_TRASH_PURGE_INTERVAL ?? DEFAULT_POST_TRASH_PURGE_INTERVAL,
+      DEFAULT_POST_TRASH_PURGE_INTERVAL
+    ),
+    purgeEnabled: normalizeBoolean(process.env.POST_TRASH_PURGE_ENABLED, true),
+  },
+  publishing: {
+    intervalSeconds: durationToSeconds(
+      process.env.POST_PUBLISH_INTERVAL ?? DEFAULT_POST_PUBLISH_INTERVAL,
+      DEFAULT_POST_PUBLISH_INTERVAL
+    ),
+    enabled: normalizeBoolean(process.env.POST_PUBLISH_ENABLED, true),
+  },
+};
+
+export default contentConfig;
@@ -0,0 +1,34 @@
+import { inject, injectable } from 'tsyringe';
+
+import { PublishDuePostsUseCase } from '@modules/content/application/use-cases/publish-due-posts.usecase';
+import type { ContentConfig } from '@modules/content/infrastructure/config/content.config';
+import { ContentModuleTokens } from '@modules/content/module.tokens';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { ScheduledJob } from '@platform/jobs/job-scheduler';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+/**
+ * Publishes scheduled posts once their `publishAt` has passed.
+ */
+@injectable()
+export class PostPublishingJob implements ScheduledJob {
+  readonly name = 'content.post-publishing';
+  readonly intervalSeconds: number;
+
+  constructor(
+    @inject(PublishDuePostsUseCase) private readonly useCase: PublishDuePostsUseCase,
+    @inject(ContentModuleTokens.ContentConfig) config: ContentConfig,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {
+    this.intervalSeconds = config.publishing.intervalSeconds;
+  }
+
+  async run(): Promise<void> {
+    const now = new Date();
+    const { published } = await this.useCase.execute({ now });
+
+    if (published > 0) {
+      this.logger.info('Published scheduled posts', { published, now });
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { inject, injectable } from 'tsyringe';
+
+import { PurgeExpiredPostsUseCase } from '@modules/content/application/use-cases/purge-expired-posts.usecase';
+import type { ContentConfig } from '@modules/content/infrastructure/config/content.config';
+import { ContentModuleTokens } from '@modules/content/module.tokens';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { ScheduledJob } from '@platform/jobs/job-scheduler';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+/**
+ * Hard-deletes posts that have stayed in the trash longer than `POST_TRASH_RETENTION`.
+ */
+@injectable()
+export class PostTrashRetentionJob implements ScheduledJob {
+  readonly name = 'content.post-trash-retention';
+  readonly intervalSeconds: number;
+
+  constructor(
+    @inject(PurgeExpiredPostsUseCase) private readonly useCase: PurgeExpiredPostsUseCase,
+    @inject(ContentModuleTokens.ContentConfig) private readonly config: ContentConfig,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {
+    this.intervalSeconds = config.trash.purgeIntervalSeconds;
+  }
+
+  async run(): Promise<void> {
+    const cutoff = new Date(Date.now() - this.config.trash.retentionSeconds * 1000);
+    const { purged } = await this.useCase.execute({ cutoff });
+
+    if (purged > 0) {
+      this.logger.info('Purged expired posts from trash', { purged, cutoff });
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { Builder } from 'builder-pattern';
+import { and, desc, eq } from 'drizzle-orm';
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import {
+  type IPostRevision,
+  PostRevision,
+  type PostRevisionCreatedAt,
+  type PostRevisionId,
+} from '@modules/content/domain/entities/post-revision.entity';
+import type {
+  PostContent,
+  PostId,
+  PostStatus,
+  PostTitle,
+  PostVersion,
+} from '@modules/content/domain/entities/post.entity';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
+import { db } from '@platform/database/connection';
+
+import { type PostRevision as DrizzlePostRevision, postRevisions } from './post-revision.schema';
+
+@injectable()
+export class PostRevisionDrizzleRepository extends PostRevisionRepository {
+  async getAllByPostId(postId: PostId): Promise<IPostRevision[]> {
+    const result = await db
+      .select()
+      .from(postRevisions)
+      .where(eq(postRevisions.postId, postId as string))
+      .orderBy(desc(postRevisions.version));
+
+    return result.map(row => this.toDomain(row));
+  }
+
+  async getById(postId: PostId, revisionId: PostRevisionId): Promise<IPostRevision | undefined> {
+    const result = await db
+      .select()
+      .from(postRevisions)
+      .where(and(eq(postRevisions.id, revisionId as string), eq(postRevisions.postId, postId as string)))
+      .limit(1);
+
+    return result[0] ? this.toDomain(result[0]) : undefined;
+  }
+
+  private toDomain(drizzleRevision: DrizzlePostRevision): IPostRevision {
+    return Builder(PostRevision)
+      .id(drizzleRevision.id as PostRevisionId)
+      .postId(drizzleRevision.postId as PostId)
+      .version(drizzleRevision.version as PostVersion)
+      .title(drizzleRevision.title as PostTitle)
+      .content(drizzleRevision.content as PostContent)
+      .status(drizzleRevision.status as PostStatus)
+      .editedBy(drizzleRevision.editedBy ? (drizzleRevision.editedBy as UserId) : undefined)
+      .createdAt(drizzleRevision.createdAt as PostRevisionCreatedAt)
+      .build();
+  }
+}
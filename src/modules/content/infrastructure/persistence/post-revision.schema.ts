@@ -0,0 +1,28 @@
+import { index, integer, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+
+import { users } from '@modules/accounts/infrastructure/persistence/user.schema';
+
+import { posts } from './post.schema';
+
+export const postRevisions = pgTable(
+  'post_revisions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    postId: uuid('post_id')
+      .notNull()
+      .references(() => posts.id, { onDelete: 'cascade' }),
+    version: integer('version').notNull(),
+    title: varchar('title', { length: 255 }).notNull(),
+    content: text('content').notNull(),
+    status: varchar('status', { length: 30 }).notNull(),
+    editedBy: uuid('edited_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  table => ({
+    postVersionIdx: uniqueIndex('post_revisions_post_version_idx').on(table.postId, table.version),
+    editedByIdx: index('post_revisions_edited_by_idx').on(table.editedBy),
+  })
+);
+
+export type PostRevision = typeof postRevisions.$inferSelect;
+export type NewPostRevision = typeof postRevisions.$inferInsert;
@@ -1,30 +1,85 @@
 import { Builder } from 'builder-pattern';
-import { and, asc, desc, eq, ilike, not, or, sql } from 'drizzle-orm';
+import { and, asc, desc, eq, getTableColumns, lt, lte, not, or, sql } from 'drizzle-orm';
 import type { SQL } from 'drizzle-orm';
-import { isEmpty } from 'radash';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { isEmpty, omit } from 'radash';
 import { injectable } from 'tsyringe';
 
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import type { IPostRevision } from '@modules/content/domain/entities/post-revision.entity';
 import {
+  EPublicationStatus,
   type IPost,
   Post,
   type PostContent,
   type PostCreatedAt,
+  type PostDeletedAt,
   type PostId,
+  type PostPublicationStatus,
+  type PostPublishAt,
+  type PostPublishedAt,
   type PostStatus,
   type PostTitle,
   type PostUpdatedAt,
+  type PostVersion,
 } from '@modules/content/domain/entities/post.entity';
 import {
   type GetAllPostsQuery,
   type GetAllPostsReturnType,
+  type GetTrashedPostsQuery,
+  type PostListItem,
   PostRepository,
 } from '@modules/content/domain/ports/post.repository';
 import { db } from '@platform/database/connection';
+import { ValidationError } from '@shared/errors/error-mapper';
 import { EStatus } from '@shared/kernel/status.enum';
+import type { FilterCondition } from '@shared/kernel/types';
+import { type CursorDirection, type CursorOrder, decodeCursor, encodeCursor } from '@shared/utils/cursor.util';
+import {
+  buildFilterClause,
+  type FilterFieldDefinition,
+  type FilterWhitelist,
+  isValidFieldValue,
+  parseSortParam,
+  resolveSortTerms,
+  toOrderBy,
+} from '@shared/utils/query-filter.util';
+
+import { postRevisions } from './post-revision.schema';
 import { type Post as DrizzlePost, posts } from './post.schema';
 
+type PostRow = Omit<DrizzlePost, 'search_vector'>;
+
+// Must match the configuration used by the generated `search_vector` column.
+const searchConfig = sql.raw(`'english'::regconfig`);
+const headlineOptions = sql.raw(`'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'`);
+const snippetOptions = sql.raw(`'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=10, MaxWords=30'`);
+
+interface SearchContext {
+  tsQuery?: SQL;
+  highlight: boolean;
+}
+
 @injectable()
 export class PostDrizzleRepository extends PostRepository {
+  // Snake-case aliases are kept for clients that still send `sort=created_at`.
+  private readonly fieldWhitelist: FilterWhitelist = {
+    id: { column: posts.id, type: 'uuid' },
+    title: { column: posts.title, type: 'string' },
+    status: { column: posts.status, type: 'enum', values: Object.values(EStatus) },
+    authorId: { column: posts.author_id, type: 'uuid', sortable: false },
+    createdAt: { column: posts.created_at, type: 'date' },
+    updatedAt: { column: posts.updated_at, type: 'date' },
+    created_at: { column: posts.created_at, type: 'date', filterable: false },
+    updated_at: { column: posts.updated_at, type: 'date', filterable: false },
+    publicationStatus: { column: posts.publication_status, type: 'enum', values: Object.values(EPublicationStatus) },
+    publishAt: { column: posts.publish_at, type: 'date', nullable: true },
+    publishedAt: { column: posts.published_at, type: 'date', nullable: true },
+  };
+
+  // The generated search vector is only used inside queries, so it is never selected or returned.
+  private readonly columns = omit(getTableColumns(posts), ['search_vector']);
+
   async create(post: IPost): Promise<IPost> {
     const result = await db
       .insert(posts)
@@ -32,59 +87,170 @@ export class PostDrizzleRepository extends PostRepository {
         title: post.title as string,
         content: post.content as string,
         status: post.status,
+        author_id: post.authorId as string,
       })
-      .returning();
+      .returning(this.columns);
 
     return this.toDomain(result[0]);
   }
 
   async getAll(query: GetAllPostsQuery): Promise<GetAllPostsReturnType> {
-    const { search, sort, order, page = 1, limit = 10 } = query;
+    const { search, sort, order, limit = 10, pagination, cursor, highlight = false, filters = [], visibleTo } = query;
 
-    const safePage = Number.isInteger(page) && page > 0 ? page : 1;
     const safeLimit = Number.isInteger(limit) && limit > 0 ? limit : 10;
-    const offset = (safePage - 1) * safeLimit;
+    const searchTerm = search?.trim();
+    const searchContext: SearchContext = {
+      tsQuery: searchTerm ? sql`websearch_to_tsquery(${searchConfig}, ${searchTerm})` : undefined,
+      highlight,
+    };
+    const whereClause = this.buildWhereClause(searchContext.tsQuery, filters, visibleTo);
+    const requestedSort = parseSortParam(sort, order);
+    const sortTerms = resolveSortTerms(
+      requestedSort.length ? requestedSort : parseSortParam('createdAt', order),
+      this.fieldWhitelist
+    );
 
-    const filters: SQL[] = [];
-    filters.push(not(eq(posts.status, EStatus.deleted)));
+    if (pagination === 'cursor' || cursor) {
+      if (sortTerms.length > 1) {
+        throw new ValidationError('Cursor pagination supports a single sort field');
+      }
 
-    if (search) {
-      const searchValue = `%${search}%`;
-      const result = or(ilike(posts.title, searchValue), ilike(posts.content, searchValue));
-      filters.push(result ?? sql``);
+      const [sortTerm] = sortTerms;
+      if (this.fieldWhitelist[sortTerm.field].nullable) {
+        throw new ValidationError(`Cursor pagination cannot sort by "${sortTerm.field}"`);
+      }
+
+      return this.getAllByCursor(query, {
+        whereClause,
+        searchContext,
+        sortKey: sortTerm.field,
+        sortField: this.fieldWhitelist[sortTerm.field],
+        sortOrder: sortTerm.order,
+        limit: safeLimit,
+      });
     }
 
-    const whereClause = filters.length ? and(...filters) : undefined;
+    // Search results are ranked by relevance unless the caller explicitly asks for another sort.
+    const rankByRelevance = Boolean(searchContext.tsQuery) && requestedSort.length === 0;
 
-    const sortKey = (sort ?? 'created_at').toLowerCase();
-    const sortMap = {
-      id: posts.id,
-      title: posts.title,
-      status: posts.status,
-      created_at: posts.created_at,
-      createdAt: posts.created_at,
-      updated_at: posts.updated_at,
-      updatedAt: posts.updated_at,
-    } as const;
+    return this.getAllByOffset(query, {
+      whereClause,
+      searchContext,
+      orderBy: toOrderBy(sortTerms),
+      rankByRelevance,
+      limit: safeLimit,
+    });
+  }
+
+  private buildWhereClause(tsQuery: SQL | undefined, filters: FilterCondition[], visibleTo?: UserId): SQL | undefined {
+    const conditions: SQL[] = [];
+    conditions.push(not(eq(posts.status, EStatus.deleted)));
 
-    const sortColumn = sortMap[sortKey as keyof typeof sortMap] ?? posts.created_at;
-    const orderClause = order?.toLowerCase() === 'asc' ? asc(sortColumn) : desc(sortColumn);
+    const visibility = this.buildVisibilityClause(visibleTo);
+    if (visibility) {
+      conditions.push(visibility);
+    }
 
+    if (tsQuery) {
+      conditions.push(sql`${posts.search_vector} @@ ${tsQuery}`);
+    }
+
+    const filterClause = buildFilterClause(filters, this.fieldWhitelist);
+    if (filterClause) {
+      conditions.push(filterClause);
+    }
+
+    return conditions.length ? and(...conditions) : undefined;
+  }
+
+  private buildVisibilityClause(visibleTo?: UserId): SQL | undefined {
+    if (!visibleTo) {
+      return undefined;
+    }
+
+    return or(eq(posts.publication_status, EPublicationStatus.published), eq(posts.author_id, visibleTo as string));
+  }
+
+  /**
+   * Builds `<mark>`-highlighted fragments for the matched terms. The source text is HTML-escaped first so the
+   * only markup in a headline is the one added here.
+   */
+  private buildHighlightColumns({ tsQuery, highlight }: SearchContext) {
+    if (!tsQuery || !highlight) {
+      return {
+        highlightTitle: sql<string | null>`null`,
+        highlightContent: sql<string | null>`null`,
+      };
+    }
+
+    const escape = (column: PgColumn) =>
+      sql`replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+
+    return {
+      highlightTitle: sql<
+        string | null
+      >`ts_headline(${searchConfig}, ${escape(posts.title)}, ${tsQuery}, ${headlineOptions})`,
+      highlightContent: sql<
+        string | null
+      >`ts_headline(${searchConfig}, ${escape(posts.content)}, ${tsQuery}, ${snippetOptions})`,
+    };
+  }
+
+  private async countPosts(whereClause?: SQL): Promise<number> {
     const countQuery = db.select({ count: sql<number>`count(*)` }).from(posts);
     const totalResult = await (whereClause ? countQuery.where(whereClause) : countQuery);
-    const total = totalResult[0]?.count ? Number(totalResult[0]?.count) : 0;
+    return totalResult[0]?.count ? Number(totalResult[0]?.count) : 0;
+  }
+
+  private async getAllByOffset(
+    query: GetAllPostsQuery,
+    options: {
+      whereClause?: SQL;
+      searchContext: SearchContext;
+      orderBy: SQL[];
+      rankByRelevance: boolean;
+      limit: number;
+    }
+  ): Promise<GetAllPostsReturnType> {
+    const { page = 1, includeTotal = true } = query;
+    const { whereClause, searchContext, rankByRelevance, limit } = options;
 
-    let dataQuery = db.select().from(posts).$dynamic();
+    const safePage = Number.isInteger(page) && page > 0 ? page : 1;
+    const offset = (safePage - 1) * limit;
+    const orderBy =
+      rankByRelevance && searchContext.tsQuery
+        ? [desc(sql`ts_rank(${posts.search_vector}, ${searchContext.tsQuery})`), desc(posts.created_at), desc(posts.id)]
+        : options.orderBy;
+
+    let dataQuery = db
+      .select({ post: this.columns, ...this.buildHighlightColumns(searchContext) })
+      .from(posts)
+      .$dynamic();
     if (whereClause) dataQuery = dataQuery.where(whereClause);
 
-    const rows = await dataQuery.orderBy(orderClause).limit(safeLimit).offset(offset);
-    const totalPages = safeLimit > 0 ? Math.ceil(total / safeLimit) : 0;
-    const result = !isEmpty(rows) ? rows.map(row => this.toDomain(row)) : [];
+    const rows = await dataQuery
+      .orderBy(...orderBy)
+      .limit(limit)
+      .offset(offset);
+    const result = !isEmpty(rows) ? rows.map(row => this.toListItem(row)) : [];
+
+    if (!includeTotal) {
+      return {
+        result,
+        meta: {
+          limit,
+          page: safePage,
+        },
+      };
+    }
+
+    const total = await this.countPosts(whereClause);
+    const totalPages = limit > 0 ? Math.ceil(total / limit) : 0;
 
     return {
       result,
       meta: {
-        limit: safeLimit,
+        limit,
         page: safePage,
         total,
         totalPages,
@@ -92,40 +258,296 @@ export class PostDrizzleRepository extends PostRepository {
     };
   }
 
-  async getById(id: PostId): Promise<IPost | undefined> {
+  /**
+   * Keyset pagination over (sort column, id). The cursor carries the boundary row's sort value as text so
+   * timestamps keep their full database precision when compared on the next request. Search results are
+   * filtered but keep the requested sort, because a relevance rank is not a stable keyset.
+   */
+  private async getAllByCursor(
+    query: GetAllPostsQuery,
+    options: {
+      whereClause?: SQL;
+      searchContext: SearchContext;
+      sortKey: string;
+      sortField: FilterFieldDefinition;
+      sortOrder: CursorOrder;
+      limit: number;
+    }
+  ): Promise<GetAllPostsReturnType> {
+    const { cursor, includeTotal = false } = query;
+    const { whereClause, searchContext, sortKey, sortField, sortOrder, limit } = options;
+    const sortColumn = sortField.column;
+
+    const boundary = cursor ? decodeCursor(cursor) : undefined;
+    if (boundary && (boundary.sort !== sortKey || boundary.order !== sortOrder)) {
+      throw new ValidationError('Cursor does not match the requested sort and order');
+    }
+    // The value is cast to the column type below, where a malformed one would fail as a database error.
+    if (boundary && !isValidFieldValue(sortField, boundary.value)) {
+      throw new ValidationError('Invalid cursor');
+    }
+
+    const isBackward = boundary?.direction === 'prev';
+    const scanOrder: CursorOrder = isBackward ? (sortOrder === 'asc' ? 'desc' : 'asc') : sortOrder;
+
+    const filters: SQL[] = whereClause ? [whereClause] : [];
+    if (boundary) {
+      const boundaryValue = sql`(${boundary.value}::${sql.raw(sortColumn.getSQLType())}, ${boundary.id}::uuid)`;
+      const keyset = sql`(${sortColumn}, ${posts.id})`;
+      filters.push(scanOrder === 'asc' ? sql`${keyset} > ${boundaryValue}` : sql`${keyset} < ${boundaryValue}`);
+    }
+
+    const orderBy = scanOrder === 'asc' ? [asc(sortColumn), asc(posts.id)] : [desc(sortColumn), desc(posts.id)];
+
+    const rows = await db
+      .select({
+        post: this.columns,
+        cursorValue: sql<string>`${sortColumn}::text`,
+        ...this.buildHighlightColumns(searchContext),
+      })
+      .from(posts)
+      .where(filters.length ? and(...filters) : undefined)
+      .orderBy(...orderBy)
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    if (isBackward) page.reverse();
+
+    const toCursor = (row: (typeof rows)[number], direction: CursorDirection) =>
+      encodeCursor({ sort: sortKey, order: sortOrder, value: row.cursorValue, id: row.post.id, direction });
+
+    const first = page[0];
+    const last = page[page.length - 1];
+    const hasNext = isBackward ? Boolean(boundary) : hasMore;
+    const hasPrev = isBackward ? hasMore : Boolean(boundary);
+
+    const meta: GetAllPostsReturnType['meta'] = {
+      limit,
+      nextCursor: hasNext && last ? toCursor(last, 'next') : null,
+      prevCursor: hasPrev && first ? toCursor(first, 'prev') : null,
+    };
+
+    if (includeTotal) {
+      meta.total = await this.countPosts(whereClause);
+    }
+
+    return {
+      result: page.map(row => this.toListItem(row)),
+      meta,
+    };
+  }
+
+  async getById(id: PostId, visibleTo?: UserId): Promise<IPost | undefined> {
     const result = await db
-      .select()
+      .select(this.columns)
       .from(posts)
-      .where(and(eq(posts.id, id as string), not(eq(posts.status, EStatus.deleted))))
+      .where(
+        and(eq(posts.id, id as string), not(eq(posts.status, EStatus.deleted)), this.buildVisibilityClause(visibleTo))
+      )
       .limit(1);
 
     return result[0] ? this.toDomain(result[0]) : undefined;
   }
 
-  async updateById(post: IPost): Promise<IPost> {
+  async updateById(post: IPost, expectedVersion: PostVersion, revision: IPostRevision): Promise<IPost | undefined> {
+    return db.transaction(async tx => {
+      const result = await tx
+        .update(posts)
+        .set({
+          title: post.title,
+          content: post.content,
+          status: post.status,
+          version: sql`${posts.version} + 1`,
+          updated_at: new Date(),
+        })
+        .where(
+          and(
+            eq(posts.id, post.id as string),
+            not(eq(posts.status, EStatus.deleted)),
+            eq(posts.version, expectedVersion)
+          )
+        )
+        .returning(this.columns);
+      if (!result[0]) {
+        return undefined;
+      }
+
+      await tx.insert(postRevisions).values({
+        postId: revision.postId as string,
+        version: revision.version as number,
+        title: revision.title as string,
+        content: revision.content as string,
+        status: revision.status as string,
+        editedBy: revision.editedBy ? (revision.editedBy as string) : null,
+      });
+
+      return this.toDomain(result[0]);
+    });
+  }
+
+  async deleteById(id: PostId, expectedVersion?: PostVersion): Promise<boolean> {
     const result = await db
       .update(posts)
-      .set(post)
-      .where(and(eq(posts.id, post.id as string), not(eq(posts.status, EStatus.deleted))))
-      .returning();
-    return this.toDomain(result[0]);
+      .set({
+        status: EStatus.deleted,
+        status_before_delete: sql`${posts.status}`,
+        deleted_at: new Date(),
+        updated_at: new Date(),
+        version: sql`${posts.version} + 1`,
+      })
+      .where(
+        and(
+          eq(posts.id, id as string),
+          not(eq(posts.status, EStatus.deleted)),
+          expectedVersion === undefined ? undefined : eq(posts.version, expectedVersion)
+        )
+      )
+      .returning({ id: posts.id });
+    return result.length > 0;
+  }
+
+  async updatePublicationById(post: IPost, expectedVersion: PostVersion): Promise<IPost | undefined> {
+    const result = await db
+      .update(posts)
+      .set({
+        publication_status: post.publicationStatus,
+        publish_at: post.publishAt ?? null,
+        published_at: post.publishedAt ?? null,
+        version: sql`${posts.version} + 1`,
+        updated_at: new Date(),
+      })
+      .where(
+        and(eq(posts.id, post.id as string), not(eq(posts.status, EStatus.deleted)), eq(posts.version, expectedVersion))
+      )
+      .returning(this.columns);
+    return result[0] ? this.toDomain(result[0]) : undefined;
+  }
+
+  async publishDue(now: Date): Promise<number> {
+    const result = await db
+      .update(posts)
+      .set({
+        publication_status: EPublicationStatus.published,
+        published_at: sql`${posts.publish_at}`,
+        publish_at: null,
+        version: sql`${posts.version} + 1`,
+        updated_at: now,
+      })
+      .where(
+        and(
+          eq(posts.publication_status, EPublicationStatus.scheduled),
+          lte(posts.publish_at, now),
+          not(eq(posts.status, EStatus.deleted))
+        )
+      )
+      .returning({ id: posts.id });
+
+    return result.length;
+  }
+
+  async getAllDeleted(query: GetTrashedPostsQuery): Promise<GetAllPostsReturnType> {
+    const { page = 1, limit = 10, authorId } = query;
+
+    const safeLimit = Number.isInteger(limit) && limit > 0 ? limit : 10;
+    const safePage = Number.isInteger(page) && page > 0 ? page : 1;
+    const whereClause = and(
+      eq(posts.status, EStatus.deleted),
+      authorId ? eq(posts.author_id, authorId as string) : undefined
+    );
+
+    const rows = await db
+      .select(this.columns)
+      .from(posts)
+      .where(whereClause)
+      .orderBy(desc(posts.deleted_at), desc(posts.id))
+      .limit(safeLimit)
+      .offset((safePage - 1) * safeLimit);
+
+    const total = await this.countPosts(whereClause);
+
+    return {
+      result: rows.map(row => this.toDomain(row)),
+      meta: {
+        limit: safeLimit,
+        page: safePage,
+        total,
+        totalPages: Math.ceil(total / safeLimit),
+      },
+    };
+  }
+
+  async getDeletedById(id: PostId): Promise<IPost | undefined> {
+    const result = await db
+      .select(this.columns)
+      .from(posts)
+      .where(and(eq(posts.id, id as string), eq(posts.status, EStatus.deleted)))
+      .limit(1);
+
+    return result[0] ? this.toDomain(result[0]) : undefined;
   }
 
-  async deleteById(id: PostId): Promise<void> {
-    await db
+  async restoreById(id: PostId): Promise<IPost | undefined> {
+    const result = await db
       .update(posts)
-      .set({ status: EStatus.deleted })
-      .where(eq(posts.id, id as string));
+      .set({
+        // Posts trashed before the previous status was recorded come back as active.
+        status: sql`coalesce(${posts.status_before_delete}, ${EStatus.active})`,
+        status_before_delete: null,
+        deleted_at: null,
+        updated_at: new Date(),
+        version: sql`${posts.version} + 1`,
+      })
+      .where(and(eq(posts.id, id as string), eq(posts.status, EStatus.deleted)))
+      .returning(this.columns);
+
+    return result[0] ? this.toDomain(result[0]) : undefined;
+  }
+
+  async purgeById(id: PostId): Promise<boolean> {
+    const result = await db
+      .delete(posts)
+      .where(and(eq(posts.id, id as string), eq(posts.status, EStatus.deleted)))
+      .returning({ id: posts.id });
+
+    return result.length > 0;
+  }
+
+  async purgeDeletedBefore(cutoff: Date): Promise<number> {
+    const result = await db
+      .delete(posts)
+      .where(and(eq(posts.status, EStatus.deleted), lt(posts.deleted_at, cutoff)))
+      .returning({ id: posts.id });
+
+    return result.length;
+  }
+
+  private toListItem(row: {
+    post: PostRow;
+    highlightTitle: string | null;
+    highlightContent: string | null;
+  }): PostListItem {
+    const post: PostListItem = this.toDomain(row.post);
+    if (row.highlightTitle !== null && row.highlightContent !== null) {
+      post.highlight = { title: row.highlightTitle, content: row.highlightContent };
+    }
+    return post;
   }
 
-  private toDomain(drizzlePost: DrizzlePost): IPost {
+  private toDomain(drizzlePost: PostRow): IPost {
     return Builder(Post)
       .id(drizzlePost.id as PostId)
       .title(drizzlePost.title as PostTitle)
       .content(drizzlePost.content as PostContent)
       .status(drizzlePost.status as PostStatus)
+      .authorId((drizzlePost.author_id ?? '') as UserId)
+      .version(drizzlePost.version as PostVersion)
       .createdAt(drizzlePost.created_at as PostCreatedAt)
       .updatedAt(drizzlePost.updated_at as PostUpdatedAt)
+      .deletedAt(drizzlePost.deleted_at ? (drizzlePost.deleted_at as PostDeletedAt) : undefined)
+      .publicationStatus(drizzlePost.publication_status as PostPublicationStatus)
+      .publishAt(drizzlePost.publish_at ? (drizzlePost.publish_at as PostPublishAt) : undefined)
+      .publishedAt(drizzlePost.published_at ? (drizzlePost.published_at as PostPublishedAt) : undefined)
       .build();
   }
 }
@@ -1,7 +1,16 @@
-import { index, pgTable, text, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { customType, index, integer, pgTable, text, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
 
+import { users } from '@modules/accounts/infrastructure/persistence/user.schema';
+import { EPublicationStatus } from '@modules/content/domain/entities/post.entity';
 import { EStatus } from '@shared/kernel/status.enum';
 
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
 export const posts = pgTable(
   'posts',
   {
@@ -9,12 +18,27 @@ export const posts = pgTable(
     title: varchar('title', { length: 255 }).notNull(),
     content: text('content').notNull(),
     status: varchar('status', { length: 30 }).default(EStatus.active).notNull(),
+    author_id: uuid('author_id').references(() => users.id, { onDelete: 'cascade' }),
+    version: integer('version').default(1).notNull(),
+    search_vector: tsvector('search_vector').generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("content", '')), 'B')`
+    ),
     created_at: timestamp('created_at').defaultNow().notNull(),
     updated_at: timestamp('updated_at').defaultNow().notNull(),
+    deleted_at: timestamp('deleted_at'),
+    /** Status the post had when it was moved to the trash, which a restore brings back. */
+    status_before_delete: varchar('status_before_delete', { length: 30 }),
+    publication_status: varchar('publication_status', { length: 30 }).default(EPublicationStatus.draft).notNull(),
+    publish_at: timestamp('publish_at'),
+    published_at: timestamp('published_at'),
   },
   table => ({
     titleIdx: index('posts_title_idx').on(table.title),
     statusIdx: index('posts_status_idx').on(table.status),
+    authorIdx: index('posts_author_idx').on(table.author_id),
+    deletedAtIdx: index('posts_deleted_at_idx').on(table.deleted_at),
+    publicationIdx: index('posts_publication_idx').on(table.publication_status, table.publish_at),
+    searchVectorIdx: index('posts_search_vector_idx').using('gin', table.search_vector),
   })
 );
 
@@ -0,0 +1,76 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { ArchivePostUseCase } from '@modules/content/application/use-cases/archive-post.usecase';
+import type { PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
+import {
+  ErrorResponseDto,
+  IfMatchHeadersDto,
+  PostIdParamsDto,
+  PostPublicationResponseDto,
+} from '@modules/content/interface/http/dtos/post.dto';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+import { requireIfMatch, toEtag } from '@shared/utils/etag.util';
+
+@injectable()
+export class ArchivePostController {
+  constructor(
+    @inject(ArchivePostUseCase) private readonly useCase: ArchivePostUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.post(
+      '/posts/:id/archive',
+      async ({ params, headers, set, ...context }) => {
+        const { id } = params as { id: PostId };
+        const { userId, permissions } = getAuth(context);
+
+        try {
+          this.logger.info('Archiving post', { id });
+
+          const expectedVersion = requireIfMatch(headers['if-match']) as PostVersion | undefined;
+
+          const post = await this.useCase.execute({
+            id,
+            actorId: userId,
+            actorPermissions: permissions,
+            expectedVersion,
+          });
+          this.logger.info('Post archived', { id, version: post.version });
+
+          set.headers.etag = toEtag(post.version);
+          return post;
+        } catch (error) {
+          const normalizedError = error instanceof Error ? error : new Error('Unknown error');
+          this.logger.error('Failed to archive post', { id, error: normalizedError });
+          throw error;
+        }
+      },
+      {
+        beforeHandle: withPermission(Permissions.PostsUpdate),
+        params: PostIdParamsDto,
+        headers: IfMatchHeadersDto,
+        response: {
+          200: PostPublicationResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+          409: ErrorResponseDto,
+          412: ErrorResponseDto,
+          428: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Archive post',
+          description:
+            'Archives a post that has not been archived yet. Only the author of the post or a moderator may archive it. Requires `If-Match` with the post ETag',
+          tags: ['Posts'],
+        },
+      }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { StrictBuilder } from 'builder-pattern';
 import Elysia from 'elysia';
 import { inject, injectable } from 'tsyringe';
 
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
 import {
   type CreatePostInput,
   CreatePostUseCase,
@@ -10,9 +11,12 @@ import {
   type PostContent,
   type PostTitle,
 } from '@modules/content/domain/entities/post.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
 import { CreatePostRequestDto, CreatePostResponseDto, ErrorResponseDto } from '@modules/content/interface/http/dtos/post.dto';
 import { PlatformTokens } from '@platform/di/tokens';
 import type { LoggerPort } from '@shared/logging/logger.port';
+import { toEtag } from '@shared/utils/etag.util';
 
 @injectable()
 export class CreatePostController {
@@ -24,10 +28,12 @@ export class CreatePostController {
   register(app: Elysia) {
     app.post(
       '/posts',
-      async ({ body }) => {
+      async ({ body, set, ...context }) => {
+        const { userId } = getAuth(context);
         const input: CreatePostInput = StrictBuilder<CreatePostInput>()
           .title(body.title as PostTitle)
           .content(body.content as PostContent)
+          .authorId(userId)
           .build();
 
         try {
@@ -36,6 +42,7 @@ export class CreatePostController {
           const postCreated = await this.useCase.execute(input);
 
           this.logger.info('Post created successfully', { ...postCreated });
+          set.headers.etag = toEtag(postCreated.version);
 
           return postCreated;
         } catch (error) {
@@ -45,10 +52,12 @@ export class CreatePostController {
         }
       },
       {
+        beforeHandle: withPermission(Permissions.PostsCreate),
         body: CreatePostRequestDto,
         response: {
           200: CreatePostResponseDto,
           400: ErrorResponseDto,
+          403: ErrorResponseDto,
           500: ErrorResponseDto,
         },
         detail: {
@@ -1,15 +1,20 @@
 import Elysia from 'elysia';
 import { inject, injectable } from 'tsyringe';
 
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
 import { DeletePostByIdUseCase } from '@modules/content/application/use-cases/delete-post-by-id.usecase';
-import type { PostId } from '@modules/content/domain/entities/post.entity';
+import type { PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
 import {
   DeletePostResponseDto,
   ErrorResponseDto,
+  IfMatchHeadersDto,
   PostIdParamsDto,
 } from '@modules/content/interface/http/dtos/post.dto';
 import { PlatformTokens } from '@platform/di/tokens';
 import type { LoggerPort } from '@shared/logging/logger.port';
+import { requireIfMatch } from '@shared/utils/etag.util';
 
 @injectable()
 export class DeletePostByIdController {
@@ -21,24 +26,32 @@ export class DeletePostByIdController {
   register(app: Elysia) {
     app.delete(
       '/posts/:id',
-      async ({ params }) => {
+      async ({ params, headers, ...context }) => {
         const { id } = params as { id: PostId };
+        const { userId, permissions } = getAuth(context);
+        const expectedVersion = requireIfMatch(headers['if-match']) as PostVersion | undefined;
 
         this.logger.info('Deleting post by id', { id });
-        await this.useCase.execute(id);
+        await this.useCase.execute({ id, actorId: userId, actorPermissions: permissions, expectedVersion });
         this.logger.info('Post deleted successfully', { id });
 
         return { success: true };
       },
       {
+        beforeHandle: withPermission(Permissions.PostsDelete),
         params: PostIdParamsDto,
+        headers: IfMatchHeadersDto,
         response: {
           200: DeletePostResponseDto,
+          403: ErrorResponseDto,
           404: ErrorResponseDto,
+          412: ErrorResponseDto,
+          428: ErrorResponseDto,
         },
         detail: {
           summary: 'Delete post by ID',
-          description: 'Deletes a post identified by the provided ID',
+          description:
+            'Deletes a post identified by the provided ID. Only the author of the post or a moderator may delete it. Requires `If-Match` with the post ETag; a stale ETag returns 412',
           tags: ['Posts'],
         },
       }
@@ -2,15 +2,22 @@ import { Builder } from 'builder-pattern';
 import Elysia from 'elysia';
 import { inject, injectable } from 'tsyringe';
 
-import { GetAllPostsUseCase } from '@modules/content/application/use-cases/get-all-posts.usecase';
-import { GetAllPostsQuery } from '@modules/content/domain/ports/post.repository';
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import {
+  type GetAllPostsInput,
+  GetAllPostsUseCase,
+} from '@modules/content/application/use-cases/get-all-posts.usecase';
 import {
   ErrorResponseDto,
   GetAllPostsQueryDto,
   GetAllPostsReturnTypeDto,
 } from '@modules/content/interface/http/dtos/post.dto';
 import { PlatformTokens } from '@platform/di/tokens';
+import { AppError } from '@shared/errors/error-mapper';
 import type { LoggerPort } from '@shared/logging/logger.port';
+import { parseFilterParams } from '@shared/utils/query-filter.util';
 
 @injectable()
 export class GetAllPostsController {
@@ -22,31 +29,43 @@ export class GetAllPostsController {
   register(server: Elysia) {
     server.get(
       '/posts',
-      async ({ query }) => {
+      async ({ query, request, ...context }) => {
+        const { userId, permissions } = getAuth(context);
         try {
           this.logger.info('Fetching posts', { query });
 
           const page = Number(query?.page ?? 1);
           const limit = Number(query?.limit ?? -1);
-          const queryParams: GetAllPostsQuery = Builder<GetAllPostsQuery>()
+          // `filter[field][op]` keys are not part of the query schema, so they are read from the raw URL.
+          const filters = parseFilterParams(new URL(request.url).searchParams);
+          const queryParams: GetAllPostsInput = Builder<GetAllPostsInput>()
             .search(query.search)
             .sort(query.sort)
             .order(query.order)
             .page(page)
             .limit(limit)
+            .pagination(query.pagination)
+            .cursor(query.cursor)
+            .includeTotal(query.includeTotal)
+            .highlight(query.highlight)
+            .filters(filters)
+            .actorId(userId)
+            .actorPermissions(permissions)
             .build();
 
           const data = await this.useCase.execute(queryParams);
-          this.logger.debug('Fetched posts successfully', { count: data.meta.total });
+          this.logger.debug('Fetched posts successfully', { count: data.result.length, total: data.meta.total });
 
           return data;
         } catch (error) {
           const normalizedError = error instanceof Error ? error : new Error('Unknown error');
           this.logger.error('Failed to fetch posts', { error: normalizedError });
+          if (error instanceof AppError) throw error;
           throw new Error(`Failed to fetch posts: ${normalizedError.message}`);
         }
       },
       {
+        beforeHandle: withPermission(Permissions.PostsRead),
         query: GetAllPostsQueryDto,
         response: {
           200: GetAllPostsReturnTypeDto,
@@ -55,7 +74,8 @@ export class GetAllPostsController {
         },
         detail: {
           summary: 'Get all posts',
-          description: 'Retrieves a list of blog posts',
+          description:
+            'Retrieves a list of blog posts. Posts that are not published are only listed for their author and moderators. Filter with `filter[field][op]=value` (e.g. `filter[status][in]=active,inactive`, `filter[createdAt][gte]=2025-01-01`) and sort by several fields with `sort=-createdAt,title`. `search` accepts web-search syntax (quoted phrases, `or`, `-term`) and ranks matches by relevance unless `sort` is given; `highlight=true` adds `<mark>` snippets. Use `pagination=cursor` (or pass a `cursor`) for keyset pagination with `nextCursor`/`prevCursor`, and `includeTotal=false` to skip counting',
           tags: ['Posts'],
         },
       }
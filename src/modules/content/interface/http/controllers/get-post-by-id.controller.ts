@@ -1,11 +1,15 @@
 import Elysia from 'elysia';
 import { inject, injectable } from 'tsyringe';
 
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
 import { GetPostByIdUseCase } from '@modules/content/application/use-cases/get-post-by-id.usecase';
 import type { PostId } from '@modules/content/domain/entities/post.entity';
 import { ErrorResponseDto, GetPostResponseDto, PostIdParamsDto } from '@modules/content/interface/http/dtos/post.dto';
 import { PlatformTokens } from '@platform/di/tokens';
 import type { LoggerPort } from '@shared/logging/logger.port';
+import { toEtag } from '@shared/utils/etag.util';
 
 @injectable()
 export class GetPostByIdController {
@@ -17,13 +21,15 @@ export class GetPostByIdController {
   register(app: Elysia) {
     app.get(
       '/posts/:id',
-      async ({ params }) => {
+      async ({ params, set, ...context }) => {
         const { id } = params as { id: PostId };
+        const { userId, permissions } = getAuth(context);
         try {
           this.logger.info('Fetching post by id', { id });
-          const post = await this.useCase.execute(id);
+          const post = await this.useCase.execute({ id, actorId: userId, actorPermissions: permissions });
 
           this.logger.debug('Post fetched successfully', { id });
+          set.headers.etag = toEtag(post.version);
           return post;
         } catch (error) {
           const normalizedError = error instanceof Error ? error : new Error('Unknown error');
@@ -32,6 +38,7 @@ export class GetPostByIdController {
         }
       },
       {
+        beforeHandle: withPermission(Permissions.PostsRead),
         params: PostIdParamsDto,
         response: {
           200: GetPostResponseDto,
@@ -40,7 +47,8 @@ export class GetPostByIdController {
         },
         detail: {
           summary: 'Get post by ID',
-          description: 'Retrieves a specific post by its ID',
+          description:
+            'Retrieves a specific post by its ID. Posts that are not published are only found for their author and moderators',
           tags: ['Posts'],
         },
       }
@@ -0,0 +1,66 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { GetPostRevisionByIdUseCase } from '@modules/content/application/use-cases/get-post-revision-by-id.usecase';
+import type { PostRevisionId } from '@modules/content/domain/entities/post-revision.entity';
+import type { PostId } from '@modules/content/domain/entities/post.entity';
+import {
+  ErrorResponseDto,
+  GetPostRevisionResponseDto,
+  PostRevisionParamsDto,
+} from '@modules/content/interface/http/dtos/post.dto';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+@injectable()
+export class GetPostRevisionByIdController {
+  constructor(
+    @inject(GetPostRevisionByIdUseCase) private readonly useCase: GetPostRevisionByIdUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.get(
+      '/posts/:id/revisions/:revId',
+      async ({ params, ...context }) => {
+        const { id, revId } = params as { id: PostId; revId: PostRevisionId };
+        const { userId, permissions } = getAuth(context);
+
+        try {
+          this.logger.info('Fetching post revision', { id, revId });
+          const revision = await this.useCase.execute({
+            postId: id,
+            revisionId: revId,
+            actorId: userId,
+            actorPermissions: permissions,
+          });
+
+          this.logger.debug('Post revision fetched successfully', { id, revId });
+          return revision;
+        } catch (error) {
+          const normalizedError = error instanceof Error ? error : new Error('Unknown error');
+          this.logger.error('Failed to fetch post revision', { id, revId, error: normalizedError });
+          throw error;
+        }
+      },
+      {
+        beforeHandle: withPermission(Permissions.PostsUpdate),
+        params: PostRevisionParamsDto,
+        response: {
+          200: GetPostRevisionResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Get post revision',
+          description: 'Retrieves a single previous version of a post',
+          tags: ['Posts'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { GetPostRevisionsUseCase } from '@modules/content/application/use-cases/get-post-revisions.usecase';
+import type { PostId } from '@modules/content/domain/entities/post.entity';
+import {
+  ErrorResponseDto,
+  GetPostRevisionsResponseDto,
+  PostIdParamsDto,
+} from '@modules/content/interface/http/dtos/post.dto';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+@injectable()
+export class GetPostRevisionsController {
+  constructor(
+    @inject(GetPostRevisionsUseCase) private readonly useCase: GetPostRevisionsUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.get(
+      '/posts/:id/revisions',
+      async ({ params, ...context }) => {
+        const { id } = params as { id: PostId };
+        const { userId, permissions } = getAuth(context);
+
+        try {
+          this.logger.info('Fetching post revisions', { id });
+          const revisions = await this.useCase.execute({ postId: id, actorId: userId, actorPermissions: permissions });
+
+          this.logger.debug('Post revisions fetched successfully', { id, count: revisions.length });
+          return revisions;
+        } catch (error) {
+          const normalizedError = error instanceof Error ? error : new Error('Unknown error');
+          this.logger.error('Failed to fetch post revisions', { id, error: normalizedError });
+          throw error;
+        }
+      },
+      {
+        beforeHandle: withPermission(Permissions.PostsUpdate),
+        params: PostIdParamsDto,
+        response: {
+          200: GetPostRevisionsResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'List post revisions',
+          description:
+            'Lists the previous versions of a post, newest first. Only the author of the post or a moderator may view them',
+          tags: ['Posts'],
+        },
+      }
+    );
+  }
+}
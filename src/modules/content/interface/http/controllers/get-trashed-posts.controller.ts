@@ -0,0 +1,62 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { GetTrashedPostsUseCase } from '@modules/content/application/use-cases/get-trashed-posts.usecase';
+import {
+  ErrorResponseDto,
+  GetAllPostsReturnTypeDto,
+  GetTrashedPostsQueryDto,
+} from '@modules/content/interface/http/dtos/post.dto';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+@injectable()
+export class GetTrashedPostsController {
+  constructor(
+    @inject(GetTrashedPostsUseCase) private readonly useCase: GetTrashedPostsUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.get(
+      '/posts/trash',
+      async ({ query, ...context }) => {
+        const { userId, permissions } = getAuth(context);
+
+        try {
+          this.logger.info('Fetching trashed posts', { query });
+          const data = await this.useCase.execute({
+            page: query.page,
+            limit: query.limit,
+            actorId: userId,
+            actorPermissions: permissions,
+          });
+
+          this.logger.debug('Fetched trashed posts successfully', { count: data.result.length });
+          return data;
+        } catch (error) {
+          const normalizedError = error instanceof Error ? error : new Error('Unknown error');
+          this.logger.error('Failed to fetch trashed posts', { error: normalizedError });
+          throw error;
+        }
+      },
+      {
+        beforeHandle: withPermission(Permissions.PostsDelete),
+        query: GetTrashedPostsQueryDto,
+        response: {
+          200: GetAllPostsReturnTypeDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'List trashed posts',
+          description:
+            'Lists soft-deleted posts, most recently deleted first. Authors see their own posts; moderators see every deleted post',
+          tags: ['Posts'],
+        },
+      }
+    );
+  }
+}
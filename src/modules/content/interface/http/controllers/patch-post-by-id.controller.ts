@@ -0,0 +1,101 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { PatchPostByIdUseCase } from '@modules/content/application/use-cases/patch-post-by-id.usecase';
+import type { PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
+import {
+  ErrorResponseDto,
+  IfMatchHeadersDto,
+  PatchPostRequestDto,
+  PatchPostResponseDto,
+  PostIdParamsDto,
+} from '@modules/content/interface/http/dtos/post.dto';
+import { PlatformTokens } from '@platform/di/tokens';
+import { UnsupportedMediaTypeError, ValidationError } from '@shared/errors/error-mapper';
+import type { LoggerPort } from '@shared/logging/logger.port';
+import { requireIfMatch, toEtag } from '@shared/utils/etag.util';
+import { resolvePatchFormat } from '@shared/utils/json-patch.util';
+
+@injectable()
+export class PatchPostByIdController {
+  constructor(
+    @inject(PatchPostByIdUseCase) private readonly useCase: PatchPostByIdUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.patch(
+      '/posts/:id',
+      async ({ params, body, headers, request, set, ...context }) => {
+        const { id } = params as { id: PostId };
+        const { userId, permissions } = getAuth(context);
+
+        try {
+          const format = resolvePatchFormat(request.headers.get('content-type') ?? undefined);
+          if (!format) {
+            throw new UnsupportedMediaTypeError(
+              'Use application/merge-patch+json or application/json-patch+json to patch a post'
+            );
+          }
+
+          this.logger.info('Patching post by id', { id, format });
+
+          const expectedVersion = requireIfMatch(headers['if-match']) as PostVersion | undefined;
+
+          const patchedPost = await this.useCase.execute({
+            id,
+            patch: { format, document: body },
+            actorId: userId,
+            actorPermissions: permissions,
+            expectedVersion,
+          });
+          this.logger.info('Post patched successfully', { id, version: patchedPost.version });
+
+          set.headers.etag = toEtag(patchedPost.version);
+          return patchedPost;
+        } catch (error) {
+          const normalizedError = error instanceof Error ? error : new Error('Unknown error');
+          this.logger.error('Failed to patch post', { id, error: normalizedError });
+          throw error;
+        }
+      },
+      {
+        beforeHandle: withPermission(Permissions.PostsUpdate),
+        // Elysia only parses JSON bodies for `application/json`; patch documents use their own media types.
+        parse: async ({ request, contentType }) => {
+          if (contentType.includes('patch+json')) {
+            const text = await request.text();
+            try {
+              return JSON.parse(text);
+            } catch {
+              throw new ValidationError('Request body is not valid JSON');
+            }
+          }
+        },
+        params: PostIdParamsDto,
+        headers: IfMatchHeadersDto,
+        body: PatchPostRequestDto,
+        response: {
+          200: PatchPostResponseDto,
+          400: ErrorResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+          409: ErrorResponseDto,
+          412: ErrorResponseDto,
+          415: ErrorResponseDto,
+          428: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Patch post by ID',
+          description:
+            'Partially updates a post. Send a JSON Merge Patch (`application/merge-patch+json`) or a JSON Patch (`application/json-patch+json`); the patch is applied to the stored post and the result is validated as a whole. A failed JSON Patch `test` returns 409. Requires `If-Match` with the post ETag',
+          tags: ['Posts'],
+        },
+      }
+    );
+  }
+}
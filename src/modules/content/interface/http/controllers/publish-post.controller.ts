@@ -0,0 +1,76 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { PublishPostUseCase } from '@modules/content/application/use-cases/publish-post.usecase';
+import type { PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
+import {
+  ErrorResponseDto,
+  IfMatchHeadersDto,
+  PostIdParamsDto,
+  PostPublicationResponseDto,
+} from '@modules/content/interface/http/dtos/post.dto';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+import { requireIfMatch, toEtag } from '@shared/utils/etag.util';
+
+@injectable()
+export class PublishPostController {
+  constructor(
+    @inject(PublishPostUseCase) private readonly useCase: PublishPostUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.post(
+      '/posts/:id/publish',
+      async ({ params, headers, set, ...context }) => {
+        const { id } = params as { id: PostId };
+        const { userId, permissions } = getAuth(context);
+
+        try {
+          this.logger.info('Publishing post', { id });
+
+          const expectedVersion = requireIfMatch(headers['if-match']) as PostVersion | undefined;
+
+          const post = await this.useCase.execute({
+            id,
+            actorId: userId,
+            actorPermissions: permissions,
+            expectedVersion,
+          });
+          this.logger.info('Post published', { id, version: post.version });
+
+          set.headers.etag = toEtag(post.version);
+          return post;
+        } catch (error) {
+          const normalizedError = error instanceof Error ? error : new Error('Unknown error');
+          this.logger.error('Failed to publish post', { id, error: normalizedError });
+          throw error;
+        }
+      },
+      {
+        beforeHandle: withPermission(Permissions.PostsPublish),
+        params: PostIdParamsDto,
+        headers: IfMatchHeadersDto,
+        response: {
+          200: PostPublicationResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+          409: ErrorResponseDto,
+          412: ErrorResponseDto,
+          428: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Publish post',
+          description:
+            'Publishes a draft, in-review or scheduled post immediately. Requires the `posts:publish` permission and `If-Match` with the post ETag',
+          tags: ['Posts'],
+        },
+      }
+    );
+  }
+}
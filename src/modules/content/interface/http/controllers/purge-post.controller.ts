@@ -0,0 +1,50 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { PurgePostUseCase } from '@modules/content/application/use-cases/purge-post.usecase';
+import type { PostId } from '@modules/content/domain/entities/post.entity';
+import { ErrorResponseDto, PostIdParamsDto, PurgePostResponseDto } from '@modules/content/interface/http/dtos/post.dto';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+@injectable()
+export class PurgePostController {
+  constructor(
+    @inject(PurgePostUseCase) private readonly useCase: PurgePostUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.delete(
+      '/posts/:id/purge',
+      async ({ params, ...context }) => {
+        const { id } = params as { id: PostId };
+        const { userId, permissions } = getAuth(context);
+
+        this.logger.info('Purging post', { id });
+        await this.useCase.execute({ id, actorId: userId, actorPermissions: permissions });
+        this.logger.info('Post purged successfully', { id });
+
+        return { success: true };
+      },
+      {
+        beforeHandle: withPermission(Permissions.PostsDelete),
+        params: PostIdParamsDto,
+        response: {
+          200: PurgePostResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Purge post',
+          description:
+            'Permanently deletes a post that is already in the trash, including its revisions. This cannot be undone',
+          tags: ['Posts'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { RestorePostRevisionUseCase } from '@modules/content/application/use-cases/restore-post-revision.usecase';
+import type { PostRevisionId } from '@modules/content/domain/entities/post-revision.entity';
+import type { PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
+import {
+  ErrorResponseDto,
+  IfMatchHeadersDto,
+  PostRevisionParamsDto,
+  RestorePostRevisionResponseDto,
+} from '@modules/content/interface/http/dtos/post.dto';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+import { requireIfMatch, toEtag } from '@shared/utils/etag.util';
+
+@injectable()
+export class RestorePostRevisionController {
+  constructor(
+    @inject(RestorePostRevisionUseCase) private readonly useCase: RestorePostRevisionUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.post(
+      '/posts/:id/revisions/:revId/restore',
+      async ({ params, headers, set, ...context }) => {
+        const { id, revId } = params as { id: PostId; revId: PostRevisionId };
+        const { userId, permissions } = getAuth(context);
+
+        try {
+          this.logger.info('Restoring post revision', { id, revId });
+          const expectedVersion = requireIfMatch(headers['if-match']) as PostVersion | undefined;
+
+          const post = await this.useCase.execute({
+            postId: id,
+            revisionId: revId,
+            actorId: userId,
+            actorPermissions: permissions,
+            expectedVersion,
+          });
+          this.logger.info('Post revision restored successfully', { id, revId, version: post.version });
+
+          set.headers.etag = toEtag(post.version);
+          return post;
+        } catch (error) {
+          const normalizedError = error instanceof Error ? error : new Error('Unknown error');
+          this.logger.error('Failed to restore post revision', { id, revId, error: normalizedError });
+          throw error;
+        }
+      },
+      {
+        beforeHandle: withPermission(Permissions.PostsUpdate),
+        params: PostRevisionParamsDto,
+        headers: IfMatchHeadersDto,
+        response: {
+          200: RestorePostRevisionResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+          412: ErrorResponseDto,
+          428: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Restore post revision',
+          description:
+            'Restores the title, content and status of a previous version as a new edit. Requires `If-Match` with the current post ETag',
+          tags: ['Posts'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { RestorePostUseCase } from '@modules/content/application/use-cases/restore-post.usecase';
+import type { PostId } from '@modules/content/domain/entities/post.entity';
+import {
+  ErrorResponseDto,
+  PostIdParamsDto,
+  RestorePostResponseDto,
+} from '@modules/content/interface/http/dtos/post.dto';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+import { toEtag } from '@shared/utils/etag.util';
+
+@injectable()
+export class RestorePostController {
+  constructor(
+    @inject(RestorePostUseCase) private readonly useCase: RestorePostUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.post(
+      '/posts/:id/restore',
+      async ({ params, set, ...context }) => {
+        const { id } = params as { id: PostId };
+        const { userId, permissions } = getAuth(context);
+
+        this.logger.info('Restoring post from trash', { id });
+        const post = await this.useCase.execute({ id, actorId: userId, actorPermissions: permissions });
+        this.logger.info('Post restored successfully', { id });
+
+        set.headers.etag = toEtag(post.version);
+        return post;
+      },
+      {
+        beforeHandle: withPermission(Permissions.PostsDelete),
+        params: PostIdParamsDto,
+        response: {
+          200: RestorePostResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Restore post from trash',
+          description:
+            'Brings a soft-deleted post back with the status it had before it was deleted. Only the author of the post or a moderator may restore it',
+          tags: ['Posts'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { SchedulePostUseCase } from '@modules/content/application/use-cases/schedule-post.usecase';
+import type { PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
+import {
+  ErrorResponseDto,
+  IfMatchHeadersDto,
+  PostIdParamsDto,
+  PostPublicationResponseDto,
+  SchedulePostRequestDto,
+} from '@modules/content/interface/http/dtos/post.dto';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+import { requireIfMatch, toEtag } from '@shared/utils/etag.util';
+
+@injectable()
+export class SchedulePostController {
+  constructor(
+    @inject(SchedulePostUseCase) private readonly useCase: SchedulePostUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.post(
+      '/posts/:id/schedule',
+      async ({ params, body, headers, set, ...context }) => {
+        const { id } = params as { id: PostId };
+        const { userId, permissions } = getAuth(context);
+
+        try {
+          this.logger.info('Scheduling post', { id });
+
+          const expectedVersion = requireIfMatch(headers['if-match']) as PostVersion | undefined;
+
+          const post = await this.useCase.execute({
+            id,
+            publishAt: body.publishAt,
+            actorId: userId,
+            actorPermissions: permissions,
+            expectedVersion,
+          });
+          this.logger.info('Post scheduled', { id, version: post.version });
+
+          set.headers.etag = toEtag(post.version);
+          return post;
+        } catch (error) {
+          const normalizedError = error instanceof Error ? error : new Error('Unknown error');
+          this.logger.error('Failed to schedule post', { id, error: normalizedError });
+          throw error;
+        }
+      },
+      {
+        beforeHandle: withPermission(Permissions.PostsPublish),
+        params: PostIdParamsDto,
+        headers: IfMatchHeadersDto,
+        body: SchedulePostRequestDto,
+        response: {
+          200: PostPublicationResponseDto,
+          400: ErrorResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+          409: ErrorResponseDto,
+          412: ErrorResponseDto,
+          428: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Schedule post',
+          description:
+            'Schedules a draft, in-review or already scheduled post to be published at `publishAt`, which must be in the future. Requires the `posts:publish` permission and `If-Match` with the post ETag',
+          tags: ['Posts'],
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import Elysia from 'elysia';
+import { inject, injectable } from 'tsyringe';
+
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
+import { SubmitPostForReviewUseCase } from '@modules/content/application/use-cases/submit-post-for-review.usecase';
+import type { PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
+import {
+  ErrorResponseDto,
+  IfMatchHeadersDto,
+  PostIdParamsDto,
+  PostPublicationResponseDto,
+} from '@modules/content/interface/http/dtos/post.dto';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+import { requireIfMatch, toEtag } from '@shared/utils/etag.util';
+
+@injectable()
+export class SubmitPostForReviewController {
+  constructor(
+    @inject(SubmitPostForReviewUseCase) private readonly useCase: SubmitPostForReviewUseCase,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  register(app: Elysia) {
+    app.post(
+      '/posts/:id/submit',
+      async ({ params, headers, set, ...context }) => {
+        const { id } = params as { id: PostId };
+        const { userId, permissions } = getAuth(context);
+
+        try {
+          this.logger.info('Submitting post for review', { id });
+
+          const expectedVersion = requireIfMatch(headers['if-match']) as PostVersion | undefined;
+
+          const post = await this.useCase.execute({
+            id,
+            actorId: userId,
+            actorPermissions: permissions,
+            expectedVersion,
+          });
+          this.logger.info('Post submitted for review', { id, version: post.version });
+
+          set.headers.etag = toEtag(post.version);
+          return post;
+        } catch (error) {
+          const normalizedError = error instanceof Error ? error : new Error('Unknown error');
+          this.logger.error('Failed to submit post for review', { id, error: normalizedError });
+          throw error;
+        }
+      },
+      {
+        beforeHandle: withPermission(Permissions.PostsUpdate),
+        params: PostIdParamsDto,
+        headers: IfMatchHeadersDto,
+        response: {
+          200: PostPublicationResponseDto,
+          403: ErrorResponseDto,
+          404: ErrorResponseDto,
+          409: ErrorResponseDto,
+          412: ErrorResponseDto,
+          428: ErrorResponseDto,
+          500: ErrorResponseDto,
+        },
+        detail: {
+          summary: 'Submit post for review',
+          description:
+            'Moves a draft post to `in_review`. Only the author of the post or a moderator may submit it. Requires `If-Match` with the post ETag',
+          tags: ['Posts'],
+        },
+      }
+    );
+  }
+}
@@ -2,6 +2,9 @@ import { Builder } from 'builder-pattern';
 import Elysia from 'elysia';
 import { inject, injectable } from 'tsyringe';
 
+import { Permissions } from '@modules/accounts/domain/entities/role.entity';
+import { getAuth } from '@modules/auth/interface/http/guards/auth.guard';
+import { withPermission } from '@modules/auth/interface/http/guards/permission.guard';
 import { UpdatePostByIdUseCase } from '@modules/content/application/use-cases/update-post-by-id.usecase';
 import {
   type IPost,
@@ -9,15 +12,18 @@ import {
   type PostId,
   type PostStatus,
   type PostTitle,
+  type PostVersion,
 } from '@modules/content/domain/entities/post.entity';
 import {
   ErrorResponseDto,
+  IfMatchHeadersDto,
   PostIdParamsDto,
   UpdatePostRequestDto,
   UpdatePostResponseDto,
 } from '@modules/content/interface/http/dtos/post.dto';
 import { PlatformTokens } from '@platform/di/tokens';
 import type { LoggerPort } from '@shared/logging/logger.port';
+import { requireIfMatch, toEtag } from '@shared/utils/etag.util';
 
 @injectable()
 export class UpdatePostByIdController {
@@ -29,14 +35,17 @@ export class UpdatePostByIdController {
   register(app: Elysia) {
     app.put(
       '/posts/:id',
-      async ({ params, body }) => {
+      async ({ params, body, headers, set, ...context }) => {
         const { id } = params as { id: PostId };
+        const { userId, permissions } = getAuth(context);
         const { title, content, status } = body;
 
         try {
           this.logger.info('Updating post by id', { id });
           this.logger.info('Post to update', body);
 
+          const expectedVersion = requireIfMatch(headers['if-match']) as PostVersion | undefined;
+
           const post: IPost = Builder<IPost>()
             .id(id)
             .title(title as PostTitle)
@@ -44,8 +53,15 @@ export class UpdatePostByIdController {
             .status(status as PostStatus)
             .build();
 
-          const updatedPost = await this.useCase.execute(post);
-          this.logger.info('Post updated successfully', { id });
+          const updatedPost = await this.useCase.execute({
+            post,
+            actorId: userId,
+            actorPermissions: permissions,
+            expectedVersion,
+          });
+          this.logger.info('Post updated successfully', { id, version: updatedPost.version });
+
+          set.headers.etag = toEtag(updatedPost.version);
           return updatedPost;
         } catch (error) {
           const normalizedError = error instanceof Error ? error : new Error('Unknown error');
@@ -54,16 +70,22 @@ export class UpdatePostByIdController {
         }
       },
       {
+        beforeHandle: withPermission(Permissions.PostsUpdate),
         params: PostIdParamsDto,
+        headers: IfMatchHeadersDto,
         body: UpdatePostRequestDto,
         response: {
           200: UpdatePostResponseDto,
+          403: ErrorResponseDto,
           404: ErrorResponseDto,
+          412: ErrorResponseDto,
+          428: ErrorResponseDto,
           500: ErrorResponseDto,
         },
         detail: {
           summary: 'Update post by ID',
-          description: 'Updates an existing post with the provided information',
+          description:
+            'Updates an existing post with the provided information. Only the author of the post or a moderator may update it. Requires `If-Match` with the post ETag; a stale ETag returns 412',
           tags: ['Posts'],
         },
       }
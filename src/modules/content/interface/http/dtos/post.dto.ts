@@ -1,27 +1,58 @@
 import { t } from 'elysia';
 
+import {
+  EDITABLE_POST_STATUSES,
+  EPublicationStatus,
+  POST_TITLE_MAX_LENGTH,
+} from '@modules/content/domain/entities/post.entity';
 import { GetAllMetaDto, GetAllParamsDto, StatusDto } from '@shared/dtos/common.dto';
 
+export const PublicationStatusDto = t.Enum(EPublicationStatus);
+
+export const EditablePostStatusDto = t.UnionEnum(EDITABLE_POST_STATUSES);
+
 export const PostDto = t.Object({
   id: t.String(),
   title: t.String(),
   content: t.String(),
   status: StatusDto,
+  authorId: t.String(),
+  version: t.Number(),
   createdAt: t.Optional(t.Date()),
   updatedAt: t.Optional(t.Date()),
+  deletedAt: t.Optional(t.Date()),
+  publicationStatus: PublicationStatusDto,
+  publishAt: t.Optional(t.Date()),
+  publishedAt: t.Optional(t.Date()),
+});
+
+export const PostHighlightDto = t.Object({
+  title: t.String(),
+  content: t.String(),
+});
+
+export const PostListItemDto = t.Object({
+  ...PostDto.properties,
+  highlight: t.Optional(PostHighlightDto),
 });
 
 export const GetAllPostsQueryDto = t.Object({
   ...GetAllParamsDto.properties,
+  highlight: t.Optional(t.Boolean()),
 });
 
 export const GetAllPostsReturnTypeDto = t.Object({
-  result: t.Array(PostDto),
+  result: t.Array(PostListItemDto),
   meta: GetAllMetaDto,
 });
 
+export const GetTrashedPostsQueryDto = t.Object({
+  page: t.Optional(t.Number()),
+  limit: t.Optional(t.Number()),
+});
+
 export const CreatePostRequestDto = t.Object({
-  title: t.String({ minLength: 1, maxLength: 200 }),
+  title: t.String({ minLength: 1, maxLength: POST_TITLE_MAX_LENGTH }),
   content: t.String({ minLength: 1 }),
 });
 
@@ -29,38 +60,100 @@ export const CreatePostResponseDto = PostDto;
 
 export const UpdatePostRequestDto = t.Object(
   {
-    title: t.Optional(t.String({ minLength: 1, maxLength: 200 })),
+    title: t.Optional(t.String({ minLength: 1, maxLength: POST_TITLE_MAX_LENGTH })),
     content: t.Optional(t.String({ minLength: 1 })),
-    status: t.Optional(StatusDto),
+    status: t.Optional(EditablePostStatusDto),
   },
   { additionalProperties: false }
 );
 
 export const UpdatePostResponseDto = PostDto;
 
+// Shape depends on the Content-Type, so the document is checked after the patch has been applied.
+export const PatchPostRequestDto = t.Unknown({
+  description:
+    'JSON Merge Patch object (application/merge-patch+json) or JSON Patch array (application/json-patch+json)',
+});
+
+export const PatchPostResponseDto = PostDto;
+
 export const DeletePostResponseDto = t.Object({
   success: t.Boolean(),
 });
 
 export const GetPostResponseDto = PostDto;
 
+export const RestorePostResponseDto = PostDto;
+
+export const SchedulePostRequestDto = t.Object({
+  publishAt: t.Date({ description: 'When the post should be published; must be in the future' }),
+});
+
+export const PostPublicationResponseDto = PostDto;
+
+export const PurgePostResponseDto = t.Object({
+  success: t.Boolean(),
+});
+
 export const PostIdParamsDto = t.Object({
   id: t.String(),
 });
 
+export const PostRevisionDto = t.Object({
+  id: t.String(),
+  postId: t.String(),
+  version: t.Number(),
+  title: t.String(),
+  content: t.String(),
+  status: StatusDto,
+  editedBy: t.Optional(t.String()),
+  createdAt: t.Optional(t.Date()),
+});
+
+export const GetPostRevisionsResponseDto = t.Array(PostRevisionDto);
+
+export const GetPostRevisionResponseDto = PostRevisionDto;
+
+export const RestorePostRevisionResponseDto = PostDto;
+
+export const PostRevisionParamsDto = t.Object({
+  id: t.String(),
+  revId: t.String(),
+});
+
+export const IfMatchHeadersDto = t.Object({
+  'if-match': t.Optional(t.String({ description: 'ETag of the post as last read, or `*`' })),
+});
+
 export const ErrorResponseDto = t.Object({
   name: t.String(),
   message: t.String(),
 });
 
 export type PostDtoType = typeof PostDto;
+export type PostHighlightDtoType = typeof PostHighlightDto;
+export type PostListItemDtoType = typeof PostListItemDto;
 export type CreatePostRequestDtoType = typeof CreatePostRequestDto;
 export type CreatePostResponseDtoType = typeof CreatePostResponseDto;
 export type UpdatePostRequestDtoType = typeof UpdatePostRequestDto;
 export type UpdatePostResponseDtoType = typeof UpdatePostResponseDto;
+export type PatchPostRequestDtoType = typeof PatchPostRequestDto;
+export type PatchPostResponseDtoType = typeof PatchPostResponseDto;
 export type DeletePostResponseDtoType = typeof DeletePostResponseDto;
 export type GetPostResponseDtoType = typeof GetPostResponseDto;
 export type GetAllPostsQueryDtoType = typeof GetAllPostsQueryDto;
+export type GetTrashedPostsQueryDtoType = typeof GetTrashedPostsQueryDto;
+export type RestorePostResponseDtoType = typeof RestorePostResponseDto;
+export type SchedulePostRequestDtoType = typeof SchedulePostRequestDto;
+export type PostPublicationResponseDtoType = typeof PostPublicationResponseDto;
+export type PurgePostResponseDtoType = typeof PurgePostResponseDto;
 export type GetAllPostsReturnTypeDtoType = typeof GetAllPostsReturnTypeDto;
 export type PostIdParamsDtoType = typeof PostIdParamsDto;
+export type PostRevisionDtoType = typeof PostRevisionDto;
+export type GetPostRevisionsResponseDtoType = typeof GetPostRevisionsResponseDto;
+export type GetPostRevisionResponseDtoType = typeof GetPostRevisionResponseDto;
+export type RestorePostRevisionResponseDtoType = typeof RestorePostRevisionResponseDto;
+export type PostRevisionParamsDtoType = typeof PostRevisionParamsDto;
+export type PublicationStatusDtoType = typeof PublicationStatusDto;
+export type IfMatchHeadersDtoType = typeof IfMatchHeadersDto;
 export type ErrorResponseDtoType = typeof ErrorResponseDto;
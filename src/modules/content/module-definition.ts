@@ -1,21 +1,43 @@
 import type { Elysia } from 'elysia';
 import type { DependencyContainer } from 'tsyringe';
 
+import { ArchivePostController } from '@modules/content/interface/http/controllers/archive-post.controller';
 import { CreatePostController } from '@modules/content/interface/http/controllers/create-post.controller';
 import { DeletePostByIdController } from '@modules/content/interface/http/controllers/delete-post-by-id.controller';
 import { GetAllPostsController } from '@modules/content/interface/http/controllers/get-all-posts.controller';
+import { GetTrashedPostsController } from '@modules/content/interface/http/controllers/get-trashed-posts.controller';
 import { GetPostByIdController } from '@modules/content/interface/http/controllers/get-post-by-id.controller';
+import { GetPostRevisionByIdController } from '@modules/content/interface/http/controllers/get-post-revision-by-id.controller';
+import { GetPostRevisionsController } from '@modules/content/interface/http/controllers/get-post-revisions.controller';
+import { PatchPostByIdController } from '@modules/content/interface/http/controllers/patch-post-by-id.controller';
+import { PublishPostController } from '@modules/content/interface/http/controllers/publish-post.controller';
+import { PurgePostController } from '@modules/content/interface/http/controllers/purge-post.controller';
+import { RestorePostController } from '@modules/content/interface/http/controllers/restore-post.controller';
+import { RestorePostRevisionController } from '@modules/content/interface/http/controllers/restore-post-revision.controller';
+import { SchedulePostController } from '@modules/content/interface/http/controllers/schedule-post.controller';
+import { SubmitPostForReviewController } from '@modules/content/interface/http/controllers/submit-post-for-review.controller';
 import { UpdatePostByIdController } from '@modules/content/interface/http/controllers/update-post-by-id.controller';
 import { ContentModuleTokens } from '@modules/content/module.tokens';
+import { type ContentConfig, contentConfig } from '@modules/content/infrastructure/config/content.config';
+import { PostPublishingJob } from '@modules/content/infrastructure/jobs/post-publishing.job';
+import { PostTrashRetentionJob } from '@modules/content/infrastructure/jobs/post-trash-retention.job';
 import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
 import { PostDrizzleRepository } from '@modules/content/infrastructure/persistence/post.drizzle.repository';
+import { PostRevisionDrizzleRepository } from '@modules/content/infrastructure/persistence/post-revision.drizzle.repository';
 import { withAuth } from '@modules/auth/interface/http/guards/auth.guard';
 import type { ModuleDefinition } from '@platform/di/module-definition';
+import type { JobScheduler } from '@platform/jobs/job-scheduler';
 
 export const contentModule: ModuleDefinition = {
   name: 'content',
   register(container: DependencyContainer) {
+    container.register<ContentConfig>(ContentModuleTokens.ContentConfig, { useValue: contentConfig });
     container.registerSingleton<PostRepository>(ContentModuleTokens.PostRepository, PostDrizzleRepository);
+    container.registerSingleton<PostRevisionRepository>(
+      ContentModuleTokens.PostRevisionRepository,
+      PostRevisionDrizzleRepository
+    );
   },
   routes(app: Elysia, container: DependencyContainer) {
     const protectedApp = withAuth(app) as unknown as Elysia;
@@ -23,8 +45,27 @@ export const contentModule: ModuleDefinition = {
     container.resolve(CreatePostController).register(protectedApp);
     container.resolve(DeletePostByIdController).register(protectedApp);
     container.resolve(GetAllPostsController).register(protectedApp);
+    container.resolve(GetTrashedPostsController).register(protectedApp);
     container.resolve(GetPostByIdController).register(protectedApp);
+    container.resolve(GetPostRevisionsController).register(protectedApp);
+    container.resolve(GetPostRevisionByIdController).register(protectedApp);
+    container.resolve(RestorePostRevisionController).register(protectedApp);
+    container.resolve(RestorePostController).register(protectedApp);
+    container.resolve(PurgePostController).register(protectedApp);
     container.resolve(UpdatePostByIdController).register(protectedApp);
+    container.resolve(PatchPostByIdController).register(protectedApp);
+    container.resolve(SubmitPostForReviewController).register(protectedApp);
+    container.resolve(SchedulePostController).register(protectedApp);
+    container.resolve(PublishPostController).register(protectedApp);
+    container.resolve(ArchivePostController).register(protectedApp);
+  },
+  jobs(scheduler: JobScheduler, container: DependencyContainer) {
+    if (contentConfig.trash.purgeEnabled) {
+      scheduler.schedule(container.resolve(PostTrashRetentionJob));
+    }
+    if (contentConfig.publishing.enabled) {
+      scheduler.schedule(container.resolve(PostPublishingJob));
+    }
   },
 };
 
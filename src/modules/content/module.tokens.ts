@@ -1,3 +1,5 @@
 export const ContentModuleTokens = {
   PostRepository: Symbol('Content.PostRepository'),
+  PostRevisionRepository: Symbol('Content.PostRevisionRepository'),
+  ContentConfig: Symbol('Content.ContentConfig'),
 };
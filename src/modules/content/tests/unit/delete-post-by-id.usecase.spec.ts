@@ -4,8 +4,10 @@ import { mock } from 'vitest-mock-extended';
 
 import { faker } from '@faker-js/faker';
 
-import { NotFoundError } from '@shared/errors/error-mapper';
-import { IPost, PostId } from '@modules/content/domain/entities/post.entity';
+import { ForbiddenError, NotFoundError, PreconditionFailedError } from '@shared/errors/error-mapper';
+import { ERole, getRolePermissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { IPost, PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
 import { PostRepository } from '@modules/content/domain/ports/post.repository';
 import { DeletePostByIdUseCase } from '@modules/content/application/use-cases/delete-post-by-id.usecase';
 
@@ -22,13 +24,16 @@ describe('DeletePostByIdUseCase', () => {
   });
 
   const postId = faker.string.uuid() as PostId;
+  const actorId = faker.string.uuid() as UserId;
+  const actorPermissions = getRolePermissions(ERole.user);
+  const version = 2 as PostVersion;
   it('should be throw error when post not found', async () => {
     //Arrange
     postRepository.getById.mockResolvedValue(undefined);
     const errorExpected = new NotFoundError('Post not found');
 
     //Act
-    const promise = useCase.execute(postId);
+    const promise = useCase.execute({ id: postId, actorId, actorPermissions });
 
     //Assert
     await expect(promise).rejects.toThrowError(errorExpected);
@@ -36,17 +41,65 @@ describe('DeletePostByIdUseCase', () => {
     expect(postRepository.deleteById).not.toHaveBeenCalled();
   });
 
-  it('should be delete post', async () => {
+  it('should be throw error when actor is neither the author nor a moderator', async () => {
     //Arrange
     const post = mock<IPost>({ id: postId });
+    post.canBeModifiedBy.mockReturnValue(false);
+    postRepository.getById.mockResolvedValue(post);
+    const errorExpected = new ForbiddenError('You are not allowed to delete this post');
+
+    //Act
+    const promise = useCase.execute({ id: postId, actorId, actorPermissions });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(post.canBeModifiedBy).toHaveBeenCalledWith(actorId, actorPermissions);
+    expect(postRepository.deleteById).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when expected version is stale', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId, version });
+    post.canBeModifiedBy.mockReturnValue(true);
+    postRepository.getById.mockResolvedValue(post);
+    const errorExpected = new PreconditionFailedError('Post has been modified since it was last read');
+
+    //Act
+    const promise = useCase.execute({ id: postId, actorId, actorPermissions, expectedVersion: 1 as PostVersion });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(postRepository.deleteById).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when post is modified concurrently', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId, version });
+    post.canBeModifiedBy.mockReturnValue(true);
+    postRepository.getById.mockResolvedValue(post);
+    postRepository.deleteById.mockResolvedValue(false);
+    const errorExpected = new PreconditionFailedError('Post has been modified since it was last read');
+
+    //Act
+    const promise = useCase.execute({ id: postId, actorId, actorPermissions, expectedVersion: version });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(postRepository.deleteById).toHaveBeenCalledWith(postId, version);
+  });
+
+  it('should be delete post', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId, version });
+    post.canBeModifiedBy.mockReturnValue(true);
     postRepository.getById.mockResolvedValue(post);
-    postRepository.deleteById.mockResolvedValue(undefined);
+    postRepository.deleteById.mockResolvedValue(true);
 
     //Act
-    const actual = await useCase.execute(postId);
+    const actual = await useCase.execute({ id: postId, actorId, actorPermissions, expectedVersion: version });
     //Assert
     expect(actual).toBeUndefined();
     expect(postRepository.getById).toHaveBeenCalledWith(postId);
-    expect(postRepository.deleteById).toHaveBeenCalledWith(postId);
+    expect(postRepository.deleteById).toHaveBeenCalledWith(postId, version);
   });
 });
@@ -0,0 +1,54 @@
+import 'reflect-metadata';
+import { vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import { ERole, getRolePermissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { GetAllPostsUseCase } from '@modules/content/application/use-cases/get-all-posts.usecase';
+import { GetAllPostsReturnType, PostRepository } from '@modules/content/domain/ports/post.repository';
+
+describe('GetAllPostsUseCase', () => {
+  let useCase: GetAllPostsUseCase;
+  const postRepository = mock<PostRepository>();
+
+  beforeEach(() => {
+    useCase = new GetAllPostsUseCase(postRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const actorId = faker.string.uuid() as UserId;
+  const posts: GetAllPostsReturnType = { result: [], meta: { limit: 10, page: 1, total: 0, totalPages: 0 } };
+
+  it('should be limit regular users to published posts and their own', async () => {
+    //Arrange
+    postRepository.getAll.mockResolvedValue(posts);
+
+    //Act
+    const actual = await useCase.execute({
+      page: 2,
+      limit: 5,
+      search: 'elysia',
+      actorId,
+      actorPermissions: getRolePermissions(ERole.user),
+    });
+
+    //Assert
+    expect(actual).toBe(posts);
+    expect(postRepository.getAll).toHaveBeenCalledWith({ page: 2, limit: 5, search: 'elysia', visibleTo: actorId });
+  });
+
+  it('should be list every post for moderators', async () => {
+    //Arrange
+    postRepository.getAll.mockResolvedValue(posts);
+
+    //Act
+    await useCase.execute({ page: 1, actorId, actorPermissions: getRolePermissions(ERole.moderator) });
+
+    //Assert
+    expect(postRepository.getAll).toHaveBeenCalledWith({ page: 1, visibleTo: undefined });
+  });
+});
@@ -5,6 +5,8 @@ import { mock } from 'vitest-mock-extended';
 import { faker } from '@faker-js/faker';
 
 import { NotFoundError } from '@shared/errors/error-mapper';
+import { ERole, getRolePermissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
 import { IPost, PostId } from '@modules/content/domain/entities/post.entity';
 import { PostRepository } from '@modules/content/domain/ports/post.repository';
 import { GetPostByIdUseCase } from '@modules/content/application/use-cases/get-post-by-id.usecase';
@@ -22,17 +24,19 @@ describe('GetPostByIdUseCase', () => {
   });
 
   const postId = faker.string.uuid() as PostId;
+  const actorId = faker.string.uuid() as UserId;
+
   it('should be throw error when post not found', async () => {
     //Arrange
     postRepository.getById.mockResolvedValue(undefined);
     const errorExpected = new NotFoundError('Post not found');
 
     //Act
-    const promise = useCase.execute(postId);
+    const promise = useCase.execute({ id: postId, actorId, actorPermissions: getRolePermissions(ERole.user) });
 
     //Assert
     await expect(promise).rejects.toThrowError(errorExpected);
-    expect(postRepository.getById).toHaveBeenCalledWith(postId);
+    expect(postRepository.getById).toHaveBeenCalledWith(postId, actorId);
     expect(postRepository.deleteById).not.toHaveBeenCalled();
   });
 
@@ -44,11 +48,32 @@ describe('GetPostByIdUseCase', () => {
     const expected = post;
 
     //Act
-    const actual = await useCase.execute(postId);
+    const actual = await useCase.execute({ id: postId, actorId, actorPermissions: getRolePermissions(ERole.user) });
 
     //Assert
     expect(actual).toEqual(expected);
-    expect(postRepository.getById).toHaveBeenCalledWith(postId);
     expect(postRepository.deleteById).not.toHaveBeenCalled();
   });
+
+  it('should be limit regular users to published posts and their own', async () => {
+    //Arrange
+    postRepository.getById.mockResolvedValue(mock<IPost>({ id: postId }));
+
+    //Act
+    await useCase.execute({ id: postId, actorId, actorPermissions: getRolePermissions(ERole.user) });
+
+    //Assert
+    expect(postRepository.getById).toHaveBeenCalledWith(postId, actorId);
+  });
+
+  it('should be find unpublished posts of other authors for moderators', async () => {
+    //Arrange
+    postRepository.getById.mockResolvedValue(mock<IPost>({ id: postId }));
+
+    //Act
+    await useCase.execute({ id: postId, actorId, actorPermissions: getRolePermissions(ERole.moderator) });
+
+    //Assert
+    expect(postRepository.getById).toHaveBeenCalledWith(postId, undefined);
+  });
 });
@@ -0,0 +1,76 @@
+import 'reflect-metadata';
+import { vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import { ERole, getRolePermissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { GetPostRevisionsUseCase } from '@modules/content/application/use-cases/get-post-revisions.usecase';
+import type { IPostRevision } from '@modules/content/domain/entities/post-revision.entity';
+import { IPost, PostId } from '@modules/content/domain/entities/post.entity';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ForbiddenError, NotFoundError } from '@shared/errors/error-mapper';
+
+describe('GetPostRevisionsUseCase', () => {
+  let useCase: GetPostRevisionsUseCase;
+  const postRepository = mock<PostRepository>();
+  const postRevisionRepository = mock<PostRevisionRepository>();
+
+  beforeEach(() => {
+    useCase = new GetPostRevisionsUseCase(postRepository, postRevisionRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const postId = faker.string.uuid() as PostId;
+  const actorId = faker.string.uuid() as UserId;
+  const actorPermissions = getRolePermissions(ERole.user);
+
+  it('should be throw error when post not found', async () => {
+    //Arrange
+    postRepository.getById.mockResolvedValue(undefined);
+    const errorExpected = new NotFoundError('Post not found');
+
+    //Act
+    const promise = useCase.execute({ postId, actorId, actorPermissions });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(postRevisionRepository.getAllByPostId).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when actor is neither the author nor a moderator', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId });
+    post.canBeModifiedBy.mockReturnValue(false);
+    postRepository.getById.mockResolvedValue(post);
+    const errorExpected = new ForbiddenError('You are not allowed to view revisions of this post');
+
+    //Act
+    const promise = useCase.execute({ postId, actorId, actorPermissions });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(post.canBeModifiedBy).toHaveBeenCalledWith(actorId, actorPermissions);
+    expect(postRevisionRepository.getAllByPostId).not.toHaveBeenCalled();
+  });
+
+  it('should be get post revisions', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId });
+    post.canBeModifiedBy.mockReturnValue(true);
+    postRepository.getById.mockResolvedValue(post);
+    const revisions = [mock<IPostRevision>({ postId }), mock<IPostRevision>({ postId })];
+    postRevisionRepository.getAllByPostId.mockResolvedValue(revisions);
+
+    //Act
+    const actual = await useCase.execute({ postId, actorId, actorPermissions });
+
+    //Assert
+    expect(actual).toEqual(revisions);
+    expect(postRevisionRepository.getAllByPostId).toHaveBeenCalledWith(postId);
+  });
+});
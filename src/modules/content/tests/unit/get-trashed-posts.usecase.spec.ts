@@ -0,0 +1,76 @@
+import 'reflect-metadata';
+import { vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import {
+  ERole,
+  getEffectivePermissions,
+  getRolePermissions,
+  Permissions,
+} from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { GetTrashedPostsUseCase } from '@modules/content/application/use-cases/get-trashed-posts.usecase';
+import { GetAllPostsReturnType, PostRepository } from '@modules/content/domain/ports/post.repository';
+
+describe('GetTrashedPostsUseCase', () => {
+  let useCase: GetTrashedPostsUseCase;
+  const postRepository = mock<PostRepository>();
+
+  beforeEach(() => {
+    useCase = new GetTrashedPostsUseCase(postRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const actorId = faker.string.uuid() as UserId;
+  const trash: GetAllPostsReturnType = { result: [], meta: { limit: 10, page: 1, total: 0, totalPages: 0 } };
+
+  it('should be limit the trash to own posts for regular users', async () => {
+    //Arrange
+    postRepository.getAllDeleted.mockResolvedValue(trash);
+
+    //Act
+    const actual = await useCase.execute({
+      page: 2,
+      limit: 5,
+      actorId,
+      actorPermissions: getRolePermissions(ERole.user),
+    });
+
+    //Assert
+    expect(actual).toBe(trash);
+    expect(postRepository.getAllDeleted).toHaveBeenCalledWith({ page: 2, limit: 5, authorId: actorId });
+  });
+
+  it('should be list every trashed post for moderators', async () => {
+    //Arrange
+    postRepository.getAllDeleted.mockResolvedValue(trash);
+
+    //Act
+    await useCase.execute({ actorId, actorPermissions: getRolePermissions(ERole.moderator) });
+
+    //Assert
+    expect(postRepository.getAllDeleted).toHaveBeenCalledWith({
+      page: undefined,
+      limit: undefined,
+      authorId: undefined,
+    });
+  });
+
+  it('should be limit the trash to own posts for moderators whose API key lacks the manage-any scope', async () => {
+    //Arrange
+    postRepository.getAllDeleted.mockResolvedValue(trash);
+
+    //Act
+    await useCase.execute({
+      actorId,
+      actorPermissions: getEffectivePermissions(ERole.moderator, [Permissions.PostsRead, Permissions.PostsDelete]),
+    });
+
+    //Assert
+    expect(postRepository.getAllDeleted).toHaveBeenCalledWith({ page: undefined, limit: undefined, authorId: actorId });
+  });
+});
@@ -0,0 +1,184 @@
+import 'reflect-metadata';
+import { vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import { ERole, getRolePermissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { PatchPostByIdUseCase } from '@modules/content/application/use-cases/patch-post-by-id.usecase';
+import {
+  IPost,
+  PostContent,
+  PostId,
+  PostStatus,
+  PostTitle,
+  PostVersion,
+} from '@modules/content/domain/entities/post.entity';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ConflictError, PreconditionFailedError, ValidationError } from '@shared/errors/error-mapper';
+import { EStatus } from '@shared/kernel/status.enum';
+
+describe('PatchPostByIdUseCase', () => {
+  let useCase: PatchPostByIdUseCase;
+  const postRepository = mock<PostRepository>();
+  const postRevisionRepository = mock<PostRevisionRepository>();
+
+  beforeEach(() => {
+    useCase = new PatchPostByIdUseCase(postRepository, postRevisionRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const postId = faker.string.uuid() as PostId;
+  const actorId = faker.string.uuid() as UserId;
+  const actorPermissions = getRolePermissions(ERole.user);
+  const version = 3 as PostVersion;
+  const title = faker.lorem.sentence() as PostTitle;
+  const content = faker.lorem.paragraph() as PostContent;
+
+  const givenEditablePost = () => {
+    const post = mock<IPost>({ id: postId, title, content, status: EStatus.active as PostStatus, version });
+    post.canBeModifiedBy.mockReturnValue(true);
+    postRepository.getById.mockResolvedValue(post);
+    return post;
+  };
+
+  it('should be apply a merge patch to the loaded post and keep the other fields', async () => {
+    //Arrange
+    givenEditablePost();
+    const updatedPost = mock<IPost>({ id: postId, version: 4 as PostVersion });
+    postRepository.updateById.mockResolvedValue(updatedPost);
+
+    //Act
+    const actual = await useCase.execute({
+      id: postId,
+      patch: { format: 'merge-patch', document: { status: EStatus.inactive } },
+      actorId,
+      actorPermissions,
+      expectedVersion: version,
+    });
+
+    //Assert
+    expect(actual).toBe(updatedPost);
+    expect(postRepository.updateById).toHaveBeenCalledWith(
+      { id: postId, title, content, status: EStatus.inactive },
+      version,
+      expect.objectContaining({ postId, version, title, content, status: EStatus.active, editedBy: actorId })
+    );
+  });
+
+  it('should be apply a json patch to the loaded post', async () => {
+    //Arrange
+    givenEditablePost();
+    postRepository.updateById.mockResolvedValue(mock<IPost>({ id: postId }));
+
+    //Act
+    await useCase.execute({
+      id: postId,
+      patch: {
+        format: 'json-patch',
+        document: [
+          { op: 'test', path: '/title', value: title },
+          { op: 'replace', path: '/title', value: 'New title' },
+        ],
+      },
+      actorId,
+      actorPermissions,
+    });
+
+    //Assert
+    expect(postRepository.updateById).toHaveBeenCalledWith(
+      { id: postId, title: 'New title', content, status: EStatus.active },
+      version,
+      expect.objectContaining({ postId, version, title })
+    );
+  });
+
+  it('should be throw error when a json patch test operation fails', async () => {
+    //Arrange
+    givenEditablePost();
+
+    //Act
+    const promise = useCase.execute({
+      id: postId,
+      patch: { format: 'json-patch', document: [{ op: 'test', path: '/title', value: 'Other title' }] },
+      actorId,
+      actorPermissions,
+    });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ConflictError('JSON Patch test failed at "/title"'));
+    expect(postRepository.updateById).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the patch removes a required field', async () => {
+    //Arrange
+    givenEditablePost();
+
+    //Act
+    const promise = useCase.execute({
+      id: postId,
+      patch: { format: 'merge-patch', document: { content: null } },
+      actorId,
+      actorPermissions,
+    });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ValidationError('Content must be a non-empty string'));
+    expect(postRepository.updateById).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when the patch adds a field that cannot be patched', async () => {
+    //Arrange
+    givenEditablePost();
+
+    //Act
+    const promise = useCase.execute({
+      id: postId,
+      patch: { format: 'json-patch', document: [{ op: 'add', path: '/authorId', value: actorId }] },
+      actorId,
+      actorPermissions,
+    });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ValidationError('Field "authorId" cannot be patched'));
+  });
+
+  it('should be throw error when the patch sets the deleted status', async () => {
+    //Arrange
+    givenEditablePost();
+
+    //Act
+    const promise = useCase.execute({
+      id: postId,
+      patch: { format: 'merge-patch', document: { status: EStatus.deleted } },
+      actorId,
+      actorPermissions,
+    });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ValidationError('Status must be one of: active, inactive'));
+  });
+
+  it('should be throw error when the post changed between read and write', async () => {
+    //Arrange
+    givenEditablePost();
+    postRepository.updateById.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({
+      id: postId,
+      patch: { format: 'merge-patch', document: { title: 'New title' } },
+      actorId,
+      actorPermissions,
+    });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(
+      new PreconditionFailedError('Post has been modified since it was last read')
+    );
+  });
+});
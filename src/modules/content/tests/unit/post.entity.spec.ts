@@ -0,0 +1,212 @@
+import { Builder } from 'builder-pattern';
+
+import { faker } from '@faker-js/faker';
+import {
+  ERole,
+  getEffectivePermissions,
+  getRolePermissions,
+  Permissions,
+} from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import {
+  EPublicationStatus,
+  Post,
+  type PostPublicationStatus,
+  type PostPublishAt,
+} from '@modules/content/domain/entities/post.entity';
+import { ConflictError, ValidationError } from '@shared/errors/error-mapper';
+
+describe('Post', () => {
+  describe('isOwnedBy', () => {
+    it('should return true when user is the author', () => {
+      // Arrange
+      const authorId = faker.string.uuid() as UserId;
+      const post = Builder(Post).authorId(authorId).build();
+
+      // Act
+      const actual = post.isOwnedBy(authorId);
+
+      // Assert
+      expect(actual).toBe(true);
+    });
+
+    it('should return false when user is not the author', () => {
+      // Arrange
+      const post = Builder(Post)
+        .authorId(faker.string.uuid() as UserId)
+        .build();
+
+      // Act
+      const actual = post.isOwnedBy(faker.string.uuid() as UserId);
+
+      // Assert
+      expect(actual).toBe(false);
+    });
+
+    it('should return false when post has no author', () => {
+      // Arrange
+      const post = Builder(Post).build();
+
+      // Act
+      const actual = post.isOwnedBy('' as UserId);
+
+      // Assert
+      expect(actual).toBe(false);
+    });
+  });
+
+  describe('canBeModifiedBy', () => {
+    it('should allow the author', () => {
+      // Arrange
+      const authorId = faker.string.uuid() as UserId;
+      const post = Builder(Post).authorId(authorId).build();
+
+      // Act
+      const actual = post.canBeModifiedBy(authorId, getRolePermissions(ERole.user));
+
+      // Assert
+      expect(actual).toBe(true);
+    });
+
+    it('should allow a moderator who is not the author', () => {
+      // Arrange
+      const post = Builder(Post)
+        .authorId(faker.string.uuid() as UserId)
+        .build();
+
+      // Act
+      const actual = post.canBeModifiedBy(faker.string.uuid() as UserId, getRolePermissions(ERole.moderator));
+
+      // Assert
+      expect(actual).toBe(true);
+    });
+
+    it('should reject a moderator whose API key is not scoped to manage any post', () => {
+      // Arrange
+      const post = Builder(Post)
+        .authorId(faker.string.uuid() as UserId)
+        .build();
+      const permissions = getEffectivePermissions(ERole.moderator, [Permissions.PostsUpdate]);
+
+      // Act
+      const actual = post.canBeModifiedBy(faker.string.uuid() as UserId, permissions);
+
+      // Assert
+      expect(actual).toBe(false);
+    });
+
+    it('should reject a regular user who is not the author', () => {
+      // Arrange
+      const post = Builder(Post)
+        .authorId(faker.string.uuid() as UserId)
+        .build();
+
+      // Act
+      const actual = post.canBeModifiedBy(faker.string.uuid() as UserId, getRolePermissions(ERole.user));
+
+      // Assert
+      expect(actual).toBe(false);
+    });
+  });
+  describe('publication lifecycle', () => {
+    const now = new Date('2026-01-01T00:00:00.000Z');
+    const givenPost = (publicationStatus: EPublicationStatus) =>
+      Builder(Post)
+        .publicationStatus(publicationStatus as PostPublicationStatus)
+        .build();
+
+    it('should start as a draft', () => {
+      // Act
+      const post = Builder(Post).build();
+
+      // Assert
+      expect(post.publicationStatus).toBe(EPublicationStatus.draft);
+    });
+
+    it('should submit a draft for review', () => {
+      // Arrange
+      const post = givenPost(EPublicationStatus.draft);
+
+      // Act
+      post.submitForReview();
+
+      // Assert
+      expect(post.publicationStatus).toBe(EPublicationStatus.inReview);
+    });
+
+    it('should schedule a post for a future date', () => {
+      // Arrange
+      const post = givenPost(EPublicationStatus.inReview);
+      const publishAt = new Date('2026-01-02T00:00:00.000Z');
+
+      // Act
+      post.schedule(publishAt, now);
+
+      // Assert
+      expect(post.publicationStatus).toBe(EPublicationStatus.scheduled);
+      expect(post.publishAt).toEqual(publishAt);
+    });
+
+    it('should reject a publish date that is not in the future', () => {
+      // Arrange
+      const post = givenPost(EPublicationStatus.draft);
+
+      // Act
+      const act = () => post.schedule(now, now);
+
+      // Assert
+      expect(act).toThrowError(new ValidationError('publishAt must be in the future'));
+      expect(post.publicationStatus).toBe(EPublicationStatus.draft);
+    });
+
+    it('should publish a scheduled post and clear its publish date', () => {
+      // Arrange
+      const post = Builder(Post)
+        .publicationStatus(EPublicationStatus.scheduled as PostPublicationStatus)
+        .publishAt(new Date('2026-01-02T00:00:00.000Z') as PostPublishAt)
+        .build();
+
+      // Act
+      post.publish(now);
+
+      // Assert
+      expect(post.publicationStatus).toBe(EPublicationStatus.published);
+      expect(post.publishedAt).toEqual(now);
+      expect(post.publishAt).toBeUndefined();
+    });
+
+    it('should archive a published post', () => {
+      // Arrange
+      const post = givenPost(EPublicationStatus.published);
+
+      // Act
+      post.archive();
+
+      // Assert
+      expect(post.publicationStatus).toBe(EPublicationStatus.archived);
+    });
+
+    it.each([
+      ['submit an archived post', EPublicationStatus.archived, (post: Post) => post.submitForReview(), 'in_review'],
+      ['publish an archived post', EPublicationStatus.archived, (post: Post) => post.publish(now), 'published'],
+      ['republish a published post', EPublicationStatus.published, (post: Post) => post.publish(now), 'published'],
+      ['archive an archived post', EPublicationStatus.archived, (post: Post) => post.archive(), 'archived'],
+      [
+        'schedule a published post',
+        EPublicationStatus.published,
+        (post: Post) => post.schedule(new Date('2026-01-02T00:00:00.000Z'), now),
+        'scheduled',
+      ],
+    ])('should refuse to %s', (_, from, transition, target) => {
+      // Arrange
+      const post = givenPost(from);
+
+      // Act
+      const act = () => transition(post);
+
+      // Assert
+      expect(act).toThrowError(new ConflictError(`Cannot move a ${from} post to ${target}`));
+      expect(post.publicationStatus).toBe(from);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import 'reflect-metadata';
+import { vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import { ERole, getRolePermissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { PublishPostUseCase } from '@modules/content/application/use-cases/publish-post.usecase';
+import { IPost, PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ConflictError, NotFoundError } from '@shared/errors/error-mapper';
+
+describe('PublishPostUseCase', () => {
+  let useCase: PublishPostUseCase;
+  const postRepository = mock<PostRepository>();
+  const postRevisionRepository = mock<PostRevisionRepository>();
+
+  beforeEach(() => {
+    useCase = new PublishPostUseCase(postRepository, postRevisionRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const postId = faker.string.uuid() as PostId;
+  const actorId = faker.string.uuid() as UserId;
+  const actorPermissions = getRolePermissions(ERole.moderator);
+  const version = 4 as PostVersion;
+
+  it('should be throw error when post not found', async () => {
+    //Arrange
+    postRepository.getById.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({ id: postId, actorId, actorPermissions });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new NotFoundError('Post not found'));
+    expect(postRepository.updatePublicationById).not.toHaveBeenCalled();
+  });
+
+  it('should be not save the post when the transition is not allowed', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId, version });
+    post.canBeModifiedBy.mockReturnValue(true);
+    post.publish.mockImplementation(() => {
+      throw new ConflictError('Cannot move a archived post to published');
+    });
+    postRepository.getById.mockResolvedValue(post);
+
+    //Act
+    const promise = useCase.execute({ id: postId, actorId, actorPermissions });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(ConflictError);
+    expect(postRepository.updatePublicationById).not.toHaveBeenCalled();
+  });
+
+  it('should be publish the post', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId, version });
+    post.canBeModifiedBy.mockReturnValue(true);
+    postRepository.getById.mockResolvedValue(post);
+    const publishedPost = mock<IPost>({ id: postId, version: 5 as PostVersion });
+    postRepository.updatePublicationById.mockResolvedValue(publishedPost);
+
+    //Act
+    const actual = await useCase.execute({ id: postId, actorId, actorPermissions, expectedVersion: version });
+
+    //Assert
+    expect(actual).toBe(publishedPost);
+    expect(post.publish).toHaveBeenCalledWith(expect.any(Date));
+    expect(postRepository.updatePublicationById).toHaveBeenCalledWith(post, version);
+  });
+});
@@ -0,0 +1,71 @@
+import 'reflect-metadata';
+import { vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import { ERole, getRolePermissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { PurgePostUseCase } from '@modules/content/application/use-cases/purge-post.usecase';
+import { IPost, PostId } from '@modules/content/domain/entities/post.entity';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ForbiddenError, NotFoundError } from '@shared/errors/error-mapper';
+
+describe('PurgePostUseCase', () => {
+  let useCase: PurgePostUseCase;
+  const postRepository = mock<PostRepository>();
+
+  beforeEach(() => {
+    useCase = new PurgePostUseCase(postRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const postId = faker.string.uuid() as PostId;
+  const actorId = faker.string.uuid() as UserId;
+  const actorPermissions = getRolePermissions(ERole.user);
+
+  it('should be throw error when post is not in trash', async () => {
+    //Arrange
+    postRepository.getDeletedById.mockResolvedValue(undefined);
+    const errorExpected = new NotFoundError('Post not found in trash');
+
+    //Act
+    const promise = useCase.execute({ id: postId, actorId, actorPermissions });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(postRepository.purgeById).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when actor is neither the author nor a moderator', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId });
+    post.canBeModifiedBy.mockReturnValue(false);
+    postRepository.getDeletedById.mockResolvedValue(post);
+    const errorExpected = new ForbiddenError('You are not allowed to purge this post');
+
+    //Act
+    const promise = useCase.execute({ id: postId, actorId, actorPermissions });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(postRepository.purgeById).not.toHaveBeenCalled();
+  });
+
+  it('should be purge post', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId });
+    post.canBeModifiedBy.mockReturnValue(true);
+    postRepository.getDeletedById.mockResolvedValue(post);
+    postRepository.purgeById.mockResolvedValue(true);
+
+    //Act
+    const actual = await useCase.execute({ id: postId, actorId, actorPermissions });
+
+    //Assert
+    expect(actual).toBeUndefined();
+    expect(postRepository.purgeById).toHaveBeenCalledWith(postId);
+  });
+});
@@ -0,0 +1,147 @@
+import { Builder } from 'builder-pattern';
+import 'reflect-metadata';
+import { vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import { ERole, getRolePermissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { RestorePostRevisionUseCase } from '@modules/content/application/use-cases/restore-post-revision.usecase';
+import { PostRevision, type PostRevisionId } from '@modules/content/domain/entities/post-revision.entity';
+import {
+  IPost,
+  PostContent,
+  PostId,
+  PostStatus,
+  PostTitle,
+  PostVersion,
+} from '@modules/content/domain/entities/post.entity';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ForbiddenError, NotFoundError, PreconditionFailedError } from '@shared/errors/error-mapper';
+
+describe('RestorePostRevisionUseCase', () => {
+  let useCase: RestorePostRevisionUseCase;
+  const postRepository = mock<PostRepository>();
+  const postRevisionRepository = mock<PostRevisionRepository>();
+
+  beforeEach(() => {
+    useCase = new RestorePostRevisionUseCase(postRepository, postRevisionRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const postId = faker.string.uuid() as PostId;
+  const revisionId = faker.string.uuid() as PostRevisionId;
+  const actorId = faker.string.uuid() as UserId;
+  const actorPermissions = getRolePermissions(ERole.user);
+  const version = 3 as PostVersion;
+
+  const buildPost = (canBeModified: boolean) => {
+    const post = mock<IPost>({
+      id: postId,
+      version,
+      title: faker.lorem.sentence() as PostTitle,
+      content: faker.lorem.paragraph() as PostContent,
+      status: 'active' as PostStatus,
+    });
+    post.canBeModifiedBy.mockReturnValue(canBeModified);
+    return post;
+  };
+
+  const revision = Builder(PostRevision)
+    .id(revisionId)
+    .postId(postId)
+    .version(1 as PostVersion)
+    .title(faker.lorem.sentence() as PostTitle)
+    .content(faker.lorem.paragraph() as PostContent)
+    .status('inactive' as PostStatus)
+    .build();
+
+  it('should be throw error when post not found', async () => {
+    //Arrange
+    postRepository.getById.mockResolvedValue(undefined);
+    const errorExpected = new NotFoundError('Post not found');
+
+    //Act
+    const promise = useCase.execute({ postId, revisionId, actorId, actorPermissions, expectedVersion: version });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(postRevisionRepository.getById).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when actor is neither the author nor a moderator', async () => {
+    //Arrange
+    postRepository.getById.mockResolvedValue(buildPost(false));
+    const errorExpected = new ForbiddenError('You are not allowed to update this post');
+
+    //Act
+    const promise = useCase.execute({ postId, revisionId, actorId, actorPermissions, expectedVersion: version });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(postRepository.updateById).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when expected version is stale', async () => {
+    //Arrange
+    postRepository.getById.mockResolvedValue(buildPost(true));
+    const errorExpected = new PreconditionFailedError('Post has been modified since it was last read');
+
+    //Act
+    const promise = useCase.execute({
+      postId,
+      revisionId,
+      actorId,
+      actorPermissions,
+      expectedVersion: 2 as PostVersion,
+    });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(postRepository.updateById).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when revision not found', async () => {
+    //Arrange
+    postRepository.getById.mockResolvedValue(buildPost(true));
+    postRevisionRepository.getById.mockResolvedValue(undefined);
+    const errorExpected = new NotFoundError('Post revision not found');
+
+    //Act
+    const promise = useCase.execute({ postId, revisionId, actorId, actorPermissions, expectedVersion: version });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(postRevisionRepository.getById).toHaveBeenCalledWith(postId, revisionId);
+    expect(postRepository.updateById).not.toHaveBeenCalled();
+  });
+
+  it('should be restore revision content and keep the replaced content as a revision', async () => {
+    //Arrange
+    const post = buildPost(true);
+    const restored = mock<IPost>({ id: postId, version: 4 as PostVersion });
+    postRepository.getById.mockResolvedValue(post);
+    postRevisionRepository.getById.mockResolvedValue(revision);
+    postRepository.updateById.mockResolvedValue(restored);
+
+    //Act
+    const actual = await useCase.execute({ postId, revisionId, actorId, actorPermissions, expectedVersion: version });
+
+    //Assert
+    expect(actual).toBe(restored);
+    expect(postRepository.updateById).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: postId,
+        title: revision.title,
+        content: revision.content,
+        status: revision.status,
+      }),
+      version,
+      expect.objectContaining({ postId, version, title: post.title, content: post.content, editedBy: actorId })
+    );
+  });
+});
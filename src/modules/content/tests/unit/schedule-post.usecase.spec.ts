@@ -0,0 +1,85 @@
+import 'reflect-metadata';
+import { vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { faker } from '@faker-js/faker';
+import { ERole, getRolePermissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { SchedulePostUseCase } from '@modules/content/application/use-cases/schedule-post.usecase';
+import { IPost, PostId, PostVersion } from '@modules/content/domain/entities/post.entity';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
+import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { ForbiddenError, PreconditionFailedError } from '@shared/errors/error-mapper';
+
+describe('SchedulePostUseCase', () => {
+  let useCase: SchedulePostUseCase;
+  const postRepository = mock<PostRepository>();
+  const postRevisionRepository = mock<PostRevisionRepository>();
+
+  beforeEach(() => {
+    useCase = new SchedulePostUseCase(postRepository, postRevisionRepository);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const postId = faker.string.uuid() as PostId;
+  const actorId = faker.string.uuid() as UserId;
+  const actorPermissions = getRolePermissions(ERole.moderator);
+  const version = 2 as PostVersion;
+  const publishAt = faker.date.future();
+
+  it('should be throw error when actor cannot modify the post', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId, version });
+    post.canBeModifiedBy.mockReturnValue(false);
+    postRepository.getById.mockResolvedValue(post);
+
+    //Act
+    const promise = useCase.execute({ id: postId, publishAt, actorId, actorPermissions });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(new ForbiddenError('You are not allowed to update this post'));
+    expect(post.schedule).not.toHaveBeenCalled();
+  });
+
+  it('should be schedule the post and save it against the loaded version', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId, version });
+    post.canBeModifiedBy.mockReturnValue(true);
+    postRepository.getById.mockResolvedValue(post);
+    const scheduledPost = mock<IPost>({ id: postId, version: 3 as PostVersion });
+    postRepository.updatePublicationById.mockResolvedValue(scheduledPost);
+
+    //Act
+    const actual = await useCase.execute({
+      id: postId,
+      publishAt,
+      actorId,
+      actorPermissions,
+      expectedVersion: version,
+    });
+
+    //Assert
+    expect(actual).toBe(scheduledPost);
+    expect(post.schedule).toHaveBeenCalledWith(publishAt, expect.any(Date));
+    expect(postRepository.updatePublicationById).toHaveBeenCalledWith(post, version);
+  });
+
+  it('should be throw error when the post changed between read and write', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId, version });
+    post.canBeModifiedBy.mockReturnValue(true);
+    postRepository.getById.mockResolvedValue(post);
+    postRepository.updatePublicationById.mockResolvedValue(undefined);
+
+    //Act
+    const promise = useCase.execute({ id: postId, publishAt, actorId, actorPermissions });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(
+      new PreconditionFailedError('Post has been modified since it was last read')
+    );
+  });
+});
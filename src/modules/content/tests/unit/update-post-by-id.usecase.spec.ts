@@ -5,17 +5,21 @@ import { mock } from 'vitest-mock-extended';
 
 import { faker } from '@faker-js/faker';
 
-import { NotFoundError } from '@shared/errors/error-mapper';
-import { IPost, PostContent, PostCreatedAt, PostId, PostStatus, PostTitle, PostUpdatedAt } from '@modules/content/domain/entities/post.entity';
+import { ForbiddenError, NotFoundError, PreconditionFailedError } from '@shared/errors/error-mapper';
+import { ERole, getRolePermissions } from '@modules/accounts/domain/entities/role.entity';
+import type { UserId } from '@modules/accounts/domain/entities/user.entity';
+import { IPost, PostContent, PostCreatedAt, PostId, PostStatus, PostTitle, PostUpdatedAt, PostVersion } from '@modules/content/domain/entities/post.entity';
 import { PostRepository } from '@modules/content/domain/ports/post.repository';
+import { PostRevisionRepository } from '@modules/content/domain/ports/post-revision.repository';
 import { UpdatePostByIdUseCase } from '@modules/content/application/use-cases/update-post-by-id.usecase';
 
 describe('UpdatePostByIdUseCase', () => {
   let useCase: UpdatePostByIdUseCase;
   const postRepository = mock<PostRepository>();
+  const postRevisionRepository = mock<PostRevisionRepository>();
 
   beforeEach(() => {
-    useCase = new UpdatePostByIdUseCase(postRepository);
+    useCase = new UpdatePostByIdUseCase(postRepository, postRevisionRepository);
   });
 
   afterEach(() => {
@@ -23,6 +27,9 @@ describe('UpdatePostByIdUseCase', () => {
   });
 
   const postId = faker.string.uuid() as PostId;
+  const actorId = faker.string.uuid() as UserId;
+  const actorPermissions = getRolePermissions(ERole.user);
+  const version = 2 as PostVersion;
   it('should be throw error when post not found', async () => {
     //Arrange
     postRepository.getById.mockResolvedValue(undefined);
@@ -38,7 +45,7 @@ describe('UpdatePostByIdUseCase', () => {
       .build();
 
     //Act
-    const promise = useCase.execute(postInput);
+    const promise = useCase.execute({ post: postInput, actorId, actorPermissions });
 
     //Assert
     await expect(promise).rejects.toThrowError(errorExpected);
@@ -46,21 +53,94 @@ describe('UpdatePostByIdUseCase', () => {
     expect(postRepository.updateById).not.toHaveBeenCalled();
   });
 
-  it('should be get post by id', async () => {
+  it('should be throw error when actor is neither the author nor a moderator', async () => {
     //Arrange
     const post = mock<IPost>({ id: postId });
+    post.canBeModifiedBy.mockReturnValue(false);
     postRepository.getById.mockResolvedValue(post);
-    postRepository.updateById.mockResolvedValue(post);
-    const postInput = post;
+    const errorExpected = new ForbiddenError('You are not allowed to update this post');
+
+    //Act
+    const promise = useCase.execute({ post, actorId, actorPermissions });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(post.canBeModifiedBy).toHaveBeenCalledWith(actorId, actorPermissions);
+    expect(postRepository.updateById).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when expected version is stale', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId, version });
+    post.canBeModifiedBy.mockReturnValue(true);
+    postRepository.getById.mockResolvedValue(post);
+    const errorExpected = new PreconditionFailedError('Post has been modified since it was last read');
+
+    //Act
+    const promise = useCase.execute({ post, actorId, actorPermissions, expectedVersion: 1 as PostVersion });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(postRepository.updateById).not.toHaveBeenCalled();
+  });
+
+  it('should be throw error when post is modified concurrently', async () => {
+    //Arrange
+    const post = mock<IPost>({ id: postId, version });
+    post.canBeModifiedBy.mockReturnValue(true);
+    postRepository.getById.mockResolvedValue(post);
+    postRepository.updateById.mockResolvedValue(undefined);
+    const errorExpected = new PreconditionFailedError('Post has been modified since it was last read');
+
+    //Act
+    const promise = useCase.execute({ post, actorId, actorPermissions, expectedVersion: version });
+
+    //Assert
+    await expect(promise).rejects.toThrowError(errorExpected);
+    expect(postRepository.updateById).toHaveBeenCalledWith(
+      expect.objectContaining({ id: postId }),
+      version,
+      expect.objectContaining({ postId, version })
+    );
+  });
+
+  it('should be update post and keep the previous content as a revision', async () => {
+    //Arrange
+    const post = mock<IPost>({
+      id: postId,
+      version,
+      title: faker.lorem.sentence() as PostTitle,
+      content: faker.lorem.paragraph() as PostContent,
+      status: 'active' as PostStatus,
+    });
+    post.canBeModifiedBy.mockReturnValue(true);
+    postRepository.getById.mockResolvedValue(post);
+    const postInput = Builder<IPost>()
+      .id(postId)
+      .title(faker.lorem.sentence() as PostTitle)
+      .content(faker.lorem.paragraph() as PostContent)
+      .build();
+    postRepository.updateById.mockResolvedValue(postInput);
 
     const expected = postInput;
 
     //Act
-    const actual = await useCase.execute(postInput);
+    const actual = await useCase.execute({ post: postInput, actorId, actorPermissions, expectedVersion: version });
 
     //Assert
     expect(actual).toEqual(expected);
     expect(postRepository.getById).toHaveBeenCalledWith(postId);
-    expect(postRepository.updateById).toHaveBeenCalledWith(postInput);
+    expect(postRepository.updateById).toHaveBeenCalledWith(
+      { id: postId, title: postInput.title, content: postInput.content, status: post.status },
+      version,
+      expect.objectContaining({
+        postId,
+        version,
+        title: post.title,
+        content: post.content,
+        status: post.status,
+        editedBy: actorId,
+      })
+    );
   });
 });
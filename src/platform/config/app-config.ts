@@ -3,12 +3,14 @@ import 'dotenv/config';
 import { DatabaseConfig, databaseUrl } from '../database/postgres-db.config';
 import { corsConfig } from './cors.config';
 import { loggerTransport, LoggingConfig, logLevel } from './logger.config';
+import { MailConfig, mailConfig } from './mail.config';
 import {
   OpenTelemetryConfig,
   telemetryEnabled,
   telemetryEndpoint,
   telemetryServiceName,
 } from './open-telemetry.config';
+import { RateLimitConfig, rateLimitConfig } from './rate-limit.config';
 
 export interface AppConfig {
   env: string;
@@ -17,11 +19,18 @@ export interface AppConfig {
   telemetry: OpenTelemetryConfig;
   database: DatabaseConfig;
   cors: typeof corsConfig;
+  mail: MailConfig;
+  rateLimit: RateLimitConfig;
 }
 
 export interface ServerConfig {
   host: string;
   port: number;
+  /**
+   * Number of reverse proxies in front of the API whose `X-Forwarded-For` entries are trusted for the client
+   * address; `0` uses the socket address.
+   */
+  trustProxy: number;
 }
 
 const toNumber = (value: string | undefined, fallback: number): number => {
@@ -32,12 +41,22 @@ const toNumber = (value: string | undefined, fallback: number): number => {
 export const env = process.env.NODE_ENV ?? 'development';
 const port = toNumber(process.env.PORT, 7000);
 const host = process.env.HOST ?? 'localhost';
+// `true` stands for a single proxy, `false` for none.
+const toTrustedProxies = (value: string | undefined): number => {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === 'true') return 1;
+  const parsed = Number(normalized);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : 0;
+};
+
+const trustProxy = toTrustedProxies(process.env.TRUST_PROXY);
 
 export const appConfig: AppConfig = {
   env,
   server: {
     host,
     port,
+    trustProxy,
   },
   logging: {
     level: logLevel,
@@ -52,4 +71,6 @@ export const appConfig: AppConfig = {
     url: databaseUrl,
   },
   cors: corsConfig,
+  mail: mailConfig,
+  rateLimit: rateLimitConfig,
 };
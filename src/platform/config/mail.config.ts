@@ -0,0 +1,19 @@
+import 'dotenv/config';
+
+export type MailDriver = 'console' | 'file';
+
+export interface MailConfig {
+  driver: MailDriver;
+  from: string;
+  /** Directory the `file` driver writes one JSON file per message to. */
+  outboxDir: string;
+}
+
+const normalizeDriver = (value: string | undefined): MailDriver =>
+  value?.toLowerCase() === 'file' ? 'file' : 'console';
+
+export const mailConfig: MailConfig = {
+  driver: normalizeDriver(process.env.MAIL_DRIVER),
+  from: process.env.MAIL_FROM ?? 'no-reply@localhost',
+  outboxDir: process.env.MAIL_OUTBOX_DIR ?? '.mail-outbox',
+};
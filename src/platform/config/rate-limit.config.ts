@@ -0,0 +1,51 @@
+import 'dotenv/config';
+
+import type { RateLimitPolicy } from '@shared/rate-limit/rate-limiter.port';
+import { durationToSeconds } from '@shared/utils/duration';
+
+export type RateLimitDriver = 'memory' | 'postgres';
+
+export interface RateLimitGroupConfig extends RateLimitPolicy {
+  name: string;
+  /** Requests whose path equals the prefix or starts with `<prefix>/` fall under this group. */
+  pathPrefix: string;
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  /** `memory` keeps counters per process; `postgres` shares them between instances. */
+  driver: RateLimitDriver;
+  groups: RateLimitGroupConfig[];
+}
+
+const DEFAULT_RATE_LIMIT_WINDOW = '1m';
+
+const toNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const normalizeDriver = (value: string | undefined): RateLimitDriver =>
+  value?.toLowerCase() === 'postgres' ? 'postgres' : 'memory';
+
+const toWindowSeconds = (value: string | undefined): number =>
+  durationToSeconds(value ?? DEFAULT_RATE_LIMIT_WINDOW, DEFAULT_RATE_LIMIT_WINDOW);
+
+export const rateLimitConfig: RateLimitConfig = {
+  enabled: process.env.RATE_LIMIT_ENABLED?.toLowerCase() !== 'false',
+  driver: normalizeDriver(process.env.RATE_LIMIT_DRIVER),
+  groups: [
+    {
+      name: 'auth',
+      pathPrefix: '/auth',
+      limit: toNumber(process.env.RATE_LIMIT_AUTH_MAX, 20),
+      windowSeconds: toWindowSeconds(process.env.RATE_LIMIT_AUTH_WINDOW),
+    },
+    {
+      name: 'posts',
+      pathPrefix: '/posts',
+      limit: toNumber(process.env.RATE_LIMIT_POSTS_MAX, 120),
+      windowSeconds: toWindowSeconds(process.env.RATE_LIMIT_POSTS_WINDOW),
+    },
+  ],
+};
@@ -0,0 +1,6 @@
+-- Existing posts predate authorship and keep a NULL author; only posts created from now on are owned.
+ALTER TABLE "posts" ADD COLUMN "author_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "posts" ADD CONSTRAINT "posts_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE cascade;
+--> statement-breakpoint
+CREATE INDEX "posts_author_idx" ON "posts" USING btree ("author_id");
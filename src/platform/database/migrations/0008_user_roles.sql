@@ -0,0 +1,3 @@
+ALTER TABLE "users" ADD COLUMN "role" varchar(30) DEFAULT 'user' NOT NULL;
+--> statement-breakpoint
+CREATE INDEX "users_role_idx" ON "users" USING btree ("role");
@@ -0,0 +1,3 @@
+ALTER TABLE "posts" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("content", '')), 'B')) STORED;
+--> statement-breakpoint
+CREATE INDEX "posts_search_vector_idx" ON "posts" USING gin ("search_vector");
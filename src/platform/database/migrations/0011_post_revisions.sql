@@ -0,0 +1,16 @@
+CREATE TABLE "post_revisions" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "post_id" uuid NOT NULL,
+    "version" integer NOT NULL,
+    "title" varchar(255) NOT NULL,
+    "content" text NOT NULL,
+    "status" varchar(30) NOT NULL,
+    "edited_by" uuid,
+    "created_at" timestamptz DEFAULT now() NOT NULL,
+    CONSTRAINT "post_revisions_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "posts"("id") ON DELETE cascade,
+    CONSTRAINT "post_revisions_edited_by_users_id_fk" FOREIGN KEY ("edited_by") REFERENCES "users"("id") ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "post_revisions_post_version_idx" ON "post_revisions" USING btree ("post_id", "version");
+--> statement-breakpoint
+CREATE INDEX "post_revisions_edited_by_idx" ON "post_revisions" USING btree ("edited_by");
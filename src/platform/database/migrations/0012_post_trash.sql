@@ -0,0 +1,8 @@
+ALTER TABLE "posts" ADD COLUMN "deleted_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "status_before_delete" varchar(30);
+--> statement-breakpoint
+-- Posts already in the trash start their retention period now instead of being purged on the first run.
+UPDATE "posts" SET "deleted_at" = now() WHERE "status" = 'deleted';
+--> statement-breakpoint
+CREATE INDEX "posts_deleted_at_idx" ON "posts" USING btree ("deleted_at");
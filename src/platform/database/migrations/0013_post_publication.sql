@@ -0,0 +1,10 @@
+ALTER TABLE "posts" ADD COLUMN "publication_status" varchar(30) DEFAULT 'draft' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "publish_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "published_at" timestamp;
+--> statement-breakpoint
+-- Posts created before the workflow existed were already visible, so they count as published.
+UPDATE "posts" SET "publication_status" = 'published', "published_at" = "created_at";
+--> statement-breakpoint
+CREATE INDEX "posts_publication_idx" ON "posts" USING btree ("publication_status","publish_at");
@@ -0,0 +1,11 @@
+ALTER TABLE "refresh_tokens" ADD COLUMN "session_id" uuid DEFAULT gen_random_uuid() NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD COLUMN "user_agent" varchar(512);
+--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD COLUMN "ip_address" varchar(64);
+--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD COLUMN "last_used_at" timestamptz DEFAULT now() NOT NULL;
+--> statement-breakpoint
+UPDATE "refresh_tokens" SET "last_used_at" = "created_at";
+--> statement-breakpoint
+CREATE INDEX "refresh_tokens_session_idx" ON "refresh_tokens" USING btree ("session_id");
@@ -0,0 +1,3 @@
+ALTER TABLE "refresh_tokens" ADD COLUMN "parent_jti" varchar(128);
+--> statement-breakpoint
+CREATE INDEX "refresh_tokens_parent_jti_idx" ON "refresh_tokens" USING btree ("parent_jti");
@@ -0,0 +1,17 @@
+ALTER TABLE "users" ADD COLUMN "email_verified_at" timestamp;
+--> statement-breakpoint
+UPDATE "users" SET "email_verified_at" = "created_at";
+--> statement-breakpoint
+CREATE TABLE "single_use_tokens" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "user_id" uuid NOT NULL,
+    "purpose" varchar(30) NOT NULL,
+    "token_hash" varchar(128) NOT NULL,
+    "expires_at" timestamptz NOT NULL,
+    "consumed_at" timestamptz,
+    "created_at" timestamptz DEFAULT now() NOT NULL,
+    CONSTRAINT "single_use_tokens_token_hash_unique" UNIQUE ("token_hash"),
+    CONSTRAINT "single_use_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX "single_use_tokens_user_purpose_idx" ON "single_use_tokens" USING btree ("user_id", "purpose");
@@ -0,0 +1,24 @@
+CREATE TABLE "user_two_factor" (
+    "user_id" uuid PRIMARY KEY NOT NULL,
+    "secret" varchar(64) NOT NULL,
+    "enabled_at" timestamptz,
+    "last_used_step" integer,
+    "created_at" timestamptz DEFAULT now() NOT NULL,
+    CONSTRAINT "user_two_factor_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE "two_factor_recovery_codes" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "user_id" uuid NOT NULL,
+    "code_hash" varchar(128) NOT NULL,
+    "used_at" timestamptz,
+    "created_at" timestamptz DEFAULT now() NOT NULL,
+    CONSTRAINT "two_factor_recovery_codes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX "two_factor_recovery_codes_user_idx" ON "two_factor_recovery_codes" USING btree ("user_id");
+--> statement-breakpoint
+CREATE TABLE "two_factor_used_challenges" (
+    "jti" varchar(64) PRIMARY KEY NOT NULL,
+    "expires_at" timestamptz NOT NULL
+);
@@ -0,0 +1,8 @@
+CREATE TABLE "login_attempts" (
+    "scope" varchar(16) NOT NULL,
+    "key" varchar(255) NOT NULL,
+    "failed_count" integer DEFAULT 0 NOT NULL,
+    "last_failed_at" timestamptz NOT NULL,
+    "locked_until" timestamptz,
+    CONSTRAINT "login_attempts_scope_key_pk" PRIMARY KEY ("scope", "key")
+);
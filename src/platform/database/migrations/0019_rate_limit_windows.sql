@@ -0,0 +1,8 @@
+CREATE TABLE "rate_limit_windows" (
+    "key" varchar(255) PRIMARY KEY NOT NULL,
+    "window_start" timestamptz NOT NULL,
+    "count" integer DEFAULT 0 NOT NULL,
+    "previous_count" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "rate_limit_windows_window_start_idx" ON "rate_limit_windows" USING btree ("window_start");
@@ -0,0 +1,7 @@
+CREATE TABLE "revoked_access_tokens" (
+    "jti" varchar(128) PRIMARY KEY NOT NULL,
+    "expires_at" timestamptz NOT NULL,
+    "revoked_at" timestamptz DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "revoked_access_tokens_expires_at_idx" ON "revoked_access_tokens" USING btree ("expires_at");
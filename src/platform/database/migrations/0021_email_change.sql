@@ -0,0 +1 @@
+ALTER TABLE "single_use_tokens" ADD COLUMN "email" varchar(255);
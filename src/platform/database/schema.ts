@@ -1,9 +1,49 @@
+import { apiKeys } from '@modules/auth/infrastructure/persistence/api-key.schema';
+import { loginAttempts } from '@modules/auth/infrastructure/persistence/login-attempt.schema';
 import { refreshTokens } from '@modules/auth/infrastructure/persistence/refresh-token.schema';
+import { revokedAccessTokens } from '@modules/auth/infrastructure/persistence/revoked-access-token.schema';
+import { singleUseTokens } from '@modules/auth/infrastructure/persistence/single-use-token.schema';
+import {
+  twoFactorRecoveryCodes,
+  twoFactorUsedChallenges,
+  userTwoFactor,
+} from '@modules/auth/infrastructure/persistence/two-factor.schema';
+import { userIdentities } from '@modules/auth/infrastructure/persistence/user-identity.schema';
 import { posts } from '@modules/content/infrastructure/persistence/post.schema';
+import { postRevisions } from '@modules/content/infrastructure/persistence/post-revision.schema';
 import { users } from '@modules/accounts/infrastructure/persistence/user.schema';
+import { rateLimitWindows } from '@platform/rate-limit/rate-limit.schema';
 
-export { users, posts, refreshTokens };
+export {
+  users,
+  posts,
+  postRevisions,
+  refreshTokens,
+  userTwoFactor,
+  twoFactorRecoveryCodes,
+  twoFactorUsedChallenges,
+  loginAttempts,
+  rateLimitWindows,
+  revokedAccessTokens,
+  userIdentities,
+  apiKeys,
+  singleUseTokens,
+};
 
-export const schema = { users, posts, refreshTokens };
+export const schema = {
+  users,
+  posts,
+  postRevisions,
+  refreshTokens,
+  userTwoFactor,
+  twoFactorRecoveryCodes,
+  twoFactorUsedChallenges,
+  loginAttempts,
+  rateLimitWindows,
+  revokedAccessTokens,
+  userIdentities,
+  apiKeys,
+  singleUseTokens,
+};
 
 export type Schema = typeof schema;
@@ -3,11 +3,27 @@ import { container } from 'tsyringe';
 
 import type { AppConfig } from '@platform/config/app-config';
 import { appConfig } from '@platform/config/app-config';
+import { JobScheduler } from '@platform/jobs/job-scheduler';
 import { PinoLogger } from '@platform/logging/pino.logger';
+import { ConsoleEmailSender } from '@platform/mail/console-email.sender';
+import { FileEmailSender } from '@platform/mail/file-email.sender';
+import { PostgresSlidingWindowRateLimiter } from '@platform/rate-limit/postgres-sliding-window.rate-limiter';
+import { InMemoryTokenBucketRateLimiter } from '@platform/rate-limit/token-bucket.rate-limiter';
 import { PlatformTokens } from '@platform/di/tokens';
 import type { LoggerPort } from '@shared/logging/logger.port';
+import type { EmailSender } from '@shared/mail/email-sender.port';
+import type { RateLimiter } from '@shared/rate-limit/rate-limiter.port';
 
 container.register<AppConfig>(PlatformTokens.AppConfig, { useValue: appConfig });
 container.registerSingleton<LoggerPort>(PlatformTokens.Logger, PinoLogger);
+container.registerSingleton<EmailSender>(
+  PlatformTokens.EmailSender,
+  appConfig.mail.driver === 'file' ? FileEmailSender : ConsoleEmailSender
+);
+container.registerSingleton<RateLimiter>(
+  PlatformTokens.RateLimiter,
+  appConfig.rateLimit.driver === 'postgres' ? PostgresSlidingWindowRateLimiter : InMemoryTokenBucketRateLimiter
+);
+container.registerSingleton(JobScheduler);
 
 export { container };
@@ -1,8 +1,11 @@
 import type { Elysia } from 'elysia';
 import type { DependencyContainer } from 'tsyringe';
 
+import type { JobScheduler } from '@platform/jobs/job-scheduler';
+
 export interface ModuleDefinition {
   name: string;
   register(container: DependencyContainer): void;
   routes?: (app: Elysia, container: DependencyContainer) => void;
+  jobs?: (scheduler: JobScheduler, container: DependencyContainer) => void;
 }
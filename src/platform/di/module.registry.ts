@@ -1,15 +1,20 @@
 import type { Elysia } from 'elysia';
 import type { DependencyContainer } from 'tsyringe';
 
+import { JobScheduler } from '@platform/jobs/job-scheduler';
+
 import type { ModuleDefinition } from './module-definition';
 
 export class ModuleRegistry {
   constructor(private readonly container: DependencyContainer) {}
 
+  // Every module is registered before any routes or jobs are resolved, so a controller may depend on
+  // services from a module listed after its own.
   registerModules(app: Elysia, modules: ModuleDefinition[]): void {
+    modules.forEach(module => module.register(this.container));
     modules.forEach(module => {
-      module.register(this.container);
       module.routes?.(app, this.container);
+      module.jobs?.(this.container.resolve(JobScheduler), this.container);
     });
   }
 }
@@ -1,4 +1,6 @@
 export const PlatformTokens = {
   AppConfig: Symbol('Platform.AppConfig'),
   Logger: Symbol('Platform.Logger'),
+  EmailSender: Symbol('Platform.EmailSender'),
+  RateLimiter: Symbol('Platform.RateLimiter'),
 };
@@ -223,8 +223,11 @@ export class HealthCheckService {
   }
 
   private async checkEnvironmentVariables(): Promise<HealthCheckResult> {
-    const requiredVars = ['DATABASE_URL', 'JWT_SECRET'];
+    const requiredVars = ['DATABASE_URL'];
     const missingVars = requiredVars.filter(v => !process.env[v]);
+    if (!process.env.JWT_SECRET && !process.env.JWT_KEYS_DIR) {
+      missingVars.push('JWT_SECRET or JWT_KEYS_DIR');
+    }
 
     return {
       service: 'environment',
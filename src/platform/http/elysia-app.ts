@@ -2,19 +2,23 @@ import 'dotenv/config';
 import Elysia from 'elysia';
 
 import bearer from '@elysiajs/bearer';
-import { jwt } from '@elysiajs/jwt';
 import { openapi } from '@elysiajs/openapi';
 import { opentelemetry } from '@elysiajs/opentelemetry';
 import { swagger } from '@elysiajs/swagger';
 
+import { AccessTokenDenylistService } from '@modules/auth/application/services/access-token-denylist.service';
+import { ApiKeyAuthenticationService } from '@modules/auth/application/services/api-key-authentication.service';
 import { authConfig } from '@modules/auth/infrastructure/config/auth.config';
+import { JwtKeyRing } from '@modules/auth/infrastructure/providers/jwt-key-ring';
 import { PlatformTokens } from '@platform/di/tokens';
 import { container } from '@platform/di/container';
 import type { AppConfig } from '@platform/config/app-config';
 import { createSwaggerConfig } from '@platform/config/swagger.config';
+import { createRateLimitHook } from '@platform/http/rate-limit.hook';
 import { createTraceExporter } from '@platform/observability/opentelemetry';
-import { ErrorMapper } from '@shared/errors/error-mapper';
+import { AppError, ErrorMapper, ValidationError } from '@shared/errors/error-mapper';
 import type { LoggerPort } from '@shared/logging/logger.port';
+import type { RateLimiter } from '@shared/rate-limit/rate-limiter.port';
 
 const logger = container.resolve<LoggerPort>(PlatformTokens.Logger);
 
@@ -99,6 +103,12 @@ const createErrorHandler = () => {
       );
     }
 
+    // Elysia wraps whatever a body parser throws, including the errors of a route's own `parse` hook.
+    if (code === 'PARSE') {
+      const { cause } = normalizedError;
+      return ErrorMapper.handleError(cause instanceof AppError ? cause : new ValidationError('Malformed request body'));
+    }
+
     if ((code === 'NOT_FOUND' || code === 404) && isBrowserRequest && url) {
       const browserResponse = handleBrowserRequestError(url);
       if (browserResponse) return browserResponse;
@@ -109,25 +119,45 @@ const createErrorHandler = () => {
 };
 
 const createJwtPlugin = () => {
-  return jwt({
-    name: 'jwt',
-    secret: authConfig.jwt.secret,
-    iss: authConfig.jwt.issuer,
-    aud: authConfig.jwt.audience,
-    exp: authConfig.jwt.accessTokenExpiresIn,
+  const keyRing = new JwtKeyRing(authConfig.jwt);
+
+  return new Elysia({ name: 'jwt' }).decorate('jwt', {
+    sign: keyRing.sign.bind(keyRing),
+    verify: keyRing.verify.bind(keyRing),
   });
 };
 
+// Resolved per request because the auth module registers the service after the app is created.
+const createAccessTokenDenylistPlugin = () =>
+  new Elysia({ name: 'access-token-denylist' }).decorate('accessTokenDenylist', {
+    isRevoked: (...args: Parameters<AccessTokenDenylistService['isRevoked']>) =>
+      container.resolve(AccessTokenDenylistService).isRevoked(...args),
+  });
+
+// Resolved per request for the same reason as the denylist.
+const createApiKeysPlugin = () =>
+  new Elysia({ name: 'api-keys' }).decorate('apiKeys', {
+    authenticate: (...args: Parameters<ApiKeyAuthenticationService['authenticate']>) =>
+      container.resolve(ApiKeyAuthenticationService).authenticate(...args),
+  });
+
 export const createElysiaApp = (appConfig: AppConfig) => {
   const app = ErrorMapper.register(new Elysia())
     .use(bearer())
     .use(createJwtPlugin())
+    .use(createAccessTokenDenylistPlugin())
+    .use(createApiKeysPlugin())
     .use(openapi())
     .use(appConfig.cors)
     .use(swagger(createSwaggerConfig()))
     .use(createBrowserRoutes)
     .onError(createErrorHandler());
 
+  if (appConfig.rateLimit.enabled) {
+    const rateLimiter = container.resolve<RateLimiter>(PlatformTokens.RateLimiter);
+    app.onRequest(createRateLimitHook(appConfig.rateLimit, rateLimiter, appConfig.server.trustProxy));
+  }
+
   if (appConfig.telemetry.enabled) {
     const traceExporter = createTraceExporter(appConfig.telemetry.otlpEndpoint, logger, {
       warnOnMissing: false,
@@ -0,0 +1,50 @@
+import type { Context } from 'elysia';
+
+import type { RateLimitConfig, RateLimitGroupConfig } from '@platform/config/rate-limit.config';
+import { TooManyRequestsError } from '@shared/errors/error-mapper';
+import type { RateLimiter, RateLimitResult } from '@shared/rate-limit/rate-limiter.port';
+import { getClientIp } from '@shared/utils/client-ip.util';
+
+interface RateLimitHookContext {
+  request: Request;
+  server: Context['server'];
+  set: Context['set'];
+}
+
+export const findRateLimitGroup = (
+  groups: RateLimitGroupConfig[],
+  pathname: string
+): RateLimitGroupConfig | undefined =>
+  groups.find(group => pathname === group.pathPrefix || pathname.startsWith(`${group.pathPrefix}/`));
+
+const toRateLimitHeaders = (group: RateLimitGroupConfig, result: RateLimitResult): Record<string, string> => ({
+  'RateLimit-Policy': `${group.limit};w=${group.windowSeconds}`,
+  'RateLimit-Limit': String(result.limit),
+  'RateLimit-Remaining': String(result.remaining),
+  'RateLimit-Reset': String(result.resetSeconds),
+});
+
+/**
+ * `onRequest` hook that counts each request against the policy of its route group, per client IP. Requests
+ * outside every group and CORS preflights are not limited.
+ */
+export const createRateLimitHook =
+  (config: RateLimitConfig, rateLimiter: RateLimiter, trustProxy: number) =>
+  async ({ request, server, set }: RateLimitHookContext): Promise<void> => {
+    if (request.method === 'OPTIONS') {
+      return;
+    }
+
+    const group = findRateLimitGroup(config.groups, new URL(request.url).pathname);
+    if (!group) {
+      return;
+    }
+
+    const clientIp = getClientIp(request, server, trustProxy) ?? 'unknown';
+    const result = await rateLimiter.consume(`${group.name}:${clientIp}`, group);
+    Object.assign(set.headers, toRateLimitHeaders(group, result));
+
+    if (!result.allowed) {
+      throw new TooManyRequestsError('Rate limit exceeded, try again later', result.resetSeconds);
+    }
+  };
@@ -0,0 +1,61 @@
+import { inject, injectable } from 'tsyringe';
+
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+export interface ScheduledJob {
+  name: string;
+  intervalSeconds: number;
+  run(): Promise<void>;
+}
+
+/**
+ * Runs in-process background jobs on a fixed interval. A run is skipped while the previous one is still in
+ * flight, and failures are logged instead of crashing the process.
+ */
+@injectable()
+export class JobScheduler {
+  private readonly jobs: ScheduledJob[] = [];
+  private readonly timers: ReturnType<typeof setInterval>[] = [];
+  private readonly running = new Set<string>();
+
+  constructor(@inject(PlatformTokens.Logger) private readonly logger: LoggerPort) {}
+
+  schedule(job: ScheduledJob): void {
+    this.jobs.push(job);
+  }
+
+  start(): void {
+    if (this.timers.length > 0) {
+      return;
+    }
+
+    this.jobs.forEach(job => {
+      const timer = setInterval(() => void this.runOnce(job), job.intervalSeconds * 1000);
+      timer.unref?.();
+      this.timers.push(timer);
+      this.logger.info('Scheduled background job', { job: job.name, intervalSeconds: job.intervalSeconds });
+    });
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers.length = 0;
+  }
+
+  async runOnce(job: ScheduledJob): Promise<void> {
+    if (this.running.has(job.name)) {
+      this.logger.warn('Skipping background job, previous run still in progress', { job: job.name });
+      return;
+    }
+
+    this.running.add(job.name);
+    try {
+      await job.run();
+    } catch (error) {
+      this.logger.error('Background job failed', { job: job.name, error });
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { inject, injectable } from 'tsyringe';
+
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+import type { EmailMessage, EmailSender } from '@shared/mail/email-sender.port';
+
+/**
+ * Writes outgoing mail to the application log instead of delivering it. Meant for local development.
+ */
+@injectable()
+export class ConsoleEmailSender implements EmailSender {
+  constructor(
+    @inject(PlatformTokens.AppConfig) private readonly config: AppConfig,
+    @inject(PlatformTokens.Logger) private readonly logger: LoggerPort
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    this.logger.info('Email sent', {
+      from: this.config.mail.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
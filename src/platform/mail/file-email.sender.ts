@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { nanoid } from 'nanoid';
+import { join } from 'path';
+import { inject, injectable } from 'tsyringe';
+
+import type { AppConfig } from '@platform/config/app-config';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { EmailMessage, EmailSender } from '@shared/mail/email-sender.port';
+
+/**
+ * Stores each outgoing message as a JSON file in the outbox directory, so local setups and tests can
+ * read the links that would have been mailed.
+ */
+@injectable()
+export class FileEmailSender implements EmailSender {
+  constructor(@inject(PlatformTokens.AppConfig) private readonly config: AppConfig) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const { outboxDir, from } = this.config.mail;
+    const sentAt = new Date();
+
+    await mkdir(outboxDir, { recursive: true });
+    await writeFile(
+      join(outboxDir, `${sentAt.getTime()}-${nanoid(8)}.json`),
+      JSON.stringify({ from, ...message, sentAt }, null, 2)
+    );
+  }
+}
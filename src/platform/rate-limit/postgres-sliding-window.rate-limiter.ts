@@ -0,0 +1,75 @@
+import { lt, sql } from 'drizzle-orm';
+import { inject, injectable } from 'tsyringe';
+
+import { db } from '@platform/database/connection';
+import { PlatformTokens } from '@platform/di/tokens';
+import type { LoggerPort } from '@shared/logging/logger.port';
+import type { RateLimiter, RateLimitPolicy, RateLimitResult } from '@shared/rate-limit/rate-limiter.port';
+
+import { rateLimitWindows } from './rate-limit.schema';
+
+const SWEEP_EVERY = 1_000;
+/** Rows idle for this long are removed; it must exceed the longest configured window. */
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sliding-window counter shared by every instance through Postgres. Each key keeps the count of the current
+ * fixed window and of the one before it; the previous count is weighted by how much of it still overlaps the
+ * sliding window. Denied requests are counted too, so a client that keeps hammering stays limited.
+ */
+@injectable()
+export class PostgresSlidingWindowRateLimiter implements RateLimiter {
+  private consumed = 0;
+
+  constructor(@inject(PlatformTokens.Logger) private readonly logger: LoggerPort) {}
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+    const windowMs = policy.windowSeconds * 1000;
+    const currentStart = new Date(Math.floor(now / windowMs) * windowMs);
+    const previousStart = new Date(currentStart.getTime() - windowMs);
+    const current = sql`${currentStart.toISOString()}::timestamptz`;
+    const previous = sql`${previousStart.toISOString()}::timestamptz`;
+
+    // One upsert per request; the CASE expressions read the row as it was before this update.
+    const [row] = await db
+      .insert(rateLimitWindows)
+      .values({ key, windowStart: currentStart, count: 1, previousCount: 0 })
+      .onConflictDoUpdate({
+        target: rateLimitWindows.key,
+        set: {
+          previousCount: sql`case
+            when ${rateLimitWindows.windowStart} = ${current} then ${rateLimitWindows.previousCount}
+            when ${rateLimitWindows.windowStart} = ${previous} then ${rateLimitWindows.count}
+            else 0 end`,
+          count: sql`case when ${rateLimitWindows.windowStart} = ${current} then ${rateLimitWindows.count} + 1 else 1 end`,
+          windowStart: currentStart,
+        },
+      })
+      .returning({ count: rateLimitWindows.count, previousCount: rateLimitWindows.previousCount });
+
+    this.scheduleSweep(now);
+
+    const elapsedMs = now - currentStart.getTime();
+    const estimate = row.previousCount * ((windowMs - elapsedMs) / windowMs) + row.count;
+
+    return {
+      allowed: estimate <= policy.limit,
+      limit: policy.limit,
+      remaining: Math.max(0, Math.floor(policy.limit - estimate)),
+      resetSeconds: Math.ceil((windowMs - elapsedMs) / 1000),
+    };
+  }
+
+  private scheduleSweep(now: number): void {
+    this.consumed += 1;
+    if (this.consumed % SWEEP_EVERY !== 0) {
+      return;
+    }
+
+    void db
+      .delete(rateLimitWindows)
+      .where(lt(rateLimitWindows.windowStart, new Date(now - STALE_AFTER_MS)))
+      .catch(error => this.logger.error('Failed to remove stale rate limit windows', { error }));
+  }
+}
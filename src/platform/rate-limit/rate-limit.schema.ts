@@ -0,0 +1,17 @@
+import { index, integer, pgTable, timestamp, varchar } from 'drizzle-orm/pg-core';
+
+export const rateLimitWindows = pgTable(
+  'rate_limit_windows',
+  {
+    key: varchar('key', { length: 255 }).primaryKey(),
+    windowStart: timestamp('window_start', { withTimezone: true }).notNull(),
+    count: integer('count').notNull().default(0),
+    previousCount: integer('previous_count').notNull().default(0),
+  },
+  table => ({
+    windowStartIdx: index('rate_limit_windows_window_start_idx').on(table.windowStart),
+  })
+);
+
+export type RateLimitWindow = typeof rateLimitWindows.$inferSelect;
+export type NewRateLimitWindow = typeof rateLimitWindows.$inferInsert;
@@ -0,0 +1,67 @@
+import { injectable } from 'tsyringe';
+
+import type { RateLimiter, RateLimitPolicy, RateLimitResult } from '@shared/rate-limit/rate-limiter.port';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  /** Milliseconds an idle bucket needs to refill completely; afterwards it can be dropped. */
+  refillMs: number;
+}
+
+const SWEEP_EVERY = 1_000;
+
+/**
+ * Token bucket per key, kept in process memory. Each bucket holds `limit` tokens and refills evenly over
+ * `windowSeconds`, so short bursts are allowed while the average rate stays within the policy. Counters are not
+ * shared between instances; use the Postgres adapter when running more than one.
+ */
+@injectable()
+export class InMemoryTokenBucketRateLimiter implements RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private consumed = 0;
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+    const refillPerMs = policy.limit / (policy.windowSeconds * 1000);
+
+    this.scheduleSweep(now);
+
+    const bucket = this.buckets.get(key) ?? {
+      tokens: policy.limit,
+      updatedAt: now,
+      refillMs: policy.windowSeconds * 1000,
+    };
+    bucket.tokens = Math.min(policy.limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+    this.buckets.set(key, bucket);
+
+    // Denied requests wait for the next token; allowed ones report when the bucket is full again.
+    const missingTokens = allowed ? policy.limit - bucket.tokens : 1 - bucket.tokens;
+
+    return {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.floor(bucket.tokens),
+      resetSeconds: Math.ceil(missingTokens / refillPerMs / 1000),
+    };
+  }
+
+  private scheduleSweep(now: number): void {
+    this.consumed += 1;
+    if (this.consumed % SWEEP_EVERY !== 0) {
+      return;
+    }
+
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= bucket.refillMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import 'reflect-metadata';
+
+import type { AppConfig } from '@platform/config/app-config';
+import { FileEmailSender } from '@platform/mail/file-email.sender';
+
+describe('FileEmailSender', () => {
+  let outboxDir: string;
+
+  beforeEach(async () => {
+    outboxDir = join(await mkdtemp(join(tmpdir(), 'mail-')), 'outbox');
+  });
+
+  afterEach(async () => {
+    await rm(join(outboxDir, '..'), { recursive: true, force: true });
+  });
+
+  it('should write each message to the outbox as JSON', async () => {
+    // Arrange
+    const config = { mail: { driver: 'file', from: 'no-reply@example.com', outboxDir } } as AppConfig;
+    const sender = new FileEmailSender(config);
+
+    // Act
+    await sender.send({ to: 'jane@example.com', subject: 'Hello', text: 'Body' });
+    await sender.send({ to: 'john@example.com', subject: 'Hello', text: 'Body' });
+
+    // Assert
+    const files = await readdir(outboxDir);
+    expect(files).toHaveLength(2);
+    const messages = await Promise.all(
+      files.map(async file => JSON.parse(await readFile(join(outboxDir, file), 'utf8')))
+    );
+    expect(messages).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          from: 'no-reply@example.com',
+          to: 'jane@example.com',
+          subject: 'Hello',
+          text: 'Body',
+        }),
+        expect.objectContaining({ to: 'john@example.com' }),
+      ])
+    );
+  });
+});
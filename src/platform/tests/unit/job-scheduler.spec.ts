@@ -0,0 +1,69 @@
+import 'reflect-metadata';
+import { vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { JobScheduler, type ScheduledJob } from '@platform/jobs/job-scheduler';
+import type { LoggerPort } from '@shared/logging/logger.port';
+
+describe('JobScheduler', () => {
+  const logger = mock<LoggerPort>();
+  let scheduler: JobScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    scheduler = new JobScheduler(logger);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+    vi.resetAllMocks();
+  });
+
+  it('should run scheduled jobs on their interval', async () => {
+    // Arrange
+    const job: ScheduledJob = { name: 'test', intervalSeconds: 60, run: vi.fn().mockResolvedValue(undefined) };
+    scheduler.schedule(job);
+
+    // Act
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    // Assert
+    expect(job.run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip a run while the previous one is in progress', async () => {
+    // Arrange
+    let finish: () => void = () => undefined;
+    const job: ScheduledJob = {
+      name: 'slow',
+      intervalSeconds: 1,
+      run: vi.fn(() => new Promise<void>(resolve => (finish = resolve))),
+    };
+
+    // Act
+    const first = scheduler.runOnce(job);
+    await scheduler.runOnce(job);
+    finish();
+    await first;
+
+    // Assert
+    expect(job.run).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith('Skipping background job, previous run still in progress', {
+      job: 'slow',
+    });
+  });
+
+  it('should log failures instead of throwing', async () => {
+    // Arrange
+    const error = new Error('boom');
+    const job: ScheduledJob = { name: 'failing', intervalSeconds: 1, run: vi.fn().mockRejectedValue(error) };
+
+    // Act
+    await scheduler.runOnce(job);
+
+    // Assert
+    expect(logger.error).toHaveBeenCalledWith('Background job failed', { job: 'failing', error });
+  });
+});
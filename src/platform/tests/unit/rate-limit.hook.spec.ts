@@ -0,0 +1,84 @@
+import type { Context } from 'elysia';
+import { mock } from 'vitest-mock-extended';
+
+import type { RateLimitConfig } from '@platform/config/rate-limit.config';
+import { createRateLimitHook, findRateLimitGroup } from '@platform/http/rate-limit.hook';
+import { TooManyRequestsError } from '@shared/errors/error-mapper';
+import type { RateLimiter } from '@shared/rate-limit/rate-limiter.port';
+
+describe('Rate limit hook', () => {
+  const config: RateLimitConfig = {
+    enabled: true,
+    driver: 'memory',
+    groups: [
+      { name: 'auth', pathPrefix: '/auth', limit: 20, windowSeconds: 60 },
+      { name: 'posts', pathPrefix: '/posts', limit: 120, windowSeconds: 60 },
+    ],
+  };
+  const rateLimiter = mock<RateLimiter>();
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const toContext = (url: string, method = 'POST') => ({
+    request: new Request(url, { method, headers: { 'x-forwarded-for': '203.0.113.7' } }),
+    server: null as Context['server'],
+    set: { headers: {} } as Context['set'],
+  });
+
+  describe('findRateLimitGroup', () => {
+    it('should match the prefix itself and paths below it only', () => {
+      expect(findRateLimitGroup(config.groups, '/posts')?.name).toBe('posts');
+      expect(findRateLimitGroup(config.groups, '/posts/123')?.name).toBe('posts');
+      expect(findRateLimitGroup(config.groups, '/auth/signin')?.name).toBe('auth');
+      expect(findRateLimitGroup(config.groups, '/postscript')).toBeUndefined();
+      expect(findRateLimitGroup(config.groups, '/health')).toBeUndefined();
+    });
+  });
+
+  describe('createRateLimitHook', () => {
+    it('should count the request per group and client ip and set the RateLimit headers', async () => {
+      // Arrange
+      rateLimiter.consume.mockResolvedValue({ allowed: true, limit: 20, remaining: 19, resetSeconds: 3 });
+      const ctx = toContext('http://localhost/auth/signin');
+
+      // Act
+      await createRateLimitHook(config, rateLimiter, 1)(ctx);
+
+      // Assert
+      expect(rateLimiter.consume).toHaveBeenCalledWith('auth:203.0.113.7', config.groups[0]);
+      expect(ctx.set.headers).toEqual(
+        expect.objectContaining({
+          'RateLimit-Policy': '20;w=60',
+          'RateLimit-Limit': '20',
+          'RateLimit-Remaining': '19',
+          'RateLimit-Reset': '3',
+        })
+      );
+    });
+
+    it('should throw too many requests when the limit is exceeded', async () => {
+      // Arrange
+      rateLimiter.consume.mockResolvedValue({ allowed: false, limit: 120, remaining: 0, resetSeconds: 12 });
+      const ctx = toContext('http://localhost/posts?page=2', 'GET');
+
+      // Act
+      const promise = createRateLimitHook(config, rateLimiter, 1)(ctx);
+
+      // Assert
+      await expect(promise).rejects.toBeInstanceOf(TooManyRequestsError);
+      await expect(promise).rejects.toMatchObject({ retryAfterSeconds: 12 });
+      expect(ctx.set.headers).toEqual(expect.objectContaining({ 'RateLimit-Remaining': '0' }));
+    });
+
+    it('should skip paths outside every group and preflight requests', async () => {
+      // Act
+      await createRateLimitHook(config, rateLimiter, 1)(toContext('http://localhost/health', 'GET'));
+      await createRateLimitHook(config, rateLimiter, 1)(toContext('http://localhost/auth/signin', 'OPTIONS'));
+
+      // Assert
+      expect(rateLimiter.consume).not.toHaveBeenCalled();
+    });
+  });
+});
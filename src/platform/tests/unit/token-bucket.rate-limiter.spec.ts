@@ -0,0 +1,63 @@
+import 'reflect-metadata';
+
+import { InMemoryTokenBucketRateLimiter } from '@platform/rate-limit/token-bucket.rate-limiter';
+
+describe('InMemoryTokenBucketRateLimiter', () => {
+  const policy = { limit: 3, windowSeconds: 60 };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow a burst up to the limit and deny the next request', async () => {
+    // Arrange
+    const limiter = new InMemoryTokenBucketRateLimiter();
+
+    // Act
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await limiter.consume('auth:203.0.113.7', policy));
+    }
+
+    // Assert
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map(result => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3]).toEqual(expect.objectContaining({ limit: 3, resetSeconds: 20 }));
+  });
+
+  it('should refill tokens evenly over the window', async () => {
+    // Arrange
+    const limiter = new InMemoryTokenBucketRateLimiter();
+    for (let i = 0; i < 3; i++) {
+      await limiter.consume('auth:203.0.113.7', policy);
+    }
+
+    // Act
+    vi.advanceTimersByTime(20_000);
+    const afterOneToken = await limiter.consume('auth:203.0.113.7', policy);
+    const denied = await limiter.consume('auth:203.0.113.7', policy);
+
+    // Assert
+    expect(afterOneToken.allowed).toBe(true);
+    expect(denied.allowed).toBe(false);
+  });
+
+  it('should keep separate buckets per key', async () => {
+    // Arrange
+    const limiter = new InMemoryTokenBucketRateLimiter();
+    for (let i = 0; i < 3; i++) {
+      await limiter.consume('auth:203.0.113.7', policy);
+    }
+
+    // Act
+    const actual = await limiter.consume('auth:198.51.100.1', policy);
+
+    // Assert
+    expect(actual).toEqual({ allowed: true, limit: 3, remaining: 2, resetSeconds: 20 });
+  });
+});
@@ -0,0 +1,49 @@
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * Size-bounded in-process cache. Entries expire after their own TTL, and once `maxEntries` is reached the least
+ * recently read or written entry makes room for the next one.
+ */
+export class LruCache<K, V> {
+  // Map iteration follows insertion order, so re-inserting on access keeps the oldest entry first.
+  private readonly entries = new Map<K, CacheEntry<V>>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: K, now: number = Date.now()): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= now) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: K, value: V, ttlMs: number, now: number = Date.now()): void {
+    this.entries.delete(key);
+
+    if (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as K;
+      this.entries.delete(oldestKey);
+    }
+
+    this.entries.set(key, { value, expiresAt: now + ttlMs });
+  }
+
+  delete(key: K): void {
+    this.entries.delete(key);
+  }
+}
@@ -30,25 +30,33 @@ export const ValidationErrorResponseDTO = t.Object({
 
 export const StatusDto = t.Enum(EStatus);
 
+export const PaginationModeDto = t.Union([t.Literal('offset'), t.Literal('cursor')]);
+
 export const GetAllParamsDto = t.Object({
   search: t.Optional(t.String()),
   sort: t.Optional(t.String()),
   order: t.Optional(t.String()),
   page: t.Optional(t.Number()),
   limit: t.Optional(t.Number()),
+  pagination: t.Optional(PaginationModeDto),
+  cursor: t.Optional(t.String({ minLength: 1 })),
+  includeTotal: t.Optional(t.Boolean()),
 });
 
 export const GetAllMetaDto = t.Object({
-  total: t.Number(),
-  page: t.Number(),
+  total: t.Optional(t.Number()),
+  page: t.Optional(t.Number()),
   limit: t.Number(),
-  totalPages: t.Number(),
+  totalPages: t.Optional(t.Number()),
+  nextCursor: t.Optional(t.Union([t.String(), t.Null()])),
+  prevCursor: t.Optional(t.Union([t.String(), t.Null()])),
 });
 
 // Type exports
 export type CommonErrorResponseDTOType = typeof CommonErrorResponseDTO;
 export type GetAllMetaDtoType = typeof GetAllMetaDto;
 export type GetAllParamsDtoType = typeof GetAllParamsDto;
+export type PaginationModeDtoType = typeof PaginationModeDto;
 export type StatusDtoType = typeof StatusDto;
 export type SuccessResponseDTOType = typeof SuccessResponseDTO;
 export type ValidationErrorResponseDTOType = typeof ValidationErrorResponseDTO;
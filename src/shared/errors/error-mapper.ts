@@ -83,6 +83,93 @@ export class UnauthorizedError extends AppError {
   }
 }
 
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Forbidden') {
+    super({
+      status: StatusCodes.FORBIDDEN,
+      message,
+      code: 'FORBIDDEN',
+    });
+  }
+}
+
+/** A service we depend on, such as an identity provider, failed or could not be reached. */
+export class BadGatewayError extends AppError {
+  constructor(message: string = 'Bad gateway') {
+    super({
+      status: StatusCodes.BAD_GATEWAY,
+      message,
+      code: 'BAD_GATEWAY',
+    });
+  }
+}
+
+/** The account exists but is not active. The code names its status, e.g. `ACCOUNT_SUSPENDED`. */
+export class AccountStatusError extends AppError {
+  public readonly accountStatus: string;
+
+  constructor(accountStatus: string, message: string = `Account is ${accountStatus}`) {
+    super({
+      status: StatusCodes.FORBIDDEN,
+      message,
+      code: `ACCOUNT_${accountStatus.toUpperCase()}`,
+    });
+    this.accountStatus = accountStatus;
+  }
+}
+
+export class PreconditionFailedError extends AppError {
+  constructor(message: string = 'Precondition failed') {
+    super({
+      status: StatusCodes.PRECONDITION_FAILED,
+      message,
+      code: 'PRECONDITION_FAILED',
+    });
+  }
+}
+
+export class PreconditionRequiredError extends AppError {
+  constructor(message: string = 'Precondition required') {
+    super({
+      status: StatusCodes.PRECONDITION_REQUIRED,
+      message,
+      code: 'PRECONDITION_REQUIRED',
+    });
+  }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(message: string = 'Unsupported media type') {
+    super({
+      status: StatusCodes.UNSUPPORTED_MEDIA_TYPE,
+      message,
+      code: 'UNSUPPORTED_MEDIA_TYPE',
+    });
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  /** Sent as the `Retry-After` header. */
+  public readonly retryAfterSeconds?: number;
+
+  constructor(message: string = 'Too many requests', retryAfterSeconds?: number) {
+    super({
+      status: StatusCodes.TOO_MANY_REQUESTS,
+      message,
+      code: 'TOO_MANY_REQUESTS',
+    });
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+
+  override toResponse() {
+    const response = super.toResponse();
+    if (this.retryAfterSeconds !== undefined) {
+      response.headers.set('Retry-After', String(this.retryAfterSeconds));
+    }
+    return response;
+  }
+}
+
 export class ErrorMapper {
   static register(app: Elysia) {
     return app.error({
@@ -92,6 +179,12 @@ export class ErrorMapper {
       InternalServerError,
       ConflictError,
       UnauthorizedError,
+      ForbiddenError,
+      AccountStatusError,
+      PreconditionFailedError,
+      PreconditionRequiredError,
+      UnsupportedMediaTypeError,
+      TooManyRequestsError,
     });
   }
 
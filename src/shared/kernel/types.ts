@@ -1,4 +1,4 @@
-import { Brand } from './branded.type';
+import { Brand } from './brand.type';
 import { EStatus } from './status.enum';
 
 export type Id = Brand<number, 'Id'>;
@@ -8,17 +8,40 @@ export type UpdatedAt = Brand<Date, 'UpdatedAt'>;
 
 export type RequireFields<T, K extends keyof T> = T & Required<Pick<T, K>>;
 
+export type PaginationMode = 'offset' | 'cursor';
+
+export type SortOrder = 'asc' | 'desc';
+
+export type FilterOperator = 'eq' | 'ne' | 'in' | 'nin' | 'gt' | 'gte' | 'lt' | 'lte' | 'like';
+
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  value: string | string[];
+}
+
+export interface SortTerm {
+  field: string;
+  order: SortOrder;
+}
+
 export interface GetAllParamsType {
   search?: string;
   sort?: string;
   order?: string;
   page?: number;
   limit?: number;
+  pagination?: PaginationMode;
+  cursor?: string;
+  includeTotal?: boolean;
+  filters?: FilterCondition[];
 }
 
 export interface GetAllMetaType {
-  total: number;
-  page: number;
+  total?: number;
+  page?: number;
   limit: number;
-  totalPages: number;
+  totalPages?: number;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
 }
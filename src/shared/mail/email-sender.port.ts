@@ -0,0 +1,10 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailSender {
+  send(message: EmailMessage): Promise<void>;
+}
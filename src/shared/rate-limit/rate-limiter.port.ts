@@ -0,0 +1,18 @@
+export interface RateLimitPolicy {
+  /** Requests allowed per window. */
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the quota is available again; sent as `RateLimit-Reset`. */
+  resetSeconds: number;
+}
+
+export interface RateLimiter {
+  /** Counts one request against `key` and reports whether it fits the policy. */
+  consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+}
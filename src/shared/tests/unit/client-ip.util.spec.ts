@@ -0,0 +1,41 @@
+import type { Context } from 'elysia';
+
+import { getClientIp } from '@shared/utils/client-ip.util';
+
+describe('client-ip.util', () => {
+  const server = { requestIP: () => ({ address: '10.0.0.1' }) } as unknown as Context['server'];
+  const toRequest = (forwardedFor?: string) =>
+    new Request('http://localhost/', { headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {} });
+
+  it('should use the socket address when no proxy is trusted', () => {
+    // Act
+    const actual = getClientIp(toRequest('203.0.113.7'), server, 0);
+
+    // Assert
+    expect(actual).toBe('10.0.0.1');
+  });
+
+  it('should use the right-most entry behind a single proxy', () => {
+    // Act
+    const actual = getClientIp(toRequest('198.51.100.1, 203.0.113.7'), server, 1);
+
+    // Assert
+    expect(actual).toBe('203.0.113.7');
+  });
+
+  it('should skip the entries added by trusted proxies', () => {
+    // Act
+    const actual = getClientIp(toRequest('198.51.100.1, 203.0.113.7, 192.0.2.10'), server, 2);
+
+    // Assert
+    expect(actual).toBe('203.0.113.7');
+  });
+
+  it('should fall back to the socket address without the header', () => {
+    // Act
+    const actual = getClientIp(toRequest(), server, 1);
+
+    // Assert
+    expect(actual).toBe('10.0.0.1');
+  });
+});
@@ -0,0 +1,50 @@
+import { faker } from '@faker-js/faker';
+import { ValidationError } from '@shared/errors/error-mapper';
+import { type CursorPayload, decodeCursor, encodeCursor } from '@shared/utils/cursor.util';
+
+describe('cursor.util', () => {
+  const payload: CursorPayload = {
+    sort: 'created_at',
+    order: 'desc',
+    value: '2025-09-21 10:00:00.123456',
+    id: faker.string.uuid(),
+    direction: 'next',
+  };
+
+  it('should round-trip a cursor payload', () => {
+    // Act
+    const actual = decodeCursor(encodeCursor(payload));
+
+    // Assert
+    expect(actual).toEqual(payload);
+  });
+
+  it('should produce an url-safe opaque string', () => {
+    // Act
+    const cursor = encodeCursor(payload);
+
+    // Assert
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('should throw validation error when cursor is not valid base64 json', () => {
+    // Act & Assert
+    expect(() => decodeCursor('not-a-cursor')).toThrowError(new ValidationError('Invalid cursor'));
+  });
+
+  it('should throw validation error when cursor payload has an unexpected shape', () => {
+    // Arrange
+    const cursor = Buffer.from(JSON.stringify({ ...payload, direction: 'sideways' })).toString('base64url');
+
+    // Act & Assert
+    expect(() => decodeCursor(cursor)).toThrowError(new ValidationError('Invalid cursor'));
+  });
+
+  it('should throw validation error when cursor id is not a uuid', () => {
+    // Arrange
+    const cursor = encodeCursor({ ...payload, id: '1; drop table posts' });
+
+    // Act & Assert
+    expect(() => decodeCursor(cursor)).toThrowError(new ValidationError('Invalid cursor'));
+  });
+});
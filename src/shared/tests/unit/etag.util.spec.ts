@@ -0,0 +1,28 @@
+import { PreconditionRequiredError, ValidationError } from '@shared/errors/error-mapper';
+import { ANY_ETAG, parseIfMatch, requireIfMatch, toEtag } from '@shared/utils/etag.util';
+
+describe('etag.util', () => {
+  it('should round-trip a version through an etag', () => {
+    // Act
+    const actual = parseIfMatch(toEtag(3));
+
+    // Assert
+    expect(actual).toBe(3);
+  });
+
+  it('should accept the wildcard', () => {
+    // Act & Assert
+    expect(parseIfMatch(' * ')).toBe(ANY_ETAG);
+    expect(requireIfMatch('*')).toBeUndefined();
+  });
+
+  it.each(['W/"3"', '3', '"abc"', '"0"', '"1", "2"'])('should reject %s', header => {
+    // Act & Assert
+    expect(() => parseIfMatch(header)).toThrowError(ValidationError);
+  });
+
+  it('should require the header', () => {
+    // Act & Assert
+    expect(() => requireIfMatch(undefined)).toThrowError(new PreconditionRequiredError('If-Match header is required'));
+  });
+});
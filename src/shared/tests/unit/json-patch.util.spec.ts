@@ -0,0 +1,75 @@
+import { ConflictError, ValidationError } from '@shared/errors/error-mapper';
+import { applyJsonPatch, applyMergePatch, resolvePatchFormat } from '@shared/utils/json-patch.util';
+
+describe('json-patch.util', () => {
+  describe('resolvePatchFormat', () => {
+    it('should be resolve the format from the content type', () => {
+      expect(resolvePatchFormat('application/merge-patch+json')).toBe('merge-patch');
+      expect(resolvePatchFormat('application/json; charset=utf-8')).toBe('merge-patch');
+      expect(resolvePatchFormat('application/json-patch+json')).toBe('json-patch');
+      expect(resolvePatchFormat('text/plain')).toBeUndefined();
+      expect(resolvePatchFormat(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('applyMergePatch', () => {
+    it('should be merge objects recursively and remove members set to null', () => {
+      const target = { title: 'a', meta: { tags: ['x'], draft: true }, content: 'c' };
+
+      const actual = applyMergePatch(target, { title: 'b', meta: { draft: null }, content: null });
+
+      expect(actual).toEqual({ title: 'b', meta: { tags: ['x'] } });
+      expect(target).toEqual({ title: 'a', meta: { tags: ['x'], draft: true }, content: 'c' });
+    });
+
+    it('should be replace the target when the patch is not an object', () => {
+      expect(applyMergePatch({ title: 'a' }, ['b'])).toEqual(['b']);
+    });
+  });
+
+  describe('applyJsonPatch', () => {
+    it('should be apply every operation in order', () => {
+      const target = { title: 'a', tags: ['x', 'y'], meta: { draft: true } };
+
+      const actual = applyJsonPatch(target, [
+        { op: 'add', path: '/tags/-', value: 'z' },
+        { op: 'remove', path: '/tags/0' },
+        { op: 'replace', path: '/title', value: 'b' },
+        { op: 'copy', from: '/title', path: '/subtitle' },
+        { op: 'move', from: '/meta/draft', path: '/draft' },
+        { op: 'test', path: '/tags', value: ['y', 'z'] },
+      ]);
+
+      expect(actual).toEqual({ title: 'b', subtitle: 'b', tags: ['y', 'z'], meta: {}, draft: true });
+      expect(target).toEqual({ title: 'a', tags: ['x', 'y'], meta: { draft: true } });
+    });
+
+    it('should be unescape json pointer tokens', () => {
+      expect(applyJsonPatch({}, [{ op: 'add', path: '/a~1b~0c', value: 1 }])).toEqual({ 'a/b~c': 1 });
+    });
+
+    it('should be throw conflict error when a test operation fails', () => {
+      expect(() => applyJsonPatch({ title: 'a' }, [{ op: 'test', path: '/title', value: 'b' }])).toThrowError(
+        new ConflictError('JSON Patch test failed at "/title"')
+      );
+    });
+
+    it('should be throw validation error for malformed patches', () => {
+      expect(() => applyJsonPatch({}, { op: 'add' })).toThrowError(
+        new ValidationError('A JSON Patch document must be an array of operations')
+      );
+      expect(() => applyJsonPatch({}, [{ op: 'merge', path: '/a' }])).toThrowError(
+        new ValidationError('Unsupported JSON Patch operation "merge"')
+      );
+      expect(() => applyJsonPatch({}, [{ op: 'replace', path: '/a', value: 1 }])).toThrowError(
+        new ValidationError('Path "/a" does not exist')
+      );
+      expect(() => applyJsonPatch({}, [{ op: 'add', path: 'a', value: 1 }])).toThrowError(
+        new ValidationError('Invalid JSON pointer "a"')
+      );
+      expect(() => applyJsonPatch({ tags: [] }, [{ op: 'add', path: '/tags/1', value: 1 }])).toThrowError(
+        new ValidationError('Array index "1" is out of bounds')
+      );
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { LruCache } from '@shared/cache/lru-cache';
+
+describe('LruCache', () => {
+  it('should be return a stored value until its ttl has passed', () => {
+    // Arrange
+    const cache = new LruCache<string, number>(10);
+    cache.set('a', 1, 1000, 0);
+
+    // Act
+    const beforeExpiry = cache.get('a', 999);
+    const afterExpiry = cache.get('a', 1000);
+
+    // Assert
+    expect(beforeExpiry).toBe(1);
+    expect(afterExpiry).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should be evict the least recently used entry when full', () => {
+    // Arrange
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1, 1000, 0);
+    cache.set('b', 2, 1000, 0);
+    cache.get('a', 0);
+
+    // Act
+    cache.set('c', 3, 1000, 0);
+
+    // Assert
+    expect(cache.get('a', 0)).toBe(1);
+    expect(cache.get('b', 0)).toBeUndefined();
+    expect(cache.get('c', 0)).toBe(3);
+  });
+
+  it('should be replace an existing entry without evicting another', () => {
+    // Arrange
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1, 1000, 0);
+    cache.set('b', 2, 1000, 0);
+
+    // Act
+    cache.set('a', 10, 1000, 0);
+
+    // Assert
+    expect(cache.size).toBe(2);
+    expect(cache.get('a', 0)).toBe(10);
+    expect(cache.get('b', 0)).toBe(2);
+  });
+});
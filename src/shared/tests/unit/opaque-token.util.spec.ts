@@ -0,0 +1,23 @@
+import { generateOpaqueToken, hashOpaqueToken } from '@shared/utils/opaque-token.util';
+
+describe('opaque-token.util', () => {
+  it('should generate distinct url-safe tokens', () => {
+    // Act
+    const first = generateOpaqueToken();
+    const second = generateOpaqueToken();
+
+    // Assert
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(first).not.toBe(second);
+  });
+
+  it('should hash a token deterministically', () => {
+    // Act
+    const actual = hashOpaqueToken('token');
+
+    // Assert
+    expect(actual).toBe(hashOpaqueToken('token'));
+    expect(actual).not.toBe(hashOpaqueToken('other-token'));
+    expect(actual).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,193 @@
+import type { SQL } from 'drizzle-orm';
+import { PgDialect, pgTable, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+
+import { faker } from '@faker-js/faker';
+import { ValidationError } from '@shared/errors/error-mapper';
+import {
+  buildFilterClause,
+  type FilterWhitelist,
+  isValidFieldValue,
+  parseFilterParams,
+  parseSortParam,
+  resolveSortTerms,
+} from '@shared/utils/query-filter.util';
+
+const items = pgTable('items', {
+  id: uuid('id').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  status: varchar('status', { length: 30 }).notNull(),
+  created_at: timestamp('created_at').notNull(),
+});
+
+const whitelist: FilterWhitelist = {
+  id: { column: items.id, type: 'uuid' },
+  name: { column: items.name, type: 'string' },
+  status: { column: items.status, type: 'enum', values: ['active', 'inactive'] },
+  createdAt: { column: items.created_at, type: 'date' },
+  created_at: { column: items.created_at, type: 'date', filterable: false },
+};
+
+const dialect = new PgDialect();
+const render = (clause: SQL | undefined) => (clause ? dialect.sqlToQuery(clause) : undefined);
+
+describe('query-filter.util', () => {
+  describe('parseFilterParams', () => {
+    it('should parse operators, default to eq and split list values', () => {
+      // Arrange
+      const params = new URLSearchParams(
+        'filter[status][in]=active, inactive&filter[name]=hello&filter[createdAt][gte]=2025-01-01&search=x'
+      );
+
+      // Act
+      const actual = parseFilterParams(params);
+
+      // Assert
+      expect(actual).toEqual([
+        { field: 'status', operator: 'in', value: ['active', 'inactive'] },
+        { field: 'name', operator: 'eq', value: 'hello' },
+        { field: 'createdAt', operator: 'gte', value: '2025-01-01' },
+      ]);
+    });
+
+    it('should throw validation error for unknown operators', () => {
+      // Arrange
+      const params = new URLSearchParams('filter[status][regex]=.*');
+
+      // Act & Assert
+      expect(() => parseFilterParams(params)).toThrowError(
+        new ValidationError('Unsupported filter operator "regex" for "status"')
+      );
+    });
+
+    it('should throw validation error for malformed filter keys', () => {
+      // Arrange
+      const params = new URLSearchParams('filter[status][in][x]=active');
+
+      // Act & Assert
+      expect(() => parseFilterParams(params)).toThrowError(ValidationError);
+    });
+  });
+
+  describe('parseSortParam', () => {
+    it('should parse prefixed fields and fall back to order for unprefixed ones', () => {
+      // Act
+      const actual = parseSortParam('-createdAt,+name,status', 'asc');
+
+      // Assert
+      expect(actual).toEqual([
+        { field: 'createdAt', order: 'desc' },
+        { field: 'name', order: 'asc' },
+        { field: 'status', order: 'asc' },
+      ]);
+    });
+
+    it('should default unprefixed fields to descending order', () => {
+      // Act
+      const actual = parseSortParam('name');
+
+      // Assert
+      expect(actual).toEqual([{ field: 'name', order: 'desc' }]);
+    });
+
+    it('should return an empty list when sort is missing', () => {
+      // Act & Assert
+      expect(parseSortParam(undefined)).toEqual([]);
+    });
+  });
+
+  describe('buildFilterClause', () => {
+    it('should combine whitelisted filters into a parameterized clause', () => {
+      // Arrange
+      const id = faker.string.uuid();
+
+      // Act
+      const actual = render(
+        buildFilterClause(
+          [
+            { field: 'status', operator: 'in', value: ['active', 'inactive'] },
+            { field: 'id', operator: 'ne', value: id },
+            { field: 'name', operator: 'like', value: '50%_off' },
+          ],
+          whitelist
+        )
+      );
+
+      // Assert
+      expect(actual?.sql).toBe('("items"."status" in ($1, $2) and "items"."id" <> $3 and "items"."name" ilike $4)');
+      expect(actual?.params).toEqual(['active', 'inactive', id, '%50\\%\\_off%']);
+    });
+
+    it('should coerce date values', () => {
+      // Act
+      const actual = render(
+        buildFilterClause([{ field: 'createdAt', operator: 'gte', value: '2025-01-01T00:00:00.000Z' }], whitelist)
+      );
+
+      // Assert
+      expect(actual?.sql).toBe('"items"."created_at" >= $1');
+    });
+
+    it('should return undefined when there are no filters', () => {
+      // Act & Assert
+      expect(buildFilterClause([], whitelist)).toBeUndefined();
+    });
+
+    it.each([
+      [{ field: 'password', operator: 'eq' as const, value: 'x' }, 'Filtering by "password" is not supported'],
+      [
+        { field: 'created_at', operator: 'eq' as const, value: '2025-01-01' },
+        'Filtering by "created_at" is not supported',
+      ],
+      [{ field: 'status', operator: 'like' as const, value: 'act' }, 'Operator "like" is not supported for "status"'],
+      [
+        { field: 'status', operator: 'eq' as const, value: 'archived' },
+        'Filter "status" must be one of: active, inactive',
+      ],
+      [{ field: 'id', operator: 'eq' as const, value: 'not-a-uuid' }, 'Filter "id" expects a UUID'],
+      [
+        { field: 'createdAt', operator: 'lt' as const, value: 'yesterday' },
+        'Filter "createdAt" expects an ISO 8601 date',
+      ],
+    ])('should reject %j', (condition, message) => {
+      // Act & Assert
+      expect(() => buildFilterClause([condition], whitelist)).toThrowError(new ValidationError(message));
+    });
+  });
+
+  describe('resolveSortTerms', () => {
+    it('should map sort fields to whitelisted columns', () => {
+      // Act
+      const actual = resolveSortTerms([{ field: 'created_at', order: 'asc' }], whitelist);
+
+      // Assert
+      expect(actual).toEqual([{ field: 'created_at', order: 'asc', column: items.created_at }]);
+    });
+
+    it('should throw validation error for fields outside the whitelist', () => {
+      // Act & Assert
+      expect(() => resolveSortTerms([{ field: 'password', order: 'asc' }], whitelist)).toThrowError(
+        new ValidationError('Sorting by "password" is not supported')
+      );
+    });
+  });
+
+  describe('isValidFieldValue', () => {
+    it.each([
+      [{ type: 'date' as const }, '2025-09-21 10:00:00.123456', true],
+      [{ type: 'date' as const }, 'yesterday', false],
+      [{ type: 'uuid' as const }, faker.string.uuid(), true],
+      [{ type: 'uuid' as const }, 'not-a-uuid', false],
+      [{ type: 'number' as const }, '42', true],
+      [{ type: 'number' as const }, '', false],
+      [{ type: 'enum' as const, values: ['active', 'inactive'] }, 'active', true],
+      [{ type: 'enum' as const, values: ['active', 'inactive'] }, 'archived', false],
+      [{ type: 'string' as const }, 'anything', true],
+    ])('should be check %j against %s', (definition, value, expected) => {
+      // Act
+      const actual = isValidFieldValue(definition, value);
+
+      // Assert
+      expect(actual).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  buildOtpauthUri,
+  decodeBase32,
+  encodeBase32,
+  generateTotp,
+  generateTotpSecret,
+  toTimeStep,
+  verifyTotp,
+} from '@shared/utils/totp.util';
+
+// Secret from the RFC 6238 test vectors ("12345678901234567890").
+const rfcSecret = encodeBase32(Buffer.from('12345678901234567890'));
+
+describe('totp.util', () => {
+  it('should round-trip bytes through base32', () => {
+    // Arrange
+    const bytes = Buffer.from('any carnal pleas');
+
+    // Act
+    const encoded = encodeBase32(bytes);
+
+    // Assert
+    expect(encoded).toBe('MFXHSIDDMFZG4YLMEBYGYZLBOM');
+    expect(decodeBase32(encoded.toLowerCase())).toEqual(bytes);
+  });
+
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+  ])('should match the RFC 6238 SHA-1 vector at %i', (seconds, expected) => {
+    // Act
+    const actual = generateTotp(rfcSecret, new Date(seconds * 1000), { digits: 8 });
+
+    // Assert
+    expect(actual).toBe(expected);
+  });
+
+  it('should accept codes from the adjacent steps and report their step', () => {
+    // Arrange
+    const secret = generateTotpSecret();
+    const now = new Date();
+    const previous = new Date(now.getTime() - 30_000);
+
+    // Act
+    const actual = verifyTotp(secret, generateTotp(secret, previous), now);
+
+    // Assert
+    expect(actual).toBe(toTimeStep(previous));
+  });
+
+  it('should reject codes outside the window or in the wrong shape', () => {
+    // Arrange
+    const secret = generateTotpSecret();
+    const now = new Date();
+    const stale = new Date(now.getTime() - 120_000);
+
+    // Act & Assert
+    expect(verifyTotp(secret, generateTotp(secret, stale), now)).toBeUndefined();
+    expect(verifyTotp(secret, '12345', now)).toBeUndefined();
+    expect(verifyTotp(secret, 'abcdef', now)).toBeUndefined();
+  });
+
+  it('should build an otpauth uri for authenticator apps', () => {
+    // Act
+    const actual = buildOtpauthUri({ secret: 'ABC', accountName: 'jane@example.com', issuer: 'Elysia App' });
+
+    // Assert
+    const [label, query] = actual.split('?');
+    expect(decodeURIComponent(label)).toBe('otpauth://totp/Elysia App:jane@example.com');
+    const params = new URLSearchParams(query);
+    expect(params.get('secret')).toBe('ABC');
+    expect(params.get('issuer')).toBe('Elysia App');
+  });
+});
@@ -0,0 +1,21 @@
+import type { Context } from 'elysia';
+
+/**
+ * Resolves the client address of a request. Each proxy appends the address it received the request from to
+ * `X-Forwarded-For`, so with `trustProxy` proxies in front of the API the client is that many entries from the
+ * right; anything further left was sent by the client and is ignored. With `0` the socket address is used.
+ */
+export const getClientIp = (request: Request, server: Context['server'], trustProxy: number): string | undefined => {
+  if (trustProxy > 0) {
+    const forwardedFor = request.headers
+      .get('x-forwarded-for')
+      ?.split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+    if (forwardedFor?.length) {
+      return forwardedFor[Math.max(forwardedFor.length - trustProxy, 0)];
+    }
+  }
+
+  return server?.requestIP(request)?.address ?? undefined;
+};
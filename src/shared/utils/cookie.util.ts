@@ -81,3 +81,20 @@ export const buildClearRefreshTokenCsrfCookie = (config: AuthConfig): string =>
   base.unshift(`${config.refreshTokenCsrfCookie.name}=`, 'Max-Age=0', 'Expires=Thu, 01 Jan 1970 00:00:00 GMT');
   return base.join('; ');
 };
+
+export const buildOAuthStateCookie = (stateToken: string, expiresAt: Date, config: AuthConfig): string => {
+  const base = buildBaseCookieAttributes(config.oauthStateCookie);
+  base.unshift(
+    `${config.oauthStateCookie.name}=${encodeURIComponent(stateToken)}`,
+    `Max-Age=${config.oauthStateCookie.maxAgeSeconds}`,
+    `Expires=${expiresAt.toUTCString()}`
+  );
+
+  return base.join('; ');
+};
+
+export const buildClearOAuthStateCookie = (config: AuthConfig): string => {
+  const base = buildBaseCookieAttributes(config.oauthStateCookie);
+  base.unshift(`${config.oauthStateCookie.name}=`, 'Max-Age=0', 'Expires=Thu, 01 Jan 1970 00:00:00 GMT');
+  return base.join('; ');
+};
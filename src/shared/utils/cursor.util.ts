@@ -0,0 +1,48 @@
+import { ValidationError } from '@shared/errors/error-mapper';
+import { isUuid } from '@shared/utils/query-filter.util';
+
+export type CursorDirection = 'next' | 'prev';
+export type CursorOrder = 'asc' | 'desc';
+
+export interface CursorPayload {
+  sort: string;
+  order: CursorOrder;
+  value: string;
+  id: string;
+  direction: CursorDirection;
+}
+
+const isCursorPayload = (value: unknown): value is CursorPayload => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.sort === 'string' &&
+    (candidate.order === 'asc' || candidate.order === 'desc') &&
+    typeof candidate.value === 'string' &&
+    typeof candidate.id === 'string' &&
+    isUuid(candidate.id) &&
+    (candidate.direction === 'next' || candidate.direction === 'prev')
+  );
+};
+
+export const encodeCursor = (payload: CursorPayload): string =>
+  Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+
+export const decodeCursor = (cursor: string): CursorPayload => {
+  let decoded: unknown;
+
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  if (!isCursorPayload(decoded)) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  return decoded;
+};
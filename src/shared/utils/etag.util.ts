@@ -0,0 +1,39 @@
+import { PreconditionRequiredError, ValidationError } from '@shared/errors/error-mapper';
+
+export const ANY_ETAG = '*';
+
+/**
+ * Strong entity tag for a versioned resource, e.g. `"3"`.
+ */
+export const toEtag = (version: number): string => `"${version}"`;
+
+/**
+ * Reads the version out of an `If-Match` header. Returns `ANY_ETAG` for `*`; weak tags are rejected because
+ * `If-Match` requires a strong comparison.
+ */
+export const parseIfMatch = (header: string): number | typeof ANY_ETAG => {
+  const value = header.trim();
+  if (value === ANY_ETAG) {
+    return ANY_ETAG;
+  }
+
+  const match = /^"(\d+)"$/.exec(value);
+  const version = match ? Number(match[1]) : Number.NaN;
+  if (!Number.isSafeInteger(version) || version < 1) {
+    throw new ValidationError('If-Match must be a single strong ETag returned by this API');
+  }
+
+  return version;
+};
+
+/**
+ * Reads a mandatory `If-Match` header into the version the client expects, or `undefined` for `*`.
+ */
+export const requireIfMatch = (header: string | undefined): number | undefined => {
+  if (!header?.trim()) {
+    throw new PreconditionRequiredError('If-Match header is required');
+  }
+
+  const version = parseIfMatch(header);
+  return version === ANY_ETAG ? undefined : version;
+};
@@ -0,0 +1,215 @@
+import { ConflictError, ValidationError } from '@shared/errors/error-mapper';
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+export type JsonObject = { [key: string]: JsonValue };
+
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: JsonValue }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+const MERGE_PATCH_CONTENT_TYPE = 'application/merge-patch+json';
+const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json';
+
+export type PatchFormat = 'merge-patch' | 'json-patch';
+
+/**
+ * Picks the patch format from a `Content-Type` header. Plain `application/json` is treated as a merge patch.
+ */
+export const resolvePatchFormat = (contentType: string | undefined): PatchFormat | undefined => {
+  const mediaType = contentType?.split(';')[0]?.trim().toLowerCase();
+  if (mediaType === JSON_PATCH_CONTENT_TYPE) return 'json-patch';
+  if (mediaType === MERGE_PATCH_CONTENT_TYPE || mediaType === 'application/json') return 'merge-patch';
+  return undefined;
+};
+
+const isPlainObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasOwn = (value: object, key: string): boolean => Object.prototype.hasOwnProperty.call(value, key);
+
+const clone = <T extends JsonValue>(value: T): T => structuredClone(value);
+
+/**
+ * Applies a JSON Merge Patch (RFC 7396): objects are merged recursively, `null` removes a member and any
+ * other value replaces it.
+ */
+export const applyMergePatch = (target: JsonValue, patch: unknown): JsonValue => {
+  if (!isPlainObject(patch)) {
+    return clone(patch as JsonValue);
+  }
+
+  const result: JsonObject = isPlainObject(target) ? clone(target) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key] ?? null, value);
+    }
+  }
+
+  return result;
+};
+
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new ValidationError(`Invalid JSON pointer "${pointer}"`);
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+const toArrayIndex = (token: string, length: number, allowEnd: boolean): number => {
+  if (allowEnd && token === '-') return length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new ValidationError(`Invalid array index "${token}"`);
+  }
+
+  const index = Number(token);
+  if (index > length || (!allowEnd && index === length)) {
+    throw new ValidationError(`Array index "${token}" is out of bounds`);
+  }
+  return index;
+};
+
+const getAt = (document: JsonValue, tokens: string[], pointer: string): JsonValue => {
+  let current: JsonValue = document;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[toArrayIndex(token, current.length, false)];
+    } else if (isPlainObject(current) && hasOwn(current, token)) {
+      current = current[token];
+    } else {
+      throw new ValidationError(`Path "${pointer}" does not exist`);
+    }
+  }
+  return current;
+};
+
+const getParent = (document: JsonValue, pointer: string) => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    return undefined;
+  }
+
+  const key = tokens[tokens.length - 1];
+  const parent = getAt(document, tokens.slice(0, -1), pointer);
+  if (!Array.isArray(parent) && !isPlainObject(parent)) {
+    throw new ValidationError(`Path "${pointer}" does not exist`);
+  }
+  return { parent, key };
+};
+
+const addValue = (document: JsonValue, pointer: string, value: JsonValue): JsonValue => {
+  const target = getParent(document, pointer);
+  if (!target) return value;
+
+  const { parent, key } = target;
+  if (Array.isArray(parent)) {
+    parent.splice(toArrayIndex(key, parent.length, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return document;
+};
+
+const removeValue = (document: JsonValue, pointer: string): JsonValue => {
+  const target = getParent(document, pointer);
+  if (!target) {
+    throw new ValidationError('Cannot remove the whole document');
+  }
+
+  const { parent, key } = target;
+  if (Array.isArray(parent)) {
+    parent.splice(toArrayIndex(key, parent.length, false), 1);
+  } else if (hasOwn(parent, key)) {
+    delete parent[key];
+  } else {
+    throw new ValidationError(`Path "${pointer}" does not exist`);
+  }
+  return document;
+};
+
+const isEqual = (left: JsonValue, right: JsonValue): boolean => {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, index) => isEqual(item, right[index]));
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = Object.keys(left);
+    return (
+      keys.length === Object.keys(right).length &&
+      keys.every(key => hasOwn(right, key) && isEqual(left[key], right[key]))
+    );
+  }
+  return left === right;
+};
+
+const assertOperation = (operation: unknown): JsonPatchOperation => {
+  if (!isPlainObject(operation) || typeof operation.op !== 'string' || typeof operation.path !== 'string') {
+    throw new ValidationError('Each JSON Patch operation needs an "op" and a "path"');
+  }
+
+  switch (operation.op) {
+    case 'add':
+    case 'replace':
+    case 'test':
+      if (!hasOwn(operation, 'value')) {
+        throw new ValidationError(`JSON Patch "${operation.op}" operation needs a "value"`);
+      }
+      return operation as JsonPatchOperation;
+    case 'move':
+    case 'copy':
+      if (typeof operation.from !== 'string') {
+        throw new ValidationError(`JSON Patch "${operation.op}" operation needs a "from"`);
+      }
+      return operation as JsonPatchOperation;
+    case 'remove':
+      return operation as JsonPatchOperation;
+    default:
+      throw new ValidationError(`Unsupported JSON Patch operation "${operation.op}"`);
+  }
+};
+
+/**
+ * Applies a JSON Patch (RFC 6902) atomically: the input is never mutated and a failing operation aborts the
+ * whole patch. A failed `test` raises a `ConflictError`, every other problem a `ValidationError`.
+ */
+export const applyJsonPatch = (target: JsonValue, operations: unknown): JsonValue => {
+  if (!Array.isArray(operations)) {
+    throw new ValidationError('A JSON Patch document must be an array of operations');
+  }
+
+  return operations.map(assertOperation).reduce<JsonValue>((document, operation) => {
+    switch (operation.op) {
+      case 'add':
+        return addValue(document, operation.path, clone(operation.value));
+      case 'remove':
+        return removeValue(document, operation.path);
+      case 'replace':
+        getAt(document, parsePointer(operation.path), operation.path);
+        return addValue(removeValue(document, operation.path), operation.path, clone(operation.value));
+      case 'move': {
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          throw new ValidationError('Cannot move a value into one of its children');
+        }
+        const value = getAt(document, parsePointer(operation.from), operation.from);
+        return addValue(removeValue(document, operation.from), operation.path, value);
+      }
+      case 'copy': {
+        const value = getAt(document, parsePointer(operation.from), operation.from);
+        return addValue(document, operation.path, clone(value));
+      }
+      case 'test': {
+        const value = getAt(document, parsePointer(operation.path), operation.path);
+        if (!isEqual(value, operation.value)) {
+          throw new ConflictError(`JSON Patch test failed at "${operation.path}"`);
+        }
+        return document;
+      }
+    }
+  }, clone(target));
+};
@@ -0,0 +1,12 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Random, URL-safe token for links sent to users (email verification, password reset, ...).
+ */
+export const generateOpaqueToken = (bytes = 32): string => randomBytes(bytes).toString('base64url');
+
+/**
+ * Digest stored in place of an opaque token. The tokens carry enough entropy that a fast hash is enough, and
+ * unlike argon2 it can be looked up directly.
+ */
+export const hashOpaqueToken = (token: string): string => createHash('sha256').update(token).digest('hex');
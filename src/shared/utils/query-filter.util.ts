@@ -0,0 +1,227 @@
+import { and, asc, desc, eq, gt, gte, ilike, inArray, lt, lte, ne, notInArray } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+
+import { ValidationError } from '@shared/errors/error-mapper';
+import type { FilterCondition, FilterOperator, SortOrder, SortTerm } from '@shared/kernel/types';
+
+export type FilterFieldType = 'string' | 'enum' | 'uuid' | 'number' | 'date' | 'boolean';
+
+export interface FilterFieldDefinition {
+  column: PgColumn;
+  type: FilterFieldType;
+  /** Allowed values for `enum` fields. */
+  values?: readonly string[];
+  /** Overrides the default operators for the field type. */
+  operators?: readonly FilterOperator[];
+  filterable?: boolean;
+  sortable?: boolean;
+  /** The column may be NULL, so it cannot be the key of cursor (keyset) pagination. */
+  nullable?: boolean;
+}
+
+/**
+ * Per-entity whitelist of the fields exposed to `filter[...]` and `sort`, keyed by their public (API) name.
+ * Anything not listed here is rejected instead of being passed to the database.
+ */
+export type FilterWhitelist = Record<string, FilterFieldDefinition>;
+
+export const FILTER_OPERATORS: readonly FilterOperator[] = ['eq', 'ne', 'in', 'nin', 'gt', 'gte', 'lt', 'lte', 'like'];
+
+const defaultOperators: Record<FilterFieldType, readonly FilterOperator[]> = {
+  string: ['eq', 'ne', 'in', 'nin', 'like'],
+  enum: ['eq', 'ne', 'in', 'nin'],
+  uuid: ['eq', 'ne', 'in', 'nin'],
+  number: ['eq', 'ne', 'in', 'nin', 'gt', 'gte', 'lt', 'lte'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'],
+  boolean: ['eq', 'ne'],
+};
+
+const FILTER_KEY_PATTERN = /^filter\[([A-Za-z0-9_]+)\](?:\[([A-Za-z]+)\])?$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_LIST_VALUES = 100;
+
+export const isUuid = (value: string) => UUID_PATTERN.test(value);
+
+const isFilterOperator = (value: string): value is FilterOperator =>
+  (FILTER_OPERATORS as readonly string[]).includes(value);
+
+const isListOperator = (operator: FilterOperator) => operator === 'in' || operator === 'nin';
+
+/**
+ * Reads `filter[field][operator]=value` pairs from a query string. A missing operator means `eq`, and `in`/`nin`
+ * take a comma separated list.
+ */
+export const parseFilterParams = (params: URLSearchParams): FilterCondition[] => {
+  const filters: FilterCondition[] = [];
+
+  for (const [key, rawValue] of params) {
+    if (!key.startsWith('filter')) continue;
+
+    const match = FILTER_KEY_PATTERN.exec(key);
+    if (!match) {
+      throw new ValidationError(`Invalid filter parameter "${key}"`);
+    }
+
+    const [, field, operator = 'eq'] = match;
+    if (!isFilterOperator(operator)) {
+      throw new ValidationError(`Unsupported filter operator "${operator}" for "${field}"`);
+    }
+
+    const value = isListOperator(operator)
+      ? rawValue
+          .split(',')
+          .map(item => item.trim())
+          .filter(Boolean)
+      : rawValue;
+
+    if (Array.isArray(value) && (value.length === 0 || value.length > MAX_LIST_VALUES)) {
+      throw new ValidationError(`Filter "${field}" expects between 1 and ${MAX_LIST_VALUES} values`);
+    }
+
+    filters.push({ field, operator, value });
+  }
+
+  return filters;
+};
+
+/**
+ * Parses `sort=-createdAt,title`. A `-` prefix sorts descending and `+` ascending; unprefixed fields fall back to
+ * `order` (descending by default, as the single-field `sort`/`order` pair always did).
+ */
+export const parseSortParam = (sort?: string, order?: string): SortTerm[] => {
+  if (!sort?.trim()) return [];
+
+  const fallbackOrder: SortOrder = order?.toLowerCase() === 'asc' ? 'asc' : 'desc';
+
+  return sort
+    .split(',')
+    .map(term => term.trim())
+    .filter(Boolean)
+    .map(term => {
+      if (term.startsWith('-')) return { field: term.slice(1), order: 'desc' };
+      if (term.startsWith('+')) return { field: term.slice(1), order: 'asc' };
+      return { field: term, order: fallbackOrder };
+    });
+};
+
+const coerceValue = (field: string, definition: FilterFieldDefinition, value: string): unknown => {
+  switch (definition.type) {
+    case 'number': {
+      const parsed = Number(value);
+      if (value.trim() === '' || Number.isNaN(parsed)) {
+        throw new ValidationError(`Filter "${field}" expects a number`);
+      }
+      return parsed;
+    }
+    case 'date': {
+      const parsed = new Date(value);
+      if (Number.isNaN(parsed.getTime())) {
+        throw new ValidationError(`Filter "${field}" expects an ISO 8601 date`);
+      }
+      return parsed;
+    }
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') {
+        throw new ValidationError(`Filter "${field}" expects true or false`);
+      }
+      return value === 'true';
+    case 'uuid':
+      if (!isUuid(value)) {
+        throw new ValidationError(`Filter "${field}" expects a UUID`);
+      }
+      return value;
+    case 'enum':
+      if (!definition.values?.includes(value)) {
+        throw new ValidationError(`Filter "${field}" must be one of: ${definition.values?.join(', ') ?? ''}`);
+      }
+      return value;
+    default:
+      return value;
+  }
+};
+
+/** Whether a raw value parses as the field's type, as `filter[...]` values must. */
+export const isValidFieldValue = (
+  definition: Pick<FilterFieldDefinition, 'type' | 'values'>,
+  value: string
+): boolean => {
+  switch (definition.type) {
+    case 'number':
+      return value.trim() !== '' && !Number.isNaN(Number(value));
+    case 'date':
+      return !Number.isNaN(new Date(value).getTime());
+    case 'boolean':
+      return value === 'true' || value === 'false';
+    case 'uuid':
+      return isUuid(value);
+    case 'enum':
+      return Boolean(definition.values?.includes(value));
+    default:
+      return true;
+  }
+};
+
+/** Escapes `%`, `_` and backslashes so user input matches literally inside a `LIKE` pattern. */
+export const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const buildCondition = (condition: FilterCondition, definition: FilterFieldDefinition): SQL => {
+  const { field, operator, value } = condition;
+  const { column } = definition;
+
+  if (isListOperator(operator)) {
+    const values = (Array.isArray(value) ? value : [value]).map(item => coerceValue(field, definition, item));
+    return operator === 'in' ? inArray(column, values) : notInArray(column, values);
+  }
+
+  if (Array.isArray(value)) {
+    throw new ValidationError(`Filter "${field}" with operator "${operator}" expects a single value`);
+  }
+
+  if (operator === 'like') {
+    return ilike(column, `%${escapeLikePattern(value)}%`);
+  }
+
+  const coerced = coerceValue(field, definition, value);
+  const comparators = { eq, ne, gt, gte, lt, lte } as const;
+  return comparators[operator](column, coerced);
+};
+
+/**
+ * Validates parsed filters against the whitelist and combines them with `AND`.
+ */
+export const buildFilterClause = (filters: FilterCondition[], whitelist: FilterWhitelist): SQL | undefined => {
+  const conditions = filters.map(condition => {
+    const definition = whitelist[condition.field];
+    if (!definition || definition.filterable === false) {
+      throw new ValidationError(`Filtering by "${condition.field}" is not supported`);
+    }
+
+    const allowedOperators = definition.operators ?? defaultOperators[definition.type];
+    if (!allowedOperators.includes(condition.operator)) {
+      throw new ValidationError(`Operator "${condition.operator}" is not supported for "${condition.field}"`);
+    }
+
+    return buildCondition(condition, definition);
+  });
+
+  return conditions.length ? and(...conditions) : undefined;
+};
+
+/**
+ * Resolves sort terms to whitelisted columns. Unknown fields are rejected rather than silently ignored.
+ */
+export const resolveSortTerms = (
+  terms: SortTerm[],
+  whitelist: FilterWhitelist
+): Array<SortTerm & { column: PgColumn }> =>
+  terms.map(term => {
+    const definition = whitelist[term.field];
+    if (!definition || definition.sortable === false) {
+      throw new ValidationError(`Sorting by "${term.field}" is not supported`);
+    }
+    return { ...term, column: definition.column };
+  });
+
+export const toOrderBy = (terms: Array<SortTerm & { column: PgColumn }>): SQL[] =>
+  terms.map(term => (term.order === 'asc' ? asc(term.column) : desc(term.column)));
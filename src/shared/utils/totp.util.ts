@@ -0,0 +1,125 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  /** Seconds per time step; authenticator apps use 30. */
+  period?: number;
+  digits?: number;
+}
+
+export interface VerifyTotpOptions extends TotpOptions {
+  /** Steps accepted on either side of the current one, to absorb clock drift. */
+  window?: number;
+}
+
+export const encodeBase32 = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const decodeBase32 = (input: string): Buffer => {
+  const normalized = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * 160-bit shared secret, base32 encoded as authenticator apps expect.
+ */
+export const generateTotpSecret = (): string => encodeBase32(randomBytes(20));
+
+export const toTimeStep = (date: Date, period = 30): number => Math.floor(date.getTime() / 1000 / period);
+
+/**
+ * HOTP value (RFC 4226) for a counter; TOTP (RFC 6238) uses the time step as the counter.
+ */
+export const generateHotp = (secret: string, counter: number, digits = 6): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac('sha1', decodeBase32(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** digits).padStart(digits, '0');
+};
+
+export const generateTotp = (secret: string, at: Date, { period = 30, digits = 6 }: TotpOptions = {}): string =>
+  generateHotp(secret, toTimeStep(at, period), digits);
+
+/**
+ * Returns the time step the code belongs to, or `undefined` when it matches none in the window. Callers
+ * store the step and refuse codes at or before it, so a code cannot be replayed.
+ */
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  at: Date,
+  { period = 30, digits = 6, window = 1 }: VerifyTotpOptions = {}
+): number | undefined => {
+  if (!new RegExp(`^\\d{${digits}}$`).test(code)) {
+    return undefined;
+  }
+
+  const current = toTimeStep(at, period);
+  const given = Buffer.from(code);
+
+  for (let step = current - window; step <= current + window; step += 1) {
+    if (timingSafeEqual(Buffer.from(generateHotp(secret, step, digits)), given)) {
+      return step;
+    }
+  }
+
+  return undefined;
+};
+
+export const buildOtpauthUri = ({
+  secret,
+  accountName,
+  issuer,
+}: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: '6', period: '30' });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};